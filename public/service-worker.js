@@ -1,9 +1,17 @@
 // Service Worker for Shimizu Technology Web App
 // Handles push notifications and offline functionality
 
-const CACHE_NAME = 'shimizu-technology-cache-v1';
+const CACHE_NAME = 'shimizu-technology-cache-v2';
 const OFFLINE_URL = '/offline.html';
-const VERSION = '1.0.1'; // Increment this when you update the service worker
+const APP_SHELL_URL = '/index.html';
+const VERSION = '1.1.0'; // Increment this when you update the service worker
+
+// Offline order queue - must match src/shared/utils/offlineDb.ts
+const OFFLINE_DB_NAME = 'shimizu-offline';
+const OFFLINE_DB_VERSION = 1;
+const ORDER_QUEUE_STORE = 'orderQueue';
+const ORDER_QUEUE_SYNC_TAG = 'order-queue';
+const QUEUE_CLAIM_TTL_MS = 60 * 1000;
 
 console.log(`[Service Worker] Initializing service worker version ${VERSION}`);
 
@@ -92,12 +100,25 @@ self.addEventListener('fetch', event => {
     return;
   }
   
-  // For page navigations, use cache-first strategy
+  // For page navigations, use network-first and keep the app shell fresh.
+  // Offline, serve the cached shell so the app (and its cached menu) still loads.
   if (event.request.mode === 'navigate') {
     event.respondWith(
       fetch(event.request)
+        .then(response => {
+          if (response && response.status === 200) {
+            const responseToCache = response.clone();
+            caches.open(CACHE_NAME)
+              .then(cache => cache.put(APP_SHELL_URL, responseToCache))
+              .catch(error => {
+                console.warn('[Service Worker] Could not update app shell cache:', error);
+              });
+          }
+          return response;
+        })
         .catch(() => {
-          return caches.match(OFFLINE_URL);
+          return caches.match(APP_SHELL_URL)
+            .then(response => response || caches.match(OFFLINE_URL));
         })
     );
     return;
@@ -160,6 +181,168 @@ self.addEventListener('fetch', event => {
   );
 });
 
+// Open the offline database shared with the app
+function openOfflineDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('catalog')) {
+        db.createObjectStore('catalog', { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(ORDER_QUEUE_STORE)) {
+        db.createObjectStore(ORDER_QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function queueRequest(db, mode, makeRequest) {
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(ORDER_QUEUE_STORE, mode).objectStore(ORDER_QUEUE_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Mark an entry as being replayed so an open page doesn't send it at the
+// same time. Mirrors claimQueuedRequest in src/shared/utils/offlineDb.ts.
+function claimQueuedEntry(db, id) {
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(ORDER_QUEUE_STORE, 'readwrite').objectStore(ORDER_QUEUE_STORE);
+    const getRequest = store.get(id);
+    getRequest.onsuccess = () => {
+      const entry = getRequest.result;
+      const now = Date.now();
+      if (!entry || entry.failed || (entry.claimedAt && now - entry.claimedAt < QUEUE_CLAIM_TTL_MS)) {
+        resolve(null);
+        return;
+      }
+      const claimed = {
+        ...entry,
+        claimedAt: now,
+        idempotencyKey: entry.idempotencyKey || self.crypto.randomUUID()
+      };
+      const putRequest = store.put(claimed);
+      putRequest.onsuccess = () => resolve(claimed);
+      putRequest.onerror = () => reject(putRequest.error);
+    };
+    getRequest.onerror = () => reject(getRequest.error);
+  });
+}
+
+// The session token lives in the page's localStorage, which the service
+// worker can't read, so ask an open window for it
+async function requestAuthToken() {
+  const clientList = await self.clients.matchAll({ type: 'window' });
+  for (const client of clientList) {
+    const token = await new Promise(resolve => {
+      const channel = new MessageChannel();
+      const timer = setTimeout(() => resolve(null), 3000);
+      channel.port1.onmessage = event => {
+        clearTimeout(timer);
+        resolve(event.data && event.data.token);
+      };
+      client.postMessage({ type: 'GET_AUTH_TOKEN' }, [channel.port2]);
+    });
+    if (token) return token;
+  }
+  return null;
+}
+
+function buildReplayHeaders(entry, token) {
+  const headers = { ...entry.headers };
+  // Entries queued by older builds may still carry a stored token
+  delete headers.Authorization;
+  if (entry.idempotencyKey) {
+    headers['Idempotency-Key'] = entry.idempotencyKey;
+  }
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+// Replay orders that staff created while offline
+async function replayOrderQueue() {
+  const db = await openOfflineDb();
+  const entries = await queueRequest(db, 'readonly', store => store.getAll());
+  if (!entries.some(entry => !entry.failed)) return;
+
+  const token = await requestAuthToken();
+  if (!token) {
+    // No signed-in window to authenticate with; the page replays the
+    // queue itself when staff next open the app
+    console.warn('[Service Worker] No session available to replay queued orders');
+    return;
+  }
+
+  let synced = 0;
+  let failed = 0;
+  let retryable = 0;
+
+  for (const queuedEntry of entries) {
+    if (queuedEntry.failed) continue;
+
+    // Skip entries the page is already sending
+    const entry = await claimQueuedEntry(db, queuedEntry.id);
+    if (!entry) continue;
+
+    let response;
+    try {
+      response = await fetch(entry.url, {
+        method: entry.method,
+        headers: buildReplayHeaders(entry, token),
+        body: entry.body
+      });
+    } catch (error) {
+      // Still offline - release the claim; throwing tells the browser to retry the sync later
+      await queueRequest(db, 'readwrite', store => store.put({ ...entry, claimedAt: undefined }));
+      console.warn('[Service Worker] Order replay failed, will retry:', error);
+      throw error;
+    }
+
+    if (response.ok) {
+      await queueRequest(db, 'readwrite', store => store.delete(entry.id));
+      synced++;
+    } else {
+      // 4xx means the server rejected the order; keep it for staff to review
+      // instead of retrying forever. 5xx gets retried on the next sync.
+      const rejected = response.status < 500;
+      await queueRequest(db, 'readwrite', store => store.put({
+        ...entry,
+        claimedAt: undefined,
+        attempts: (entry.attempts || 0) + 1,
+        failed: rejected,
+        lastError: `${response.status} ${response.statusText}`
+      }));
+      if (rejected) {
+        failed++;
+      } else {
+        retryable++;
+      }
+    }
+  }
+
+  const clientList = await self.clients.matchAll({ type: 'window' });
+  clientList.forEach(client => {
+    client.postMessage({ type: 'ORDER_QUEUE_SYNCED', synced, failed });
+  });
+
+  if (retryable > 0) {
+    throw new Error(`${retryable} queued orders hit a server error`);
+  }
+}
+
+// Background sync event - send queued orders once the connection returns
+self.addEventListener('sync', event => {
+  if (event.tag === ORDER_QUEUE_SYNC_TAG) {
+    event.waitUntil(replayOrderQueue());
+  }
+});
+
 // Push event - handle incoming push notifications
 self.addEventListener('push', event => {
   console.log('[Service Worker] Push received:', event);
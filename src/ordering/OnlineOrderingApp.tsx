@@ -8,8 +8,10 @@ import { MenuPage } from './components/MenuPage';
 import { CartPage } from './components/CartPage';
 import { CheckoutPage } from './components/CheckoutPage';
 import { OrderConfirmation } from './components/OrderConfirmation';
+import { OrderTrackingPage } from './components/OrderTrackingPage';
 import MerchandisePage from './components/MerchandisePage';
 import AdminDashboard from './components/admin/AdminDashboard';
+import KitchenDisplay from './components/kitchen/KitchenDisplay';
 import { LoadingSpinner } from '../shared/components/ui';
 import { LoginForm, SignUpForm, ForgotPasswordForm, ResetPasswordForm, VerifyPhonePage } from '../shared/components/auth';
 import { OrderHistory } from './components/profile/OrderHistory';
@@ -399,6 +401,8 @@ export default function OnlineOrderingApp() {
         <Route path="cart" element={<CartPage />} />
         <Route path="checkout" element={<CheckoutPage />} />
         <Route path="order-confirmation" element={<OrderConfirmation />} />
+        {/* Public tracking page; guests open it with the signed link from their confirmation */}
+        <Route path="orders/:id/track" element={<OrderTrackingPage />} />
 
         {/* Admin only => /admin */}
         <Route
@@ -410,6 +414,16 @@ export default function OnlineOrderingApp() {
           }
         />
 
+        {/* Kitchen display => /kitchen */}
+        <Route
+          path="kitchen"
+          element={
+            <ProtectedRoute adminOnly>
+              <KitchenDisplay />
+            </ProtectedRoute>
+          }
+        />
+
         {/* Auth */}
         <Route path="login" element={
           <AnonymousRoute>
@@ -1,11 +1,26 @@
 // src/ordering/components/CartPage.tsx
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Trash2, ArrowRight, Minus, Plus, Settings } from 'lucide-react';
 import { useOrderStore, CartItem } from '../store/orderStore';
 import { useMenuStore } from '../store/menuStore';
+import { useLoyaltyStore } from '../store/loyaltyStore';
+import { useUpsellStore } from '../store/upsellStore';
+import { usePromoStore } from '../store/promoStore';
+import { useLocationStore } from '../store/locationStore';
+import { calculateRedemptionValue } from '../utils/loyaltyUtils';
+import { calculatePromoBreakdown } from '../utils/promoUtils';
+import { evaluateUpsellRules } from '../utils/upsellUtils';
+import { applyLocationOverrides } from '../utils/locationUtils';
+import type { MenuItem } from '../types/menu';
+import type { UpsellSuggestion } from '../types/upsell';
 import { CustomizationModal } from './CustomizationModal';
+import { LoyaltyRedemption } from './loyalty/LoyaltyRedemption';
+import { PromoCodeInput } from './promo/PromoCodeInput';
+import { PromoBreakdownLines } from './promo/PromoBreakdownLines';
+import { UpsellModal } from './upsell/UpsellModal';
 import OptimizedImage from '../../shared/components/ui/OptimizedImage';
+import { useRestaurantStore } from '../../shared/store/restaurantStore';
 
 export function CartPage() {
   const navigate = useNavigate();
@@ -13,14 +28,29 @@ export function CartPage() {
   
   // State for customization modal
   const [itemToCustomize, setItemToCustomize] = useState<any>(null);
+  // Rule behind an upsell item that went to the customization modal
+  const [customizeUpsellRuleId, setCustomizeUpsellRuleId] = useState<number | undefined>(undefined);
+
+  // Suggestions shown in the upsell modal; snapshotted when it opens so
+  // items don't disappear from the list as the customer adds them
+  const [upsellSuggestions, setUpsellSuggestions] = useState<UpsellSuggestion[] | null>(null);
+  const [upsellShown, setUpsellShown] = useState(false);
 
   // We pull the actions from our store
   const {
     cartItems,
+    addToCart,
     setCartQuantity,
     removeFromCart,
     setCartItemNotes
   } = useOrderStore();
+
+  const { rules: upsellRules, fetchRules: fetchUpsellRules } = useUpsellStore();
+  const selectedLocationId = useLocationStore((state) => state.selectedLocationId);
+  const locationOverrides = useLocationStore((state) =>
+    state.selectedLocationId ? state.overridesByLocation[state.selectedLocationId] : undefined
+  );
+  const loadSelectedOverrides = useLocationStore((state) => state.loadSelectedOverrides);
   
   // Make sure menu items are loaded (for finding original items with option groups)
   React.useEffect(() => {
@@ -29,12 +59,79 @@ export function CartPage() {
     }
   }, [fetchMenuItems, menuItems.length]);
 
+  React.useEffect(() => {
+    fetchUpsellRules();
+  }, [fetchUpsellRules]);
+
+  React.useEffect(() => {
+    loadSelectedOverrides();
+  }, [selectedLocationId, loadSelectedOverrides]);
+
+  // The menu as sold at the selected location, for anything added from this page
+  const locationMenuItems = useMemo(
+    () => applyLocationOverrides(menuItems, locationOverrides || []),
+    [menuItems, locationOverrides]
+  );
+
+  const suggestions = useMemo(
+    () => evaluateUpsellRules(upsellRules, cartItems, locationMenuItems),
+    [upsellRules, cartItems, locationMenuItems]
+  );
+
   // Sum up the total
   const total = cartItems.reduce(
     (sum, item) => sum + item.price * item.quantity,
     0
   );
 
+  // Promo applied via PromoCodeInput; recalculated as the cart changes
+  const { appliedPromo, customerUses } = usePromoStore();
+  const timeZone = useRestaurantStore((state) => state.restaurant?.time_zone || undefined);
+  const promoBreakdown = useMemo(
+    () => appliedPromo
+      ? calculatePromoBreakdown(appliedPromo, cartItems, menuItems, { customerUses, timeZone })
+      : null,
+    [appliedPromo, cartItems, menuItems, customerUses, timeZone]
+  );
+  const discountedTotal = promoBreakdown?.valid ? promoBreakdown.newTotal : total;
+
+  // Points discount chosen via LoyaltyRedemption, carried through to checkout
+  const pointsToRedeem = useLoyaltyStore((state) => state.pointsToRedeem);
+  const loyaltySettings = useLoyaltyStore((state) => state.settings);
+  const loyaltyDiscount = Math.min(calculateRedemptionValue(pointsToRedeem, loyaltySettings), discountedTotal);
+
+  // Offer suggestions once per visit before heading to checkout
+  const handleProceedToCheckout = () => {
+    if (!upsellShown && suggestions.length > 0) {
+      setUpsellShown(true);
+      setUpsellSuggestions(suggestions);
+      return;
+    }
+    navigate('/checkout');
+  };
+
+  const handleUpsellAdd = (item: MenuItem, ruleId: number) => {
+    // Items with options need to go through the customization modal first
+    if (item.has_options || (item.option_groups && item.option_groups.length > 0)) {
+      setUpsellSuggestions(null);
+      setCustomizeUpsellRuleId(ruleId);
+      setItemToCustomize(item);
+      return;
+    }
+    addToCart(
+      {
+        id: item.id,
+        name: item.name,
+        price: item.price,
+        customizations: [],
+        image: item.image,
+        advance_notice_hours: item.advance_notice_hours,
+        upsell_rule_id: ruleId,
+      },
+      1
+    );
+  };
+
   if (cartItems.length === 0) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
@@ -143,7 +240,7 @@ export function CartPage() {
                             className="mr-2 px-3 py-1.5 text-sm text-[#0078d4] border border-[#0078d4] rounded-md hover:bg-[#0078d4]/10 flex items-center"
                             onClick={() => {
                               // Find the original menu item to get its option groups
-                              const originalItem = menuItems.find(mi => mi.id === item.id);
+                              const originalItem = locationMenuItems.find(mi => mi.id === item.id);
                               if (originalItem) {
                                 setItemToCustomize(originalItem);
                               }
@@ -184,15 +281,36 @@ export function CartPage() {
                 Order Summary
               </h2>
               <div className="space-y-4">
+                <PromoCodeInput
+                  cartItems={cartItems}
+                  menuItems={menuItems}
+                  breakdown={promoBreakdown}
+                />
+                <LoyaltyRedemption subtotal={discountedTotal} />
+                {(loyaltyDiscount > 0 || (promoBreakdown?.valid && promoBreakdown.totalDiscount > 0)) && (
+                  <div className="space-y-1 text-sm text-gray-600">
+                    <div className="flex justify-between">
+                      <span>Subtotal</span>
+                      <span>${total.toFixed(2)}</span>
+                    </div>
+                    <PromoBreakdownLines breakdown={promoBreakdown} />
+                    {loyaltyDiscount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Rewards points</span>
+                        <span>-${loyaltyDiscount.toFixed(2)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
                 <div className="flex justify-between text-lg font-medium">
                   <span>Total</span>
-                  <span>${total.toFixed(2)}</span>
+                  <span>${(discountedTotal - loyaltyDiscount).toFixed(2)}</span>
                 </div>
                 <button
                   className="w-full flex items-center justify-center px-6 py-3 border
                            border-transparent text-base font-medium rounded-md text-white
                            bg-[#0078d4] hover:bg-[#50a3d9]"
-                  onClick={() => navigate('/checkout')}
+                  onClick={handleProceedToCheckout}
                 >
                   Proceed to Checkout
                   <ArrowRight className="ml-2 h-5 w-5" />
@@ -203,11 +321,28 @@ export function CartPage() {
         </div>
       </div>
       
+      {/* Upsell Modal */}
+      {upsellSuggestions && (
+        <UpsellModal
+          suggestions={upsellSuggestions}
+          cartSubtotal={total}
+          onAddToCart={handleUpsellAdd}
+          onClose={() => {
+            setUpsellSuggestions(null);
+            navigate('/checkout');
+          }}
+        />
+      )}
+
       {/* Customization Modal */}
       {itemToCustomize && (
         <CustomizationModal
           item={itemToCustomize}
-          onClose={() => setItemToCustomize(null)}
+          upsellRuleId={customizeUpsellRuleId}
+          onClose={() => {
+            setItemToCustomize(null);
+            setCustomizeUpsellRuleId(undefined);
+          }}
         />
       )}
     </>
@@ -1,13 +1,16 @@
 // src/ordering/components/CheckoutPage.tsx
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Mail, Phone, User } from 'lucide-react';
+import { Mail, Phone, User, UtensilsCrossed } from 'lucide-react';
 import toastUtils from '../../shared/utils/toastUtils';
+import { trackCustomerEvent, EventNames } from '../../shared/utils/analyticsUtils';
 import OptimizedImage from '../../shared/components/ui/OptimizedImage';
 
 import { useAuthStore } from '../store/authStore';
 import { usePromoStore } from '../store/promoStore';
 import { useOrderStore } from '../store/orderStore';
+import { useLoyaltyStore } from '../store/loyaltyStore';
+import { useMenuStore } from '../store/menuStore';
 import { LoadingSpinner } from '../../shared/components/ui';
 import { FormSkeleton } from '../../shared/components/ui/SkeletonLoader';
 import { useRestaurantStore } from '../../shared/store/restaurantStore';
@@ -18,14 +21,33 @@ import { PickupInfo } from './location/PickupInfo';
 import { VipCodeInput } from './VipCodeInput';
 import { PayPalCheckout, PayPalCheckoutRef } from './payment/PayPalCheckout';
 import { StripeCheckout, StripeCheckoutRef } from './payment/StripeCheckout';
+import { TipSelector } from './payment/TipSelector';
 import LocationSelector from './customer/LocationSelector';
+import { useLocationStore } from '../store/locationStore';
+import { useTableStore } from '../store/tableStore';
+import { PickupTimeSelector } from './customer/PickupTimeSelector';
+import { FulfillmentSelector } from './customer/FulfillmentSelector';
+import { LoyaltyRedemption } from './loyalty/LoyaltyRedemption';
+import { PromoCodeInput } from './promo/PromoCodeInput';
+import { PromoBreakdownLines } from './promo/PromoBreakdownLines';
+import { formatPickupTime } from '../utils/pickupTimeUtils';
+import { calculatePointsEarned, calculateRedemptionValue } from '../utils/loyaltyUtils';
+import { calculatePromoBreakdown } from '../utils/promoUtils';
+import { localizeCartItems } from '../utils/locationUtils';
+import { buildTrackingPath } from '../utils/orderTrackingUtils';
+import {
+  EMPTY_DELIVERY_ADDRESS,
+  formatDeliveryAddress,
+  getDeliverySettings,
+  getMinimumShortfall,
+} from '../utils/deliveryUtils';
+import type { DeliveryAddress, DeliveryQuote, FulfillmentType } from '../types/delivery';
 
 interface CheckoutFormData {
   name: string;
   email: string;
   phone: string;
   specialInstructions: string;
-  promoCode: string;
   vipCode: string;
 }
 
@@ -44,29 +66,72 @@ export function CheckoutPage() {
   const cartItems = useOrderStore((state) => state.cartItems);
   const addOrder = useOrderStore((state) => state.addOrder);
   const loading = useOrderStore((state) => state.loading);
+  const setCartItems = useOrderStore((state) => state.setCartItems);
 
-  const { validatePromoCode, applyDiscount } = usePromoStore();
+  const { menuItems, fetchMenuItems } = useMenuStore();
+  const { appliedPromo, customerUses, clearAppliedPromo } = usePromoStore();
+  const restaurant = useRestaurantStore((state) => state.restaurant);
   const rawTotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
 
+  // Recalculated whenever the cart changes, so an applied code that stops
+  // qualifying (e.g. below its minimum) simply stops discounting
+  const promoBreakdown = useMemo(
+    () => appliedPromo
+      ? calculatePromoBreakdown(appliedPromo, cartItems, menuItems, {
+          customerUses,
+          timeZone: restaurant?.time_zone || undefined,
+        })
+      : null,
+    [appliedPromo, cartItems, menuItems, customerUses, restaurant?.time_zone]
+  );
+  const finalTotal = promoBreakdown?.valid ? promoBreakdown.newTotal : rawTotal;
+
   const initialFormData: CheckoutFormData = {
     name: user ? `${user.first_name} ${user.last_name}` : '',
     email: user?.email || '',
     phone: user?.phone || '', // if user has phone => use it, else blank => +1671 later
     specialInstructions: '',
-    promoCode: '',
     vipCode: '',
   };
 
-  const restaurant = useRestaurantStore((state) => state.restaurant);
   const [formData, setFormData] = useState<CheckoutFormData>(initialFormData);
-  const [appliedPromo, setAppliedPromo] = useState<string | null>(null);
-  const [finalTotal, setFinalTotal] = useState(rawTotal);
   const [vipCodeValid, setVipCodeValid] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [paymentProcessing, setPaymentProcessing] = useState(false);
   const [paymentProcessed, setPaymentProcessed] = useState(false);
   const [paymentTransactionId, setPaymentTransactionId] = useState<string | null>(null);
-  const [locationId, setLocationId] = useState<number | undefined>(undefined);
+  // Shared with the menu so prices and hours match the location being ordered from
+  const locationId = useLocationStore((state) => state.selectedLocationId) ?? undefined;
+  const setLocationId = useLocationStore((state) => state.setSelectedLocationId);
+  const fetchOverrides = useLocationStore((state) => state.fetchOverrides);
+  // Scheduled pickup time as an ISO string; null means ASAP
+  const [pickupTime, setPickupTime] = useState<string | null>(null);
+  // "Schedule for later" picked; checkout waits for a slot instead of falling back to ASAP
+  const [scheduleLater, setScheduleLater] = useState(false);
+  const [tipAmount, setTipAmount] = useState(0);
+  const [fulfillmentType, setFulfillmentType] = useState<FulfillmentType>('pickup');
+  const [deliveryAddress, setDeliveryAddress] = useState<DeliveryAddress>(EMPTY_DELIVERY_ADDRESS);
+  const [deliveryQuote, setDeliveryQuote] = useState<DeliveryQuote | null>(null);
+  // Dine-in guests (arrived via a table QR code) can leave the order open and pay with staff
+  const table = useTableStore((state) => state.table);
+  const [payAtEnd, setPayAtEnd] = useState(false);
+  const isDineIn = !!table;
+
+  const deliverySettings = getDeliverySettings(restaurant?.admin_settings);
+  const deliveryAvailable = !isDineIn && deliverySettings.enabled && deliverySettings.zones.length > 0;
+  const isDelivery = deliveryAvailable && fulfillmentType === 'delivery';
+  // Quoted by the server, which prices delivery again when the order is placed
+  const deliveryFee = isDelivery && deliveryQuote ? Number(deliveryQuote.fee) : 0;
+  const awaitingSlot = !isDineIn && scheduleLater && !pickupTime;
+
+  const selectedPoints = useLoyaltyStore((state) => state.pointsToRedeem);
+  // Points belong to an account, so guest checkouts never redeem any
+  const pointsToRedeem = user ? selectedPoints : 0;
+  const loyaltySettings = useLoyaltyStore((state) => state.settings);
+  const loyaltyDiscount = Math.min(calculateRedemptionValue(pointsToRedeem, loyaltySettings), finalTotal);
+
+  // Points come off the (possibly promo-discounted) order total; the tip and delivery fee are charged on top
+  const chargedTotal = Math.round((finalTotal - loyaltyDiscount + tipAmount + deliveryFee) * 100) / 100;
   
   // Refs for payment components
   const paypalRef = useRef<PayPalCheckoutRef>(null);
@@ -98,19 +163,21 @@ export function CheckoutPage() {
     }
   }, [user]);
 
-  // Update final total whenever cart items change
+  // Category and item restrictions on promos need the menu loaded
   useEffect(() => {
-    setFinalTotal(rawTotal);
-    // Reset applied promo when cart changes
-    setAppliedPromo(null);
-  }, [rawTotal]);
+    if (menuItems.length === 0) {
+      fetchMenuItems();
+    }
+  }, [fetchMenuItems, menuItems.length]);
   
   // Fetch default location on component mount
   useEffect(() => {
     // Fetch all locations to find the default one
     locationsApi.getLocations({ active: true })
       .then(locations => {
-        if (locations && locations.length > 0) {
+        // Keep the location chosen on the menu if it's still available
+        const current = useLocationStore.getState().selectedLocationId;
+        if (locations && locations.length > 0 && !locations.some(loc => loc.id === current)) {
           // Find the default location or use the first one
           const defaultLocation = locations.find(loc => loc.is_default) || locations[0];
           setLocationId(defaultLocation.id);
@@ -119,8 +186,45 @@ export function CheckoutPage() {
       .catch(err => {
         console.error('Error fetching default location:', err);
       });
-  }, []);
+  }, [setLocationId]);
   
+  // Reprice the cart for the location being ordered from, dropping anything it doesn't offer
+  useEffect(() => {
+    if (!locationId || menuItems.length === 0) return;
+    let cancelled = false;
+    fetchOverrides(locationId)
+      .then((overrides) => {
+        if (cancelled) return;
+        // Without this location's overrides we can't tell what it sells or charges; leave the cart alone
+        if (!overrides) {
+          toastUtils.error(
+            `Couldn't check your cart against this location's menu: ${useLocationStore.getState().error || 'unknown error'}`
+          );
+          return;
+        }
+        const { items, removed, changed } = localizeCartItems(
+          useOrderStore.getState().cartItems,
+          menuItems,
+          overrides
+        );
+        if (!changed) return;
+        setCartItems(items);
+        if (removed.length > 0) {
+          toastUtils.error(
+            `Removed from your cart (not available at this location): ${removed.map((item) => item.name).join(', ')}`
+          );
+        } else {
+          toastUtils.success('Cart prices updated for this location');
+        }
+      })
+      .catch((err) => {
+        console.error('Error repricing cart for location:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [locationId, menuItems, fetchOverrides, setCartItems]);
+
   // We don't need to fetch location details here as the PickupInfo component handles this
 
   function handleInputChange(e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) {
@@ -128,24 +232,6 @@ export function CheckoutPage() {
     setFormData((prev) => ({ ...prev, [name]: value }));
   }
 
-  async function handleApplyPromo() {
-    const isValid = validatePromoCode(formData.promoCode);
-    if (isValid) {
-      try {
-        // Get the discounted total and update state - handle the Promise properly
-        const discountedTotal = await applyDiscount(rawTotal, formData.promoCode);
-        setFinalTotal(discountedTotal);
-        setAppliedPromo(formData.promoCode);
-        toastUtils.success(`Promo code ${formData.promoCode} applied!`);
-      } catch (error) {
-        console.error('Error applying discount:', error);
-        toastUtils.error('Failed to apply promo code. Please try again.');
-      }
-    } else {
-      toastUtils.error('Invalid or expired promo code');
-    }
-  }
-
   const handleVipCodeChange = (code: string, valid: boolean) => {
     setFormData((prev) => ({ ...prev, vipCode: code }));
     setVipCodeValid(valid);
@@ -221,24 +307,56 @@ export function CheckoutPage() {
       
       // Use transaction ID as the payment_method_nonce since that's
       // what the API expects from the previous implementation
-      const newOrder = await addOrder(
-        cartItems,
-        finalTotal,
-        formData.specialInstructions,
-        formData.name,
-        finalPhone,
-        formData.email,
+      const newOrder = await addOrder({
+        items: cartItems,
+        total: chargedTotal,
+        specialInstructions: formData.specialInstructions,
+        contactName: formData.name,
+        contactPhone: finalPhone,
+        contactEmail: formData.email,
         transactionId, // Use the transaction ID as the payment method nonce
-        actualPaymentMethod, // Use the correct payment method based on the processor
-        formData.vipCode,
-        false, // Not a staff order
+        paymentMethod: actualPaymentMethod, // Use the correct payment method based on the processor
+        vipCode: formData.vipCode,
         paymentDetails, // Include detailed payment information
-        locationId // Include the selected location ID
-      );
+        locationId, // Include the selected location ID
+        pickupTime: isDineIn ? null : pickupTime, // Scheduled pickup time, or null for ASAP
+        tip: tipAmount, // Tip is included in the total and reported separately
+        loyaltyPointsRedeemed: pointsToRedeem, // Rewards points applied as a discount
+        promoCode: promoBreakdown?.valid ? promoBreakdown.code : null, // Server re-checks the promo
+        delivery: isDelivery && deliveryQuote ? { address: deliveryAddress, quoted_fee: deliveryFee } : null,
+        dineIn: table ? { table, pay_at_end: payAtEnd } : null,
+      });
 
       toastUtils.success('Order placed successfully!');
 
-      const estimatedTime = hasAny24hrItem ? '24 hours' : '20–25 min';
+      // An upsell only counts as converted once the order containing it is placed
+      cartItems
+        .filter((item) => item.upsell_rule_id)
+        .forEach((item) => {
+          trackCustomerEvent(EventNames.UPSELL_CONVERTED, {
+            rule_id: item.upsell_rule_id,
+            item_id: item.id,
+            item_name: item.name,
+            quantity: item.quantity,
+            revenue: item.price * item.quantity,
+            order_id: newOrder.id,
+          });
+        });
+
+      // Points are earned on what the customer paid for food, not on the tip
+      const pointsEarned = user
+        ? newOrder.loyalty_points_earned ?? calculatePointsEarned(finalTotal - loyaltyDiscount, loyaltySettings)
+        : 0;
+      const { clearRedemption, fetchAccount } = useLoyaltyStore.getState();
+      clearRedemption();
+      clearAppliedPromo();
+      if (user) {
+        fetchAccount();
+      }
+
+      const estimatedTime = pickupTime
+        ? formatPickupTime(pickupTime, restaurant?.time_zone || undefined)
+        : hasAny24hrItem ? '24 hours' : '20–25 min';
       // Get location information if a location was selected
       let locationName = '';
       let locationAddress = '';
@@ -256,11 +374,19 @@ export function CheckoutPage() {
       navigate('/order-confirmation', {
         state: {
           orderId: newOrder.order_number || newOrder.id || '12345',
-          total: finalTotal,
+          trackingPath: newOrder.id ? buildTrackingPath(newOrder.id, newOrder.tracking_token) : undefined,
+          total: chargedTotal,
+          tip: tipAmount,
+          pointsEarned,
+          pointsRedeemed: pointsToRedeem,
           estimatedTime,
           hasAny24hrItem,
+          pickupTime,
           locationName,
           locationAddress,
+          deliveryAddress: isDelivery ? formatDeliveryAddress(deliveryAddress) : undefined,
+          tableLabel: table?.label,
+          payAtEnd: isDineIn && payAtEnd,
         },
       });
     } catch (err: any) {
@@ -274,6 +400,24 @@ export function CheckoutPage() {
     e.preventDefault();
     
     if (isSubmitting) return;
+
+    if (awaitingSlot) {
+      toastUtils.error(`Please choose a ${isDelivery ? 'delivery' : 'pickup'} time, or switch to ASAP.`);
+      return;
+    }
+
+    if (isDelivery) {
+      if (!deliveryQuote) {
+        toastUtils.error('Please check that your address is in our delivery area.');
+        return;
+      }
+      const shortfall = getMinimumShortfall(deliveryQuote, rawTotal);
+      if (shortfall > 0) {
+        toastUtils.error(`Delivery orders to this area need $${shortfall.toFixed(2)} more.`);
+        return;
+      }
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -307,6 +451,16 @@ export function CheckoutPage() {
         return;
       }
 
+      // Open tab: the order goes straight to the kitchen and staff collect payment at the table
+      if (table && payAtEnd) {
+        await submitOrder('', {
+          status: 'pending',
+          payment_method: 'pay_at_end',
+          notes: `Dine-in tab for ${table.label}; pay at end of meal`
+        });
+        return;
+      }
+
       // If payment already processed (unlikely in normal flow), just submit the order
       if (paymentProcessed && paymentTransactionId) {
         // Create basic payment details for already processed payments
@@ -381,6 +535,7 @@ export function CheckoutPage() {
             {/* Location Selection - Only shown when there are multiple locations */}
             <LocationSelector 
               onLocationChange={(id) => setLocationId(id)}
+              initialLocationId={locationId}
               showOnlyActive={true}
               className="mb-4"
             />
@@ -457,13 +612,82 @@ export function CheckoutPage() {
               </div>
             </div>
 
+            {/* Pickup or delivery - only offered once delivery zones are set up */}
+            {deliveryAvailable && (
+              <FulfillmentSelector
+                mode={fulfillmentType}
+                onModeChange={setFulfillmentType}
+                address={deliveryAddress}
+                onAddressChange={setDeliveryAddress}
+                quote={deliveryQuote}
+                onQuoteChange={setDeliveryQuote}
+                subtotal={rawTotal}
+              />
+            )}
+
+            {/* Dine-in: the table from the QR code replaces pickup details */}
+            {table ? (
+              <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+                <h2 className="text-xl font-semibold mb-4">
+                  <UtensilsCrossed className="inline-block w-5 h-5 mr-2 text-[#c1902f]" />
+                  Dine-In at {table.label}
+                </h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  We'll bring your order to your table as soon as it's ready.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  {[false, true].map((option) => (
+                    <button
+                      key={String(option)}
+                      type="button"
+                      onClick={() => {
+                        setPayAtEnd(option);
+                        // Tips on an open tab are added when staff settle the bill
+                        if (option) setTipAmount(0);
+                      }}
+                      className={`px-4 py-3 rounded-md border text-sm font-medium transition-colors duration-200
+                        ${payAtEnd === option
+                          ? 'border-[#0078d4] bg-[#0078d4]/10 text-[#0078d4]'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      {option ? 'Pay at End of Meal' : 'Pay Now'}
+                    </button>
+                  ))}
+                </div>
+                {payAtEnd && (
+                  <p className="text-sm text-gray-500 mt-3">
+                    Your tab stays open. Order more anytime from this device, then pay with your server before you leave.
+                  </p>
+                )}
+              </div>
+            ) : (
+              /* Pickup Time - ASAP or a scheduled slot */
+              <PickupTimeSelector
+                title={isDelivery ? 'Delivery Time' : undefined}
+                cartItems={cartItems}
+                locationId={locationId}
+                value={pickupTime}
+                onChange={setPickupTime}
+                onScheduledChange={setScheduleLater}
+              />
+            )}
+
             {/* VIP Code Input (only appears when restaurant is in VIP-only mode) */}
             {restaurant?.vip_only_checkout && (
               <VipCodeInput onChange={handleVipCodeChange} />
             )}
 
+            {/* Tip */}
+            {!payAtEnd && (
+              <TipSelector
+                subtotal={finalTotal}
+                value={tipAmount}
+                onChange={setTipAmount}
+              />
+            )}
+
             {/* Payment Information - only show if not VIP-only mode OR if VIP code is valid */}
-            {(!restaurant?.vip_only_checkout || vipCodeValid) && (
+            {(!restaurant?.vip_only_checkout || vipCodeValid) && !payAtEnd && (
               <div className="bg-white rounded-lg shadow-md p-6 mb-6">
                 <h2 className="text-xl font-semibold mb-4">Payment Information</h2>
                 
@@ -471,7 +695,7 @@ export function CheckoutPage() {
                 {restaurant?.admin_settings?.payment_gateway?.payment_processor === 'stripe' ? (
                   <StripeCheckout
                     ref={stripeRef}
-                    amount={finalTotal.toString()}
+                    amount={chargedTotal.toString()}
                     publishableKey={(restaurant?.admin_settings?.payment_gateway?.publishable_key as string) || ""}
                     currency="USD"
                     testMode={restaurant?.admin_settings?.payment_gateway?.test_mode ?? true}
@@ -482,7 +706,7 @@ export function CheckoutPage() {
                   // Default to PayPal if not specified or if set to 'paypal'
                   <PayPalCheckout
                     ref={paypalRef}
-                    amount={finalTotal.toString()}
+                    amount={chargedTotal.toString()}
                     clientId={(restaurant?.admin_settings?.payment_gateway?.client_id as string) || "sandbox_client_id"}
                     currency="USD"
                     testMode={restaurant?.admin_settings?.payment_gateway?.test_mode ?? true}
@@ -509,57 +733,72 @@ export function CheckoutPage() {
 
             {/* Promo + Total + Submit */}
             <div className="bg-white rounded-lg shadow-md p-6">
-              <div className="mb-4">
-                <label
-                  htmlFor="promoCode"
-                  className="block text-sm font-medium text-gray-700 mb-1"
-                >
-                  Promo Code
-                </label>
-                <div className="flex space-x-2">
-                  <input
-                    type="text"
-                    id="promoCode"
-                    name="promoCode"
-                    value={formData.promoCode}
-                    onChange={handleInputChange}
-                    placeholder="Enter promo code"
-                    className="flex-1 px-4 py-2 border border-gray-300 rounded-md
-                      focus:ring-[#0078d4] focus:border-[#0078d4]"
-                  />
-                  <button
-                    type="button"
-                    onClick={handleApplyPromo}
-                    className="px-4 py-2 bg-gray-100 text-gray-700
-                      rounded-md hover:bg-gray-200"
-                  >
-                    Apply
-                  </button>
+              <PromoCodeInput
+                cartItems={cartItems}
+                menuItems={menuItems}
+                breakdown={promoBreakdown}
+                email={formData.email || undefined}
+                className="mb-4"
+              />
+
+              <LoyaltyRedemption subtotal={finalTotal} className="mb-4" />
+
+              {(tipAmount > 0 || loyaltyDiscount > 0 || deliveryFee > 0 || finalTotal < rawTotal) && (
+                <div className="space-y-1 mb-2 text-sm text-gray-600">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>${rawTotal.toFixed(2)}</span>
+                  </div>
+                  <PromoBreakdownLines breakdown={promoBreakdown} />
+                  {loyaltyDiscount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Rewards points ({pointsToRedeem.toLocaleString()})</span>
+                      <span>-${loyaltyDiscount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {tipAmount > 0 && (
+                    <div className="flex justify-between">
+                      <span>Tip</span>
+                      <span>${tipAmount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {deliveryFee > 0 && (
+                    <div className="flex justify-between">
+                      <span>Delivery fee</span>
+                      <span>${deliveryFee.toFixed(2)}</span>
+                    </div>
+                  )}
                 </div>
-              </div>
+              )}
 
               <div className="flex justify-between items-center mb-4">
                 <span className="text-lg font-medium">Total</span>
                 <div className="text-right">
-                  {appliedPromo && (
+                  {finalTotal < rawTotal && (
                     <span className="block text-sm text-gray-500 line-through">
-                      ${rawTotal.toFixed(2)}
+                      ${(rawTotal + tipAmount + deliveryFee).toFixed(2)}
                     </span>
                   )}
                   <span className="text-2xl font-bold">
-                    ${finalTotal.toFixed(2)}
+                    ${chargedTotal.toFixed(2)}
                   </span>
                 </div>
               </div>
 
               <button
                 type="submit"
-                disabled={isSubmitting || (restaurant?.vip_only_checkout && !vipCodeValid)}
+                disabled={isSubmitting || (restaurant?.vip_only_checkout && !vipCodeValid) || awaitingSlot}
                 className={`w-full bg-[#0078d4] text-white py-3 px-4
                   rounded-md hover:bg-[#50a3d9] transition-colors duration-200
-                  ${(isSubmitting || (restaurant?.vip_only_checkout && !vipCodeValid)) ? 'opacity-70 cursor-not-allowed' : ''}`}
+                  ${(isSubmitting || (restaurant?.vip_only_checkout && !vipCodeValid) || awaitingSlot) ? 'opacity-70 cursor-not-allowed' : ''}`}
               >
-                {isSubmitting ? 'Processing...' : (restaurant?.vip_only_checkout && !vipCodeValid) ? 'Validate VIP Code First' : 'Place Order'}
+                {isSubmitting
+                  ? 'Processing...'
+                  : (restaurant?.vip_only_checkout && !vipCodeValid)
+                    ? 'Validate VIP Code First'
+                  : awaitingSlot
+                    ? `Choose a ${isDelivery ? 'Delivery' : 'Pickup'} Time`
+                    : payAtEnd ? 'Send Order to Kitchen' : 'Place Order'}
               </button>
             </div>
           </form>
@@ -573,10 +812,33 @@ export function CheckoutPage() {
             <h3 className="text-lg font-semibold mb-4">Order Summary</h3>
             
             {/* Location Details on the right side - always show if we have locations */}
-            <div className="mb-4 pb-4 border-b border-gray-200">
-              <h4 className="text-md font-medium mb-2">Location</h4>
-              <PickupInfo locationId={locationId} />
-            </div>
+            {table ? (
+              <div className="mb-4 pb-4 border-b border-gray-200">
+                <h4 className="text-md font-medium mb-1">Table</h4>
+                <p className="text-gray-600">{table.label}</p>
+              </div>
+            ) : (
+              <div className="mb-4 pb-4 border-b border-gray-200">
+                <h4 className="text-md font-medium mb-2">Location</h4>
+                <PickupInfo locationId={locationId} />
+              </div>
+            )}
+            {isDelivery && (
+              <div className="mb-4 pb-4 border-b border-gray-200">
+                <h4 className="text-md font-medium mb-1">Delivering To</h4>
+                <p className="text-gray-600">
+                  {formatDeliveryAddress(deliveryAddress) || 'Enter your address'}
+                </p>
+              </div>
+            )}
+            {!isDineIn && (
+              <div className="mb-4 pb-4 border-b border-gray-200">
+                <h4 className="text-md font-medium mb-1">{isDelivery ? 'Delivery Time' : 'Pickup Time'}</h4>
+                <p className="text-gray-600">
+                  {pickupTime ? formatPickupTime(pickupTime, restaurant?.time_zone || undefined) : 'ASAP (about 20–25 min)'}
+                </p>
+              </div>
+            )}
             {cartItems.length === 0 ? (
               <p className="text-gray-500">Your cart is empty</p>
             ) : (
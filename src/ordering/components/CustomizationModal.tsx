@@ -1,16 +1,23 @@
 // src/ordering/components/CustomizationModal.tsx
-import React, { useState, useEffect } from 'react';
-import { X, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, ChevronDown, ChevronUp, Heart } from 'lucide-react';
 import { useOrderStore } from '../store/orderStore';
+import { useAuthStore } from '../store/authStore';
+import { useFavoritesStore } from '../store/favoritesStore';
+import toastUtils from '../../shared/utils/toastUtils';
 import type { MenuItem, OptionGroup, MenuOption } from '../types/menu';
 
 interface CustomizationModalProps {
   item: MenuItem;
   onClose: () => void;
+  /** Set when the item was picked from an upsell suggestion */
+  upsellRuleId?: number;
 }
 
-export function CustomizationModal({ item, onClose }: CustomizationModalProps) {
+export function CustomizationModal({ item, onClose, upsellRuleId }: CustomizationModalProps) {
   const addToCart = useOrderStore((state) => state.addToCart);
+  const user = useAuthStore((state) => state.user);
+  const addFavorite = useFavoritesStore((state) => state.addFavorite);
 
   // 1) Track user selections: selections[groupId] = array of optionIds
   const [selections, setSelections] = useState<Record<number, number[]>>({});
@@ -21,12 +28,17 @@ export function CustomizationModal({ item, onClose }: CustomizationModalProps) {
   
   // Track whether price breakdown is expanded or collapsed
   const [isPriceBreakdownExpanded, setIsPriceBreakdownExpanded] = useState(false);
+
+  // "Save as favorite" form for signed-in customers
+  const [showSaveFavorite, setShowSaveFavorite] = useState(false);
+  const [favoriteName, setFavoriteName] = useState('');
+  const [savingFavorite, setSavingFavorite] = useState(false);
   
   // Force re-render when selections change to update price calculations
   const [, forceUpdate] = useState({});
 
-  // Safely handle no option_groups
-  const optionGroups = item.option_groups || [];
+  // Safely handle no option_groups; memoized so the effects below only rerun when the groups change
+  const optionGroups = useMemo(() => item.option_groups || [], [item.option_groups]);
 
   // Initialize selections based on option groups
   useEffect(() => {
@@ -351,6 +363,7 @@ export function CustomizationModal({ item, onClose }: CustomizationModalProps) {
         price: basePrice + addlPrice,
         customizations: finalCustomizations as any,
         image: item.image, // Include the image property
+        upsell_rule_id: upsellRuleId,
       } as any,
       quantity
     );
@@ -358,6 +371,33 @@ export function CustomizationModal({ item, onClose }: CustomizationModalProps) {
     onClose();
   }
 
+  // Save the current selections as a named build
+  async function handleSaveFavorite() {
+    const name = favoriteName.trim();
+    if (!name) return;
+
+    const optionSelections: Record<string, number[]> = {};
+    Object.entries(selections).forEach(([groupId, optionIds]) => {
+      if (optionIds.length > 0) optionSelections[groupId] = optionIds;
+    });
+
+    setSavingFavorite(true);
+    const saved = await addFavorite({
+      menu_item_id: item.id,
+      name,
+      option_selections: optionSelections
+    });
+    setSavingFavorite(false);
+
+    if (saved) {
+      toastUtils.success(`Saved "${name}" to your favorites`);
+      setShowSaveFavorite(false);
+      setFavoriteName('');
+    } else {
+      toastUtils.error('Could not save favorite. Please try again.');
+    }
+  }
+
   // Toggle expanded/collapsed state for an option group
   function toggleGroupExpansion(groupId: number) {
     setExpandedGroupId(expandedGroupId === groupId ? null : groupId);
@@ -651,6 +691,43 @@ export function CustomizationModal({ item, onClose }: CustomizationModalProps) {
             </p>
           </div>
 
+          {/* Save as favorite */}
+          {user && (
+            showSaveFavorite ? (
+              <div className="flex items-center gap-2 mb-4">
+                <input
+                  type="text"
+                  value={favoriteName}
+                  onChange={(e) => setFavoriteName(e.target.value)}
+                  placeholder={`e.g. My usual ${item.name}`}
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-shimizu-blue focus:border-shimizu-blue"
+                  autoFocus
+                />
+                <button
+                  onClick={handleSaveFavorite}
+                  disabled={!favoriteName.trim() || !isValid || savingFavorite}
+                  className="px-3 py-2 text-sm text-white rounded-md bg-shimizu-blue hover:bg-shimizu-light-blue disabled:opacity-50"
+                >
+                  {savingFavorite ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setShowSaveFavorite(false)}
+                  className="px-2 py-2 text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowSaveFavorite(true)}
+                className="flex items-center text-sm text-shimizu-blue hover:text-shimizu-light-blue mb-4"
+              >
+                <Heart className="h-4 w-4 mr-1.5" />
+                Save these options as a favorite
+              </button>
+            )
+          )}
+
           {/* Bottom Buttons */}
           <div className="flex justify-end space-x-2">
             <button
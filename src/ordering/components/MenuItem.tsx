@@ -5,6 +5,7 @@ import { Plus, AlertCircle } from 'lucide-react';
 import { useOrderStore } from '../store/orderStore';
 import { useRestaurantStore } from '../../shared/store/restaurantStore';
 import { CustomizationModal } from './CustomizationModal';
+import { FavoriteButton } from './favorites/FavoriteButton';
 import type { MenuItem as MenuItemType } from '../types/menu';
 import { deriveStockStatus, calculateAvailableQuantity } from '../utils/inventoryUtils';
 import OptimizedImage from '../../shared/components/ui/OptimizedImage';
@@ -201,14 +202,17 @@ export const MenuItem = memo(function MenuItem({ item, index = 0, layout = 'gall
             ${isOutOfStock || hasUnavailableRequiredOptions ? 'opacity-70' : ''}`
           }
         >
-          <LazyMenuItemImage 
-            image={item.image}
-            name={item.name}
-            featured={item.featured}
-            isFirstVisible={index === 0}
-            index={index}
-            restaurantFallbackSrc={restaurant?.admin_settings?.fallback_image_url}
-          />
+          <div className="relative">
+            <LazyMenuItemImage 
+              image={item.image}
+              name={item.name}
+              featured={item.featured}
+              isFirstVisible={index === 0}
+              index={index}
+              restaurantFallbackSrc={restaurant?.admin_settings?.fallback_image_url}
+            />
+            <FavoriteButton item={item} className="absolute top-2 left-2" />
+          </div>
 
           <div className="p-5 flex flex-col flex-1">
             <div>
@@ -338,7 +342,10 @@ export const MenuItem = memo(function MenuItem({ item, index = 0, layout = 'gall
           
           <div className="p-4 flex flex-col flex-1">
             <div>
-              <h3 className="text-lg font-semibold text-gray-900">{item.name}</h3>
+              <div className="flex items-start justify-between gap-2">
+                <h3 className="text-lg font-semibold text-gray-900">{item.name}</h3>
+                <FavoriteButton item={item} className="flex-shrink-0" />
+              </div>
               <p className="mt-1 text-sm text-gray-500 line-clamp-2">{item.description}</p>
 
               {/* Badges and notices - condensed for list view */}
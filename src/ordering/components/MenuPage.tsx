@@ -1,6 +1,7 @@
 // src/ordering/components/MenuPage.tsx
 
 import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { MenuItem as MenuItemCard } from './MenuItem';
 import { useMenuStore } from '../store/menuStore';
 import { useCategoryStore } from '../store/categoryStore';
@@ -10,12 +11,46 @@ import { validateRestaurantContext, logTenantIsolationWarning } from '../../shar
 import { MenuItem } from '../types/menu';
 import LayoutToggle from './layouts/LayoutToggle';
 import ListView from './layouts/ListView';
+import { FavoritesSection } from './favorites/FavoritesSection';
+import LocationSelector from './customer/LocationSelector';
+import { useLocationStore } from '../store/locationStore';
+import { applyLocationOverrides } from '../utils/locationUtils';
+import { TableBanner } from './customer/TableBanner';
+import { useTableStore } from '../store/tableStore';
+import { parseTableToken } from '../utils/dineInUtils';
+import { resolveTableToken } from '../../shared/api/endpoints/tables';
+import toastUtils from '../../shared/utils/toastUtils';
 
 export function MenuPage() {
   const { fetchVisibleMenuItems, fetchMenus, error, currentMenuId } = useMenuStore();
   const { categories, fetchCategoriesForMenu } = useCategoryStore();
   const { restaurant } = useRestaurantStore();
   const { layoutType, initializeLayout } = useMenuLayoutStore();
+  const { selectedLocationId, setSelectedLocationId, overridesByLocation, fetchOverrides } = useLocationStore();
+  const setTable = useTableStore((state) => state.setTable);
+  const [searchParams] = useSearchParams();
+
+  // Arriving from a table QR code starts a dine-in order for that table,
+  // once the server confirms the code is one it signed
+  useEffect(() => {
+    const token = parseTableToken(searchParams);
+    if (!token) return;
+    let cancelled = false;
+    resolveTableToken(token)
+      .then((table) => {
+        if (!cancelled) setTable({ ...table, token });
+      })
+      .catch((err) => {
+        console.error('Error resolving table code:', err);
+        if (cancelled) return;
+        // Don't leave an earlier scan's table attached to this order
+        setTable(null);
+        toastUtils.error("This table code isn't valid anymore. Ask staff for help.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams, setTable]);
   
   // State for menu items and loading state
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
@@ -283,7 +318,19 @@ export function MenuPage() {
     // The polling will handle regular updates
   }, [fetchVisibleMenuItems, restaurant, selectedCategoryId, showFeaturedOnly, showSeasonalOnly, searchQuery, activeCategories]);
 
-  // No need for frontend filtering anymore as we're using backend filtering
+  // Per-location availability, price and stock
+  useEffect(() => {
+    if (selectedLocationId) {
+      fetchOverrides(selectedLocationId);
+    }
+  }, [selectedLocationId, fetchOverrides]);
+
+  // Category, featured and search filtering happen on the backend; only the
+  // location's overrides are applied here
+  const locationMenuItems = useMemo(
+    () => applyLocationOverrides(menuItems, (selectedLocationId && overridesByLocation[selectedLocationId]) || []),
+    [menuItems, selectedLocationId, overridesByLocation]
+  );
 
   // Memoize the selected category description to avoid redundant lookups
   const selectedCategoryDescription = useMemo(() => {
@@ -314,6 +361,15 @@ export function MenuPage() {
         Our Menu
       </h1>
 
+      <TableBanner className="mb-4" />
+
+      {/* Location picker - only rendered when there are multiple locations */}
+      <LocationSelector
+        onLocationChange={setSelectedLocationId}
+        initialLocationId={selectedLocationId ?? undefined}
+        className="mb-4 max-w-sm"
+      />
+
       {error && <p className="text-red-600">{error}</p>}
 
       {/* Horizontally scrollable categories with integrated search */}
@@ -508,6 +564,9 @@ export function MenuPage() {
         </div>
       )}
       
+      {/* Saved favorites for signed-in customers */}
+      {!searchQuery && <FavoritesSection variant="menu" className="mb-6" />}
+
       {/* Menu Items Grid with min-height to prevent layout shift */}
       <div className="min-h-[300px] transition-opacity duration-300 ease-in-out">
         {loading || isSearching ? (
@@ -517,16 +576,16 @@ export function MenuPage() {
           </div>
         ) : (
           <div className="animate-fadeIn transition-opacity duration-300">
-            {menuItems.length > 0 ? (
+            {locationMenuItems.length > 0 ? (
               layoutType === 'gallery' ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8">
-                  {menuItems.map((item) => (
+                  {locationMenuItems.map((item) => (
                     <MenuItemCard key={item.id} item={item} />
                   ))}
                 </div>
               ) : (
                 <ListView 
-                  menuItems={menuItems}
+                  menuItems={locationMenuItems}
                   loading={false}
                   selectedCategoryId={selectedCategoryId}
                   showFeaturedOnly={showFeaturedOnly}
@@ -1,24 +1,41 @@
 // src/ordering/components/OrderConfirmation.tsx
 import { Link, useLocation } from 'react-router-dom';
-import { CheckCircle, MapPin } from 'lucide-react';
+import { CheckCircle, MapPin, CalendarClock, Star, Activity, Truck, UtensilsCrossed } from 'lucide-react';
+import { formatPickupTime } from '../utils/pickupTimeUtils';
 
 export function OrderConfirmation() {
   // Grab data from location state
   const { state } = useLocation() as {
     state?: {
       orderId?: string;
+      trackingPath?: string;
       total?: number;
+      tip?: number;
+      pointsEarned?: number;
+      pointsRedeemed?: number;
       hasAny24hrItem?: boolean;
+      pickupTime?: string | null;
       locationName?: string;
       locationAddress?: string;
+      deliveryAddress?: string;
+      tableLabel?: string;
+      payAtEnd?: boolean;
     };
   };
 
   const orderId = state?.orderId || 'N/A';
+  const trackingPath = state?.trackingPath;
   const total = state?.total ?? 0;
+  const tip = state?.tip ?? 0;
+  const pointsEarned = state?.pointsEarned ?? 0;
+  const pointsRedeemed = state?.pointsRedeemed ?? 0;
   const hasAny24hrItem = !!state?.hasAny24hrItem;
+  const pickupTime = state?.pickupTime || null;
   const locationName = state?.locationName;
   const locationAddress = state?.locationAddress;
+  const deliveryAddress = state?.deliveryAddress;
+  const tableLabel = state?.tableLabel;
+  const payAtEnd = !!state?.payAtEnd;
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
@@ -36,16 +53,41 @@ export function OrderConfirmation() {
         </p>
 
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-          {hasAny24hrItem && (
+          {hasAny24hrItem && !pickupTime && (
             <p className="text-red-600 mb-4 font-semibold">
               Heads up: one or more items in your order requires 24 hours notice!
             </p>
           )}
 
-          <p className="text-gray-600 mb-4">
-            We’ll send you an ETA as soon as the staff begins preparing your order.
-          </p>
-          {locationName && (
+          {pickupTime ? (
+            <div className="flex items-center justify-center mb-4 p-4 bg-gray-50 rounded-md">
+              <CalendarClock className="h-5 w-5 text-[#0078d4] mr-2" />
+              <p className="font-medium">
+                Scheduled {deliveryAddress ? 'delivery' : 'pickup'}: {formatPickupTime(pickupTime)}
+              </p>
+            </div>
+          ) : !tableLabel && (
+            <p className="text-gray-600 mb-4">
+              We’ll send you an ETA as soon as the staff begins preparing your order.
+            </p>
+          )}
+          {tableLabel ? (
+            <div className="flex flex-col items-center mb-4 p-4 bg-gray-50 rounded-md">
+              <div className="flex items-center justify-center mb-2">
+                <UtensilsCrossed className="h-5 w-5 text-[#0078d4] mr-2" />
+                <p className="font-medium">Dine-In</p>
+              </div>
+              <p className="text-gray-800 text-center">{tableLabel}</p>
+            </div>
+          ) : deliveryAddress ? (
+            <div className="flex flex-col items-center mb-4 p-4 bg-gray-50 rounded-md">
+              <div className="flex items-center justify-center mb-2">
+                <Truck className="h-5 w-5 text-[#0078d4] mr-2" />
+                <p className="font-medium">Delivering To</p>
+              </div>
+              <p className="text-gray-800 text-center">{deliveryAddress}</p>
+            </div>
+          ) : locationName && (
             <div className="flex flex-col items-center mb-4 p-4 bg-gray-50 rounded-md">
               <div className="flex items-center justify-center mb-2">
                 <MapPin className="h-5 w-5 text-[#0078d4] mr-2" />
@@ -59,16 +101,55 @@ export function OrderConfirmation() {
           )}
           
           <p className="text-gray-600 mb-4">
-            Please show your order number when picking up.
+            {tableLabel
+              ? payAtEnd
+                ? "We'll bring your order to your table. Your tab is open; pay with your server before you leave."
+                : "We'll bring your order to your table as soon as it's ready."
+              : deliveryAddress
+                ? "We'll let you know when your order is on its way."
+                : 'Please show your order number when picking up.'}
           </p>
 
           <div className="border-t pt-4">
+            {tip > 0 && (
+              <p className="text-gray-600 mb-1">
+                Includes tip: ${tip.toFixed(2)} — thank you!
+              </p>
+            )}
             <p className="text-lg font-medium">
-              Total Paid: ${total.toFixed(2)}
+              {payAtEnd ? 'Added to Your Tab' : 'Total Paid'}: ${total.toFixed(2)}
             </p>
           </div>
+
+          {(pointsEarned > 0 || pointsRedeemed > 0) && (
+            <div className="mt-4 p-4 bg-[#0078d4]/10 rounded-md">
+              {pointsEarned > 0 && (
+                <p className="flex items-center justify-center font-medium text-[#0078d4]">
+                  <Star className="h-5 w-5 mr-2" />
+                  You earned {pointsEarned.toLocaleString()} rewards points!
+                </p>
+              )}
+              {pointsRedeemed > 0 && (
+                <p className="text-sm text-gray-600 mt-1">
+                  {pointsRedeemed.toLocaleString()} points were applied to this order.
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
+        {trackingPath && (
+          <div className="mb-6">
+            <Link
+              to={trackingPath}
+              className="inline-flex items-center text-[#0078d4] hover:text-[#50a3d9] font-medium"
+            >
+              <Activity className="h-5 w-5 mr-2" />
+              Track your order live
+            </Link>
+          </div>
+        )}
+
         <div className="space-x-4">
           <Link
             to="/menu"
@@ -0,0 +1,271 @@
+// src/ordering/components/OrderTrackingPage.tsx
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { CheckCircle, Clock, MapPin, Share2, UtensilsCrossed, XCircle } from 'lucide-react';
+import { fetchOrderTracking } from '../../shared/api/endpoints/orders';
+import webSocketManager from '../../shared/services/WebSocketManager';
+import pollingManager, { PollingResourceType } from '../../shared/services/PollingManager';
+import { useAuthStore } from '../store/authStore';
+import { useRestaurantStore } from '../../shared/store/restaurantStore';
+import { OrderTracking } from '../types/order';
+import { formatPickupTime } from '../utils/pickupTimeUtils';
+import { getTrackingSteps, getTrackingStepIndex } from '../utils/orderTrackingUtils';
+import { formatDeliveryAddress } from '../utils/deliveryUtils';
+import toastUtils from '../../shared/utils/toastUtils';
+
+const ORDER_STATUS_CHANNEL = 'OrderStatusChannel';
+
+export function OrderTrackingPage() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated());
+  const restaurant = useRestaurantStore((state) => state.restaurant);
+
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyUpdate = useCallback((data: OrderTracking | null | undefined) => {
+    if (data?.id) {
+      setTracking(data);
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    fetchOrderTracking(id, token)
+      .then((data) => {
+        applyUpdate(data as OrderTracking);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('Failed to load order tracking:', err);
+        setError("We couldn't find that order. Check the link in your confirmation and try again.");
+      })
+      .finally(() => setLoading(false));
+  }, [id, token, applyUpdate]);
+
+  // Live updates: signed-in customers get a WebSocket subscription. PollingManager
+  // covers guests (who can't open the socket) and pauses itself whenever the socket is up.
+  useEffect(() => {
+    if (!id || error) return;
+
+    if (isAuthenticated) {
+      webSocketManager.subscribe({
+        channel: ORDER_STATUS_CHANNEL,
+        params: { order_id: id, token },
+        received: (data) => {
+          if (data?.type === 'order_updated') {
+            applyUpdate(data.order);
+          }
+        }
+      });
+    }
+
+    const pollingId = pollingManager.startPolling(
+      PollingResourceType.ORDER_TRACKING,
+      (data) => applyUpdate(data),
+      {
+        resourceId: id,
+        params: token ? { token } : {},
+        sourceId: 'order-tracking'
+      }
+    );
+
+    return () => {
+      if (isAuthenticated) {
+        webSocketManager.unsubscribe(ORDER_STATUS_CHANNEL);
+      }
+      if (pollingId) {
+        pollingManager.stopPolling(pollingId);
+      }
+    };
+  }, [id, token, isAuthenticated, error, applyUpdate]);
+
+  const handleShare = async () => {
+    const url = window.location.href;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: 'Track my order', url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        toastUtils.success('Tracking link copied');
+      }
+    } catch {
+      // The user dismissed the share sheet
+    }
+  };
+
+  if (loading && !tracking) {
+    return (
+      <div className="max-w-xl mx-auto px-4 py-16 text-center text-gray-500">
+        Loading your order...
+      </div>
+    );
+  }
+
+  if (error || !tracking) {
+    return (
+      <div className="max-w-xl mx-auto px-4 py-16 text-center">
+        <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <p className="text-gray-700 mb-6">{error}</p>
+        <Link to="/menu" className="text-[#0078d4] hover:text-[#50a3d9] font-medium">
+          Back to menu
+        </Link>
+      </div>
+    );
+  }
+
+  const steps = getTrackingSteps(tracking.fulfillment_type);
+  const currentStep = getTrackingStepIndex(tracking.status, steps);
+  const isDelivery = tracking.fulfillment_type === 'delivery';
+  const isCancelled = tracking.status === 'cancelled';
+  // Staff's estimate once they start preparing, otherwise the time the customer scheduled
+  const etaTime = tracking.estimated_pickup_time || tracking.pickup_time;
+  const stepTimes = new Map((tracking.status_history || []).map((entry) => [entry.status, entry.at]));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="max-w-xl mx-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Order #{tracking.order_number || tracking.id}
+            </h1>
+            <p className="text-sm text-gray-500">
+              Placed {new Date(tracking.created_at).toLocaleString([], {
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit'
+              })}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleShare}
+            className="inline-flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            <Share2 className="h-4 w-4 mr-1.5" />
+            Share
+          </button>
+        </div>
+
+        {/* ETA */}
+        {!isCancelled && etaTime && currentStep < 2 && (
+          <div className="flex items-center p-4 mb-6 bg-[#0078d4]/10 rounded-lg">
+            <Clock className="h-5 w-5 text-[#0078d4] mr-2" />
+            <p className="font-medium text-gray-900">
+              {tracking.estimated_pickup_time ? 'Estimated ready' : isDelivery ? 'Scheduled delivery' : 'Scheduled pickup'}:{' '}
+              {formatPickupTime(etaTime, restaurant?.time_zone || undefined)}
+            </p>
+          </div>
+        )}
+
+        {/* Timeline */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          {isCancelled ? (
+            <div className="flex items-start">
+              <XCircle className="h-6 w-6 text-red-500 mr-3 flex-shrink-0" />
+              <div>
+                <p className="font-medium text-gray-900">Order cancelled</p>
+                <p className="text-sm text-gray-600">
+                  Please contact the restaurant if you have any questions.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <ol>
+              {steps.map((step, index) => {
+                const done = index < currentStep;
+                const active = index === currentStep;
+                const reachedAt = step.statuses.map((status) => stepTimes.get(status)).find(Boolean);
+                return (
+                  <li key={step.key} className="relative flex pb-6 last:pb-0">
+                    {index < steps.length - 1 && (
+                      <span
+                        className={`absolute left-3 top-7 -ml-px h-full w-0.5 ${
+                          done ? 'bg-[#0078d4]' : 'bg-gray-200'
+                        }`}
+                      />
+                    )}
+                    <span
+                      className={`relative z-10 flex h-6 w-6 items-center justify-center rounded-full ${
+                        done
+                          ? 'bg-[#0078d4] text-white'
+                          : active
+                            ? 'bg-white border-2 border-[#0078d4]'
+                            : 'bg-white border-2 border-gray-300'
+                      }`}
+                    >
+                      {done ? (
+                        <CheckCircle className="h-4 w-4" />
+                      ) : active ? (
+                        <span className="h-2.5 w-2.5 rounded-full bg-[#0078d4] animate-pulse" />
+                      ) : null}
+                    </span>
+                    <div className="ml-4">
+                      <p className={`font-medium ${done || active ? 'text-gray-900' : 'text-gray-400'}`}>
+                        {step.label}
+                        {reachedAt && (done || active) && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            {new Date(reachedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                          </span>
+                        )}
+                      </p>
+                      {active && <p className="text-sm text-gray-600">{step.description}</p>}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
+        {tracking.fulfillment_type === 'dine_in' && tracking.table_context ? (
+          <div className="flex items-start p-4 mb-6 bg-gray-50 rounded-md">
+            <UtensilsCrossed className="h-5 w-5 text-[#0078d4] mr-2 flex-shrink-0" />
+            <div>
+              <p className="font-medium text-gray-800">Dine-in</p>
+              <p className="text-gray-600">{tracking.table_context.label}</p>
+            </div>
+          </div>
+        ) : isDelivery && tracking.delivery_address ? (
+          <div className="flex items-start p-4 mb-6 bg-gray-50 rounded-md">
+            <MapPin className="h-5 w-5 text-[#0078d4] mr-2 flex-shrink-0" />
+            <div>
+              <p className="font-medium text-gray-800">Delivering to</p>
+              <p className="text-gray-600">{formatDeliveryAddress(tracking.delivery_address)}</p>
+            </div>
+          </div>
+        ) : tracking.location && (
+          <div className="flex items-start p-4 mb-6 bg-gray-50 rounded-md">
+            <MapPin className="h-5 w-5 text-[#0078d4] mr-2 flex-shrink-0" />
+            <div>
+              <p className="font-medium text-gray-800">{tracking.location.name}</p>
+              {tracking.location.address && <p className="text-gray-600">{tracking.location.address}</p>}
+            </div>
+          </div>
+        )}
+
+        {/* Summary */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="font-semibold text-gray-900 mb-3">Your order</h2>
+          <ul className="space-y-1 text-gray-700">
+            {tracking.items.map((item, index) => (
+              <li key={`${item.name}-${index}`}>
+                {item.quantity}× {item.name}
+              </li>
+            ))}
+          </ul>
+          <p className="border-t mt-4 pt-3 font-medium">Total: ${Number(tracking.total).toFixed(2)}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OrderTrackingPage;
@@ -50,6 +50,7 @@ import { useMenuStore } from '../../store/menuStore';
 import { useOrderStore } from '../../store/orderStore';
 import { calculateAvailableQuantity } from '../../utils/inventoryUtils';
 import useWebSocket from '../../../shared/hooks/useWebSocket';
+import { PendingSyncIndicator } from '../../../shared/components/ui/PendingSyncIndicator';
 
 type Tab = 'analytics' | 'orders' | 'menu' | 'promos' | 'settings' | 'merchandise' | 'staff';
 
@@ -1362,6 +1363,9 @@ useEffect(() => {
             </div>
             
             <div className="flex items-center space-x-4">
+              {/* Offline status and staff orders waiting to sync */}
+              <PendingSyncIndicator className="mt-4 md:mt-0" />
+
               {/* Stock notification bell and panel - commented out as not currently in use */}
               
               {/* Restaurant selector removed - super admins now only see data for the current restaurant */}
@@ -321,7 +321,7 @@ export function AnalyticsManager({ restaurantId }: AnalyticsManagerProps) {
   const [menuItems, setMenuItems] = useState<MenuItemReport[]>([]);
   const [categories, setCategories] = useState<CategoryReport[]>([]);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethodReportType[]>([]);
-  const [paymentTotals, setPaymentTotals] = useState({ amount: 0, count: 0 });
+  const [paymentTotals, setPaymentTotals] = useState({ amount: 0, count: 0, tips: 0 });
   const [vipCustomers, setVipCustomers] = useState<VipCustomerReportType[]>([]);
   const [vipSummary, setVipSummary] = useState<VipReportSummary>({
     total_vip_customers: 0,
@@ -401,7 +401,8 @@ export function AnalyticsManager({ restaurantId }: AnalyticsManagerProps) {
       setPaymentMethods(paymentMethodRes.data.payment_methods || []);
       setPaymentTotals({
         amount: paymentMethodRes.data.total_amount || 0,
-        count: paymentMethodRes.data.total_count || 0
+        count: paymentMethodRes.data.total_count || 0,
+        tips: paymentMethodRes.data.total_tips || 0
       });
       
       // 9) VIP Customer Report
@@ -659,6 +660,7 @@ export function AnalyticsManager({ restaurantId }: AnalyticsManagerProps) {
             .join(' '),
           'Count': method.count,
           'Amount': `$${Number(method.amount).toFixed(2)}`,
+          'Tips': `$${Number(method.tip_amount || 0).toFixed(2)}`,
           'Percentage': `${Number(method.percentage).toFixed(2)}%`
         }));
 
@@ -667,6 +669,7 @@ export function AnalyticsManager({ restaurantId }: AnalyticsManagerProps) {
         'Payment Method': 'Total',
         'Count': paymentTotals.count,
         'Amount': `$${Number(paymentTotals.amount).toFixed(2)}`,
+        'Tips': `$${Number(paymentTotals.tips).toFixed(2)}`,
         'Percentage': '100%'
       });
 
@@ -1444,6 +1447,7 @@ export function AnalyticsManager({ restaurantId }: AnalyticsManagerProps) {
         paymentMethods={paymentMethods}
         totalAmount={paymentTotals.amount}
         totalCount={paymentTotals.count}
+        totalTips={paymentTotals.tips}
       />
 
       {/*
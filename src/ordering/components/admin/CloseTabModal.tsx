@@ -0,0 +1,85 @@
+// src/ordering/components/admin/CloseTabModal.tsx
+import { useState } from 'react';
+import { MobileSelect } from '../../../shared/components/ui/MobileSelect';
+import type { Order } from '../../types/order';
+
+interface CloseTabModalProps {
+  order: Order;
+  onClose: () => void;
+  onConfirm: (paymentMethod: string) => Promise<void>;
+}
+
+const PAYMENT_METHOD_OPTIONS = [
+  { value: 'credit_card', label: 'Card (terminal)' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'other', label: 'Other' },
+];
+
+/**
+ * Settles a dine-in pay-at-end order once the guest has paid their server
+ */
+export function CloseTabModal({ order, onClose, onConfirm }: CloseTabModalProps) {
+  const [paymentMethod, setPaymentMethod] = useState('credit_card');
+  const [saving, setSaving] = useState(false);
+
+  async function handleConfirm() {
+    setSaving(true);
+    try {
+      await onConfirm(paymentMethod);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4 animate-fadeIn">
+      <div className="bg-white rounded-lg shadow-md w-full max-w-sm p-5 relative animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-600"
+        >
+          <span className="sr-only">Close</span>
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h3 className="text-lg font-bold mb-1 pr-6">Close Tab</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Order #{order.order_number || order.id}
+          {order.table_context ? ` · ${order.table_context.label}` : ''}
+        </p>
+
+        <div className="flex justify-between items-center mb-4 p-3 bg-gray-50 rounded-md">
+          <span className="text-sm font-medium text-gray-700">Amount due</span>
+          <span className="text-lg font-bold">${Number(order.total || 0).toFixed(2)}</span>
+        </div>
+
+        <div className="mb-5">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Paid with</label>
+          <MobileSelect
+            options={PAYMENT_METHOD_OPTIONS}
+            value={paymentMethod}
+            onChange={setPaymentMethod}
+          />
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:justify-end space-y-2 sm:space-y-0 sm:space-x-3">
+          <button
+            onClick={onClose}
+            className="w-full sm:w-auto px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={saving}
+            className="w-full sm:w-auto px-4 py-2 bg-[#0078d4] text-white rounded-md text-sm font-medium hover:bg-[#50a3d9] transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Mark Paid'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
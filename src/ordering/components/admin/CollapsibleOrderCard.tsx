@@ -2,6 +2,9 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { StatusTimer } from './StatusTimer';
 import { orderPaymentsApi } from '../../../shared/api/endpoints/orderPayments';
+import { formatPickupTime } from '../../utils/pickupTimeUtils';
+import { formatDeliveryAddress, formatOrderStatus, isDeliveryOrder } from '../../utils/deliveryUtils';
+import { isDineInOrder, isOpenTab } from '../../utils/dineInUtils';
 
 interface RefundedItem {
   id: number;
@@ -752,6 +755,32 @@ export function CollapsibleOrderCard({
             status={order.status} 
           />
           <div className="flex items-center space-x-1">
+            {order.pickup_time && (
+              <span
+                className="px-2 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 flex items-center"
+                title={`Scheduled for ${formatPickupTime(order.pickup_time)}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                Scheduled
+              </span>
+            )}
+            {isDeliveryOrder(order) && (
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-teal-100 text-teal-800">
+                Delivery
+              </span>
+            )}
+            {isDineInOrder(order) && (
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                Dine-In{order.table_context ? ` · ${order.table_context.label}` : ''}
+              </span>
+            )}
+            {isOpenTab(order) && (
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                Tab Open
+              </span>
+            )}
             {requiresAdvanceNotice(order) && (
               <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800 flex items-center">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -766,7 +795,7 @@ export function CollapsibleOrderCard({
                 ${getStatusBadgeColor(order.status)}
               `}
             >
-              {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+              {formatOrderStatus(order.status)}
             </span>
           </div>
         </div>
@@ -802,10 +831,44 @@ export function CollapsibleOrderCard({
                 </span>
               </div>
             )}
-            <div className="text-sm">
-              <span className="font-medium text-gray-700">Pickup: </span>
-              <span>{formatDate((order as any).estimatedPickupTime || (order as any).estimated_pickup_time)}</span>
-            </div>
+            {order.pickup_time && (
+              <div className="text-sm">
+                <span className="font-medium text-gray-700">Scheduled {isDeliveryOrder(order) ? 'Delivery' : 'Pickup'}: </span>
+                <span className="text-indigo-700 font-medium">{formatPickupTime(order.pickup_time)}</span>
+              </div>
+            )}
+            {isDeliveryOrder(order) ? (
+              <>
+                <div className="text-sm">
+                  <span className="font-medium text-gray-700">Deliver to: </span>
+                  <span>{formatDeliveryAddress(order.delivery_address)}</span>
+                </div>
+                {order.delivery_address?.instructions && (
+                  <div className="text-sm text-gray-600 italic">{order.delivery_address.instructions}</div>
+                )}
+                {order.driver_name && (
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-700">Driver: </span>
+                    <span>{order.driver_name}</span>
+                  </div>
+                )}
+              </>
+            ) : isDineInOrder(order) ? (
+              <div className="text-sm">
+                <span className="font-medium text-gray-700">Table: </span>
+                <span>{order.table_context?.label || 'Not recorded'}</span>
+                {order.pay_at_end && (
+                  <span className="ml-2 text-gray-500">
+                    ({isOpenTab(order) ? 'pay at end' : 'tab paid'})
+                  </span>
+                )}
+              </div>
+            ) : (
+              <div className="text-sm">
+                <span className="font-medium text-gray-700">Pickup: </span>
+                <span>{formatDate((order as any).estimatedPickupTime || (order as any).estimated_pickup_time)}</span>
+              </div>
+            )}
             
             {/* Preview of order items in collapsed state */}
             {!isExpanded && (
@@ -0,0 +1,64 @@
+// src/ordering/components/admin/DriverAssignmentField.tsx
+
+import { useEffect, useState } from 'react';
+import { Truck } from 'lucide-react';
+
+interface DriverAssignmentFieldProps {
+  driverName?: string | null;
+  onAssign: (driverName: string | null) => Promise<void>;
+}
+
+/**
+ * Inline driver name for a delivery order in OrderManager
+ */
+export function DriverAssignmentField({ driverName, onAssign }: DriverAssignmentFieldProps) {
+  const [value, setValue] = useState(driverName || '');
+  const [saving, setSaving] = useState(false);
+
+  // Pick up assignments made elsewhere (another tablet, websocket refresh)
+  useEffect(() => {
+    setValue(driverName || '');
+  }, [driverName]);
+
+  const trimmed = value.trim();
+  const changed = trimmed !== (driverName || '');
+
+  async function handleAssign() {
+    setSaving(true);
+    try {
+      await onAssign(trimmed || null);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Truck className="h-4 w-4 text-gray-500 flex-shrink-0" />
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && changed) {
+            e.preventDefault();
+            handleAssign();
+          }
+        }}
+        placeholder="Assign driver"
+        aria-label="Driver"
+        className="w-36 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-[#0078d4] focus:border-[#0078d4]"
+      />
+      {changed && (
+        <button
+          type="button"
+          onClick={handleAssign}
+          disabled={saving}
+          className="px-3 py-1 bg-[#0078d4] text-white rounded-md text-sm font-medium hover:bg-[#005a9e] disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Assign'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+// src/ordering/components/admin/HouseAccountStatementModal.tsx
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { houseAccountsApi } from '../../../shared/api/endpoints/houseAccounts';
+import type { HouseAccountStaffMember, HouseAccountTransaction, PayPeriod } from '../../types/houseAccount';
+import {
+  buildHouseAccountStatement,
+  getDefaultPayPeriod,
+  getPayrollDeduction,
+  getSettlementReference,
+} from '../../utils/houseAccountUtils';
+import { HouseAccountStatementView } from '../houseAccount/HouseAccountStatementView';
+
+interface HouseAccountStatementModalProps {
+  staffMember: HouseAccountStaffMember;
+  onClose: () => void;
+  /** Called after a settlement so the staff list can refresh balances */
+  onSettled: () => void;
+}
+
+/**
+ * A staff member's house account statement, with a settlement action that
+ * records the payroll deduction for the selected pay period
+ */
+export function HouseAccountStatementModal({ staffMember, onClose, onSettled }: HouseAccountStatementModalProps) {
+  const [period, setPeriod] = useState<PayPeriod>(() => getDefaultPayPeriod());
+  const [transactions, setTransactions] = useState<HouseAccountTransaction[]>([]);
+  const [balance, setBalance] = useState(Number(staffMember.house_account_balance));
+  const [loading, setLoading] = useState(true);
+  const [settling, setSettling] = useState(false);
+
+  const loadTransactions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTransactions(await houseAccountsApi.getTransactions(staffMember.id));
+    } catch (err) {
+      console.error('Error fetching house account transactions:', err);
+      toastUtils.error('Failed to load statement');
+    } finally {
+      setLoading(false);
+    }
+  }, [staffMember.id]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  const statement = useMemo(
+    () => buildHouseAccountStatement(transactions, balance, period),
+    [transactions, balance, period]
+  );
+  const deduction = useMemo(
+    () => getPayrollDeduction(transactions, balance, period),
+    [transactions, balance, period]
+  );
+
+  const handleSettle = async () => {
+    if (deduction <= 0) return;
+    if (!window.confirm(`Record a $${deduction.toFixed(2)} payroll deduction for ${staffMember.name}?`)) {
+      return;
+    }
+    setSettling(true);
+    try {
+      await houseAccountsApi.recordSettlement(staffMember.id, {
+        amount: deduction,
+        reference: getSettlementReference(period),
+      });
+      toastUtils.success(`${staffMember.name}'s deduction settled`);
+      setBalance((current) => current - deduction);
+      await loadTransactions();
+      onSettled();
+    } catch (err) {
+      console.error('Error recording settlement:', err);
+      toastUtils.error('Failed to record settlement');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4 animate-fadeIn">
+      <div className="bg-white rounded-lg shadow-md w-full max-w-3xl max-h-[90vh] overflow-y-auto p-5 relative animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-600"
+        >
+          <span className="sr-only">Close</span>
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <div className="flex flex-wrap justify-between items-start gap-3 mb-4 pr-6">
+          <div>
+            <h3 className="text-lg font-bold">House Account Statement</h3>
+            <p className="text-sm text-gray-600">{staffMember.name} · {staffMember.position}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-xs text-gray-500">Current Balance</p>
+            <p className={`text-lg font-semibold ${balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              ${Math.abs(balance).toFixed(2)}{balance > 0 ? ' (owed)' : balance < 0 ? ' (credit)' : ''}
+            </p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-[#0078d4]"></div>
+          </div>
+        ) : (
+          <HouseAccountStatementView statement={statement} onPeriodChange={setPeriod} />
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:justify-end space-y-2 sm:space-y-0 sm:space-x-3 mt-5">
+          <button
+            onClick={onClose}
+            className="w-full sm:w-auto px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSettle}
+            disabled={loading || settling || deduction <= 0}
+            className="w-full sm:w-auto px-4 py-2 bg-[#0078d4] text-white rounded-md text-sm font-medium hover:bg-[#50a3d9] transition-colors disabled:opacity-50"
+          >
+            {settling ? 'Recording...' : `Record $${deduction.toFixed(2)} Settlement`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
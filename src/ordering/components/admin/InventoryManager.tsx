@@ -15,9 +15,32 @@ import {
   ChevronDown,
   Edit,
   BarChart,
-  Filter
+  Filter,
+  MapPin,
+  Package,
+  Carrot,
+  BookOpen,
+  ClipboardList,
+  History
 } from 'lucide-react';
 import { InventoryStatus } from '../../types/inventory';
+import { locationsApi } from '../../../shared/api/endpoints/locations';
+import { Location } from '../../../shared/types/Location';
+import { useIngredientStore } from '../../store/ingredientStore';
+import { IngredientsPanel } from './inventory/IngredientsPanel';
+import { RecipesPanel } from './inventory/RecipesPanel';
+import { StockCountPanel } from './inventory/StockCountPanel';
+import { InventoryLedgerPanel } from './inventory/InventoryLedgerPanel';
+
+type InventoryTab = 'items' | 'ingredients' | 'recipes' | 'count' | 'ledger';
+
+const INVENTORY_TABS: { id: InventoryTab; label: string; icon: typeof Package }[] = [
+  { id: 'items', label: 'Menu Items', icon: Package },
+  { id: 'ingredients', label: 'Ingredients', icon: Carrot },
+  { id: 'recipes', label: 'Recipes', icon: BookOpen },
+  { id: 'count', label: 'Stock Count', icon: ClipboardList },
+  { id: 'ledger', label: 'Ledger', icon: History },
+];
 
 interface ItemDetailsModalProps {
   item: InventoryStatus;
@@ -419,16 +442,36 @@ className={`flex items-center justify-center p-3 rounded-md border w-[140px] ${
 };
 
 export function InventoryManager() {
-  const { inventory, updateInventoryStatus, fetchInventory, loading, error } = useInventoryStore();
+  const { inventory, updateInventoryStatus, fetchInventory, locationId, setLocationId, loading, error } = useInventoryStore();
+  const [locations, setLocations] = useState<Location[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedItem, setSelectedItem] = useState<InventoryStatus | null>(null);
   const [trackingEnabled, setTrackingEnabled] = useState(true);
   const [currentStockView, setCurrentStockView] = useState<'all' | 'low' | 'out'>('all');
+  const [activeTab, setActiveTab] = useState<InventoryTab>('items');
+  const fetchIngredients = useIngredientStore((state) => state.fetchIngredients);
+  const ingredientsError = useIngredientStore((state) => state.error);
 
   useEffect(() => {
     fetchInventory();
   }, [fetchInventory]);
 
+  // Ingredient stock follows the same location picker as item stock
+  useEffect(() => {
+    if (activeTab !== 'items') {
+      fetchIngredients(locationId);
+    }
+  }, [activeTab, locationId, fetchIngredients]);
+
+  // Locations for the stock scope picker
+  useEffect(() => {
+    locationsApi.getLocations({ active: true })
+      .then(setLocations)
+      .catch(err => console.error('Error fetching locations:', err));
+  }, []);
+
+  const selectedLocation = locations.find(loc => loc.id === locationId);
+
   const handleStatusChange = (itemId: string, inStock: boolean, lowStock: boolean) => {
     updateInventoryStatus(itemId, { inStock, lowStock });
   };
@@ -453,7 +496,7 @@ export function InventoryManager() {
     return matchesSearch;
   });
 
-  if (loading) {
+  if (loading && activeTab === 'items') {
     return (
       <div className="max-w-6xl mx-auto p-4 sm:p-6 md:p-8">
         <div className="bg-white rounded-lg shadow-md p-6">
@@ -468,7 +511,7 @@ export function InventoryManager() {
     );
   }
 
-  if (error) {
+  if (error && activeTab === 'items') {
     return (
       <div className="max-w-6xl mx-auto p-4 sm:p-6 md:p-8">
         <div className="bg-white rounded-lg shadow-md p-6 border-l-4 border-red-500">
@@ -494,9 +537,35 @@ export function InventoryManager() {
     <div className="max-w-6xl mx-auto p-4 sm:p-6 md:p-8">
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
-          <h2 className="text-2xl font-bold">Inventory Management</h2>
+          <div>
+            <h2 className="text-2xl font-bold">Inventory Management</h2>
+            {selectedLocation && (
+              <p className="text-sm text-gray-500 mt-1">Stock at {selectedLocation.name}</p>
+            )}
+          </div>
           
           <div className="flex items-center mt-4 md:mt-0">
+            {locations.length > 1 && (
+              <div className="relative mr-2">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <MapPin className="h-5 w-5 text-gray-400" />
+                </div>
+                <select
+                  value={locationId ?? ''}
+                  onChange={(e) => setLocationId(e.target.value ? parseInt(e.target.value, 10) : null)}
+                  className="pl-10 pr-8 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  aria-label="Stock location"
+                >
+                  <option value="">All locations</option>
+                  {locations.map(loc => (
+                    <option key={loc.id} value={loc.id}>{loc.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {activeTab === 'items' && (
+            <>
             <div className="relative mr-2">
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <Search className="h-5 w-5 text-gray-400" />
@@ -522,9 +591,36 @@ export function InventoryManager() {
                 <span className="ml-3 text-sm font-medium text-gray-900">Enable Tracking</span>
               </label>
             </div>
+            </>
+            )}
           </div>
         </div>
-        
+
+        <div className="flex border-b mb-6">
+          {INVENTORY_TABS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setActiveTab(id)}
+              className={`px-4 py-3 text-sm font-medium inline-flex items-center ${
+                activeTab === id ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <Icon className="h-4 w-4 mr-2" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab !== 'items' && ingredientsError && (
+          <p className="mb-4 text-sm text-red-600">{ingredientsError}</p>
+        )}
+        {activeTab === 'ingredients' && <IngredientsPanel />}
+        {activeTab === 'recipes' && <RecipesPanel />}
+        {activeTab === 'count' && <StockCountPanel />}
+        {activeTab === 'ledger' && <InventoryLedgerPanel />}
+
+        {activeTab === 'items' && (
+        <>
         <div className="mb-6">
           <div className="flex overflow-x-auto space-x-2 p-1">
             <button
@@ -690,6 +786,8 @@ export function InventoryManager() {
             </p>
           </div>
         )}
+        </>
+        )}
       </div>
       
       {selectedItem && (
@@ -1,7 +1,7 @@
 // src/ordering/components/admin/MenuManager.tsx
 
 import React, { useEffect, useMemo, useState, useRef } from 'react';
-import { Plus, Edit2, Trash2, X, Save, BookOpen, Package, Eye, EyeOff, Copy } from 'lucide-react';
+import { Plus, Edit2, Trash2, X, Save, BookOpen, Package, Eye, EyeOff, Copy, TrendingUp } from 'lucide-react';
 import toastUtils from '../../../shared/utils/toastUtils';
 import { useMenuStore } from '../../store/menuStore';
 import type { MenuItem, MenuItemFilterParams } from '../../types/menu';
@@ -22,6 +22,7 @@ import OptionGroupsModal from './OptionGroupsModal';
 
 // Import the unified modal component for cloning/copying
 import { UnifiedCloneMenuItemModal } from './UnifiedCloneMenuItemModal';
+import { UpsellRulesModal } from './UpsellRulesModal';
 
 // LazyMenuManagerImage component for lazy-loaded images in the admin menu manager
 interface LazyMenuManagerImageProps {
@@ -175,6 +176,9 @@ export function MenuManager({
   const [cloneModalOpen, setCloneModalOpen] = useState(false);
   const [itemToClone, setItemToClone] = useState<MenuItem | null>(null);
 
+  // Upsell rules modal
+  const [upsellRulesOpen, setUpsellRulesOpen] = useState(false);
+
   // Additional filter checkboxes
   const [showFeaturedOnly, setShowFeaturedOnly] = useState(false);
   const [showSeasonalOnly, setShowSeasonalOnly] = useState(false);
@@ -1022,7 +1026,14 @@ export function MenuManager({
           </div>
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-2">
-            {/* Add Item Button */}
+            {/* Upsell Rules Button */}
+            <button
+              onClick={() => setUpsellRulesOpen(true)}
+              className="inline-flex items-center justify-center w-full sm:w-auto px-4 py-2 bg-white text-[#0078d4] border border-[#0078d4] rounded-md hover:bg-[#0078d4]/10"
+            >
+              <TrendingUp className="h-5 w-5 mr-2" />
+              Upsell Rules
+            </button>
             {/* Add Item Button */}
             <button
               onClick={handleAdd}
@@ -2193,6 +2204,14 @@ export function MenuManager({
         />
       )}
       
+      {/* Upsell Rules Modal */}
+      {upsellRulesOpen && (
+        <UpsellRulesModal
+          categories={filteredCategories}
+          onClose={() => setUpsellRulesOpen(false)}
+        />
+      )}
+
       {/* Unified Clone/Copy Menu Item Modal */}
       {cloneModalOpen && itemToClone && (
         <UnifiedCloneMenuItemModal
@@ -16,13 +16,27 @@ import { StaffOrderModal } from './StaffOrderModal';
 import { BulkInventoryActionDialog } from './BulkInventoryActionDialog';
 import { RefundModal } from './RefundModal';
 import { LocationFilter } from './LocationFilter';
+import { DriverAssignmentField } from './DriverAssignmentField';
+import { formatOrderStatus, isDeliveryOrder } from '../../utils/deliveryUtils';
+import type { Order } from '../../types/order';
+import { CloseTabModal } from './CloseTabModal';
+import { isOpenTab } from '../../utils/dineInUtils';
 import { menuItemsApi } from '../../../shared/api/endpoints/menuItems';
 import { orderPaymentsApi } from '../../../shared/api/endpoints/orderPayments';
 import { orderPaymentOperationsApi } from '../../../shared/api/endpoints/orderPaymentOperations';
 import { api } from '../../../shared/api';
 import toastUtils from '../../../shared/utils/toastUtils';
 
-type OrderStatus = 'pending' | 'preparing' | 'ready' | 'completed' | 'cancelled' | 'confirmed' | 'refunded';
+type OrderStatus =
+  | 'pending'
+  | 'preparing'
+  | 'ready'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'completed'
+  | 'cancelled'
+  | 'confirmed'
+  | 'refunded';
 
 interface OrderManagerProps {
   selectedOrderId?: number | null;
@@ -41,6 +55,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
     // updateOrderStatus, // Not used with server-side pagination
     updateOrderStatusQuietly,
     updateOrderData,
+    closeOrderTab,
     loading,
     error
   } = useOrderStore();
@@ -69,6 +84,9 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
   
   // location filter for multi-location restaurants
   const [locationFilter, setLocationFilter] = useState<number | null>(null);
+
+  // Pickup vs delivery filter
+  const [fulfillmentFilter, setFulfillmentFilter] = useState<'all' | 'pickup' | 'delivery' | 'dine_in'>('all');
   
   // pagination transition states
   const [isPageChanging, setIsPageChanging] = useState(false);
@@ -89,6 +107,9 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
 
   // for the "Set ETA" modal
   const [showEtaModal, setShowEtaModal] = useState(false);
+
+  // Dine-in pay-at-end order being settled
+  const [tabToClose, setTabToClose] = useState<Order | null>(null);
   const [etaMinutes, setEtaMinutes] = useState(5);
   const [orderToPrep, setOrderToPrep] = useState<any | null>(null);
 
@@ -372,6 +393,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
       searchQuery: searchQuery || null,
       restaurantId: restaurantId || null,
       locationId: locationFilter, // Add location filter parameter
+      fulfillment_type: fulfillmentFilter !== 'all' ? fulfillmentFilter : null,
       _sourceId: sourceId // Add a unique ID to track this request
     };
     
@@ -427,7 +449,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
     
     return sourceId; // Return the source ID for potential future reference
   }, [/* deliberately NOT including currentPage to avoid stale closures */
-      ordersPerPage, selectedStatus, sortNewestFirst, getDateRange, searchQuery, locationFilter, restaurantId, staffFilter, onlineOrdersOnly, isSuperAdmin, isAdmin]);
+      ordersPerPage, selectedStatus, sortNewestFirst, getDateRange, searchQuery, locationFilter, fulfillmentFilter, restaurantId, staffFilter, onlineOrdersOnly, isSuperAdmin, isAdmin]);
 
   // Fetch orders quietly with current filter parameters (for background updates)
   const fetchOrdersWithParamsQuietly = useCallback(() => {
@@ -455,6 +477,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
       dateTo: end.toISOString(),
       searchQuery: searchQuery || null,
       locationId: locationFilter, // Add location filter parameter
+      fulfillment_type: fulfillmentFilter !== 'all' ? fulfillmentFilter : null,
       restaurantId: restaurantId || null,
       _sourceId: sourceId // Add a unique ID to track this request
     };
@@ -501,6 +524,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
     sortNewestFirst,
     getDateRange,
     searchQuery,
+    fulfillmentFilter,
     restaurantId,
     currentStaffMemberId,
     staffFilter,
@@ -706,7 +730,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
       // Cleanup - clearing timeout for fetch
       clearTimeout(timeoutId);
     };
-  }, [currentPage, ordersPerPage, selectedStatus, sortNewestFirst, dateFilter, searchQuery, locationFilter, fetchOrdersWithParams]);
+  }, [currentPage, ordersPerPage, selectedStatus, sortNewestFirst, dateFilter, searchQuery, locationFilter, fulfillmentFilter, fetchOrdersWithParams]);
   
   // Additional effect to force update WebSocket pagination params when page changes
   useEffect(() => {
@@ -1051,7 +1075,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
     }, 100);
     
     return () => clearTimeout(timeoutId);
-  }, [selectedStatus, sortNewestFirst, searchQuery, dateFilter, locationFilter, onlineOrdersOnly, fetchOrdersWithParams, ordersPerPage]);
+  }, [selectedStatus, sortNewestFirst, searchQuery, dateFilter, locationFilter, fulfillmentFilter, onlineOrdersOnly, fetchOrdersWithParams, ordersPerPage]);
 
   // If the parent sets a selectedOrderId => expand that order
   // (And scroll to it if it's in the list)
@@ -1147,6 +1171,8 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
       pending: 'bg-yellow-100 text-yellow-800',
       preparing: 'bg-blue-100 text-blue-800',
       ready: 'bg-green-100 text-green-800',
+      out_for_delivery: 'bg-teal-100 text-teal-800',
+      delivered: 'bg-gray-100 text-gray-800',
       completed: 'bg-gray-100 text-gray-800',
       cancelled: 'bg-red-100 text-red-800',
       confirmed: 'bg-purple-100 text-purple-800',
@@ -1248,7 +1274,14 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
                 </button>
               )}
 
-              {order.status === 'ready' && (
+              {isDeliveryOrder(order) && (
+                <DriverAssignmentField
+                  driverName={order.driver_name}
+                  onAssign={(driverName) => updateOrderData(order.id, { driver_name: driverName })}
+                />
+              )}
+
+              {order.status === 'ready' && !isDeliveryOrder(order) && (
                 <button
                   className="px-4 py-2 bg-gray-500 text-white rounded-md text-sm font-medium hover:bg-gray-600 min-w-[120px] flex-grow sm:flex-grow-0"
                   onClick={() => {
@@ -1260,6 +1293,45 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
                   Complete
                 </button>
               )}
+
+              {order.status === 'ready' && isDeliveryOrder(order) && (
+                <button
+                  className="px-4 py-2 bg-teal-500 text-white rounded-md text-sm font-medium hover:bg-teal-600 min-w-[120px] flex-grow sm:flex-grow-0"
+                  onClick={() => {
+                    if (!order.driver_name) {
+                      toastUtils.error('Assign a driver before sending the order out.');
+                      return;
+                    }
+                    setIsStatusUpdateInProgress(true);
+                    updateOrderStatusQuietly(order.id, 'out_for_delivery')
+                      .finally(() => setIsStatusUpdateInProgress(false));
+                  }}
+                >
+                  Out for Delivery
+                </button>
+              )}
+
+              {isOpenTab(order) && order.status !== 'cancelled' && (
+                <button
+                  className="px-4 py-2 bg-amber-500 text-white rounded-md text-sm font-medium hover:bg-amber-600 min-w-[120px] flex-grow sm:flex-grow-0"
+                  onClick={() => setTabToClose(order)}
+                >
+                  Close Tab
+                </button>
+              )}
+
+              {order.status === 'out_for_delivery' && (
+                <button
+                  className="px-4 py-2 bg-gray-500 text-white rounded-md text-sm font-medium hover:bg-gray-600 min-w-[120px] flex-grow sm:flex-grow-0"
+                  onClick={() => {
+                    setIsStatusUpdateInProgress(true);
+                    updateOrderStatusQuietly(order.id, 'delivered')
+                      .finally(() => setIsStatusUpdateInProgress(false));
+                  }}
+                >
+                  Mark Delivered
+                </button>
+              )}
               
               {/* Refund button removed - users should use the AdminEditOrderModal for refunds */}
               
@@ -1389,8 +1461,8 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
               </div>
             )}
             
-            {/* Second Row - Date Filter, Location Filter, and Sort */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {/* Second Row - Date Filter, Location Filter, Fulfillment, and Sort */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
               {/* Date Filter */}
               <div className="w-full">
                 <label className="block text-sm font-medium text-gray-700 mb-2">Date Range</label>
@@ -1414,6 +1486,25 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
                 className="w-full"
               />
 
+              {/* Fulfillment Filter */}
+              <div className="w-full">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Order Type</label>
+                <MobileSelect
+                  options={[
+                    { value: 'all', label: 'All Order Types' },
+                    { value: 'pickup', label: 'Pickup Only' },
+                    { value: 'delivery', label: 'Delivery Only' },
+                    { value: 'dine_in', label: 'Dine-In Only' }
+                  ]}
+                  value={fulfillmentFilter}
+                  onChange={(value) => {
+                    setFulfillmentFilter(value as 'all' | 'pickup' | 'delivery' | 'dine_in');
+                    setCurrentPage(1); // Reset to first page when changing filter
+                  }}
+                  className="w-full h-12 shadow-sm border-gray-300 rounded-md"
+                />
+              </div>
+
               {/* Sort Dropdown */}
               <div className="w-full">
                 <label className="block text-sm font-medium text-gray-700 mb-2">Sort Orders</label>
@@ -1470,7 +1561,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
             >
               All Orders
             </button>
-            {(['pending', 'preparing', 'ready', 'completed', 'cancelled', 'refunded'] as const).map((status) => (
+            {(['pending', 'preparing', 'ready', 'out_for_delivery', 'delivered', 'completed', 'cancelled', 'refunded'] as const).map((status) => (
               <button
                 key={status}
                 onClick={() => {
@@ -1485,7 +1576,7 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
                   }
                 `}
               >
-                {status.charAt(0).toUpperCase() + status.slice(1)}
+                {formatOrderStatus(status)}
               </button>
             ))}
           </div>
@@ -1793,6 +1884,23 @@ export function OrderManager({ selectedOrderId, setSelectedOrderId, restaurantId
         />
       )}
 
+      {tabToClose && (
+        <CloseTabModal
+          order={tabToClose}
+          onClose={() => setTabToClose(null)}
+          onConfirm={async (paymentMethod) => {
+            try {
+              await closeOrderTab(tabToClose.id, paymentMethod);
+              toastUtils.success('Tab closed.');
+              setTabToClose(null);
+            } catch (err) {
+              console.error('Error closing tab:', err);
+              toastUtils.error('Failed to close tab. Please try again.');
+            }
+          }}
+        />
+      )}
+
       {/* 3) "Edit Order" modal */}
       {editingOrder && (
         <AdminEditOrderModal
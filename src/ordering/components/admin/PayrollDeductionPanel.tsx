@@ -0,0 +1,222 @@
+// src/ordering/components/admin/PayrollDeductionPanel.tsx
+import { useEffect, useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { houseAccountsApi } from '../../../shared/api/endpoints/houseAccounts';
+import type { HouseAccountStaffMember, HouseAccountTransaction, PayPeriod } from '../../types/houseAccount';
+import {
+  buildPayrollDeductionRows,
+  getDefaultPayPeriod,
+  getSettlementReference,
+} from '../../utils/houseAccountUtils';
+
+interface PayrollDeductionPanelProps {
+  staffMembers: HouseAccountStaffMember[];
+  /** Called after settlements so balances can be refetched */
+  onSettled: () => void;
+}
+
+type DeductionRow = ReturnType<typeof buildPayrollDeductionRows>[number];
+
+/**
+ * Balances owed at the end of the pay period, exported for payroll and then
+ * settled once the deductions have been taken
+ */
+export function PayrollDeductionPanel({ staffMembers, onSettled }: PayrollDeductionPanelProps) {
+  const [period, setPeriod] = useState<PayPeriod>(() => getDefaultPayPeriod());
+  const [settlingId, setSettlingId] = useState<number | 'all' | null>(null);
+  const [transactionsByStaff, setTransactionsByStaff] = useState<Map<number, HouseAccountTransaction[]>>(new Map());
+  const [loading, setLoading] = useState(false);
+
+  // Deductions are worked out from each statement, so load the history of
+  // everyone who owes anything
+  useEffect(() => {
+    let cancelled = false;
+    const owing = staffMembers.filter((staff) => Number(staff.house_account_balance) > 0);
+    setLoading(true);
+    (async () => {
+      const loaded = new Map<number, HouseAccountTransaction[]>();
+      for (const staff of owing) {
+        try {
+          loaded.set(staff.id, await houseAccountsApi.getTransactions(staff.id));
+        } catch (err) {
+          console.error(`Error loading transactions for ${staff.name}:`, err);
+        }
+        if (cancelled) return;
+      }
+      if (loaded.size < owing.length) {
+        toastUtils.error('Some house account statements could not be loaded and are left out.');
+      }
+      setTransactionsByStaff(loaded);
+      setLoading(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [staffMembers]);
+
+  const rows = useMemo(
+    () => buildPayrollDeductionRows(staffMembers, transactionsByStaff, period),
+    [staffMembers, transactionsByStaff, period]
+  );
+  const total = rows.reduce((sum, row) => sum + row.Deduction, 0);
+
+  const exportDeductions = (bookType: 'csv' | 'xlsx') => {
+    if (rows.length === 0) {
+      toastUtils.error('No balances to export');
+      return;
+    }
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), 'Payroll Deductions');
+    XLSX.writeFile(wb, `Payroll_Deductions_${period.start}_to_${period.end}.${bookType}`, { bookType });
+  };
+
+  // Settles exactly what was exported for the period
+  const settle = async (row: DeductionRow) => {
+    await houseAccountsApi.recordSettlement(row['Staff ID'], {
+      amount: row.Deduction,
+      reference: getSettlementReference(period),
+    });
+  };
+
+  const handleSettleOne = async (row: DeductionRow) => {
+    if (!window.confirm(`Record a $${row.Deduction.toFixed(2)} payroll deduction for ${row.Name}?`)) {
+      return;
+    }
+    setSettlingId(row['Staff ID']);
+    try {
+      await settle(row);
+      toastUtils.success(`${row.Name}'s deduction settled`);
+    } catch (err) {
+      console.error('Error recording settlement:', err);
+      toastUtils.error(`Failed to settle ${row.Name}'s deduction`);
+    } finally {
+      setSettlingId(null);
+      onSettled();
+    }
+  };
+
+  const handleSettleAll = async () => {
+    if (!window.confirm(`Record payroll deductions totalling $${total.toFixed(2)} for ${rows.length} staff members?`)) {
+      return;
+    }
+    setSettlingId('all');
+    // One at a time so a failure leaves the others settled and visible
+    const failed: string[] = [];
+    for (const row of rows) {
+      try {
+        await settle(row);
+      } catch (err) {
+        console.error(`Error settling ${row.Name}:`, err);
+        failed.push(row.Name);
+      }
+    }
+    setSettlingId(null);
+    if (failed.length > 0) {
+      toastUtils.error(`Could not settle: ${failed.join(', ')}`);
+    } else {
+      toastUtils.success('All deductions settled');
+    }
+    onSettled();
+  };
+
+  return (
+    <div className="bg-white rounded-md shadow-md p-4">
+      <div className="flex flex-wrap justify-between items-end gap-3 mb-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Pay Period Start</label>
+            <input
+              type="date"
+              value={period.start}
+              max={period.end}
+              onChange={(e) => e.target.value && setPeriod({ ...period, start: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#0078d4]"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Pay Period End</label>
+            <input
+              type="date"
+              value={period.end}
+              min={period.start}
+              onChange={(e) => e.target.value && setPeriod({ ...period, end: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#0078d4]"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => exportDeductions('csv')}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => exportDeductions('xlsx')}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+          >
+            Export Excel
+          </button>
+          <button
+            onClick={handleSettleAll}
+            disabled={loading || rows.length === 0 || settlingId !== null}
+            className="px-4 py-2 bg-[#0078d4] text-white rounded-md hover:bg-[#50a3d9] transition-colors disabled:opacity-50"
+          >
+            {settlingId === 'all' ? 'Settling...' : 'Settle All'}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Deductions are the balance owed at the end of the pay period. Export them for payroll, then settle
+        once they've been taken. Settling posts a payment referencing the pay period, and a period can only be
+        settled once.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 py-4 text-center">Loading statements...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">No deductions owed for this pay period.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Position</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Deduction</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map((row) => (
+                <tr key={row['Staff ID']}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.Name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.Position}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-red-600">
+                    ${row.Deduction.toFixed(2)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                    <button
+                      onClick={() => handleSettleOne(row)}
+                      disabled={settlingId !== null}
+                      className="text-[#0078d4] hover:text-[#a67b28] disabled:opacity-50"
+                    >
+                      {settlingId === row['Staff ID'] ? 'Settling...' : 'Record Settlement'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50">
+                <td className="px-6 py-3 text-sm font-semibold" colSpan={2}>Total</td>
+                <td className="px-6 py-3 text-sm text-right font-semibold">${total.toFixed(2)}</td>
+                <td />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
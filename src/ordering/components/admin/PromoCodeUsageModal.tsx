@@ -0,0 +1,182 @@
+// src/ordering/components/admin/PromoCodeUsageModal.tsx
+
+import { useState, useEffect } from 'react';
+import { X, ShoppingBag } from 'lucide-react';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { getPromoCodeUsage } from '../../../shared/api/endpoints/orders';
+import type { PromoCodeUsageStats } from '../../types/promo';
+
+interface PromoCodeUsageModalProps {
+  code: string;
+  onClose: () => void;
+}
+
+export const PromoCodeUsageModal = ({ code, onClose }: PromoCodeUsageModalProps) => {
+  const [loading, setLoading] = useState(true);
+  const [usageData, setUsageData] = useState<PromoCodeUsageStats | null>(null);
+
+  useEffect(() => {
+    const fetchUsageData = async () => {
+      setLoading(true);
+      try {
+        const data = await getPromoCodeUsage(code);
+        setUsageData(data as PromoCodeUsageStats);
+      } catch (error) {
+        console.error('Error fetching promo code usage data:', error);
+        toastUtils.error('Failed to load promo code usage data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsageData();
+  }, [code]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  if (loading) return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 animate-fadeIn p-4">
+      <div className="bg-white p-4 sm:p-6 rounded-lg shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col transition-all duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div className="h-7 w-48 bg-gray-200 rounded animate-pulse"></div>
+          <div className="h-6 w-6 bg-gray-200 rounded-full animate-pulse"></div>
+        </div>
+
+        <div className="bg-gray-100 p-4 rounded-lg mb-4 animate-pulse">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {Array.from({ length: 5 }).map((_, index) => (
+              <div key={index}>
+                <div className="h-4 w-16 bg-gray-200 rounded mb-2"></div>
+                <div className="h-5 w-24 bg-gray-200 rounded"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-grow space-y-2">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <div key={`skeleton-row-${index}`} className="h-10 bg-gray-100 rounded animate-pulse"></div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  if (!usageData) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 animate-fadeIn p-4">
+      <div className="bg-white p-4 sm:p-6 rounded-lg shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col transition-all duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Promo Code Usage: {usageData.code}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="bg-amber-50 p-4 rounded-lg mb-4 transition-all duration-300 animate-fadeIn">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <p className="text-sm text-gray-500">Total Uses</p>
+              <p className="font-semibold">{usageData.total_uses}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Unique Customers</p>
+              <p className="font-semibold">{usageData.unique_customers}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Total Discount</p>
+              <p className="font-semibold">{formatCurrency(usageData.total_discount)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Revenue</p>
+              <p className="font-semibold">{formatCurrency(usageData.total_revenue)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Avg. Order</p>
+              <p className="font-semibold">{formatCurrency(usageData.average_order_value)}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-auto">
+          {usageData.usages.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <ShoppingBag size={48} className="mx-auto mb-2 opacity-30" />
+              <p>No orders have been placed using this promo code yet.</p>
+            </div>
+          ) : (
+            <>
+              <h3 className="font-semibold text-lg mb-2">Orders ({usageData.usages.length})</h3>
+
+              {/* Mobile card view for small screens */}
+              <div className="md:hidden space-y-2">
+                {usageData.usages.map((usage, index) => (
+                  <div
+                    key={usage.order_id}
+                    className={`p-3 rounded-lg border ${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">Order #{usage.order_number || usage.order_id}</span>
+                      <span className="font-semibold">{formatCurrency(usage.order_total)}</span>
+                    </div>
+                    <div className="text-sm text-gray-600 mt-1 break-all">
+                      {usage.customer_name || usage.customer_email || 'Guest'}
+                    </div>
+                    <div className="flex justify-between items-center mt-1 text-sm">
+                      <span className="text-gray-500">{formatDate(usage.created_at)}</span>
+                      <span className="text-green-600">-{formatCurrency(usage.discount_amount)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Table view for larger screens */}
+              <div className="hidden md:block bg-white border border-gray-200 rounded-lg overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order Total</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {usageData.usages.map((usage, index) => (
+                      <tr key={usage.order_id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                        <td className="px-4 py-3 font-medium">#{usage.order_number || usage.order_id}</td>
+                        <td className="px-4 py-3">
+                          <div>{usage.customer_name || 'Guest'}</div>
+                          {usage.customer_email && (
+                            <div className="text-xs text-gray-500 break-all">{usage.customer_email}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-green-600">-{formatCurrency(usage.discount_amount)}</td>
+                        <td className="px-4 py-3">{formatCurrency(usage.order_total)}</td>
+                        <td className="px-4 py-3">{formatDate(usage.created_at)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,44 @@
 // src/components/admin/PromoManager.tsx
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, X, Save, Tag } from 'lucide-react';
+import { Plus, Edit2, Trash2, X, Save, Tag, BarChart } from 'lucide-react';
 import { usePromoStore } from '../../store/promoStore';
-import type { PromoCode } from '../../types/promo';
+import { useMenuStore } from '../../store/menuStore';
+import { describePromo } from '../../utils/promoUtils';
+import type { PromoCode, PromoDiscountType } from '../../types/promo';
+import { PromoCodeUsageModal } from './PromoCodeUsageModal';
 
 interface PromoFormData {
   code: string;
+  discountType: PromoDiscountType;
   discountPercent: number;
+  discountAmount?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  freeItemId?: string | null;
+  eligibleCategoryIds: number[];
+  eligibleItemIds: string[];
+  minSubtotal?: number | null;
+  maxUsesPerCustomer?: number | null;
+  activeDays: number[];
+  startTime?: string | null;
+  endTime?: string | null;
+  validFrom?: string | null;
   validUntil: string;
   maxUses?: number;
   description?: string;
 }
 
+const DISCOUNT_TYPE_OPTIONS: { value: PromoDiscountType; label: string }[] = [
+  { value: 'percentage', label: 'Percentage off' },
+  { value: 'fixed_amount', label: 'Fixed amount off' },
+  { value: 'bogo', label: 'Buy X, get Y' },
+  { value: 'free_item', label: 'Free item' },
+];
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toDateInput = (value: string) => new Date(value).toISOString().split('T')[0];
+
 interface PromoManagerProps {
   restaurantId?: string;
 }
@@ -26,16 +53,28 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
     loading,
     error
   } = usePromoStore();
+  const { menuItems, categories, fetchMenuItems, fetchCategories } = useMenuStore();
   const [isEditing, setIsEditing] = useState(false);
   const [editingPromo, setEditingPromo] = useState<PromoFormData | null>(null);
+  const [usageCode, setUsageCode] = useState<string | null>(null);
 
   useEffect(() => {
     fetchPromoCodes();
   }, [fetchPromoCodes]);
 
+  // Needed for the free item and eligibility pickers
+  useEffect(() => {
+    if (menuItems.length === 0) fetchMenuItems();
+    if (categories.length === 0) fetchCategories();
+  }, [menuItems.length, categories.length, fetchMenuItems, fetchCategories]);
+
   const initialFormData: PromoFormData = {
     code: '',
+    discountType: 'percentage',
     discountPercent: 10,
+    eligibleCategoryIds: [],
+    eligibleItemIds: [],
+    activeDays: [],
     validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
       .toISOString()
       .split('T')[0],
@@ -46,7 +85,12 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
   const handleEdit = (promo: PromoCode) => {
     setEditingPromo({
       ...promo,
-      validUntil: new Date(promo.validUntil).toISOString().split('T')[0]
+      discountType: promo.discountType || 'percentage',
+      eligibleCategoryIds: promo.eligibleCategoryIds || [],
+      eligibleItemIds: promo.eligibleItemIds || [],
+      activeDays: promo.activeDays || [],
+      validFrom: promo.validFrom ? toDateInput(promo.validFrom) : null,
+      validUntil: toDateInput(promo.validUntil)
     });
     setIsEditing(true);
   };
@@ -60,8 +104,15 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
     e.preventDefault();
     if (!editingPromo) return;
 
+    // A time window needs both ends
+    if (!!editingPromo.startTime !== !!editingPromo.endTime) {
+      window.alert('Please set both a start and end time, or leave both empty.');
+      return;
+    }
+
     const promoData: PromoCode = {
       ...editingPromo,
+      validFrom: editingPromo.validFrom ? new Date(editingPromo.validFrom).toISOString() : null,
       validUntil: new Date(editingPromo.validUntil).toISOString(),
       currentUses: 0
     };
@@ -82,6 +133,48 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
     }
   };
 
+  const updateForm = (changes: Partial<PromoFormData>) => {
+    setEditingPromo((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const toggleInList = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const parseOptionalNumber = (value: string) => (value === '' ? null : Number(value));
+
+  const itemName = (id: string) => menuItems.find((item) => String(item.id) === id)?.name || `#${id}`;
+
+  // Summary of the restrictions shown on each card
+  const describeRestrictions = (promo: PromoCode): string[] => {
+    const restrictions: string[] = [];
+    if (promo.eligibleCategoryIds?.length) {
+      restrictions.push(
+        `Categories: ${promo.eligibleCategoryIds
+          .map((id) => categories.find((c) => c.id === id)?.name || `#${id}`)
+          .join(', ')}`
+      );
+    }
+    if (promo.eligibleItemIds?.length) {
+      restrictions.push(`Items: ${promo.eligibleItemIds.map(itemName).join(', ')}`);
+    }
+    if (promo.discountType === 'free_item' && promo.freeItemId) {
+      restrictions.push(`Free item: ${itemName(String(promo.freeItemId))}`);
+    }
+    if (promo.minSubtotal) {
+      restrictions.push(`Minimum order: $${promo.minSubtotal.toFixed(2)}`);
+    }
+    if (promo.maxUsesPerCustomer) {
+      restrictions.push(`Limit ${promo.maxUsesPerCustomer} per customer`);
+    }
+    if (promo.activeDays?.length) {
+      restrictions.push(`Days: ${promo.activeDays.map((d) => DAY_LABELS[d]).join(', ')}`);
+    }
+    if (promo.startTime && promo.endTime) {
+      restrictions.push(`Hours: ${promo.startTime} – ${promo.endTime}`);
+    }
+    return restrictions;
+  };
+
   const isExpired = (validUntil: string) => new Date(validUntil) < new Date();
   const isAlmostExpired = (validUntil: string) => {
     const daysUntilExpiry = Math.ceil(
@@ -113,7 +206,7 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
       {error && <div className="text-red-600">Error: {error}</div>}
       {isEditing && editingPromo && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg w-full max-w-md p-6">
+          <div className="bg-white rounded-lg w-full max-w-lg max-h-[90vh] overflow-y-auto p-6">
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-xl font-semibold">
                 {editingPromo.code ? 'Edit Promo Code' : 'Add New Promo Code'}
@@ -150,21 +243,133 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Discount Percentage
+                  Discount Type
+                </label>
+                <select
+                  value={editingPromo.discountType}
+                  onChange={e => {
+                    const discountType = e.target.value as PromoDiscountType;
+                    // BOGO defaults to "buy 1, get 1 free"
+                    updateForm(
+                      discountType === 'bogo'
+                        ? { discountType, discountPercent: 100, buyQuantity: editingPromo.buyQuantity || 1, getQuantity: editingPromo.getQuantity || 1 }
+                        : { discountType }
+                    );
+                  }}
+                  className="w-full px-4 py-2 border rounded-md"
+                >
+                  {DISCOUNT_TYPE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {editingPromo.discountType === 'percentage' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Discount Percentage
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={editingPromo.discountPercent}
+                    onChange={e => updateForm({ discountPercent: parseInt(e.target.value) })}
+                    className="w-full px-4 py-2 border rounded-md"
+                    required
+                  />
+                </div>
+              )}
+              {editingPromo.discountType === 'fixed_amount' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Discount Amount ($)
+                  </label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={editingPromo.discountAmount ?? ''}
+                    onChange={e => updateForm({ discountAmount: e.target.value ? Number(e.target.value) : undefined })}
+                    className="w-full px-4 py-2 border rounded-md"
+                    required
+                  />
+                </div>
+              )}
+              {editingPromo.discountType === 'bogo' && (
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Buy</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={editingPromo.buyQuantity ?? 1}
+                      onChange={e => updateForm({ buyQuantity: parseInt(e.target.value) || 1 })}
+                      className="w-full px-4 py-2 border rounded-md"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Get</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={editingPromo.getQuantity ?? 1}
+                      onChange={e => updateForm({ getQuantity: parseInt(e.target.value) || 1 })}
+                      className="w-full px-4 py-2 border rounded-md"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">% Off</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={editingPromo.discountPercent}
+                      onChange={e => updateForm({ discountPercent: parseInt(e.target.value) })}
+                      className="w-full px-4 py-2 border rounded-md"
+                      required
+                    />
+                  </div>
+                  <p className="col-span-3 text-xs text-gray-500">
+                    The cheapest qualifying items are discounted. Use 100% for free.
+                  </p>
+                </div>
+              )}
+              {editingPromo.discountType === 'free_item' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Free Item
+                  </label>
+                  <select
+                    value={editingPromo.freeItemId ?? ''}
+                    onChange={e => updateForm({ freeItemId: e.target.value || null })}
+                    className="w-full px-4 py-2 border rounded-md"
+                    required
+                  >
+                    <option value="">Select an item</option>
+                    {menuItems.map(item => (
+                      <option key={item.id} value={String(item.id)}>
+                        {item.name} (${item.price.toFixed(2)})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    The customer adds this item to their cart and it comes off the total.
+                  </p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Valid From (Optional)
                 </label>
                 <input
-                  type="number"
-                  min="1"
-                  max="100"
-                  value={editingPromo.discountPercent}
-                  onChange={e =>
-                    setEditingPromo({
-                      ...editingPromo,
-                      discountPercent: parseInt(e.target.value)
-                    })
-                  }
+                  type="date"
+                  value={editingPromo.validFrom || ''}
+                  onChange={e => updateForm({ validFrom: e.target.value || null })}
                   className="w-full px-4 py-2 border rounded-md"
-                  required
                 />
               </div>
               <div>
@@ -200,6 +405,158 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
                   placeholder="Unlimited if empty"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Uses Per Customer (Optional)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={editingPromo.maxUsesPerCustomer ?? ''}
+                  onChange={e => updateForm({ maxUsesPerCustomer: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-4 py-2 border rounded-md"
+                  placeholder="Unlimited if empty"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Minimum Order Subtotal (Optional)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={editingPromo.minSubtotal ?? ''}
+                  onChange={e => updateForm({ minSubtotal: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-4 py-2 border rounded-md"
+                  placeholder="No minimum if empty"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Active Days
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_LABELS.map((label, day) => {
+                    const selected = editingPromo.activeDays.includes(day);
+                    return (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => updateForm({ activeDays: toggleInList(editingPromo.activeDays, day).sort() })}
+                        className={`px-3 py-1 rounded-full text-sm border ${
+                          selected
+                            ? 'bg-[#0078d4] border-[#0078d4] text-white'
+                            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Every day if none are selected.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Start Time
+                  </label>
+                  <input
+                    type="time"
+                    value={editingPromo.startTime || ''}
+                    onChange={e => updateForm({ startTime: e.target.value || null })}
+                    className="w-full px-4 py-2 border rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Time
+                  </label>
+                  <input
+                    type="time"
+                    value={editingPromo.endTime || ''}
+                    onChange={e => updateForm({ endTime: e.target.value || null })}
+                    className="w-full px-4 py-2 border rounded-md"
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-gray-500">
+                  Leave empty to allow the code all day.
+                </p>
+              </div>
+              {editingPromo.discountType !== 'free_item' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Eligible Categories
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {categories.map(cat => {
+                      const selected = editingPromo.eligibleCategoryIds.includes(cat.id);
+                      return (
+                        <button
+                          key={cat.id}
+                          type="button"
+                          onClick={() => updateForm({ eligibleCategoryIds: toggleInList(editingPromo.eligibleCategoryIds, cat.id) })}
+                          className={`px-3 py-1 rounded-full text-sm border ${
+                            selected
+                              ? 'bg-[#0078d4] border-[#0078d4] text-white'
+                              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {cat.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              {editingPromo.discountType !== 'free_item' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Eligible Items
+                  </label>
+                  {editingPromo.eligibleItemIds.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {editingPromo.eligibleItemIds.map(id => (
+                        <span
+                          key={id}
+                          className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-blue-50 text-[#0078d4]"
+                        >
+                          {itemName(id)}
+                          <button
+                            type="button"
+                            onClick={() => updateForm({ eligibleItemIds: toggleInList(editingPromo.eligibleItemIds, id) })}
+                            className="ml-1 hover:text-[#50a3d9]"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <select
+                    value=""
+                    onChange={e => {
+                      if (e.target.value) {
+                        updateForm({ eligibleItemIds: [...editingPromo.eligibleItemIds, e.target.value] });
+                      }
+                    }}
+                    className="w-full px-4 py-2 border rounded-md"
+                  >
+                    <option value="">Add an item…</option>
+                    {menuItems
+                      .filter(item => !editingPromo.eligibleItemIds.includes(String(item.id)))
+                      .map(item => (
+                        <option key={item.id} value={String(item.id)}>
+                          {item.name}
+                        </option>
+                      ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    With no categories or items selected, the discount applies to the whole order.
+                  </p>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Description (Optional)
@@ -253,8 +610,8 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
                   <p className="text-sm text-gray-600 mt-1">{promo.description}</p>
                 )}
               </div>
-              <span className="text-lg font-semibold text-[#0078d4]">
-                {promo.discountPercent}% OFF
+              <span className="text-lg font-semibold text-[#0078d4] text-right">
+                {describePromo(promo).toUpperCase()}
               </span>
             </div>
             <div className="space-y-2 text-sm text-gray-600">
@@ -275,8 +632,18 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
                   )}
                 </p>
               )}
+              {describeRestrictions(promo).map(restriction => (
+                <p key={restriction}>{restriction}</p>
+              ))}
             </div>
             <div className="flex justify-end space-x-2 mt-4">
+              <button
+                onClick={() => setUsageCode(promo.code)}
+                className="p-2 text-gray-600 hover:text-[#0078d4]"
+                title="View usage"
+              >
+                <BarChart className="h-5 w-5" />
+              </button>
               <button
                 onClick={() => handleEdit(promo)}
                 className="p-2 text-gray-600 hover:text-[#0078d4]"
@@ -293,6 +660,10 @@ export function PromoManager({ restaurantId }: PromoManagerProps) {
           </div>
         ))}
       </div>
+
+      {usageCode && (
+        <PromoCodeUsageModal code={usageCode} onClose={() => setUsageCode(null)} />
+      )}
     </div>
   );
 }
@@ -14,7 +14,7 @@ export function SearchInput({
   className = '' 
 }: SearchInputProps) {
   const [localValue, setLocalValue] = useState(value);
-  const timeoutRef = useRef<number | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Update local value when prop value changes
   useEffect(() => {
@@ -1,7 +1,7 @@
 // src/ordering/components/admin/SettingsManager.tsx
 
 import { useState, lazy, Suspense, useEffect } from 'react';
-import { Store, Users, CreditCard, Book, Lock, Bell, MapPin } from 'lucide-react';
+import { Store, Users, CreditCard, Book, Lock, Bell, MapPin, Star } from 'lucide-react';
 
 // Lazy load the settings components to improve performance
 const RestaurantSettings = lazy(() => import('./settings/RestaurantSettings').then(module => ({ default: module.RestaurantSettings })));
@@ -12,8 +12,10 @@ const NotificationSettings = lazy(() => import('./settings/NotificationSettings'
 const VipModeToggle = lazy(() => import('./settings/VipModeToggle').then(module => ({ default: module.VipModeToggle })));
 const VipCodesManager = lazy(() => import('./settings/VipCodesManager').then(module => ({ default: module.VipCodesManager })));
 const LocationManager = lazy(() => import('./settings/LocationManager').then(module => ({ default: module.LocationManager })));
+const LoyaltySettings = lazy(() => import('./settings/LoyaltySettings').then(module => ({ default: module.LoyaltySettings })));
+const LoyaltyLedger = lazy(() => import('./settings/LoyaltyLedger').then(module => ({ default: module.LoyaltyLedger })));
 
-type SettingsTab = 'restaurant' | 'menus' | 'users' | 'payments' | 'notifications' | 'vip-access' | 'locations';
+type SettingsTab = 'restaurant' | 'menus' | 'users' | 'payments' | 'notifications' | 'vip-access' | 'locations' | 'loyalty';
 
 interface SettingsManagerProps {
   restaurantId?: string;
@@ -22,7 +24,7 @@ interface SettingsManagerProps {
 export function SettingsManager({ restaurantId }: SettingsManagerProps) {
   const [activeSettingsTab, setActiveSettingsTab] = useState<SettingsTab>(() => {
     const stored = localStorage.getItem('adminSettingsTab');
-    if (stored && ['restaurant', 'menus', 'users', 'payments', 'notifications', 'vip-access'].includes(stored)) {
+    if (stored && ['restaurant', 'menus', 'users', 'payments', 'notifications', 'vip-access', 'loyalty'].includes(stored)) {
       return stored as SettingsTab;
     }
     return 'restaurant';
@@ -41,6 +43,7 @@ export function SettingsManager({ restaurantId }: SettingsManagerProps) {
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'vip-access', label: 'VIP Access', icon: Lock },
     { id: 'locations', label: 'Locations', icon: MapPin },
+    { id: 'loyalty', label: 'Loyalty', icon: Star },
   ];
 
   // Render a placeholder while the tab content is loading
@@ -92,6 +95,13 @@ export function SettingsManager({ restaurantId }: SettingsManagerProps) {
             <LocationManager restaurantId={restaurantId} />
           </div>
         );
+      case 'loyalty':
+        return (
+          <div className="space-y-6">
+            <LoyaltySettings />
+            <LoyaltyLedger />
+          </div>
+        );
       default:
         return null;
     }
@@ -3,6 +3,8 @@ import { useState, useEffect } from 'react';
 import { apiClient } from '../../../shared/api/apiClient';
 import toastUtils from '../../../shared/utils/toastUtils';
 import { StaffReports } from './StaffReports';
+import { HouseAccountStatementModal } from './HouseAccountStatementModal';
+import { PayrollDeductionPanel } from './PayrollDeductionPanel';
 import { MobileSelect } from '../../../shared/components/ui/MobileSelect';
 
 interface StaffMember {
@@ -39,7 +41,7 @@ interface Transaction {
 }
 
 export function StaffManagement() {
-  const [activeTab, setActiveTab] = useState<'management' | 'reports'>('management');
+  const [activeTab, setActiveTab] = useState<'management' | 'reports' | 'payroll'>('management');
   const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
@@ -50,6 +52,7 @@ export function StaffManagement() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loadingTransactions, setLoadingTransactions] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(false);
+  const [statementStaffMember, setStatementStaffMember] = useState<StaffMember | null>(null);
 
   // Form state
   const [formData, setFormData] = useState({
@@ -379,6 +382,16 @@ export function StaffManagement() {
           >
             Reports
           </button>
+          <button
+            onClick={() => setActiveTab('payroll')}
+            className={`py-2 px-4 font-medium ${
+              activeTab === 'payroll'
+                ? 'text-[#0078d4] border-b-2 border-[#0078d4]'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Payroll Deductions
+          </button>
         </div>
       </div>
 
@@ -576,10 +589,16 @@ export function StaffManagement() {
                                   fetchTransactions(staffMember.id);
                                 }
                               }}
-                              className="text-[#0078d4] hover:text-[#a67b28]"
+                              className="text-[#0078d4] hover:text-[#a67b28] mr-3"
                             >
                               {showTransactions === staffMember.id ? 'Hide Transactions' : 'View Transactions'}
                             </button>
+                            <button
+                              onClick={() => setStatementStaffMember(staffMember)}
+                              className="text-[#0078d4] hover:text-[#a67b28]"
+                            >
+                              Statement
+                            </button>
                           </td>
                         </tr>
                       ))
@@ -590,8 +609,23 @@ export function StaffManagement() {
             </div>
           )}
         </div>
-      ) : (
+      ) : activeTab === 'reports' ? (
         <StaffReports />
+      ) : (
+        <PayrollDeductionPanel staffMembers={staffMembers} onSettled={fetchStaffMembers} />
+      )}
+
+      {statementStaffMember && (
+        <HouseAccountStatementModal
+          staffMember={statementStaffMember}
+          onClose={() => setStatementStaffMember(null)}
+          onSettled={() => {
+            fetchStaffMembers();
+            if (showTransactions === statementStaffMember.id) {
+              fetchTransactions(statementStaffMember.id);
+            }
+          }}
+        />
       )}
 
       {/* Transactions Section */}
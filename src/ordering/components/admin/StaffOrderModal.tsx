@@ -2099,19 +2099,27 @@ export function StaffOrderModal({ onClose, onOrderCreated }: StaffOrderModalProp
       };
       
       // Use contactPhone directly since we already validated it
-      const newOrder = await addOrder(
-        cartItems,
-        orderTotal,
-        specialInstructions || '',
-        contactName || '',
-        contactPhone || '',
-        contactEmail || '',
-        finalTransactionId || '',
-        paymentMethod || '',
-        '', // vipCode parameter
-        true, // Add staff_modal parameter to indicate this is a staff-created order
-        enhancedPaymentDetails // Combined payment details and staff order params
-      );
+      const newOrder = await addOrder({
+        items: cartItems,
+        total: orderTotal,
+        specialInstructions: specialInstructions || '',
+        contactName: contactName || '',
+        contactPhone: contactPhone || '',
+        contactEmail: contactEmail || '',
+        transactionId: finalTransactionId || '',
+        paymentMethod: paymentMethod || '',
+        vipCode: '',
+        staffModal: true, // Indicates this is a staff-created order
+        paymentDetails: enhancedPaymentDetails // Combined payment details and staff order params
+      });
+
+      // No connection: the order is queued and will be sent (with its payment
+      // details) once we're back online, so there's no order ID to attach a payment to yet
+      if (newOrder.queued_offline) {
+        toastUtils.success("You're offline. The order was saved and will be sent when the connection returns.");
+        onClose();
+        return;
+      }
       
       // Create an OrderPayment record for manual payment methods
       // Note: We exclude stripe_reader since it's already creating OrderPayment records
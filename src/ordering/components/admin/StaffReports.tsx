@@ -1,5 +1,5 @@
 // src/ordering/components/admin/StaffReports.tsx
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { apiClient } from '../../../shared/api/apiClient';
 import toastUtils from '../../../shared/utils/toastUtils';
 
@@ -39,8 +39,35 @@ interface DiscountSummary {
   }[];
 }
 
+interface TipsSummary {
+  total_tips: number;
+  tipped_order_count: number;
+  order_count: number;
+  average_tip: number;
+  by_day: {
+    date: string;
+    order_count: number;
+    tips: number;
+  }[];
+  by_payment_method: {
+    payment_method: string;
+    order_count: number;
+    tips: number;
+  }[];
+}
+
+// Report rows as returned by the API; numbers may arrive as strings
+interface TipsSummaryRow {
+  date?: string;
+  payment_method?: string;
+  order_count?: number | string;
+  tips?: number | string;
+}
+
+type ReportType = 'orders' | 'balances' | 'discounts' | 'tips';
+
 export function StaffReports() {
-  const [activeReport, setActiveReport] = useState<'orders' | 'balances' | 'discounts'>('orders');
+  const [activeReport, setActiveReport] = useState<ReportType>('orders');
   const [dateRange, setDateRange] = useState<{ from: string; to: string }>({
     from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days ago
     to: new Date().toISOString().split('T')[0] // today
@@ -48,6 +75,7 @@ export function StaffReports() {
   const [staffOrders, setStaffOrders] = useState<StaffOrder[]>([]);
   const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
   const [discountSummary, setDiscountSummary] = useState<DiscountSummary | null>(null);
+  const [tipsSummary, setTipsSummary] = useState<TipsSummary | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedStaffId, setSelectedStaffId] = useState<number | 'all'>('all');
@@ -57,15 +85,6 @@ export function StaffReports() {
     fetchStaffMembers();
   }, []);
 
-  // Fetch report data when parameters change
-  useEffect(() => {
-    if (activeReport === 'orders') {
-      fetchStaffOrders();
-    } else if (activeReport === 'discounts') {
-      fetchDiscountSummary();
-    }
-  }, [activeReport, dateRange, selectedStaffId]);
-
   const fetchStaffMembers = async () => {
     try {
       const response = await apiClient.get('/staff_members');
@@ -87,14 +106,14 @@ export function StaffReports() {
         setStaffMembers([]);
         toastUtils.error('Invalid API response');
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error fetching staff members:', err);
       toastUtils.error('Failed to fetch staff members');
       setStaffMembers([]);
     }
   };
 
-  const fetchStaffOrders = async () => {
+  const fetchStaffOrders = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
@@ -124,17 +143,17 @@ export function StaffReports() {
         setStaffOrders([]);
         setError('Invalid API response');
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error fetching staff orders:', err);
-      setError(err.message || 'Failed to fetch staff orders');
+      setError(err instanceof Error ? err.message : 'Failed to fetch staff orders');
       toastUtils.error('Failed to fetch staff orders');
       setStaffOrders([]);
     } finally {
       setLoading(false);
     }
-  };
+  }, [dateRange, selectedStaffId]);
 
-  const fetchDiscountSummary = async () => {
+  const fetchDiscountSummary = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
@@ -164,7 +183,7 @@ export function StaffReports() {
           total_discount_amount: Number(summaryData.total_discount_amount || 0),
           discount_percentage: Number(summaryData.discount_percentage || 0),
           by_staff_member: Array.isArray(summaryData.by_staff_member) 
-            ? summaryData.by_staff_member.map((staff: any) => ({
+            ? summaryData.by_staff_member.map((staff: DiscountSummary['by_staff_member'][number]) => ({
                 ...staff,
                 on_duty_discount: Number(staff.on_duty_discount || 0),
                 off_duty_discount: Number(staff.off_duty_discount || 0),
@@ -181,15 +200,79 @@ export function StaffReports() {
         setDiscountSummary(null);
         setError('Invalid API response');
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error fetching discount summary:', err);
-      setError(err.message || 'Failed to fetch discount summary');
+      setError(err instanceof Error ? err.message : 'Failed to fetch discount summary');
       toastUtils.error('Failed to fetch discount summary');
       setDiscountSummary(null);
     } finally {
       setLoading(false);
     }
-  };
+  }, [dateRange, selectedStaffId]);
+
+  const fetchTipsSummary = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      // Tips are pooled for payouts, so this report is not filtered by staff member
+      const params = new URLSearchParams({
+        date_from: dateRange.from,
+        date_to: dateRange.to
+      });
+
+      const response = await apiClient.get(`/reports/tips_summary?${params.toString()}`);
+      // Handle different response formats
+      if (response.data && typeof response.data === 'object') {
+        const summaryData = response.data.tips_summary || response.data;
+
+        // Ensure all numeric values are properly converted to numbers
+        const processedData: TipsSummary = {
+          total_tips: Number(summaryData.total_tips || 0),
+          tipped_order_count: Number(summaryData.tipped_order_count || 0),
+          order_count: Number(summaryData.order_count || 0),
+          average_tip: Number(summaryData.average_tip || 0),
+          by_day: Array.isArray(summaryData.by_day)
+            ? summaryData.by_day.map((day: TipsSummaryRow) => ({
+                date: day.date || '',
+                order_count: Number(day.order_count || 0),
+                tips: Number(day.tips || 0)
+              }))
+            : [],
+          by_payment_method: Array.isArray(summaryData.by_payment_method)
+            ? summaryData.by_payment_method.map((method: TipsSummaryRow) => ({
+                payment_method: method.payment_method || 'Unknown',
+                order_count: Number(method.order_count || 0),
+                tips: Number(method.tips || 0)
+              }))
+            : []
+        };
+
+        setTipsSummary(processedData);
+      } else {
+        console.error('Invalid tips summary response data:', response.data);
+        setTipsSummary(null);
+        setError('Invalid API response');
+      }
+    } catch (err) {
+      console.error('Error fetching tips summary:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch tips summary');
+      toastUtils.error('Failed to fetch tips summary');
+      setTipsSummary(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [dateRange]);
+
+  // Fetch report data when parameters change
+  useEffect(() => {
+    if (activeReport === 'orders') {
+      fetchStaffOrders();
+    } else if (activeReport === 'discounts') {
+      fetchDiscountSummary();
+    } else if (activeReport === 'tips') {
+      fetchTipsSummary();
+    }
+  }, [activeReport, fetchStaffOrders, fetchDiscountSummary, fetchTipsSummary]);
 
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -210,12 +293,15 @@ export function StaffReports() {
       } else if (activeReport === 'discounts') {
         endpoint = '/reports/discount_summary/export';
         filename = 'discount_summary.csv';
+      } else if (activeReport === 'tips') {
+        endpoint = '/reports/tips_summary/export';
+        filename = 'tips_summary.csv';
       }
       
       const params = new URLSearchParams({
         date_from: dateRange.from,
         date_to: dateRange.to,
-        ...(selectedStaffId !== 'all' && { staff_member_id: selectedStaffId.toString() })
+        ...(selectedStaffId !== 'all' && activeReport !== 'tips' && { staff_member_id: selectedStaffId.toString() })
       });
       
       const response = await apiClient.get(`${endpoint}?${params.toString()}`, {
@@ -235,7 +321,7 @@ export function StaffReports() {
       document.body.removeChild(link);
       
       toastUtils.success('Export successful');
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error exporting CSV:', err);
       toastUtils.error('Failed to export CSV');
     }
@@ -286,6 +372,16 @@ export function StaffReports() {
           >
             Discount Summary
           </button>
+          <button
+            onClick={() => setActiveReport('tips')}
+            className={`py-2 px-4 font-medium ${
+              activeReport === 'tips'
+                ? 'text-[#0078d4] border-b-2 border-[#0078d4]'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Tips
+          </button>
         </div>
       </div>
 
@@ -316,6 +412,7 @@ export function StaffReports() {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#0078d4]"
             />
           </div>
+          {activeReport !== 'tips' && (
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Staff Member
@@ -333,6 +430,7 @@ export function StaffReports() {
               ))}
             </select>
           </div>
+          )}
         </div>
       </div>
 
@@ -646,6 +744,131 @@ export function StaffReports() {
               </div>
             </div>
           )}
+
+          {/* Tips Summary */}
+          {activeReport === 'tips' && tipsSummary && (
+            <div className="space-y-6">
+              <div className="bg-white rounded-md shadow-md p-4">
+                <h2 className="text-xl font-semibold mb-4">Summary</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="bg-gray-50 p-4 rounded-md">
+                    <div className="text-sm text-gray-500">Total Tips</div>
+                    <div className="text-2xl font-bold text-[#0078d4]">
+                      ${tipsSummary.total_tips.toFixed(2)}
+                    </div>
+                  </div>
+                  <div className="bg-gray-50 p-4 rounded-md">
+                    <div className="text-sm text-gray-500">Orders With a Tip</div>
+                    <div className="text-2xl font-bold text-gray-900">
+                      {tipsSummary.tipped_order_count}
+                      <span className="text-sm font-normal text-gray-500"> of {tipsSummary.order_count}</span>
+                    </div>
+                  </div>
+                  <div className="bg-gray-50 p-4 rounded-md">
+                    <div className="text-sm text-gray-500">Average Tip</div>
+                    <div className="text-2xl font-bold text-gray-900">
+                      ${tipsSummary.average_tip.toFixed(2)}
+                    </div>
+                  </div>
+                </div>
+                <div className="mt-3 text-xs text-gray-500 italic">
+                  <span className="font-medium">Note:</span> Tips are collected with the order payment and are excluded from sales totals. Use this total for staff payouts.
+                </div>
+              </div>
+
+              <div className="bg-white rounded-md shadow-md overflow-hidden">
+                <h2 className="text-xl font-semibold p-4 border-b border-gray-200">
+                  Tips by Day
+                </h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Date
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Orders
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Tips
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {tipsSummary.by_day.length === 0 ? (
+                        <tr>
+                          <td colSpan={3} className="px-6 py-4 text-center text-gray-500">
+                            No tips found for the selected period
+                          </td>
+                        </tr>
+                      ) : (
+                        tipsSummary.by_day.map((day) => (
+                          <tr key={day.date}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {new Date(`${day.date}T00:00:00`).toLocaleDateString()}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {day.order_count}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-[#0078d4]">
+                              ${day.tips.toFixed(2)}
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-md shadow-md overflow-hidden">
+                <h2 className="text-xl font-semibold p-4 border-b border-gray-200">
+                  Tips by Payment Method
+                </h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Payment Method
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Orders
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Tips
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {tipsSummary.by_payment_method.length === 0 ? (
+                        <tr>
+                          <td colSpan={3} className="px-6 py-4 text-center text-gray-500">
+                            No tips found for the selected period
+                          </td>
+                        </tr>
+                      ) : (
+                        tipsSummary.by_payment_method.map((method) => (
+                          <tr key={method.payment_method}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
+                              {method.payment_method.replace(/_/g, ' ')}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {method.order_count}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-[#0078d4]">
+                              ${method.tips.toFixed(2)}
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
         </>
       )}
     </div>
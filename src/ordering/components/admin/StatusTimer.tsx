@@ -1,4 +1,11 @@
 import React from 'react';
+import { getElapsedTime, getStatusAgeLevel, StatusAgeLevel } from '../../utils/statusTimerUtils';
+
+const TIMER_COLORS: Record<StatusAgeLevel, string> = {
+  urgent: 'text-red-600',
+  warning: 'text-yellow-600',
+  normal: 'text-gray-500'
+};
 
 interface StatusTimerProps {
   createdAt: string;
@@ -8,48 +15,9 @@ interface StatusTimerProps {
 }
 
 export function StatusTimer({ createdAt, statusUpdatedAt, status, className = '' }: StatusTimerProps) {
-  // Calculate time elapsed since status change or creation
-  const getElapsedTime = (): { value: number; unit: string } => {
-    const now = new Date();
-    const statusDate = statusUpdatedAt 
-      ? new Date(statusUpdatedAt) 
-      : new Date(createdAt);
-    
-    const diffMs = now.getTime() - statusDate.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMins / 60);
-    
-    if (diffHours > 0) {
-      return { value: diffHours, unit: 'h' };
-    } else {
-      return { value: diffMins || 1, unit: 'm' }; // Minimum 1 minute
-    }
-  };
-  
-  // Get color based on status and elapsed time
-  const getTimerColor = (): string => {
-    const { value, unit } = getElapsedTime();
-    
-    // Different thresholds based on status
-    if (status === 'pending') {
-      if ((unit === 'h' && value >= 1) || (unit === 'm' && value >= 30)) {
-        return 'text-red-600'; // Urgent
-      } else if (unit === 'm' && value >= 15) {
-        return 'text-yellow-600'; // Warning
-      }
-    } else if (status === 'preparing') {
-      if ((unit === 'h' && value >= 1) || (unit === 'm' && value >= 45)) {
-        return 'text-red-600'; // Urgent
-      } else if (unit === 'm' && value >= 20) {
-        return 'text-yellow-600'; // Warning
-      }
-    }
-    
-    return 'text-gray-500'; // Default
-  };
-  
-  const { value, unit } = getElapsedTime();
-  const color = getTimerColor();
+  const elapsed = getElapsedTime(createdAt, statusUpdatedAt);
+  const { value, unit } = elapsed;
+  const color = TIMER_COLORS[getStatusAgeLevel(status, elapsed)];
   
   return (
     <div className={`flex items-center ${color} ${className}`}>
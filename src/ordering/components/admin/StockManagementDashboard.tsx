@@ -1,17 +1,198 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { useMenuStore } from '../../store/menuStore';
+import { useMerchandiseStore } from '../../store/merchandiseStore';
+import { useIngredientStore } from '../../store/ingredientStore';
+import { usePurchasingStore } from '../../store/purchasingStore';
+import type { PurchaseOrder, PurchaseOrderPayload, ReorderSuggestion } from '../../types/purchasing';
+import {
+  buildReorderSuggestions,
+  collectStockedItems,
+  getQuantityOnOrder,
+  stockItemKey,
+} from '../../utils/purchasingUtils';
+import { PurchaseOrderBoard } from './inventory/PurchaseOrderBoard';
+import { PurchaseOrderFormModal, PurchaseOrderLineDraft } from './inventory/PurchaseOrderFormModal';
+import { ReceivePurchaseOrderModal } from './inventory/ReceivePurchaseOrderModal';
+import { ReorderSuggestions } from './inventory/ReorderSuggestions';
+import { SuppliersPanel } from './inventory/SuppliersPanel';
 
 interface StockManagementDashboardProps {
   restaurantId?: string;
 }
 
 const StockManagementDashboard: React.FC<StockManagementDashboardProps> = ({ restaurantId }) => {
+  const { menuItems, fetchAllMenuItemsForAdmin } = useMenuStore();
+  const { merchandiseItems, fetchAllMerchandiseItemsForAdmin } = useMerchandiseStore();
+  const { ingredients, fetchIngredients } = useIngredientStore();
+  const {
+    suppliers,
+    purchaseOrders,
+    salesVelocity,
+    velocityWindowDays,
+    loading,
+    error,
+    fetchSuppliers,
+    fetchPurchaseOrders,
+    fetchSalesVelocity,
+    createPurchaseOrder,
+    submitPurchaseOrder,
+    cancelPurchaseOrder,
+    receivePurchaseOrder,
+  } = usePurchasingStore();
+
+  const [coverDays, setCoverDays] = useState(14);
+  // Lines for the new-PO modal; null while it's closed
+  const [newOrderLines, setNewOrderLines] = useState<PurchaseOrderLineDraft[] | null>(null);
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+
+  useEffect(() => {
+    fetchSuppliers();
+    fetchPurchaseOrders();
+    fetchSalesVelocity();
+    fetchAllMenuItemsForAdmin();
+    fetchAllMerchandiseItemsForAdmin();
+    fetchIngredients();
+  }, [
+    restaurantId,
+    fetchSuppliers,
+    fetchPurchaseOrders,
+    fetchSalesVelocity,
+    fetchAllMenuItemsForAdmin,
+    fetchAllMerchandiseItemsForAdmin,
+    fetchIngredients,
+  ]);
+
+  const stockedItems = useMemo(
+    () => collectStockedItems(menuItems, merchandiseItems, ingredients),
+    [menuItems, merchandiseItems, ingredients]
+  );
+
+  const suggestions = useMemo(
+    () =>
+      buildReorderSuggestions(stockedItems, salesVelocity, {
+        windowDays: velocityWindowDays,
+        coverDays,
+        onOrder: getQuantityOnOrder(purchaseOrders),
+      }),
+    [stockedItems, salesVelocity, velocityWindowDays, coverDays, purchaseOrders]
+  );
+
+  const handleCreateFromSuggestions = (selected: ReorderSuggestion[]) => {
+    setNewOrderLines(
+      selected.map((suggestion) => ({
+        key: stockItemKey(suggestion.item_type, suggestion.item_id),
+        quantity: String(suggestion.suggested_quantity),
+        unit_cost: suggestion.unit_cost != null ? String(suggestion.unit_cost) : '',
+      }))
+    );
+  };
+
+  const handleSave = async (payload: PurchaseOrderPayload) => {
+    const created = await createPurchaseOrder(payload);
+    if (created) {
+      toastUtils.success(`PO #${created.id} saved as a draft.`);
+      return true;
+    }
+    toastUtils.error('Failed to create purchase order.');
+    return false;
+  };
+
+  const handleSubmit = async (po: PurchaseOrder) => {
+    if (await submitPurchaseOrder(po.id)) {
+      toastUtils.success(`PO #${po.id} submitted.`);
+    } else {
+      toastUtils.error('Failed to submit purchase order.');
+    }
+  };
+
+  const handleCancel = async (po: PurchaseOrder) => {
+    if (!window.confirm(`Cancel PO #${po.id}? Anything already received stays in stock.`)) return;
+    if (await cancelPurchaseOrder(po.id)) {
+      toastUtils.success(`PO #${po.id} cancelled.`);
+    } else {
+      toastUtils.error('Failed to cancel purchase order.');
+    }
+  };
+
+  const handleReceive = async (
+    lines: Parameters<typeof receivePurchaseOrder>[1],
+    idempotencyKey: string
+  ) => {
+    if (!receiving) return false;
+    const updated = await receivePurchaseOrder(receiving.id, lines, idempotencyKey);
+    if (!updated) {
+      toastUtils.error('Failed to receive purchase order.');
+      // The server may already have taken part of it (e.g. from another tablet)
+      fetchPurchaseOrders();
+      return false;
+    }
+    toastUtils.success(
+      updated.status === 'received' ? `PO #${updated.id} fully received.` : `PO #${updated.id} partially received.`
+    );
+    // Stock levels changed server-side
+    fetchAllMenuItemsForAdmin();
+    fetchAllMerchandiseItemsForAdmin();
+    fetchIngredients();
+    return true;
+  };
+
   return (
-    <div className="bg-white rounded-lg shadow p-6">
-      <h2 className="text-xl font-semibold mb-4">Stock Management</h2>
-      <p className="text-gray-500">
-        Stock management has been simplified. You can now manage stock quantities directly 
-        when editing merchandise items and their variants.
-      </p>
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Purchase Orders</h2>
+          <button
+            onClick={() => setNewOrderLines([])}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            New Purchase Order
+          </button>
+        </div>
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+        {loading && purchaseOrders.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading purchase orders...</p>
+        ) : (
+          <PurchaseOrderBoard
+            purchaseOrders={purchaseOrders}
+            onSubmit={handleSubmit}
+            onReceive={setReceiving}
+            onCancel={handleCancel}
+          />
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <ReorderSuggestions
+          suggestions={suggestions}
+          windowDays={velocityWindowDays}
+          coverDays={coverDays}
+          onCoverDaysChange={setCoverDays}
+          onCreateOrder={handleCreateFromSuggestions}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <SuppliersPanel />
+      </div>
+
+      {newOrderLines && (
+        <PurchaseOrderFormModal
+          suppliers={suppliers}
+          stockedItems={stockedItems}
+          initialLines={newOrderLines}
+          onClose={() => setNewOrderLines(null)}
+          onSave={handleSave}
+        />
+      )}
+
+      {receiving && (
+        <ReceivePurchaseOrderModal
+          purchaseOrder={receiving}
+          onClose={() => setReceiving(null)}
+          onReceive={handleReceive}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,379 @@
+// src/ordering/components/admin/UpsellRulesModal.tsx
+
+import { useEffect, useState } from 'react';
+import { X, Plus, Edit2, Trash2, Save } from 'lucide-react';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { useUpsellStore } from '../../store/upsellStore';
+import { useMenuStore } from '../../store/menuStore';
+import type { Category } from '../../types/menu';
+import type { UpsellRule, UpsellRuleFormData } from '../../types/upsell';
+
+interface UpsellRulesModalProps {
+  categories: Category[];
+  onClose: () => void;
+}
+
+const EMPTY_RULE: UpsellRuleFormData = {
+  name: '',
+  active: true,
+  priority: 0,
+  cart_has_category_ids: [],
+  cart_lacks_category_ids: [],
+  min_subtotal: null,
+  max_subtotal: null,
+  suggest_category_ids: [],
+  suggest_item_ids: [],
+  headline: '',
+};
+
+type CategoryField = 'cart_has_category_ids' | 'cart_lacks_category_ids' | 'suggest_category_ids';
+
+export function UpsellRulesModal({ categories, onClose }: UpsellRulesModalProps) {
+  const { rules, loading, fetchRules, addRule, updateRule, deleteRule } = useUpsellStore();
+  const { menuItems, fetchMenuItems } = useMenuStore();
+  const [editingRule, setEditingRule] = useState<UpsellRuleFormData | null>(null);
+
+  useEffect(() => {
+    fetchRules();
+    if (menuItems.length === 0) {
+      fetchMenuItems();
+    }
+  }, [fetchRules, fetchMenuItems, menuItems.length]);
+
+  const categoryName = (id: number) => categories.find((c) => c.id === id)?.name || `#${id}`;
+  const itemName = (id: string) => menuItems.find((m) => String(m.id) === String(id))?.name || `#${id}`;
+
+  function describeRule(rule: UpsellRule) {
+    const conditions: string[] = [];
+    if (rule.cart_has_category_ids.length) {
+      conditions.push(`has ${rule.cart_has_category_ids.map(categoryName).join(' or ')}`);
+    }
+    if (rule.cart_lacks_category_ids.length) {
+      conditions.push(`no ${rule.cart_lacks_category_ids.map(categoryName).join(' or ')}`);
+    }
+    if (rule.min_subtotal != null) conditions.push(`subtotal ≥ $${rule.min_subtotal}`);
+    if (rule.max_subtotal != null) conditions.push(`subtotal ≤ $${rule.max_subtotal}`);
+
+    const suggestions = [
+      ...rule.suggest_item_ids.map(itemName),
+      ...rule.suggest_category_ids.map((id) => `any ${categoryName(id)}`),
+    ];
+
+    return `${conditions.length ? `If cart ${conditions.join(', ')}` : 'Any cart'} → suggest ${suggestions.join(', ') || 'nothing'}`;
+  }
+
+  function toggleCategory(field: CategoryField, id: number) {
+    if (!editingRule) return;
+    const current = editingRule[field];
+    setEditingRule({
+      ...editingRule,
+      [field]: current.includes(id) ? current.filter((c) => c !== id) : [...current, id],
+    });
+  }
+
+  async function handleSave() {
+    if (!editingRule) return;
+    if (!editingRule.name.trim()) {
+      toastUtils.error('Please give the rule a name');
+      return;
+    }
+    if (editingRule.suggest_item_ids.length === 0 && editingRule.suggest_category_ids.length === 0) {
+      toastUtils.error('Pick at least one item or category to suggest');
+      return;
+    }
+    if (editingRule.min_subtotal != null && editingRule.max_subtotal != null &&
+        editingRule.min_subtotal > editingRule.max_subtotal) {
+      toastUtils.error('Minimum subtotal must be less than maximum subtotal');
+      return;
+    }
+
+    const { id, ...data } = editingRule;
+    const saved = id ? await updateRule(id, data) : await addRule(data);
+    if (saved) {
+      toastUtils.success(id ? 'Upsell rule updated' : 'Upsell rule created');
+      setEditingRule(null);
+    } else {
+      toastUtils.error('Failed to save upsell rule');
+    }
+  }
+
+  async function handleDelete(rule: UpsellRule) {
+    if (!window.confirm(`Delete the upsell rule "${rule.name}"?`)) return;
+    if (await deleteRule(rule.id)) {
+      toastUtils.success('Upsell rule deleted');
+    } else {
+      toastUtils.error('Failed to delete upsell rule');
+    }
+  }
+
+  async function handleToggleActive(rule: UpsellRule) {
+    const updated = await updateRule(rule.id, { active: !rule.active });
+    if (!updated) {
+      toastUtils.error('Failed to update upsell rule');
+    }
+  }
+
+  const parseMoney = (value: string) => (value === '' ? null : Math.max(0, Number(value)));
+
+  const renderCategoryPicker = (field: CategoryField, label: string, help: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <p className="text-xs text-gray-500 mb-2">{help}</p>
+      <div className="flex flex-wrap gap-2">
+        {categories.map((cat) => {
+          const selected = editingRule?.[field].includes(cat.id);
+          return (
+            <button
+              key={cat.id}
+              type="button"
+              onClick={() => toggleCategory(field, cat.id)}
+              className={`px-3 py-1 rounded-full text-sm border ${
+                selected
+                  ? 'bg-[#0078d4] border-[#0078d4] text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {cat.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const sortedRules = [...rules].sort((a, b) => b.priority - a.priority);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 animate-fadeIn">
+      <div className="bg-white rounded-lg max-w-md sm:max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6 animate-slideUp">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h3 className="text-xl font-semibold">Upsell Rules</h3>
+            <p className="text-sm text-gray-500">
+              Suggest items at checkout based on what's in the customer's cart.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {editingRule ? (
+          <div className="space-y-5">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Rule Name</label>
+                <input
+                  type="text"
+                  value={editingRule.name}
+                  onChange={(e) => setEditingRule({ ...editingRule, name: e.target.value })}
+                  placeholder="e.g. Drinks with entrées"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={editingRule.priority}
+                  onChange={(e) => setEditingRule({ ...editingRule, priority: Number(e.target.value) || 0 })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Headline</label>
+              <input
+                type="text"
+                value={editingRule.headline || ''}
+                onChange={(e) => setEditingRule({ ...editingRule, headline: e.target.value })}
+                placeholder="Complete Your Meal!"
+                className="w-full px-4 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+
+            <div className="border-t pt-4 space-y-4">
+              <h4 className="font-medium">When</h4>
+              {renderCategoryPicker(
+                'cart_has_category_ids',
+                'Cart has an item from',
+                'Leave empty to match any cart.'
+              )}
+              {renderCategoryPicker(
+                'cart_lacks_category_ids',
+                'Cart has no items from',
+                "E.g. only suggest drinks when there isn't one already."
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Min Subtotal ($)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={editingRule.min_subtotal ?? ''}
+                    onChange={(e) => setEditingRule({ ...editingRule, min_subtotal: parseMoney(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Max Subtotal ($)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={editingRule.max_subtotal ?? ''}
+                    onChange={(e) => setEditingRule({ ...editingRule, max_subtotal: parseMoney(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="border-t pt-4 space-y-4">
+              <h4 className="font-medium">Suggest</h4>
+              {renderCategoryPicker(
+                'suggest_category_ids',
+                'Items from categories',
+                'Featured items in these categories are shown first.'
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Specific items</label>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const id = e.target.value;
+                    if (id && !editingRule.suggest_item_ids.includes(id)) {
+                      setEditingRule({ ...editingRule, suggest_item_ids: [...editingRule.suggest_item_ids, id] });
+                    }
+                  }}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Add an item...</option>
+                  {menuItems
+                    .filter((item) => !editingRule.suggest_item_ids.includes(String(item.id)))
+                    .map((item) => (
+                      <option key={item.id} value={String(item.id)}>
+                        {item.name} (${item.price.toFixed(2)})
+                      </option>
+                    ))}
+                </select>
+                {editingRule.suggest_item_ids.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {editingRule.suggest_item_ids.map((id) => (
+                      <span
+                        key={id}
+                        className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-800"
+                      >
+                        {itemName(id)}
+                        <button
+                          type="button"
+                          onClick={() => setEditingRule({
+                            ...editingRule,
+                            suggest_item_ids: editingRule.suggest_item_ids.filter((i) => i !== id),
+                          })}
+                          className="ml-1 text-gray-500 hover:text-gray-700"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={editingRule.active}
+                onChange={(e) => setEditingRule({ ...editingRule, active: e.target.checked })}
+              />
+              <span className="text-sm text-gray-700">Active</span>
+            </label>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setEditingRule(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={loading}
+                className="inline-flex items-center px-4 py-2 bg-[#0078d4] text-white rounded-md hover:bg-[#50a3d9] disabled:opacity-70"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Rule
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-end mb-4">
+              <button
+                onClick={() => setEditingRule({ ...EMPTY_RULE })}
+                className="inline-flex items-center px-4 py-2 bg-[#0078d4] text-white rounded-md hover:bg-[#50a3d9]"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                Add Rule
+              </button>
+            </div>
+
+            {loading && rules.length === 0 ? (
+              <div className="py-8 text-center text-gray-500">Loading rules...</div>
+            ) : sortedRules.length === 0 ? (
+              <div className="py-8 text-center text-gray-500">
+                No upsell rules yet. Customers will see no suggestions until you add one.
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200 border rounded-md">
+                {sortedRules.map((rule) => (
+                  <li key={rule.id} className="p-4 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{rule.name}</span>
+                        <span className="text-xs text-gray-500">Priority {rule.priority}</span>
+                        {!rule.active && (
+                          <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                            Inactive
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">{describeRule(rule)}</p>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleToggleActive(rule)}
+                        className="text-sm text-[#0078d4] hover:underline"
+                      >
+                        {rule.active ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        onClick={() => setEditingRule({ ...rule })}
+                        className="p-2 text-gray-600 hover:text-gray-900"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="p-2 text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
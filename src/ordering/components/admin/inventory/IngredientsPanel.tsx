@@ -0,0 +1,339 @@
+// src/ordering/components/admin/inventory/IngredientsPanel.tsx
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, Edit, Plus, Trash2, XCircle } from 'lucide-react';
+import toastUtils from '../../../../shared/utils/toastUtils';
+import { useIngredientStore } from '../../../store/ingredientStore';
+import type { Ingredient, IngredientPayload } from '../../../types/inventory';
+import type { UpdateStockParams } from '../../../types/menu';
+
+interface IngredientDraft {
+  id: number | null; // null while adding
+  name: string;
+  unit: string;
+  stock_quantity: string;
+  low_stock_threshold: string;
+  cost_per_unit: string;
+}
+
+interface StockAdjustment {
+  id: number;
+  quantity: string;
+  reason_type: UpdateStockParams['reason_type'];
+}
+
+const UNIT_OPTIONS = ['each', 'lb', 'oz', 'kg', 'g', 'gal', 'qt', 'l', 'ml', 'case'];
+
+const EMPTY_DRAFT: IngredientDraft = {
+  id: null,
+  name: '',
+  unit: 'lb',
+  stock_quantity: '0',
+  low_stock_threshold: '0',
+  cost_per_unit: '',
+};
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500';
+
+function toDraft(ingredient: Ingredient): IngredientDraft {
+  return {
+    id: ingredient.id,
+    name: ingredient.name,
+    unit: ingredient.unit,
+    stock_quantity: String(ingredient.stock_quantity),
+    low_stock_threshold: String(ingredient.low_stock_threshold),
+    cost_per_unit: ingredient.cost_per_unit != null ? String(ingredient.cost_per_unit) : '',
+  };
+}
+
+function StockBadge({ ingredient }: { ingredient: Ingredient }) {
+  if (ingredient.stock_quantity <= 0) {
+    return (
+      <span className="inline-flex items-center text-red-600">
+        <XCircle className="h-4 w-4 mr-1" /> Out
+      </span>
+    );
+  }
+  if (ingredient.stock_quantity <= ingredient.low_stock_threshold) {
+    return (
+      <span className="inline-flex items-center text-yellow-600">
+        <AlertTriangle className="h-4 w-4 mr-1" /> Low
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center text-green-600">
+      <CheckCircle className="h-4 w-4 mr-1" /> OK
+    </span>
+  );
+}
+
+/**
+ * Ingredient catalog with stock levels. Recipes draw these down as orders come in.
+ */
+export function IngredientsPanel() {
+  const {
+    ingredients,
+    createIngredient,
+    updateIngredient,
+    deleteIngredient,
+    updateIngredientStock,
+  } = useIngredientStore();
+  const [draft, setDraft] = useState<IngredientDraft | null>(null);
+  const [adjustment, setAdjustment] = useState<StockAdjustment | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSaveDraft = async () => {
+    if (!draft || !draft.name.trim()) {
+      toastUtils.error('Ingredient name is required.');
+      return;
+    }
+    const payload: IngredientPayload = {
+      name: draft.name.trim(),
+      unit: draft.unit,
+      stock_quantity: parseFloat(draft.stock_quantity) || 0,
+      low_stock_threshold: parseFloat(draft.low_stock_threshold) || 0,
+      cost_per_unit: draft.cost_per_unit === '' ? null : parseFloat(draft.cost_per_unit),
+    };
+
+    setSaving(true);
+    // Stock on existing ingredients changes through adjustments so it's audited
+    const saved = draft.id
+      ? await updateIngredient(draft.id, { ...payload, stock_quantity: undefined })
+      : await createIngredient(payload);
+    setSaving(false);
+
+    if (saved) {
+      toastUtils.success(draft.id ? 'Ingredient updated.' : 'Ingredient added.');
+      setDraft(null);
+    } else {
+      toastUtils.error('Failed to save ingredient.');
+    }
+  };
+
+  const handleDelete = async (ingredient: Ingredient) => {
+    if (!window.confirm(`Delete ${ingredient.name}? Recipes using it must be updated first.`)) return;
+    if (await deleteIngredient(ingredient.id)) {
+      toastUtils.success('Ingredient deleted.');
+    } else {
+      toastUtils.error('Failed to delete ingredient. It may still be used in a recipe.');
+    }
+  };
+
+  const handleSaveAdjustment = async (ingredient: Ingredient) => {
+    if (!adjustment) return;
+    const newQuantity = parseFloat(adjustment.quantity);
+    if (isNaN(newQuantity) || newQuantity < 0) {
+      toastUtils.error('Enter the new on-hand quantity.');
+      return;
+    }
+    const updated = await updateIngredientStock(ingredient.id, {
+      stock_quantity: newQuantity,
+      reason_type: adjustment.reason_type,
+    });
+    if (updated) {
+      toastUtils.success(`${ingredient.name} stock updated.`);
+      setAdjustment(null);
+    } else {
+      toastUtils.error('Failed to update stock.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-gray-500">
+          Stock is in each ingredient's own unit. Orders deduct it through menu item recipes.
+        </p>
+        <button
+          onClick={() => setDraft({ ...EMPTY_DRAFT })}
+          className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Ingredient
+        </button>
+      </div>
+
+      {draft && (
+        <div className="border rounded-lg p-4 mb-4 bg-gray-50">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Chicken thigh"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Unit</label>
+              <select
+                value={draft.unit}
+                onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                className={inputClass}
+              >
+                {UNIT_OPTIONS.map((unit) => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Low Stock At</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={draft.low_stock_threshold}
+                onChange={(e) => setDraft({ ...draft, low_stock_threshold: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Cost / Unit ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.cost_per_unit}
+                onChange={(e) => setDraft({ ...draft, cost_per_unit: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            {!draft.id && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Starting Stock</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={draft.stock_quantity}
+                  onChange={(e) => setDraft({ ...draft, stock_quantity: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveDraft}
+              disabled={saving}
+              className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : draft.id ? 'Save Changes' : 'Add Ingredient'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {ingredients.length === 0 ? (
+        <div className="bg-gray-50 rounded-lg p-8 text-center text-gray-500">
+          No ingredients yet. Add the ingredients your recipes use.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ingredient</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Hand</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Low At</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {ingredients.map((ingredient) => (
+                <tr key={ingredient.id}>
+                  <td className="px-4 py-3 font-medium text-gray-900">{ingredient.name}</td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {adjustment?.id === ingredient.id ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={adjustment.quantity}
+                          onChange={(e) => setAdjustment({ ...adjustment, quantity: e.target.value })}
+                          className="w-24 p-1 border border-gray-300 rounded"
+                          aria-label="New on-hand quantity"
+                        />
+                        <select
+                          value={adjustment.reason_type}
+                          onChange={(e) =>
+                            setAdjustment({ ...adjustment, reason_type: e.target.value as UpdateStockParams['reason_type'] })
+                          }
+                          className="p-1 border border-gray-300 rounded"
+                          aria-label="Reason"
+                        >
+                          <option value="restock">Restock</option>
+                          <option value="adjustment">Adjustment</option>
+                          <option value="return">Return</option>
+                          <option value="other">Other</option>
+                        </select>
+                        <button
+                          onClick={() => handleSaveAdjustment(ingredient)}
+                          className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setAdjustment(null)}
+                          className="px-2 py-1 text-gray-500 text-xs hover:text-gray-700"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() =>
+                          setAdjustment({
+                            id: ingredient.id,
+                            quantity: String(ingredient.stock_quantity),
+                            reason_type: 'restock',
+                          })
+                        }
+                        className="hover:text-blue-600 underline decoration-dotted"
+                        title="Adjust stock"
+                      >
+                        {ingredient.stock_quantity} {ingredient.unit}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-500">
+                    {ingredient.low_stock_threshold} {ingredient.unit}
+                  </td>
+                  <td className="px-4 py-3">
+                    <StockBadge ingredient={ingredient} />
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => setDraft(toDraft(ingredient))}
+                      className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-full"
+                      aria-label={`Edit ${ingredient.name}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(ingredient)}
+                      className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-full"
+                      aria-label={`Delete ${ingredient.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+// src/ordering/components/admin/inventory/InventoryLedgerPanel.tsx
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { inventoryLedgerApi } from '../../../../shared/api/endpoints/inventoryLedger';
+import type { InventoryLedgerEntry, LedgerReasonType } from '../../../types/inventory';
+import {
+  EMPTY_LEDGER_FILTERS,
+  LEDGER_REASON_LABELS,
+  LedgerFilters,
+  filterLedgerEntries,
+  getLedgerChange,
+} from '../../../utils/inventoryLedgerUtils';
+import { STOCK_ITEM_TYPE_LABELS } from '../../../utils/purchasingUtils';
+import { ShrinkageReport } from './ShrinkageReport';
+
+const inputClass = 'p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * Every stock movement across menu items and merchandise variants, plus the
+ * shrinkage report built from the same entries
+ */
+export function InventoryLedgerPanel() {
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [entries, setEntries] = useState<InventoryLedgerEntry[]>([]);
+  const [filters, setFilters] = useState<LedgerFilters>(EMPTY_LEDGER_FILTERS);
+  const [view, setView] = useState<'ledger' | 'shrinkage'>('ledger');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await inventoryLedgerApi.getEntries({ start_date: startDate, end_date: endDate });
+      setEntries(data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const userNames = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.user_name).filter((name): name is string => !!name))).sort(),
+    [entries]
+  );
+
+  const filtered = useMemo(() => filterLedgerEntries(entries, filters), [entries, filters]);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Reason</label>
+          <select
+            value={filters.reasonType}
+            onChange={(e) => setFilters({ ...filters, reasonType: e.target.value as LedgerReasonType | '' })}
+            className={inputClass}
+          >
+            <option value="">All reasons</option>
+            {(Object.keys(LEDGER_REASON_LABELS) as LedgerReasonType[]).map((reason) => (
+              <option key={reason} value={reason}>{LEDGER_REASON_LABELS[reason]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">User</label>
+          <select
+            value={filters.userName}
+            onChange={(e) => setFilters({ ...filters, userName: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Anyone</option>
+            {userNames.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Order #</label>
+          <input
+            type="text"
+            value={filters.orderId}
+            onChange={(e) => setFilters({ ...filters, orderId: e.target.value })}
+            className={`${inputClass} w-24`}
+          />
+        </div>
+        <div className="flex-1 min-w-[10rem]">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Item</label>
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            placeholder="Search items..."
+            className={`${inputClass} w-full`}
+          />
+        </div>
+      </div>
+
+      <div className="flex space-x-2 mb-4">
+        {(['ledger', 'shrinkage'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-3 py-1 rounded-full text-sm ${
+              view === option ? 'bg-blue-100 text-blue-800 font-medium' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+            }`}
+          >
+            {option === 'ledger' ? 'Movements' : 'Shrinkage & Damage'}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading ledger...</p>
+      ) : view === 'shrinkage' ? (
+        <ShrinkageReport entries={filtered} startDate={startDate} endDate={endDate} />
+      ) : filtered.length === 0 ? (
+        <p className="text-sm text-gray-500">No stock movements match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">When</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Item</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Reason</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Before</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">After</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Change</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">By</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Ref</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filtered.map((entry) => {
+                const change = getLedgerChange(entry);
+                return (
+                  <tr key={entry.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      {format(new Date(entry.created_at), 'MM/dd/yyyy HH:mm')}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className="font-medium text-gray-900">{entry.item_name}</span>
+                      <span className="ml-2 text-xs text-gray-500">{STOCK_ITEM_TYPE_LABELS[entry.item_type]}</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {LEDGER_REASON_LABELS[entry.reason_type]}
+                      {entry.reason && <span className="block text-xs text-gray-500">{entry.reason}</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right">{entry.previous_quantity}</td>
+                    <td className="px-3 py-2 text-right">{entry.new_quantity}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {change > 0 ? `+${change}` : change}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{entry.user_name || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                      {entry.order_id && `Order #${entry.order_id}`}
+                      {entry.purchase_order_id && `PO #${entry.purchase_order_id}`}
+                      {entry.stock_count_id && `Count #${entry.stock_count_id}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+// src/ordering/components/admin/inventory/PurchaseOrderBoard.tsx
+
+import type { PurchaseOrder, PurchaseOrderStatus } from '../../../types/purchasing';
+import { PURCHASE_ORDER_STATUS_LABELS, getPurchaseOrderTotal } from '../../../utils/purchasingUtils';
+
+interface PurchaseOrderBoardProps {
+  purchaseOrders: PurchaseOrder[];
+  onSubmit: (po: PurchaseOrder) => void;
+  onReceive: (po: PurchaseOrder) => void;
+  onCancel: (po: PurchaseOrder) => void;
+}
+
+// Cancelled POs are left off the board
+const BOARD_COLUMNS: PurchaseOrderStatus[] = ['draft', 'submitted', 'partially_received', 'received'];
+
+const COLUMN_ACCENTS: Record<PurchaseOrderStatus, string> = {
+  draft: 'border-gray-300',
+  submitted: 'border-blue-400',
+  partially_received: 'border-yellow-400',
+  received: 'border-green-400',
+  cancelled: 'border-red-300',
+};
+
+/**
+ * Purchase orders in status columns, with the next action on each card
+ */
+export function PurchaseOrderBoard({ purchaseOrders, onSubmit, onReceive, onCancel }: PurchaseOrderBoardProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+      {BOARD_COLUMNS.map((status) => {
+        const column = purchaseOrders.filter((po) => po.status === status);
+        return (
+          <div key={status} className={`bg-gray-50 rounded-lg border-t-4 ${COLUMN_ACCENTS[status]} p-3`}>
+            <h4 className="text-sm font-semibold text-gray-700 mb-3">
+              {PURCHASE_ORDER_STATUS_LABELS[status]}
+              <span className="ml-2 text-gray-400 font-normal">{column.length}</span>
+            </h4>
+            <div className="space-y-3">
+              {column.length === 0 && <p className="text-xs text-gray-400">None</p>}
+              {column.map((po) => (
+                <div key={po.id} className="bg-white rounded-md shadow-sm p-3 text-sm">
+                  <div className="flex justify-between items-start">
+                    <span className="font-medium text-gray-900">PO #{po.id}</span>
+                    <span className="text-gray-700">${getPurchaseOrderTotal(po).toFixed(2)}</span>
+                  </div>
+                  <p className="text-gray-600">{po.supplier_name}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {po.lines.length} {po.lines.length === 1 ? 'line' : 'lines'}
+                    {po.expected_on ? ` · expected ${po.expected_on}` : ''}
+                  </p>
+
+                  {status !== 'received' && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {status === 'draft' && (
+                        <button
+                          onClick={() => onSubmit(po)}
+                          className="px-2 py-1 bg-blue-600 text-white rounded text-xs font-medium hover:bg-blue-700"
+                        >
+                          Submit
+                        </button>
+                      )}
+                      {(status === 'submitted' || status === 'partially_received') && (
+                        <button
+                          onClick={() => onReceive(po)}
+                          className="px-2 py-1 bg-green-600 text-white rounded text-xs font-medium hover:bg-green-700"
+                        >
+                          Receive
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onCancel(po)}
+                        className="px-2 py-1 border border-gray-300 text-gray-700 rounded text-xs font-medium hover:bg-gray-100"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
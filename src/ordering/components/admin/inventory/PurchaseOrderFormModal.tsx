@@ -0,0 +1,244 @@
+// src/ordering/components/admin/inventory/PurchaseOrderFormModal.tsx
+
+import { useMemo, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import toastUtils from '../../../../shared/utils/toastUtils';
+import type {
+  PurchaseOrderPayload,
+  StockItemType,
+  StockedItem,
+  Supplier,
+} from '../../../types/purchasing';
+import { STOCK_ITEM_TYPE_LABELS, stockItemKey } from '../../../utils/purchasingUtils';
+
+export interface PurchaseOrderLineDraft {
+  key: string; // stockItemKey of the item, '' until one is picked
+  quantity: string;
+  unit_cost: string;
+}
+
+interface PurchaseOrderFormModalProps {
+  suppliers: Supplier[];
+  stockedItems: StockedItem[];
+  /** Prefilled lines, e.g. from reorder suggestions */
+  initialLines?: PurchaseOrderLineDraft[];
+  onClose: () => void;
+  onSave: (payload: PurchaseOrderPayload) => Promise<boolean>;
+}
+
+const EMPTY_LINE: PurchaseOrderLineDraft = { key: '', quantity: '1', unit_cost: '' };
+
+const ITEM_TYPE_ORDER: StockItemType[] = ['ingredient', 'menu_item', 'merchandise_variant'];
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * New draft purchase order: a supplier plus lines for any stocked item
+ */
+export function PurchaseOrderFormModal({
+  suppliers,
+  stockedItems,
+  initialLines,
+  onClose,
+  onSave,
+}: PurchaseOrderFormModalProps) {
+  const [supplierId, setSupplierId] = useState(suppliers[0]?.id ? String(suppliers[0].id) : '');
+  const [expectedOn, setExpectedOn] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<PurchaseOrderLineDraft[]>(
+    initialLines && initialLines.length > 0 ? initialLines : [{ ...EMPTY_LINE }]
+  );
+  const [saving, setSaving] = useState(false);
+
+  const itemsByKey = useMemo(() => {
+    const map = new Map<string, StockedItem>();
+    stockedItems.forEach((item) => map.set(stockItemKey(item.item_type, item.item_id), item));
+    return map;
+  }, [stockedItems]);
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderLineDraft>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Picking an item fills in its last known cost when the cost is still blank
+  const selectItem = (index: number, key: string) => {
+    const item = itemsByKey.get(key);
+    const line = lines[index];
+    updateLine(index, {
+      key,
+      unit_cost: line.unit_cost === '' && item?.unit_cost != null ? String(item.unit_cost) : line.unit_cost,
+    });
+  };
+
+  const total = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.unit_cost) || 0),
+    0
+  );
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      toastUtils.error('Choose a supplier.');
+      return;
+    }
+    const payloadLines: PurchaseOrderPayload['lines'] = [];
+    for (const line of lines) {
+      const item = itemsByKey.get(line.key);
+      const quantity = parseFloat(line.quantity);
+      if (!item || !(quantity > 0)) {
+        toastUtils.error('Every line needs an item and a quantity.');
+        return;
+      }
+      payloadLines.push({
+        item_type: item.item_type,
+        item_id: item.item_id,
+        item_name: item.name,
+        quantity_ordered: quantity,
+        unit_cost: parseFloat(line.unit_cost) || 0,
+      });
+    }
+
+    setSaving(true);
+    const saved = await onSave({
+      supplier_id: Number(supplierId),
+      expected_on: expectedOn || null,
+      notes: notes.trim() || null,
+      lines: payloadLines,
+    });
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4 animate-fadeIn">
+      <div className="bg-white rounded-lg shadow-md w-full max-w-3xl max-h-[90vh] overflow-y-auto p-5 relative animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-600"
+        >
+          <span className="sr-only">Close</span>
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h3 className="text-lg font-bold mb-4 pr-6">New Purchase Order</h3>
+
+        {suppliers.length === 0 ? (
+          <p className="text-sm text-gray-600 mb-4">Add a supplier before creating a purchase order.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Supplier</label>
+              <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className={inputClass}>
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Expected Delivery</label>
+              <input
+                type="date"
+                value={expectedOn}
+                onChange={(e) => setExpectedOn(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 mb-3">
+          <div className="hidden md:grid grid-cols-12 gap-2 text-xs font-medium text-gray-500">
+            <span className="col-span-6">Item</span>
+            <span className="col-span-2">Quantity</span>
+            <span className="col-span-3">Unit Cost ($)</span>
+          </div>
+          {lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <select
+                value={line.key}
+                onChange={(e) => selectItem(index, e.target.value)}
+                className={`${inputClass} col-span-12 md:col-span-6`}
+              >
+                <option value="">Select an item...</option>
+                {ITEM_TYPE_ORDER.map((type) => (
+                  <optgroup key={type} label={STOCK_ITEM_TYPE_LABELS[type]}>
+                    {stockedItems
+                      .filter((item) => item.item_type === type)
+                      .map((item) => (
+                        <option key={item.item_id} value={stockItemKey(type, item.item_id)}>
+                          {item.name} (on hand: {item.stock_quantity})
+                        </option>
+                      ))}
+                  </optgroup>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={line.quantity}
+                onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                aria-label="Quantity"
+                className={`${inputClass} col-span-5 md:col-span-2`}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={line.unit_cost}
+                onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                aria-label="Unit cost"
+                className={`${inputClass} col-span-5 md:col-span-3`}
+              />
+              <button
+                onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                disabled={lines.length === 1}
+                className="col-span-2 md:col-span-1 p-2 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                title="Remove line"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={() => setLines((prev) => [...prev, { ...EMPTY_LINE }])}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800 mb-4"
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Line
+        </button>
+
+        <div className="mb-4">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+          <textarea
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <span className="text-sm font-medium text-gray-700">Total: ${total.toFixed(2)}</span>
+          <div className="flex flex-col sm:flex-row sm:space-x-3 space-y-2 sm:space-y-0">
+            <button
+              onClick={onClose}
+              className="w-full sm:w-auto px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || suppliers.length === 0}
+              className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Draft'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+// src/ordering/components/admin/inventory/ReceivePurchaseOrderModal.tsx
+
+import { useState } from 'react';
+import toastUtils from '../../../../shared/utils/toastUtils';
+import type { PurchaseOrder, ReceivePurchaseOrderLine } from '../../../types/purchasing';
+import { getOutstandingQuantity } from '../../../utils/purchasingUtils';
+
+interface ReceivePurchaseOrderModalProps {
+  purchaseOrder: PurchaseOrder;
+  onClose: () => void;
+  onReceive: (lines: ReceivePurchaseOrderLine[], idempotencyKey: string) => Promise<boolean>;
+}
+
+const inputClass = 'w-24 p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * Check in what arrived against a PO. Quantities default to everything still
+ * outstanding; lower them for a partial delivery.
+ */
+export function ReceivePurchaseOrderModal({ purchaseOrder, onClose, onReceive }: ReceivePurchaseOrderModalProps) {
+  const openLines = purchaseOrder.lines.filter((line) => line.id && getOutstandingQuantity(line) > 0);
+  const [quantities, setQuantities] = useState<Record<number, string>>(() => {
+    const initial: Record<number, string> = {};
+    openLines.forEach((line) => {
+      initial[line.id as number] = String(getOutstandingQuantity(line));
+    });
+    return initial;
+  });
+  const [saving, setSaving] = useState(false);
+  // One key per delivery, so a retry after a dropped response isn't counted twice
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  const handleReceive = async () => {
+    const lines: ReceivePurchaseOrderLine[] = [];
+    for (const line of openLines) {
+      const quantity = parseFloat(quantities[line.id as number]) || 0;
+      if (quantity < 0 || quantity > getOutstandingQuantity(line)) {
+        toastUtils.error(`${line.item_name}: receive between 0 and ${getOutstandingQuantity(line)}.`);
+        return;
+      }
+      if (quantity > 0) lines.push({ line_id: line.id as number, quantity });
+    }
+    if (lines.length === 0) {
+      toastUtils.error('Enter at least one received quantity.');
+      return;
+    }
+
+    setSaving(true);
+    const received = await onReceive(lines, idempotencyKey);
+    setSaving(false);
+    if (received) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4 animate-fadeIn">
+      <div className="bg-white rounded-lg shadow-md w-full max-w-lg max-h-[90vh] overflow-y-auto p-5 relative animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-600"
+        >
+          <span className="sr-only">Close</span>
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h3 className="text-lg font-bold mb-1 pr-6">Receive PO #{purchaseOrder.id}</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {purchaseOrder.supplier_name}. Received quantities are added to stock and logged as restocks.
+        </p>
+
+        <table className="min-w-full text-sm mb-5">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 font-medium">Item</th>
+              <th className="py-1 font-medium">Outstanding</th>
+              <th className="py-1 font-medium">Receiving</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {openLines.map((line) => (
+              <tr key={line.id}>
+                <td className="py-2 pr-2">{line.item_name}</td>
+                <td className="py-2 text-gray-600">
+                  {getOutstandingQuantity(line)} of {line.quantity_ordered}
+                </td>
+                <td className="py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={quantities[line.id as number] ?? ''}
+                    onChange={(e) => setQuantities((prev) => ({ ...prev, [line.id as number]: e.target.value }))}
+                    aria-label={`Receiving ${line.item_name}`}
+                    className={inputClass}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex flex-col sm:flex-row sm:justify-end space-y-2 sm:space-y-0 sm:space-x-3">
+          <button
+            onClick={onClose}
+            className="w-full sm:w-auto px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleReceive}
+            disabled={saving}
+            className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Receiving...' : 'Receive'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
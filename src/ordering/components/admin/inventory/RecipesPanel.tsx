@@ -0,0 +1,270 @@
+// src/ordering/components/admin/inventory/RecipesPanel.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { Plus, Save, Search, Trash2 } from 'lucide-react';
+import toastUtils from '../../../../shared/utils/toastUtils';
+import { api } from '../../../lib/api';
+import { useMenuStore } from '../../../store/menuStore';
+import { useIngredientStore } from '../../../store/ingredientStore';
+import { calculateRecipeServings } from '../../../utils/inventoryUtils';
+import type { Ingredient, OptionIngredientDelta, RecipeLine } from '../../../types/inventory';
+import type { OptionGroup } from '../../../types/menu';
+
+const inputClass = 'p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * Per-item recipes: what one serving uses, plus what each option adds or
+ * saves. Item availability follows the scarcest ingredient in its recipe.
+ */
+export function RecipesPanel() {
+  const { menuItems, fetchAllMenuItemsForAdmin } = useMenuStore();
+  const { ingredients, recipes, fetchRecipes, saveRecipe } = useIngredientStore();
+
+  const [search, setSearch] = useState('');
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [lines, setLines] = useState<RecipeLine[]>([]);
+  const [optionDeltas, setOptionDeltas] = useState<OptionIngredientDelta[]>([]);
+  const [optionGroups, setOptionGroups] = useState<OptionGroup[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAllMenuItemsForAdmin();
+    fetchRecipes();
+  }, [fetchAllMenuItemsForAdmin, fetchRecipes]);
+
+  const ingredientsById = useMemo(() => {
+    const byId: Record<number, Ingredient> = {};
+    ingredients.forEach((ingredient) => {
+      byId[ingredient.id] = ingredient;
+    });
+    return byId;
+  }, [ingredients]);
+
+  const filteredItems = menuItems.filter((item) =>
+    item.name.toLowerCase().includes(search.toLowerCase())
+  );
+  const selectedItem = menuItems.find((item) => String(item.id) === selectedItemId) || null;
+
+  // Flattened "Group: Option" list for the option delta picker
+  const optionChoices = useMemo(
+    () => optionGroups.flatMap((group) =>
+      group.options.map((option) => ({ id: option.id, label: `${group.name}: ${option.name}` }))
+    ),
+    [optionGroups]
+  );
+
+  const selectItem = async (itemId: string) => {
+    setSelectedItemId(itemId);
+    const recipe = recipes[itemId];
+    setLines(recipe ? recipe.lines.map((line) => ({ ...line })) : []);
+    setOptionDeltas(recipe ? recipe.option_deltas.map((delta) => ({ ...delta })) : []);
+    setOptionGroups([]);
+    try {
+      const groups = await api.get(`/menu_items/${itemId}/option_groups`);
+      setOptionGroups((groups as OptionGroup[]) || []);
+    } catch (err) {
+      console.error('Error loading option groups:', err);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<RecipeLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const updateDelta = (index: number, changes: Partial<OptionIngredientDelta>) => {
+    setOptionDeltas((prev) => prev.map((delta, i) => (i === index ? { ...delta, ...changes } : delta)));
+  };
+
+  const handleSave = async () => {
+    if (!selectedItemId) return;
+    // Rows left half-filled are dropped rather than rejected
+    const validLines = lines.filter((line) => line.ingredient_id && line.quantity > 0);
+    const validDeltas = optionDeltas.filter(
+      (delta) => delta.menu_option_id && delta.ingredient_id && delta.quantity !== 0
+    );
+    setSaving(true);
+    const saved = await saveRecipe(selectedItemId, { lines: validLines, option_deltas: validDeltas });
+    setSaving(false);
+    if (saved) {
+      setLines(saved.lines);
+      setOptionDeltas(saved.option_deltas);
+      toastUtils.success('Recipe saved.');
+    } else {
+      toastUtils.error('Failed to save recipe.');
+    }
+  };
+
+  const preview = calculateRecipeServings(lines, ingredientsById);
+
+  const ingredientSelect = (value: number, onChange: (id: number) => void) => (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(parseInt(e.target.value, 10) || 0)}
+      className={`${inputClass} flex-1 min-w-0`}
+      aria-label="Ingredient"
+    >
+      <option value="">Select ingredient</option>
+      {ingredients.map((ingredient) => (
+        <option key={ingredient.id} value={ingredient.id}>{ingredient.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="grid md:grid-cols-3 gap-6">
+      {/* Menu item picker */}
+      <div className="md:col-span-1">
+        <div className="relative mb-3">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-4 w-4 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search menu items..."
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <ul className="border rounded-lg divide-y max-h-[60vh] overflow-y-auto">
+          {filteredItems.map((item) => {
+            const hasRecipe = (recipes[String(item.id)]?.lines.length ?? 0) > 0;
+            return (
+              <li key={item.id}>
+                <button
+                  onClick={() => selectItem(String(item.id))}
+                  className={`w-full text-left px-3 py-2 text-sm flex justify-between items-center ${
+                    selectedItemId === String(item.id) ? 'bg-blue-50 text-blue-800' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="truncate">{item.name}</span>
+                  {hasRecipe && <span className="text-xs text-gray-500 ml-2 flex-shrink-0">Recipe</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {/* Recipe editor */}
+      <div className="md:col-span-2">
+        {!selectedItem ? (
+          <div className="bg-gray-50 rounded-lg p-8 text-center text-gray-500">
+            Select a menu item to edit its recipe.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="text-lg font-semibold">{selectedItem.name}</h3>
+                {lines.length > 0 && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    {preview.servings === Infinity
+                      ? 'Add quantities to see how many can be made.'
+                      : `Can make ${preview.servings} now${preview.limiting ? `, limited by ${preview.limiting.name}` : ''}.`}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4 mr-1" />
+                {saving ? 'Saving...' : 'Save Recipe'}
+              </button>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Per serving</h4>
+              <div className="space-y-2">
+                {lines.map((line, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    {ingredientSelect(line.ingredient_id, (id) => updateLine(index, { ingredient_id: id }))}
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                      className={`${inputClass} w-24`}
+                      aria-label="Quantity"
+                    />
+                    <span className="w-12 text-sm text-gray-500">{ingredientsById[line.ingredient_id]?.unit}</span>
+                    <button
+                      onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      aria-label="Remove ingredient"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setLines((prev) => [...prev, { ingredient_id: 0, quantity: 0 }])}
+                className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add Ingredient
+              </button>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-1">Option adjustments</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Use a negative quantity for options that leave something out.
+              </p>
+              {optionChoices.length === 0 ? (
+                <p className="text-sm text-gray-500">This item has no options.</p>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    {optionDeltas.map((delta, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <select
+                          value={delta.menu_option_id || ''}
+                          onChange={(e) => updateDelta(index, { menu_option_id: parseInt(e.target.value, 10) || 0 })}
+                          className={`${inputClass} flex-1 min-w-0`}
+                          aria-label="Option"
+                        >
+                          <option value="">Select option</option>
+                          {optionChoices.map((choice) => (
+                            <option key={choice.id} value={choice.id}>{choice.label}</option>
+                          ))}
+                        </select>
+                        {ingredientSelect(delta.ingredient_id, (id) => updateDelta(index, { ingredient_id: id }))}
+                        <input
+                          type="number"
+                          step="any"
+                          value={delta.quantity}
+                          onChange={(e) => updateDelta(index, { quantity: parseFloat(e.target.value) || 0 })}
+                          className={`${inputClass} w-24`}
+                          aria-label="Quantity change"
+                        />
+                        <button
+                          onClick={() => setOptionDeltas((prev) => prev.filter((_, i) => i !== index))}
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          aria-label="Remove option adjustment"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() =>
+                      setOptionDeltas((prev) => [...prev, { menu_option_id: 0, ingredient_id: 0, quantity: 0 }])
+                    }
+                    className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="h-4 w-4 mr-1" /> Add Option Adjustment
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
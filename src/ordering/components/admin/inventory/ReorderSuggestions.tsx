@@ -0,0 +1,133 @@
+// src/ordering/components/admin/inventory/ReorderSuggestions.tsx
+
+import { useState } from 'react';
+import { ShoppingCart } from 'lucide-react';
+import type { ReorderSuggestion } from '../../../types/purchasing';
+import { STOCK_ITEM_TYPE_LABELS, stockItemKey } from '../../../utils/purchasingUtils';
+
+interface ReorderSuggestionsProps {
+  suggestions: ReorderSuggestion[];
+  windowDays: number;
+  coverDays: number;
+  onCoverDaysChange: (days: number) => void;
+  onCreateOrder: (selected: ReorderSuggestion[]) => void;
+}
+
+const COVER_DAY_OPTIONS = [7, 14, 30];
+
+/**
+ * Items to reorder, based on low-stock thresholds and recent sales
+ */
+export function ReorderSuggestions({
+  suggestions,
+  windowDays,
+  coverDays,
+  onCoverDaysChange,
+  onCreateOrder,
+}: ReorderSuggestionsProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const selectedSuggestions = suggestions.filter((s) => selected.has(stockItemKey(s.item_type, s.item_id)));
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Reorder Suggestions</h3>
+          <p className="text-xs text-gray-500">
+            Based on the last {windowDays} days of sales and stock already on order.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-sm text-gray-700">
+            Cover
+            <select
+              value={coverDays}
+              onChange={(e) => onCoverDaysChange(Number(e.target.value))}
+              className="ml-2 p-1.5 border border-gray-300 rounded-md text-sm"
+            >
+              {COVER_DAY_OPTIONS.map((days) => (
+                <option key={days} value={days}>{days} days</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => {
+              onCreateOrder(selectedSuggestions);
+              setSelected(new Set());
+            }}
+            disabled={selectedSuggestions.length === 0}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            <ShoppingCart className="h-4 w-4 mr-1" /> Create PO
+          </button>
+        </div>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing needs reordering right now.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2" />
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Item</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">On Hand</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Low At</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Per Day</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Days Left</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Suggested</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {suggestions.map((suggestion) => {
+                const key = stockItemKey(suggestion.item_type, suggestion.item_id);
+                return (
+                  <tr key={key}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(key)}
+                        onChange={() => toggle(key)}
+                        aria-label={`Select ${suggestion.name}`}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className="font-medium text-gray-900">{suggestion.name}</span>
+                      <span className="ml-2 text-xs text-gray-500">{STOCK_ITEM_TYPE_LABELS[suggestion.item_type]}</span>
+                    </td>
+                    <td className="px-3 py-2 text-right">{suggestion.stock_quantity}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{suggestion.low_stock_threshold}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{suggestion.daily_usage}</td>
+                    <td
+                      className={`px-3 py-2 text-right ${
+                        suggestion.days_of_stock !== null && suggestion.days_of_stock <= 2 ? 'text-red-600 font-medium' : 'text-gray-600'
+                      }`}
+                    >
+                      {suggestion.days_of_stock ?? '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium">{suggestion.suggested_quantity}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
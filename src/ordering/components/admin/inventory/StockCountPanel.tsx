@@ -0,0 +1,449 @@
+// src/ordering/components/admin/inventory/StockCountPanel.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { ClipboardList, Eye, EyeOff, Search } from 'lucide-react';
+import toastUtils from '../../../../shared/utils/toastUtils';
+import { useMenuStore } from '../../../store/menuStore';
+import { useMerchandiseStore } from '../../../store/merchandiseStore';
+import { useIngredientStore } from '../../../store/ingredientStore';
+import { useCategoryStore } from '../../../store/categoryStore';
+import { useStockCountStore } from '../../../store/stockCountStore';
+import type { StockCountLine, StockCountScope } from '../../../types/inventory';
+import {
+  buildCountSheet,
+  describeStockCountScope,
+  getCountVariance,
+  getStockCountAgeHours,
+  isStockCountStale,
+  summarizeStockCount,
+} from '../../../utils/stockCountUtils';
+
+type ScopeType = StockCountScope['type'];
+
+function formatMoney(value: number): string {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+function varianceClass(variance: number | null): string {
+  if (variance === null || variance === 0) return 'text-gray-600';
+  return variance < 0 ? 'text-red-600' : 'text-green-600';
+}
+
+/**
+ * Physical stock count: pick a scope, walk the shelves entering what's there,
+ * then review variances and post every adjustment in one batch.
+ */
+export function StockCountPanel() {
+  const { menuItems, fetchAllMenuItemsForAdmin } = useMenuStore();
+  const { merchandiseItems, collections, fetchAllMerchandiseItemsForAdmin, fetchCollections } = useMerchandiseStore();
+  const { ingredients, fetchIngredients } = useIngredientStore();
+  const { categories, fetchCategories } = useCategoryStore();
+  const {
+    session,
+    history,
+    committing,
+    error,
+    startSession,
+    setCountedQuantity,
+    refreshExpected,
+    discardSession,
+    commitSession,
+    fetchHistory,
+  } = useStockCountStore();
+
+  const [scopeType, setScopeType] = useState<ScopeType>('all');
+  const [scopeId, setScopeId] = useState('');
+  const [reviewing, setReviewing] = useState(false);
+  const [showExpected, setShowExpected] = useState(false);
+  const [showAllLines, setShowAllLines] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [notes, setNotes] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchAllMenuItemsForAdmin();
+    fetchAllMerchandiseItemsForAdmin();
+    fetchCollections();
+    fetchCategories();
+    fetchHistory();
+  }, [fetchAllMenuItemsForAdmin, fetchAllMerchandiseItemsForAdmin, fetchCollections, fetchCategories, fetchHistory]);
+
+  const summary = useMemo(() => summarizeStockCount(session?.lines || []), [session]);
+
+  const handleStart = () => {
+    let scope: StockCountScope = { type: 'all' };
+    if (scopeType === 'category') {
+      const category = categories.find((c) => String(c.id) === scopeId);
+      if (!category) {
+        toastUtils.error('Choose a category to count.');
+        return;
+      }
+      scope = { type: 'category', category_id: category.id, name: category.name };
+    } else if (scopeType === 'collection') {
+      const collection = collections.find((c) => String(c.id) === scopeId);
+      if (!collection) {
+        toastUtils.error('Choose a collection to count.');
+        return;
+      }
+      scope = { type: 'collection', collection_id: collection.id, name: collection.name };
+    }
+
+    const lines = buildCountSheet(scope, { menuItems, merchandiseItems, ingredients, categories, collections });
+    if (lines.length === 0) {
+      toastUtils.error('No tracked items in that scope.');
+      return;
+    }
+    startSession(scope, lines);
+    setReviewing(false);
+    setNotes('');
+  };
+
+  // Stock keeps moving while a count is open, so expected quantities are
+  // reloaded before they're compared against the counts
+  const refreshExpectedQuantities = async () => {
+    if (!session) return;
+    setRefreshing(true);
+    try {
+      await Promise.all([fetchAllMenuItemsForAdmin(), fetchAllMerchandiseItemsForAdmin(), fetchIngredients()]);
+      const latest = buildCountSheet(session.scope, {
+        menuItems: useMenuStore.getState().menuItems,
+        merchandiseItems: useMerchandiseStore.getState().merchandiseItems,
+        ingredients: useIngredientStore.getState().ingredients,
+        categories,
+        collections,
+      });
+      refreshExpected(latest);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleToggleReview = async () => {
+    if (!reviewing) await refreshExpectedQuantities();
+    setReviewing(!reviewing);
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm('Discard this count? Entered quantities will be lost.')) return;
+    discardSession();
+    setReviewing(false);
+  };
+
+  const handleCommit = async () => {
+    if (summary.countedLines === 0) {
+      toastUtils.error('Nothing has been counted yet.');
+      return;
+    }
+    await refreshExpectedQuantities();
+    const committed = await commitSession(notes.trim());
+    if (committed) {
+      toastUtils.success(`Stock count posted: ${summary.varianceLines} adjustments.`);
+      setReviewing(false);
+      // Stock changed server-side
+      fetchAllMenuItemsForAdmin();
+      fetchAllMerchandiseItemsForAdmin();
+      fetchIngredients();
+    } else {
+      toastUtils.error('Failed to post stock count.');
+    }
+  };
+
+  const handleCountChange = (line: StockCountLine, value: string) => {
+    const quantity = parseFloat(value);
+    setCountedQuantity(line.item_type, line.item_id, value === '' || isNaN(quantity) ? null : quantity);
+  };
+
+  if (!session) {
+    return (
+      <div className="space-y-6">
+        <div className="border rounded-lg p-4">
+          <h3 className="text-lg font-semibold mb-3">Start a Stock Count</h3>
+          <div className="flex flex-col md:flex-row md:items-end gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Count</label>
+              <select
+                value={scopeType}
+                onChange={(e) => {
+                  setScopeType(e.target.value as ScopeType);
+                  setScopeId('');
+                }}
+                className="p-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="all">All tracked items</option>
+                <option value="category">A menu category</option>
+                <option value="collection">A merchandise collection</option>
+              </select>
+            </div>
+            {scopeType !== 'all' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  {scopeType === 'category' ? 'Category' : 'Collection'}
+                </label>
+                <select
+                  value={scopeId}
+                  onChange={(e) => setScopeId(e.target.value)}
+                  className="p-2 border border-gray-300 rounded-md text-sm min-w-[12rem]"
+                >
+                  <option value="">Select...</option>
+                  {(scopeType === 'category' ? categories : collections).map((option) => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <button
+              onClick={handleStart}
+              className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+            >
+              <ClipboardList className="h-4 w-4 mr-2" /> Start Count
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-3">Recent Counts</h3>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">No counts posted yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border rounded-lg">
+              {history.slice(0, 10).map((count) => {
+                const countSummary = summarizeStockCount(count.lines);
+                return (
+                  <li key={count.id} className="flex justify-between items-center px-4 py-3 text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">{describeStockCountScope(count.scope)}</p>
+                      <p className="text-xs text-gray-500">{new Date(count.committed_at).toLocaleString()}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className={varianceClass(countSummary.netValue)}>{formatMoney(countSummary.netValue)}</p>
+                      <p className="text-xs text-gray-500">
+                        {countSummary.varianceLines} of {countSummary.countedLines} off
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const term = searchTerm.trim().toLowerCase();
+  const sheetLines = session.lines.filter((line) => !term || line.name.toLowerCase().includes(term));
+  const groups = Array.from(new Set(sheetLines.map((line) => line.group)));
+  const reviewLines = session.lines.filter((line) => {
+    const variance = getCountVariance(line);
+    return showAllLines || (variance !== null && variance !== 0);
+  });
+  const uncounted = summary.totalLines - summary.countedLines;
+  const stale = isStockCountStale(session.started_at);
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Counting: {describeStockCountScope(session.scope)}</h3>
+          <p className="text-xs text-gray-500">
+            Started {new Date(session.started_at).toLocaleString()} · {summary.countedLines} of {summary.totalLines} counted
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleDiscard}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-100"
+          >
+            Discard
+          </button>
+          <button
+            onClick={handleToggleReview}
+            disabled={refreshing}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {refreshing ? 'Refreshing...' : reviewing ? 'Back to Sheet' : 'Review Variances'}
+          </button>
+        </div>
+      </div>
+
+      {stale && (
+        <p className="mb-4 p-3 bg-yellow-50 text-sm text-yellow-800 rounded-md">
+          This count was started {Math.floor(getStockCountAgeHours(session.started_at))} hours ago. Items counted
+          early may have sold since; recount them or discard and start fresh.
+        </p>
+      )}
+
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+        <div
+          className="bg-blue-600 h-2 rounded-full"
+          style={{ width: `${summary.totalLines ? (summary.countedLines / summary.totalLines) * 100 : 0}%` }}
+        />
+      </div>
+
+      {!reviewing ? (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <div className="relative flex-1 min-w-[12rem]">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Find an item..."
+                className="pl-10 pr-3 py-2 w-full border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            {/* Blind by default so counters record what's there, not what the system expects */}
+            <button
+              onClick={() => setShowExpected(!showExpected)}
+              className="flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {showExpected ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+              {showExpected ? 'Hide Expected' : 'Show Expected'}
+            </button>
+          </div>
+
+          {groups.map((group) => (
+            <div key={group} className="mb-6">
+              <h4 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">{group}</h4>
+              <div className="divide-y divide-gray-200 border rounded-lg">
+                {sheetLines
+                  .filter((line) => line.group === group)
+                  .map((line) => (
+                    <div
+                      key={`${line.item_type}:${line.item_id}`}
+                      className={`flex items-center justify-between gap-4 px-4 py-3 ${
+                        line.counted_quantity !== null ? 'bg-green-50' : ''
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900">{line.name}</p>
+                        {showExpected && (
+                          <p className="text-xs text-gray-500">Expected: {line.expected_quantity}</p>
+                        )}
+                      </div>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        min="0"
+                        step="any"
+                        value={line.counted_quantity ?? ''}
+                        onChange={(e) => handleCountChange(line, e.target.value)}
+                        aria-label={`Counted ${line.name}`}
+                        className="w-28 px-3 py-3 text-lg text-right border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            <div className="p-3 bg-gray-50 rounded-md">
+              <p className="text-xs text-gray-500">Counted</p>
+              <p className="text-lg font-semibold">{summary.countedLines} / {summary.totalLines}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-md">
+              <p className="text-xs text-gray-500">Shortage</p>
+              <p className="text-lg font-semibold text-red-600">{formatMoney(summary.shortageValue)}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-md">
+              <p className="text-xs text-gray-500">Overage</p>
+              <p className="text-lg font-semibold text-green-600">{formatMoney(summary.overageValue)}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-md">
+              <p className="text-xs text-gray-500">Net</p>
+              <p className={`text-lg font-semibold ${varianceClass(summary.netValue)}`}>
+                {formatMoney(summary.netValue)}
+              </p>
+            </div>
+          </div>
+
+          {uncounted > 0 && (
+            <p className="mb-4 p-3 bg-yellow-50 text-sm text-yellow-800 rounded-md">
+              {uncounted} {uncounted === 1 ? 'item has' : 'items have'} not been counted and will be left unchanged.
+            </p>
+          )}
+
+          <label className="inline-flex items-center mb-3 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showAllLines}
+              onChange={(e) => setShowAllLines(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded"
+            />
+            Show lines without a variance
+          </label>
+
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Item</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Expected</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Counted</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Variance</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {reviewLines.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-4 text-center text-gray-500">No variances.</td>
+                  </tr>
+                )}
+                {reviewLines.map((line) => {
+                  const variance = getCountVariance(line);
+                  return (
+                    <tr key={`${line.item_type}:${line.item_id}`}>
+                      <td className="px-3 py-2">
+                        <span className="font-medium text-gray-900">{line.name}</span>
+                        <span className="ml-2 text-xs text-gray-500">{line.group}</span>
+                      </td>
+                      <td className="px-3 py-2 text-right">{line.expected_quantity}</td>
+                      <td className="px-3 py-2 text-right">{line.counted_quantity ?? '—'}</td>
+                      <td className={`px-3 py-2 text-right font-medium ${varianceClass(variance)}`}>
+                        {variance === null ? '—' : variance > 0 ? `+${variance}` : variance}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${varianceClass(variance)}`}>
+                        {variance === null ? '—' : line.unit_cost ? formatMoney(variance * line.unit_cost) : 'n/a'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Notes (saved with every adjustment)</label>
+            <textarea
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Weekly Sunday count"
+              className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleCommit}
+              disabled={committing || refreshing || summary.countedLines === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {committing ? 'Posting...' : `Post ${summary.countedLines} Counts`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
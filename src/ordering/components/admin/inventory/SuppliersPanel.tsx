@@ -0,0 +1,209 @@
+// src/ordering/components/admin/inventory/SuppliersPanel.tsx
+
+import { useState } from 'react';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import toastUtils from '../../../../shared/utils/toastUtils';
+import { usePurchasingStore } from '../../../store/purchasingStore';
+import type { Supplier } from '../../../types/purchasing';
+
+interface SupplierDraft {
+  id: number | null; // null while adding
+  name: string;
+  contact_name: string;
+  email: string;
+  phone: string;
+  lead_time_days: string;
+}
+
+const EMPTY_DRAFT: SupplierDraft = {
+  id: null,
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  lead_time_days: '',
+};
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500';
+
+function toDraft(supplier: Supplier): SupplierDraft {
+  return {
+    id: supplier.id,
+    name: supplier.name,
+    contact_name: supplier.contact_name || '',
+    email: supplier.email || '',
+    phone: supplier.phone || '',
+    lead_time_days: supplier.lead_time_days != null ? String(supplier.lead_time_days) : '',
+  };
+}
+
+/**
+ * Who we order stock from. Purchase orders pick a supplier from this list.
+ */
+export function SuppliersPanel() {
+  const { suppliers, createSupplier, updateSupplier, deleteSupplier } = usePurchasingStore();
+  const [draft, setDraft] = useState<SupplierDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) {
+      toastUtils.error('Supplier name is required.');
+      return;
+    }
+    const payload = {
+      name: draft.name.trim(),
+      contact_name: draft.contact_name.trim() || null,
+      email: draft.email.trim() || null,
+      phone: draft.phone.trim() || null,
+      lead_time_days: draft.lead_time_days === '' ? null : parseInt(draft.lead_time_days, 10),
+    };
+
+    setSaving(true);
+    const saved = draft.id ? await updateSupplier(draft.id, payload) : await createSupplier(payload);
+    setSaving(false);
+
+    if (saved) {
+      toastUtils.success(draft.id ? 'Supplier updated.' : 'Supplier added.');
+      setDraft(null);
+    } else {
+      toastUtils.error('Failed to save supplier.');
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`Delete ${supplier.name}?`)) return;
+    if (await deleteSupplier(supplier.id)) {
+      toastUtils.success('Supplier deleted.');
+    } else {
+      toastUtils.error('Failed to delete supplier. It may still have open purchase orders.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">Suppliers</h3>
+        <button
+          onClick={() => setDraft({ ...EMPTY_DRAFT })}
+          className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Supplier
+        </button>
+      </div>
+
+      {draft && (
+        <div className="border rounded-lg p-4 mb-4 bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Contact</label>
+              <input
+                type="text"
+                value={draft.contact_name}
+                onChange={(e) => setDraft({ ...draft, contact_name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Email</label>
+              <input
+                type="email"
+                value={draft.email}
+                onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                type="tel"
+                value={draft.phone}
+                onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Lead Time (days)</label>
+              <input
+                type="number"
+                min="0"
+                value={draft.lead_time_days}
+                onChange={(e) => setDraft({ ...draft, lead_time_days: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {suppliers.length === 0 ? (
+        <p className="text-sm text-gray-500">No suppliers yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Name</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Contact</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Lead Time</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {suppliers.map((supplier) => (
+                <tr key={supplier.id}>
+                  <td className="px-3 py-2 font-medium text-gray-900">{supplier.name}</td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {[supplier.contact_name, supplier.email, supplier.phone].filter(Boolean).join(' · ') || '—'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {supplier.lead_time_days != null ? `${supplier.lead_time_days} days` : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => setDraft(toDraft(supplier))}
+                      className="p-1 text-gray-500 hover:text-blue-600"
+                      title="Edit"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(supplier)}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,9 +11,10 @@ interface PaymentMethodReportProps {
   paymentMethods: PaymentMethodReportType[];
   totalAmount: number;
   totalCount: number;
+  totalTips?: number;
 }
 
-export function PaymentMethodReport({ paymentMethods, totalAmount, totalCount }: PaymentMethodReportProps) {
+export function PaymentMethodReport({ paymentMethods, totalAmount, totalCount, totalTips = 0 }: PaymentMethodReportProps) {
   // Format payment method name for display
   const formatMethodName = (method: string) => {
     return method
@@ -37,6 +38,8 @@ export function PaymentMethodReport({ paymentMethods, totalAmount, totalCount }:
         'Payment Method': formatMethodName(method.payment_method),
         'Count': method.count,
         'Amount': `$${Number(method.amount).toFixed(2)}`,
+        'Tips': `$${Number(method.tip_amount || 0).toFixed(2)}`,
+        'Sales (excl. Tips)': `$${(Number(method.amount) - Number(method.tip_amount || 0)).toFixed(2)}`,
         'Percentage': `${Number(method.percentage).toFixed(2)}%`
       }));
 
@@ -45,6 +48,8 @@ export function PaymentMethodReport({ paymentMethods, totalAmount, totalCount }:
       'Payment Method': 'Total',
       'Count': totalCount,
       'Amount': `$${Number(totalAmount).toFixed(2)}`,
+      'Tips': `$${Number(totalTips).toFixed(2)}`,
+      'Sales (excl. Tips)': `$${(Number(totalAmount) - Number(totalTips)).toFixed(2)}`,
       'Percentage': '100%'
     });
 
@@ -85,6 +90,7 @@ export function PaymentMethodReport({ paymentMethods, totalAmount, totalCount }:
                   <th className="px-4 py-2 text-left font-semibold">Payment Method</th>
                   <th className="px-4 py-2 text-right font-semibold">Count</th>
                   <th className="px-4 py-2 text-right font-semibold">Amount</th>
+                  <th className="px-4 py-2 text-right font-semibold">Tips</th>
                   <th className="px-4 py-2 text-right font-semibold">Percentage</th>
                 </tr>
               </thead>
@@ -98,6 +104,7 @@ export function PaymentMethodReport({ paymentMethods, totalAmount, totalCount }:
                       </td>
                       <td className="px-4 py-2 text-right">{method.count}</td>
                       <td className="px-4 py-2 text-right">${Number(method.amount).toFixed(2)}</td>
+                      <td className="px-4 py-2 text-right">${Number(method.tip_amount || 0).toFixed(2)}</td>
                       <td className="px-4 py-2 text-right">{Number(method.percentage).toFixed(2)}%</td>
                     </tr>
                   ))}
@@ -107,12 +114,20 @@ export function PaymentMethodReport({ paymentMethods, totalAmount, totalCount }:
                   <td className="px-4 py-2 font-semibold">Total</td>
                   <td className="px-4 py-2 text-right font-semibold">{totalCount}</td>
                   <td className="px-4 py-2 text-right font-semibold">${Number(totalAmount).toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right font-semibold">${Number(totalTips).toFixed(2)}</td>
                   <td className="px-4 py-2 text-right font-semibold">100%</td>
                 </tr>
               </tfoot>
             </table>
           </div>
           
+          {totalTips > 0 && (
+            <p className="text-sm text-gray-600 mb-4">
+              Amounts include <span className="font-medium">${Number(totalTips).toFixed(2)}</span> in tips.
+              Sales excluding tips: <span className="font-medium">${(Number(totalAmount) - Number(totalTips)).toFixed(2)}</span>
+            </p>
+          )}
+
           {/* Pie chart visualization */}
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
@@ -0,0 +1,167 @@
+// src/ordering/components/admin/settings/DeliveryZonesEditor.tsx
+
+import { useState } from 'react';
+import { Plus, Trash } from 'lucide-react';
+import type { DeliverySettings, DeliveryZone } from '../../../types/delivery';
+import { createDeliveryZone, parsePostalCodes } from '../../../utils/deliveryUtils';
+
+interface DeliveryZonesEditorProps {
+  value: DeliverySettings;
+  onChange: (settings: DeliverySettings) => void;
+}
+
+const fieldClass = `mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm
+  focus:outline-none focus:ring-[#0078d4] focus:border-[#0078d4] sm:text-sm`;
+
+/**
+ * Delivery on/off plus the zones customers can order from. Saved with the
+ * rest of RestaurantSettings under admin_settings.delivery.
+ */
+export function DeliveryZonesEditor({ value, onChange }: DeliveryZonesEditorProps) {
+  // Postal codes are edited as free text and parsed on blur so separators can be typed
+  const [postalText, setPostalText] = useState<Record<string, string>>({});
+
+  const updateZone = (id: string, changes: Partial<DeliveryZone>) => {
+    onChange({
+      ...value,
+      zones: value.zones.map((zone) => (zone.id === id ? { ...zone, ...changes } : zone)),
+    });
+  };
+
+  const removeZone = (id: string) => {
+    onChange({ ...value, zones: value.zones.filter((zone) => zone.id !== id) });
+  };
+
+  const commitPostalCodes = (id: string) => {
+    const text = postalText[id];
+    if (text === undefined) return;
+    updateZone(id, { postal_codes: parsePostalCodes(text) });
+    setPostalText((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center">
+        <input
+          id="delivery-enabled"
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="h-4 w-4 text-[#0078d4] focus:ring-[#0078d4] border-gray-300 rounded"
+        />
+        <label htmlFor="delivery-enabled" className="ml-2 block text-sm font-medium text-gray-700">
+          Offer delivery at checkout
+        </label>
+      </div>
+      <p className="text-sm text-gray-500 ml-6">
+        Customers can choose delivery once at least one zone is set up. Radius zones are measured from the
+        restaurant address; a postal code listed in a zone takes priority over radius zones.
+      </p>
+
+      {value.zones.map((zone) => (
+        <div key={zone.id} className="border border-gray-200 rounded-md p-4 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Zone Name</label>
+              <input
+                type="text"
+                value={zone.name}
+                onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+                placeholder="e.g. Tumon / Tamuning"
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Area</label>
+              <select
+                value={zone.type}
+                onChange={(e) => updateZone(zone.id, { type: e.target.value as DeliveryZone['type'] })}
+                className={fieldClass}
+              >
+                <option value="radius">Radius from restaurant</option>
+                <option value="postal_codes">Postal code list</option>
+              </select>
+            </div>
+          </div>
+
+          {zone.type === 'radius' ? (
+            <div>
+              <label className="text-sm font-medium text-gray-700">Radius (miles)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={zone.radius_miles ?? ''}
+                onChange={(e) => updateZone(zone.id, { radius_miles: parseFloat(e.target.value) || 0 })}
+                className={fieldClass}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="text-sm font-medium text-gray-700">Postal Codes</label>
+              <textarea
+                rows={2}
+                value={postalText[zone.id] ?? (zone.postal_codes || []).join(', ')}
+                onChange={(e) => setPostalText((prev) => ({ ...prev, [zone.id]: e.target.value }))}
+                onBlur={() => commitPostalCodes(zone.id)}
+                placeholder="96910, 96913, 96929"
+                className={fieldClass}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Delivery Fee ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={zone.fee}
+                onChange={(e) => updateZone(zone.id, { fee: parseFloat(e.target.value) || 0 })}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Order Minimum ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={zone.minimum_order}
+                onChange={(e) => updateZone(zone.id, { minimum_order: parseFloat(e.target.value) || 0 })}
+                className={fieldClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => removeZone(zone.id)}
+              className="inline-flex items-center px-2.5 py-1.5 border border-red-300 text-xs font-medium rounded text-red-700 bg-white hover:bg-red-50"
+            >
+              <Trash className="h-3 w-3 mr-1" />
+              Remove Zone
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange({ ...value, zones: [...value.zones, createDeliveryZone()] })}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Delivery Zone
+      </button>
+    </div>
+  );
+}
+
+export default DeliveryZonesEditor;
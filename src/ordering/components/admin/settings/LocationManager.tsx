@@ -1,10 +1,11 @@
 // src/ordering/components/admin/settings/LocationManager.tsx
 
 import { useState, useEffect } from 'react';
-import { MapPin, Plus, Trash, Check, X, Edit, AlertTriangle } from 'lucide-react';
+import { MapPin, Plus, Trash, Check, X, Edit, AlertTriangle, SlidersHorizontal } from 'lucide-react';
 import { locationsApi } from '../../../../shared/api/endpoints/locations';
 import { Location, LocationPayload } from '../../../../shared/types/Location';
 import toastUtils from '../../../../shared/utils/toastUtils';
+import { LocationOverridesPanel } from './LocationOverridesPanel';
 
 interface LocationManagerProps {
   restaurantId?: string;
@@ -16,6 +17,7 @@ export function LocationManager({ restaurantId }: LocationManagerProps) {
   const [error, setError] = useState<string | null>(null);
   const [isAddingLocation, setIsAddingLocation] = useState(false);
   const [editingLocationId, setEditingLocationId] = useState<number | null>(null);
+  const [overridesLocation, setOverridesLocation] = useState<Location | null>(null);
   
   // Form state
   const [newLocation, setNewLocation] = useState({
@@ -480,6 +482,13 @@ export function LocationManager({ restaurantId }: LocationManagerProps) {
                             </>
                           )}
                         </button>
+                        <button
+                          onClick={() => setOverridesLocation(location)}
+                          className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0078d4]"
+                        >
+                          <SlidersHorizontal className="h-3 w-3 mr-1" />
+                          Hours &amp; Menu
+                        </button>
                         <button
                           onClick={() => startEditing(location)}
                           className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0078d4]"
@@ -534,6 +543,13 @@ export function LocationManager({ restaurantId }: LocationManagerProps) {
           </div>
         </div>
       )}
+
+      {overridesLocation && (
+        <LocationOverridesPanel
+          location={overridesLocation}
+          onClose={() => setOverridesLocation(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,415 @@
+// src/ordering/components/admin/settings/LocationOverridesPanel.tsx
+
+import { useState, useEffect, useMemo } from 'react';
+import { X, Clock, Utensils, Search, RotateCcw } from 'lucide-react';
+import { locationsApi } from '../../../../shared/api/endpoints/locations';
+import { fetchOperatingHours } from '../../../../shared/api/endpoints/events';
+import { Location, LocationMenuItemOverride, LocationOperatingHour } from '../../../../shared/types/Location';
+import { useMenuStore } from '../../../store/menuStore';
+import { findItemOverride } from '../../../utils/locationUtils';
+import { parseTimeOfDay } from '../../../utils/pickupTimeUtils';
+import type { OperatingHour } from '../../../types/pickup';
+import toastUtils from '../../../../shared/utils/toastUtils';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface LocationOverridesPanelProps {
+  location: Location;
+  onClose: () => void;
+}
+
+/** One editable day; `custom` is false while the day follows the restaurant's hours */
+interface DayDraft {
+  day_of_week: number;
+  custom: boolean;
+  open_time: string;
+  close_time: string;
+  closed: boolean;
+}
+
+/** Editable fields of a menu row; blank price/stock means "use the item's own" */
+interface ItemDraft {
+  available: boolean;
+  price: string;
+  stock_quantity: string;
+}
+
+/** DB time => "HH:MM" for <input type="time" /> */
+function toTimeInput(dbTime: string | null): string {
+  const minutes = parseTimeOfDay(dbTime);
+  if (minutes === null) return '';
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function buildDayDrafts(restaurantHours: OperatingHour[], locationHours: LocationOperatingHour[]): DayDraft[] {
+  return DAY_NAMES.map((_, day) => {
+    const local = locationHours.find((row) => row.day_of_week === day);
+    const base = local || restaurantHours.find((row) => row.day_of_week === day);
+    return {
+      day_of_week: day,
+      custom: !!local,
+      open_time: toTimeInput(base?.open_time ?? null),
+      close_time: toTimeInput(base?.close_time ?? null),
+      closed: base?.closed ?? false,
+    };
+  });
+}
+
+function toItemDraft(override?: LocationMenuItemOverride): ItemDraft {
+  return {
+    available: override ? override.available : true,
+    price: override?.price != null ? String(override.price) : '',
+    stock_quantity: override?.stock_quantity != null ? String(override.stock_quantity) : '',
+  };
+}
+
+/**
+ * Per-location hours and menu overrides, opened from LocationManager.
+ * Anything left unset falls back to the restaurant-wide hours and menu.
+ */
+export function LocationOverridesPanel({ location, onClose }: LocationOverridesPanelProps) {
+  const [tab, setTab] = useState<'hours' | 'menu'>('hours');
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Hours
+  const [restaurantHours, setRestaurantHours] = useState<OperatingHour[]>([]);
+  const [days, setDays] = useState<DayDraft[]>([]);
+  const [savingHours, setSavingHours] = useState(false);
+
+  // Menu
+  const { menuItems, fetchAllMenuItemsForAdmin } = useMenuStore();
+  const [overrides, setOverrides] = useState<LocationMenuItemOverride[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ItemDraft>>({});
+  const [savingItemId, setSavingItemId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    fetchAllMenuItemsForAdmin();
+  }, [fetchAllMenuItemsForAdmin]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([
+      fetchOperatingHours(),
+      locationsApi.getOperatingHours(location.id),
+      locationsApi.getMenuItemOverrides(location.id),
+    ])
+      .then(([hours, locationHours, itemOverrides]) => {
+        const base = (hours as OperatingHour[]) || [];
+        setRestaurantHours(base);
+        setDays(buildDayDrafts(base, locationHours || []));
+        setOverrides(itemOverrides || []);
+      })
+      .catch((err) => {
+        console.error('Error loading location overrides:', err);
+        toastUtils.error('Failed to load settings for this location.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [location.id]);
+
+  const filteredItems = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return menuItems.filter((item) => !query || item.name.toLowerCase().includes(query));
+  }, [menuItems, search]);
+
+  const updateDay = (day: number, changes: Partial<DayDraft>) => {
+    setDays((prev) => prev.map((d) => (d.day_of_week === day ? { ...d, ...changes } : d)));
+  };
+
+  // Switching a day back to the restaurant's hours also resets the inputs to them
+  const toggleCustomDay = (day: number, custom: boolean) => {
+    if (custom) {
+      updateDay(day, { custom });
+      return;
+    }
+    const base = restaurantHours.find((row) => row.day_of_week === day);
+    updateDay(day, {
+      custom,
+      open_time: toTimeInput(base?.open_time ?? null),
+      close_time: toTimeInput(base?.close_time ?? null),
+      closed: base?.closed ?? false,
+    });
+  };
+
+  const handleSaveHours = async () => {
+    const hours: LocationOperatingHour[] = days
+      .filter((d) => d.custom)
+      .map((d) => ({
+        location_id: location.id,
+        day_of_week: d.day_of_week,
+        open_time: d.open_time ? `${d.open_time}:00` : null,
+        close_time: d.close_time ? `${d.close_time}:00` : null,
+        closed: d.closed,
+      }));
+
+    setSavingHours(true);
+    try {
+      const saved = await locationsApi.updateOperatingHours(location.id, hours);
+      setDays(buildDayDrafts(restaurantHours, saved || []));
+      toastUtils.success('Location hours saved.');
+    } catch (err) {
+      console.error('Error saving location hours:', err);
+      toastUtils.error('Failed to save location hours.');
+    } finally {
+      setSavingHours(false);
+    }
+  };
+
+  const draftFor = (itemId: string): ItemDraft =>
+    drafts[itemId] || toItemDraft(findItemOverride(overrides, itemId));
+
+  const updateDraft = (itemId: string, changes: Partial<ItemDraft>) => {
+    setDrafts((prev) => ({ ...prev, [itemId]: { ...draftFor(itemId), ...changes } }));
+  };
+
+  const clearDraft = (itemId: string) => {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[itemId];
+      return next;
+    });
+  };
+
+  const handleSaveItem = async (itemId: string) => {
+    const draft = draftFor(itemId);
+    setSavingItemId(itemId);
+    try {
+      const saved = await locationsApi.saveMenuItemOverride(location.id, itemId, {
+        available: draft.available,
+        price: draft.price === '' ? null : parseFloat(draft.price),
+        stock_quantity: draft.stock_quantity === '' ? null : parseInt(draft.stock_quantity, 10),
+      });
+      setOverrides((prev) => [
+        ...prev.filter((o) => String(o.menu_item_id) !== String(itemId)),
+        saved,
+      ]);
+      clearDraft(itemId);
+      toastUtils.success('Item saved for this location.');
+    } catch (err) {
+      console.error('Error saving menu item override:', err);
+      toastUtils.error('Failed to save item for this location.');
+    } finally {
+      setSavingItemId(null);
+    }
+  };
+
+  const handleResetItem = async (itemId: string) => {
+    setSavingItemId(itemId);
+    try {
+      await locationsApi.deleteMenuItemOverride(location.id, itemId);
+      setOverrides((prev) => prev.filter((o) => String(o.menu_item_id) !== String(itemId)));
+      clearDraft(itemId);
+    } catch (err) {
+      console.error('Error removing menu item override:', err);
+      toastUtils.error('Failed to reset item for this location.');
+    } finally {
+      setSavingItemId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center border-b px-6 py-4">
+          <h2 className="text-lg font-semibold">{location.name}: Hours &amp; Menu</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex border-b">
+          <button
+            className={`flex-1 px-4 py-3 text-center text-sm font-medium inline-flex items-center justify-center ${
+              tab === 'hours' ? 'text-[#0078d4] border-b-2 border-[#0078d4]' : 'text-gray-500'
+            }`}
+            onClick={() => setTab('hours')}
+          >
+            <Clock className="h-4 w-4 mr-2" />
+            Hours
+          </button>
+          <button
+            className={`flex-1 px-4 py-3 text-center text-sm font-medium inline-flex items-center justify-center ${
+              tab === 'menu' ? 'text-[#0078d4] border-b-2 border-[#0078d4]' : 'text-gray-500'
+            }`}
+            onClick={() => setTab('menu')}
+          >
+            <Utensils className="h-4 w-4 mr-2" />
+            Menu &amp; Stock
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6">
+          {isLoading ? (
+            <div className="flex justify-center items-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0078d4]"></div>
+            </div>
+          ) : tab === 'hours' ? (
+            <div>
+              <p className="text-sm text-gray-500 mb-4">
+                Days left on restaurant hours follow the main operating hours.
+              </p>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4">Day</th>
+                    <th className="py-2 pr-4">Custom?</th>
+                    <th className="py-2 pr-4">Open</th>
+                    <th className="py-2 pr-4">Close</th>
+                    <th className="py-2">Closed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.map((d) => (
+                    <tr key={d.day_of_week} className="border-t">
+                      <td className="py-2 pr-4">{DAY_NAMES[d.day_of_week]}</td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="checkbox"
+                          checked={d.custom}
+                          onChange={(e) => toggleCustomDay(d.day_of_week, e.target.checked)}
+                          className="h-4 w-4 text-[#0078d4] focus:ring-[#0078d4] border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="time"
+                          disabled={!d.custom || d.closed}
+                          value={d.open_time}
+                          onChange={(e) => updateDay(d.day_of_week, { open_time: e.target.value })}
+                          className="border border-gray-300 rounded p-1 w-32 disabled:bg-gray-50 disabled:text-gray-400"
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="time"
+                          disabled={!d.custom || d.closed}
+                          value={d.close_time}
+                          onChange={(e) => updateDay(d.day_of_week, { close_time: e.target.value })}
+                          className="border border-gray-300 rounded p-1 w-32 disabled:bg-gray-50 disabled:text-gray-400"
+                        />
+                      </td>
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          disabled={!d.custom}
+                          checked={d.closed}
+                          onChange={(e) => updateDay(d.day_of_week, { closed: e.target.checked })}
+                          className="h-4 w-4 text-[#0078d4] focus:ring-[#0078d4] border-gray-300 rounded"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex justify-end mt-4">
+                <button
+                  onClick={handleSaveHours}
+                  disabled={savingHours}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-[#0078d4] hover:bg-[#106ebe] disabled:opacity-50"
+                >
+                  {savingHours ? 'Saving...' : 'Save Hours'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <p className="text-sm text-gray-500 mb-4">
+                Leave price or stock blank to use the item's regular value. Stock only applies to items with
+                inventory tracking enabled.
+              </p>
+              <div className="relative mb-4">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-4 w-4 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search menu items..."
+                  className="pl-9 pr-3 py-2 w-full border border-gray-300 rounded-md text-sm focus:ring-[#0078d4] focus:border-[#0078d4]"
+                />
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {filteredItems.map((item) => {
+                  const itemId = String(item.id);
+                  const draft = draftFor(itemId);
+                  const hasOverride = !!findItemOverride(overrides, itemId);
+                  const isDirty = !!drafts[itemId];
+                  const isSaving = savingItemId === itemId;
+                  return (
+                    <li key={itemId} className="py-3 flex flex-wrap items-center gap-3">
+                      <div className="flex-1 min-w-[10rem]">
+                        <p className={`text-sm font-medium ${draft.available ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                          {item.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          ${Number(item.price).toFixed(2)}
+                          {item.enable_stock_tracking && ` · ${item.stock_quantity ?? 0} in stock overall`}
+                          {hasOverride && <span className="ml-2 text-[#0078d4]">Customized</span>}
+                        </p>
+                      </div>
+                      <label className="inline-flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={draft.available}
+                          onChange={(e) => updateDraft(itemId, { available: e.target.checked })}
+                          className="h-4 w-4 mr-1 text-[#0078d4] focus:ring-[#0078d4] border-gray-300 rounded"
+                        />
+                        Available
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={draft.price}
+                        placeholder={Number(item.price).toFixed(2)}
+                        onChange={(e) => updateDraft(itemId, { price: e.target.value })}
+                        className="w-24 border border-gray-300 rounded p-1 text-sm"
+                        aria-label={`${item.name} price at ${location.name}`}
+                      />
+                      {item.enable_stock_tracking && (
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={draft.stock_quantity}
+                          placeholder="Stock"
+                          onChange={(e) => updateDraft(itemId, { stock_quantity: e.target.value })}
+                          className="w-20 border border-gray-300 rounded p-1 text-sm"
+                          aria-label={`${item.name} stock at ${location.name}`}
+                        />
+                      )}
+                      <button
+                        onClick={() => handleSaveItem(itemId)}
+                        disabled={!isDirty || isSaving}
+                        className="px-3 py-1 text-xs font-medium rounded text-white bg-[#0078d4] hover:bg-[#106ebe] disabled:opacity-40"
+                      >
+                        Save
+                      </button>
+                      {hasOverride && (
+                        <button
+                          onClick={() => handleResetItem(itemId)}
+                          disabled={isSaving}
+                          className="p-1 text-gray-500 hover:text-gray-700"
+                          title="Use the restaurant-wide settings"
+                          aria-label={`Reset ${item.name}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+                {filteredItems.length === 0 && (
+                  <li className="py-3 text-sm text-gray-500">No matching menu items.</li>
+                )}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default LocationOverridesPanel;
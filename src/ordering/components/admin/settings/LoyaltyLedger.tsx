@@ -0,0 +1,276 @@
+// src/ordering/components/admin/settings/LoyaltyLedger.tsx
+
+import React, { useState, useEffect } from 'react';
+import { api } from '../../../lib/api';
+import toastUtils from '../../../../shared/utils/toastUtils';
+import {
+  createLoyaltyAdjustment,
+  getUserLoyaltyAccount,
+  getUserLoyaltyTransactions,
+} from '../../../../shared/api/endpoints/loyalty';
+import type { LoyaltyAccount, LoyaltyTransaction } from '../../../types/loyalty';
+
+interface CustomerResult {
+  id: number;
+  email: string;
+  first_name?: string | null;
+  last_name?: string | null;
+}
+
+interface UsersResponse {
+  users: CustomerResult[];
+  total_count: number;
+}
+
+function customerName(user: CustomerResult) {
+  const name = [user.first_name, user.last_name].filter(Boolean).join(' ');
+  return name || user.email;
+}
+
+const TYPE_LABELS: Record<LoyaltyTransaction['transaction_type'], string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  adjustment: 'Adjustment',
+  reversal: 'Reversal',
+};
+
+export function LoyaltyLedger() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<CustomerResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<CustomerResult | null>(null);
+
+  const [account, setAccount] = useState<LoyaltyAccount | null>(null);
+  const [transactions, setTransactions] = useState<LoyaltyTransaction[]>([]);
+  const [loadingLedger, setLoadingLedger] = useState(false);
+
+  const [adjustPoints, setAdjustPoints] = useState('');
+  const [adjustReason, setAdjustReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Debounced customer search
+  useEffect(() => {
+    if (searchTerm.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const params = new URLSearchParams({ search: searchTerm.trim(), per_page: '10' });
+        const data = await api.get<UsersResponse>(`/admin/users?${params.toString()}`);
+        setResults(data.users || []);
+      } catch (error) {
+        console.error('Failed to search users:', error);
+        toastUtils.error('Failed to search users');
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  async function loadLedger(userId: number) {
+    try {
+      setLoadingLedger(true);
+      const [accountData, transactionData] = await Promise.all([
+        getUserLoyaltyAccount(userId),
+        getUserLoyaltyTransactions(userId),
+      ]);
+      setAccount(accountData);
+      setTransactions(transactionData);
+    } catch (error) {
+      console.error('Failed to load points ledger:', error);
+      toastUtils.error('Failed to load points ledger');
+    } finally {
+      setLoadingLedger(false);
+    }
+  }
+
+  function handleSelectUser(user: CustomerResult) {
+    setSelectedUser(user);
+    setSearchTerm('');
+    setResults([]);
+    loadLedger(user.id);
+  }
+
+  async function handleAdjust(e: React.FormEvent) {
+    e.preventDefault();
+    if (!selectedUser) return;
+
+    const points = parseInt(adjustPoints, 10);
+    if (isNaN(points) || points === 0) {
+      toastUtils.error('Enter a non-zero number of points');
+      return;
+    }
+    if (!adjustReason.trim()) {
+      toastUtils.error('Please enter a reason for the adjustment');
+      return;
+    }
+    if (account && account.points_balance + points < 0) {
+      toastUtils.error('Adjustment would make the balance negative');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await createLoyaltyAdjustment(selectedUser.id, { points, reason: adjustReason.trim() });
+      toastUtils.success('Points adjusted');
+      setAdjustPoints('');
+      setAdjustReason('');
+      loadLedger(selectedUser.id);
+    } catch (error) {
+      console.error('Failed to adjust points:', error);
+      toastUtils.error('Failed to adjust points');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-lg font-medium">Points Ledger</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Look up a customer to see their points history or make a manual adjustment.
+      </p>
+
+      <div className="relative mb-6">
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Search customers by name or email"
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        />
+        {(results.length > 0 || searching) && (
+          <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+            {searching && <li className="px-4 py-2 text-sm text-gray-500">Searching...</li>}
+            {results.map((user) => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  onClick={() => handleSelectUser(user)}
+                  className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+                >
+                  <span className="font-medium">{customerName(user)}</span>
+                  <span className="ml-2 text-gray-500">{user.email}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {selectedUser && (
+        loadingLedger && !account ? (
+          <div className="py-8 text-center text-gray-500">Loading ledger...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-gray-50 rounded-md">
+              <div>
+                <div className="font-medium text-gray-900">{customerName(selectedUser)}</div>
+                <div className="text-sm text-gray-500">{selectedUser.email}</div>
+              </div>
+              <div className="text-right">
+                <div className="text-sm text-gray-500">Balance</div>
+                <div className="text-2xl font-bold text-[#0078d4]">
+                  {(account?.points_balance ?? 0).toLocaleString()}
+                </div>
+              </div>
+            </div>
+
+            <form onSubmit={handleAdjust} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label htmlFor="adjustPoints" className="block text-sm font-medium text-gray-700 mb-1">
+                  Points (+/-)
+                </label>
+                <input
+                  type="number"
+                  id="adjustPoints"
+                  step="1"
+                  value={adjustPoints}
+                  onChange={(e) => setAdjustPoints(e.target.value)}
+                  placeholder="e.g. 50 or -50"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label htmlFor="adjustReason" className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason
+                </label>
+                <input
+                  type="text"
+                  id="adjustReason"
+                  value={adjustReason}
+                  onChange={(e) => setAdjustReason(e.target.value)}
+                  placeholder="e.g. Goodwill credit for late order"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting}
+                className={`px-4 py-2 bg-[#0078d4] text-white rounded-md hover:bg-[#50a3d9] ${
+                  submitting ? 'opacity-70 cursor-not-allowed' : ''
+                }`}
+              >
+                {submitting ? 'Saving...' : 'Adjust Points'}
+              </button>
+            </form>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Points</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {transactions.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-4 text-center text-gray-500">
+                        No points activity yet
+                      </td>
+                    </tr>
+                  ) : (
+                    transactions.map((tx) => (
+                      <tr key={tx.id}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                          {new Date(tx.created_at).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                          {TYPE_LABELS[tx.transaction_type] || tx.transaction_type}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-600">
+                          {tx.order_number && <span className="mr-2">Order #{tx.order_number}</span>}
+                          {tx.reason}
+                          {tx.created_by_name && (
+                            <span className="ml-2 text-gray-400">by {tx.created_by_name}</span>
+                          )}
+                        </td>
+                        <td className={`px-4 py-2 whitespace-nowrap text-sm text-right font-medium ${
+                          tx.points >= 0 ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {tx.points > 0 ? '+' : ''}{tx.points}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">
+                          {tx.balance_after.toLocaleString()}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+// src/ordering/components/admin/settings/LoyaltySettings.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Star } from 'lucide-react';
+import toastUtils from '../../../../shared/utils/toastUtils';
+import { LoadingSpinner, SettingsHeader } from '../../../../shared/components/ui';
+import { getLoyaltySettings, updateLoyaltySettings } from '../../../../shared/api/endpoints/loyalty';
+import { useLoyaltyStore } from '../../../store/loyaltyStore';
+import type { LoyaltySettings as LoyaltySettingsData } from '../../../types/loyalty';
+
+const DEFAULT_SETTINGS: LoyaltySettingsData = {
+  enabled: false,
+  earn_points_per_dollar: 1,
+  redeem_points_per_dollar: 100,
+  min_redeem_points: 100,
+  max_redeem_percentage: 100,
+};
+
+export function LoyaltySettings() {
+  const [settings, setSettings] = useState<LoyaltySettingsData>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const data = await getLoyaltySettings();
+        setSettings({ ...DEFAULT_SETTINGS, ...data });
+      } catch (error) {
+        console.error('Failed to fetch loyalty settings:', error);
+        toastUtils.error('Failed to load loyalty settings');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSettings();
+  }, []);
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setSettings(prev => ({ ...prev, [name]: value === '' ? 0 : Number(value) }));
+  };
+
+  const handleSave = async () => {
+    if (settings.earn_points_per_dollar < 0 || settings.redeem_points_per_dollar <= 0) {
+      toastUtils.error('Earn and redeem rates must be positive numbers');
+      return;
+    }
+    if (settings.max_redeem_percentage <= 0 || settings.max_redeem_percentage > 100) {
+      toastUtils.error('Max redemption must be between 1% and 100%');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const updated = await updateLoyaltySettings(settings);
+      setSettings({ ...DEFAULT_SETTINGS, ...updated });
+      // Keep the customer-facing store in sync with the new rates
+      useLoyaltyStore.setState({ settings: updated });
+      toastUtils.success('Loyalty settings saved successfully');
+    } catch (error) {
+      console.error('Failed to save loyalty settings:', error);
+      toastUtils.error('Failed to save loyalty settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const exampleOrder = 25;
+  const examplePoints = Math.floor(exampleOrder * settings.earn_points_per_dollar);
+
+  return (
+    <div className="space-y-6">
+      <SettingsHeader
+        title="Loyalty Program"
+        description="Reward customers with points on every order and let them redeem points for discounts."
+        icon={<Star className="h-6 w-6" />}
+      />
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h3 className="text-lg font-medium">Enable Rewards Points</h3>
+            <p className="text-sm text-gray-500">
+              When disabled, customers won't earn or redeem points.
+            </p>
+          </div>
+          <button
+            type="button"
+            className={`${
+              settings.enabled ? 'bg-blue-600' : 'bg-gray-200'
+            } relative inline-flex h-6 w-11 items-center rounded-full`}
+            onClick={() => setSettings(prev => ({ ...prev, enabled: !prev.enabled }))}
+          >
+            <span className="sr-only">Enable rewards points</span>
+            <span
+              className={`${
+                settings.enabled ? 'translate-x-6' : 'translate-x-1'
+              } inline-block h-4 w-4 transform rounded-full bg-white transition`}
+            />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="earn_points_per_dollar" className="block text-sm font-medium text-gray-700 mb-1">
+              Points Earned per $1
+            </label>
+            <input
+              type="number"
+              id="earn_points_per_dollar"
+              name="earn_points_per_dollar"
+              min="0"
+              step="0.1"
+              value={settings.earn_points_per_dollar}
+              onChange={handleNumberChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              A ${exampleOrder} order earns {examplePoints} points. Tips don't earn points.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="redeem_points_per_dollar" className="block text-sm font-medium text-gray-700 mb-1">
+              Points Needed for $1 Off
+            </label>
+            <input
+              type="number"
+              id="redeem_points_per_dollar"
+              name="redeem_points_per_dollar"
+              min="1"
+              step="1"
+              value={settings.redeem_points_per_dollar}
+              onChange={handleNumberChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="min_redeem_points" className="block text-sm font-medium text-gray-700 mb-1">
+              Minimum Points to Redeem
+            </label>
+            <input
+              type="number"
+              id="min_redeem_points"
+              name="min_redeem_points"
+              min="0"
+              step="1"
+              value={settings.min_redeem_points}
+              onChange={handleNumberChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="max_redeem_percentage" className="block text-sm font-medium text-gray-700 mb-1">
+              Max % of Order Payable with Points
+            </label>
+            <input
+              type="number"
+              id="max_redeem_percentage"
+              name="max_redeem_percentage"
+              min="1"
+              max="100"
+              step="1"
+              value={settings.max_redeem_percentage}
+              onChange={handleNumberChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className={`px-4 py-2 bg-[#0078d4] text-white rounded-md hover:bg-[#50a3d9] ${
+              saving ? 'opacity-70 cursor-not-allowed' : ''
+            }`}
+          >
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,8 @@ import {
 import { formatPhoneNumber } from '../../../../shared/utils/formatters';
 import { useRestaurantStore, Restaurant } from '../../../../shared/store/restaurantStore';
 import ReactDOM from 'react-dom/client';
+import { DeliveryZonesEditor } from './DeliveryZonesEditor';
+import { getDeliverySettings } from '../../../utils/deliveryUtils';
 
 // Helper function to create an object URL for preview (faster than base64)
 const createImagePreview = (file: File): string => {
@@ -1037,6 +1039,32 @@ export function RestaurantSettings({ restaurantId }: RestaurantSettingsProps): J
             </div>
           </div>
 
+          {/* Delivery Settings Section */}
+          <div className="bg-white border border-gray-100 rounded-lg shadow-sm overflow-hidden transition-all duration-200 hover:shadow-md">
+            <div className="bg-gray-50 px-4 py-3 border-b border-gray-100">
+              <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-[#0078d4]" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M8 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM15 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0z" />
+                  <path d="M3 4a1 1 0 00-1 1v10a1 1 0 001 1h1.05a2.5 2.5 0 014.9 0H10a1 1 0 001-1V5a1 1 0 00-1-1H3zM14 7a1 1 0 00-1 1v6.05A2.5 2.5 0 0115.95 16H17a1 1 0 001-1v-5a1 1 0 00-.293-.707l-2-2A1 1 0 0015 7h-1z" />
+                </svg>
+                Delivery Settings
+              </h3>
+            </div>
+            
+            <div className="p-5">
+              <DeliveryZonesEditor
+                value={getDeliverySettings(restaurant.admin_settings)}
+                onChange={(delivery) => setRestaurant({
+                  ...restaurant,
+                  admin_settings: {
+                    ...restaurant.admin_settings,
+                    delivery
+                  }
+                })}
+              />
+            </div>
+          </div>
+
           {/* Reservation Settings Section */}
           <div className="bg-white border border-gray-100 rounded-lg shadow-sm overflow-hidden transition-all duration-200 hover:shadow-md">
             <div className="bg-gray-50 px-4 py-3 border-b border-gray-100">
@@ -0,0 +1,193 @@
+// src/ordering/components/customer/FulfillmentSelector.tsx
+import { useState } from 'react';
+import { ShoppingBag, Truck, MapPin } from 'lucide-react';
+import { quoteDelivery } from '../../../shared/api/endpoints/delivery';
+import type { DeliveryAddress, DeliveryQuote, FulfillmentType } from '../../types/delivery';
+import { getMinimumShortfall, isDeliveryAddressComplete } from '../../utils/deliveryUtils';
+import { handleApiError, isNetworkError } from '../../../shared/utils/errorHandler';
+
+interface FulfillmentSelectorProps {
+  mode: FulfillmentType;
+  onModeChange: (mode: FulfillmentType) => void;
+  address: DeliveryAddress;
+  onAddressChange: (address: DeliveryAddress) => void;
+  /** The server's quote for the checked address, or null until it's been checked */
+  quote: DeliveryQuote | null;
+  onQuoteChange: (quote: DeliveryQuote | null) => void;
+  /** Food subtotal before discounts, used for the zone minimum */
+  subtotal: number;
+  className?: string;
+}
+
+const inputClass = `w-full px-4 py-2 border border-gray-300 rounded-md
+  focus:ring-[#0078d4] focus:border-[#0078d4]`;
+
+/**
+ * Pickup vs. delivery at checkout. For delivery, collects the address and
+ * asks the server which zone (and so which fee and minimum) applies.
+ */
+export function FulfillmentSelector({
+  mode,
+  onModeChange,
+  address,
+  onAddressChange,
+  quote,
+  onQuoteChange,
+  subtotal,
+  className = '',
+}: FulfillmentSelectorProps) {
+  const [checking, setChecking] = useState(false);
+  const [outOfArea, setOutOfArea] = useState(false);
+  // A failed check, which says nothing about whether we deliver to the address
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  // Any edit invalidates the previous quote
+  function updateAddress(changes: Partial<DeliveryAddress>) {
+    onAddressChange({ ...address, ...changes });
+    if (changes.line1 !== undefined || changes.city !== undefined || changes.postal_code !== undefined) {
+      onQuoteChange(null);
+      setOutOfArea(false);
+      setCheckError(null);
+    }
+  }
+
+  async function handleCheckAddress() {
+    if (!isDeliveryAddressComplete(address)) return;
+    setChecking(true);
+    setCheckError(null);
+    try {
+      const result = await quoteDelivery(address);
+      const inArea = !!result?.zone_id;
+      onQuoteChange(inArea ? result : null);
+      setOutOfArea(!inArea);
+    } catch (err) {
+      console.error('Error checking delivery address:', err);
+      onQuoteChange(null);
+      setOutOfArea(false);
+      setCheckError(
+        isNetworkError(err)
+          ? "Couldn't reach the restaurant to check this address. Check your connection and try again."
+          : handleApiError(err, "Couldn't check this address. Please try again.")
+      );
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  const shortfall = quote ? getMinimumShortfall(quote, subtotal) : 0;
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 mb-6 ${className}`}>
+      <h2 className="text-xl font-semibold mb-4">Pickup or Delivery</h2>
+
+      <div className="grid grid-cols-2 gap-3">
+        {(['pickup', 'delivery'] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onModeChange(option)}
+            className={`flex items-center justify-center px-4 py-3 rounded-md border text-sm font-medium
+              transition-colors duration-200
+              ${mode === option
+                ? 'border-[#0078d4] bg-[#0078d4]/10 text-[#0078d4]'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+          >
+            {option === 'pickup' ? <ShoppingBag className="w-4 h-4 mr-2" /> : <Truck className="w-4 h-4 mr-2" />}
+            {option === 'pickup' ? 'Pickup' : 'Delivery'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'delivery' && (
+        <div className="space-y-4 mt-4">
+          <div>
+            <label htmlFor="delivery-line1" className="block text-sm font-medium text-gray-700 mb-1">
+              <MapPin className="inline-block w-4 h-4 mr-2" />
+              Street Address <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="delivery-line1"
+              type="text"
+              required
+              value={address.line1}
+              onChange={(e) => updateAddress({ line1: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <input
+            type="text"
+            value={address.line2 || ''}
+            onChange={(e) => updateAddress({ line2: e.target.value })}
+            placeholder="Apt, suite, unit (optional)"
+            aria-label="Address line 2"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="delivery-city" className="block text-sm font-medium text-gray-700 mb-1">
+                City / Village <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="delivery-city"
+                type="text"
+                required
+                value={address.city}
+                onChange={(e) => updateAddress({ city: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="delivery-postal" className="block text-sm font-medium text-gray-700 mb-1">
+                ZIP / Postal Code <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="delivery-postal"
+                type="text"
+                required
+                value={address.postal_code}
+                onChange={(e) => updateAddress({ postal_code: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <textarea
+            value={address.instructions || ''}
+            onChange={(e) => updateAddress({ instructions: e.target.value })}
+            placeholder="Delivery instructions (gate code, where to leave it...)"
+            aria-label="Delivery instructions"
+            rows={2}
+            className={inputClass}
+          />
+
+          <button
+            type="button"
+            onClick={handleCheckAddress}
+            disabled={checking || !isDeliveryAddressComplete(address)}
+            className="px-4 py-2 rounded-md text-sm font-medium border border-[#0078d4] text-[#0078d4]
+              hover:bg-[#0078d4]/10 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {checking ? 'Checking...' : 'Check Delivery Area'}
+          </button>
+
+          {quote && (
+            <div className="p-3 rounded-md bg-green-50 text-sm text-green-800">
+              We deliver here{quote.zone_name ? ` (${quote.zone_name})` : ''}. Delivery fee: ${Number(quote.fee).toFixed(2)}
+              {quote.minimum_order > 0 && ` · $${Number(quote.minimum_order).toFixed(2)} minimum`}
+            </div>
+          )}
+          {quote && shortfall > 0 && (
+            <p className="text-sm text-amber-600">
+              Add ${shortfall.toFixed(2)} more to your order to reach the delivery minimum.
+            </p>
+          )}
+          {outOfArea && (
+            <p className="text-sm text-red-600">
+              Sorry, this address is outside our delivery area. Pickup is still available.
+            </p>
+          )}
+          {checkError && <p className="text-sm text-red-600">{checkError}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -42,8 +42,8 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
       const locationsList = await locationsApi.getLocations(params);
       setLocations(locationsList);
       
-      // If we have locations but no selection yet, select the default one
-      if (locationsList.length > 0 && !selectedLocationId) {
+      // If we have locations but no (or a no-longer-listed) selection, select the default one
+      if (locationsList.length > 0 && !locationsList.some(loc => loc.id === selectedLocationId)) {
         // Find the default location or use the first one
         const defaultLocation = locationsList.find(loc => loc.is_default) || locationsList[0];
         setSelectedLocationId(defaultLocation.id);
@@ -0,0 +1,201 @@
+// src/ordering/components/customer/PickupTimeSelector.tsx
+import { useState, useEffect, useMemo } from 'react';
+import { Clock, CalendarClock } from 'lucide-react';
+import { fetchOperatingHours, fetchSpecialEvents } from '../../../shared/api/endpoints/events';
+import { useRestaurantStore } from '../../../shared/store/restaurantStore';
+import { MobileSelect } from '../../../shared/components/ui/MobileSelect';
+import type { OperatingHour, PickupSpecialEvent } from '../../types/pickup';
+import type { CartItem } from '../../store/orderStore';
+import { mergeLocationHours } from '../../utils/locationUtils';
+import { useLocationStore } from '../../store/locationStore';
+import {
+  buildPickupSchedule,
+  getMaxAdvanceNoticeHours,
+  isPickupTimeAvailable,
+} from '../../utils/pickupTimeUtils';
+
+interface PickupTimeSelectorProps {
+  cartItems: CartItem[];
+  /** Selected pickup time as an ISO string, or null for ASAP */
+  value: string | null;
+  onChange: (pickupTime: string | null) => void;
+  /** Tells the parent when "Schedule for later" is picked, so it can require a slot */
+  onScheduledChange?: (scheduled: boolean) => void;
+  /** Location being ordered from; its hours replace the restaurant's where set */
+  locationId?: number;
+  title?: string;
+  className?: string;
+}
+
+export function PickupTimeSelector({
+  cartItems,
+  value,
+  onChange,
+  onScheduledChange,
+  locationId,
+  title = 'Pickup Time',
+  className = '',
+}: PickupTimeSelectorProps) {
+  const restaurant = useRestaurantStore((state) => state.restaurant);
+  const { hoursByLocation, fetchHours } = useLocationStore();
+  const [operatingHours, setOperatingHours] = useState<OperatingHour[]>([]);
+  const [specialEvents, setSpecialEvents] = useState<PickupSpecialEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'asap' | 'scheduled'>(value ? 'scheduled' : 'asap');
+  const [selectedDate, setSelectedDate] = useState<string>('');
+
+  useEffect(() => {
+    Promise.all([fetchOperatingHours(), fetchSpecialEvents()])
+      .then(([hours, events]) => {
+        setOperatingHours((hours as OperatingHour[]) || []);
+        setSpecialEvents((events as PickupSpecialEvent[]) || []);
+      })
+      .catch((err) => {
+        console.error('Error fetching pickup hours:', err);
+        setError('Failed to load pickup times');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (locationId) {
+      fetchHours(locationId);
+    }
+  }, [locationId, fetchHours]);
+
+  const locationHours = locationId ? hoursByLocation[locationId] : undefined;
+
+  const schedule = useMemo(
+    () =>
+      buildPickupSchedule({
+        operatingHours: mergeLocationHours(operatingHours, locationHours || []),
+        specialEvents,
+        items: cartItems,
+        intervalMinutes: restaurant?.time_slot_interval,
+        timeZone: restaurant?.time_zone || undefined,
+      }),
+    [operatingHours, locationHours, specialEvents, cartItems, restaurant?.time_slot_interval, restaurant?.time_zone]
+  );
+
+  // Default to the first day that still has an available slot
+  useEffect(() => {
+    if (selectedDate || schedule.length === 0) return;
+    const firstOpenDay = schedule.find((day) => day.slots.some((slot) => slot.available));
+    setSelectedDate((firstOpenDay || schedule[0]).date);
+  }, [schedule, selectedDate]);
+
+  // Clear the selection if the cart changes and the chosen slot no longer works
+  useEffect(() => {
+    if (!isLoading && value && !isPickupTimeAvailable(schedule, value)) {
+      onChange(null);
+    }
+  }, [schedule, value, isLoading, onChange]);
+
+  const noticeHours = getMaxAdvanceNoticeHours(cartItems);
+  const selectedDay = schedule.find((day) => day.date === selectedDate);
+
+  function handleModeChange(newMode: 'asap' | 'scheduled') {
+    setMode(newMode);
+    onScheduledChange?.(newMode === 'scheduled');
+    if (newMode === 'asap') {
+      onChange(null);
+    }
+  }
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 mb-6 ${className}`}>
+      <h2 className="text-xl font-semibold mb-4">{title}</h2>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <button
+          type="button"
+          onClick={() => handleModeChange('asap')}
+          className={`flex items-center justify-center px-4 py-3 rounded-md border text-sm font-medium
+            transition-colors duration-200
+            ${mode === 'asap'
+              ? 'border-[#0078d4] bg-[#0078d4]/10 text-[#0078d4]'
+              : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+        >
+          <Clock className="w-4 h-4 mr-2" />
+          ASAP
+        </button>
+        <button
+          type="button"
+          onClick={() => handleModeChange('scheduled')}
+          className={`flex items-center justify-center px-4 py-3 rounded-md border text-sm font-medium
+            transition-colors duration-200
+            ${mode === 'scheduled'
+              ? 'border-[#0078d4] bg-[#0078d4]/10 text-[#0078d4]'
+              : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+        >
+          <CalendarClock className="w-4 h-4 mr-2" />
+          Schedule for later
+        </button>
+      </div>
+
+      {noticeHours > 0 && (
+        <p className="text-sm text-amber-600 mb-4">
+          Some items in your cart require {noticeHours} hours notice.
+        </p>
+      )}
+
+      {mode === 'scheduled' && (
+        isLoading ? (
+          <div className="py-4 text-center text-gray-500">Loading pickup times...</div>
+        ) : error ? (
+          <div className="p-2 text-sm bg-red-100 text-red-700 rounded">{error}</div>
+        ) : (
+          <div className="space-y-4">
+            <MobileSelect
+              label="Pickup Date"
+              options={schedule.map((day) => ({
+                value: day.date,
+                label: day.closedReason ? `${day.label} (${day.closedReason})` : day.label,
+              }))}
+              value={selectedDate}
+              onChange={setSelectedDate}
+              placeholder="Select a date"
+            />
+
+            {selectedDay && selectedDay.slots.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {selectedDay.closedReason || 'No pickup times available on this day.'}
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {selectedDay?.slots.map((slot) => (
+                  <button
+                    key={slot.time}
+                    type="button"
+                    disabled={!slot.available}
+                    title={slot.blockedReason}
+                    onClick={() => onChange(slot.time)}
+                    className={`px-2 py-2 rounded-md border text-sm transition-colors duration-200
+                      ${value === slot.time
+                        ? 'border-[#0078d4] bg-[#0078d4] text-white'
+                        : slot.available
+                          ? 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                          : 'border-gray-200 text-gray-300 cursor-not-allowed line-through'}`}
+                  >
+                    {slot.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {!value && (
+              <p className="text-sm text-amber-600">Choose a time, or switch back to ASAP.</p>
+            )}
+
+            {selectedDay?.slots.some((slot) => !slot.available) && (
+              <p className="text-xs text-gray-500">
+                Crossed-out times are too soon for the items in your cart.
+              </p>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
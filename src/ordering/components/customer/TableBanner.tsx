@@ -0,0 +1,36 @@
+// src/ordering/components/customer/TableBanner.tsx
+import { UtensilsCrossed } from 'lucide-react';
+import { useTableStore } from '../../store/tableStore';
+
+interface TableBannerProps {
+  className?: string;
+}
+
+/**
+ * Reminds a dine-in guest which table their order goes to, with a way out
+ * if they'd rather order for pickup
+ */
+export function TableBanner({ className = '' }: TableBannerProps) {
+  const table = useTableStore((state) => state.table);
+  const clearTable = useTableStore((state) => state.clearTable);
+
+  if (!table) return null;
+
+  return (
+    <div className={`flex items-center justify-between gap-3 p-3 rounded-md bg-[#c1902f]/10 border border-[#c1902f]/30 ${className}`}>
+      <div className="flex items-center text-sm text-gray-800">
+        <UtensilsCrossed className="w-4 h-4 mr-2 text-[#c1902f] flex-shrink-0" />
+        <span>
+          Ordering for <span className="font-semibold">{table.label}</span> — we'll bring it to you.
+        </span>
+      </div>
+      <button
+        type="button"
+        onClick={clearTable}
+        className="text-xs text-gray-600 underline hover:text-gray-800 flex-shrink-0"
+      >
+        Not at a table?
+      </button>
+    </div>
+  );
+}
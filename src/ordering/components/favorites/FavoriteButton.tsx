@@ -0,0 +1,43 @@
+// src/ordering/components/favorites/FavoriteButton.tsx
+
+import { Heart } from 'lucide-react';
+import { useAuthStore } from '../../store/authStore';
+import { useFavoritesStore } from '../../store/favoritesStore';
+import type { MenuItem } from '../../types/menu';
+
+interface FavoriteButtonProps {
+  item: MenuItem;
+  className?: string;
+}
+
+/**
+ * Heart toggle for a menu item. Only shown to signed-in customers.
+ */
+export function FavoriteButton({ item, className = '' }: FavoriteButtonProps) {
+  const user = useAuthStore((state) => state.user);
+  const favorite = useFavoritesStore((state) => state.getItemFavorite(item.id));
+  const { addFavorite, removeFavorite } = useFavoritesStore();
+
+  if (!user) return null;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (favorite) {
+      removeFavorite(favorite.id);
+    } else {
+      addFavorite({ menu_item_id: item.id });
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className={`p-1.5 rounded-full bg-white/90 shadow-sm hover:bg-white ${className}`}
+      aria-label={favorite ? 'Remove from favorites' : 'Add to favorites'}
+      aria-pressed={!!favorite}
+    >
+      <Heart className={`h-5 w-5 ${favorite ? 'fill-red-500 text-red-500' : 'text-gray-500'}`} />
+    </button>
+  );
+}
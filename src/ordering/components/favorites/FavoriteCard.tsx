@@ -0,0 +1,106 @@
+// src/ordering/components/favorites/FavoriteCard.tsx
+
+import { useState } from 'react';
+import { AlertCircle, Plus, X } from 'lucide-react';
+import { useOrderStore } from '../../store/orderStore';
+import { useFavoritesStore } from '../../store/favoritesStore';
+import { CustomizationModal } from '../CustomizationModal';
+import type { Favorite } from '../../types/favorite';
+import type { MenuItem } from '../../types/menu';
+import { deriveStockStatus } from '../../utils/inventoryUtils';
+import {
+  buildFavoriteCartItem,
+  getFavoriteCustomizations,
+  getUnavailableFavoriteOptions
+} from '../../utils/favoriteUtils';
+import toastUtils from '../../../shared/utils/toastUtils';
+
+interface FavoriteCardProps {
+  favorite: Favorite;
+  menuItem?: MenuItem;
+  compact?: boolean;
+}
+
+export function FavoriteCard({ favorite, menuItem, compact = false }: FavoriteCardProps) {
+  const addToCart = useOrderStore((state) => state.addToCart);
+  const removeFavorite = useFavoritesStore((state) => state.removeFavorite);
+  const [showCustomization, setShowCustomization] = useState(false);
+
+  const title = favorite.name || menuItem?.name || 'Menu item';
+
+  // Work out whether the favorite can still be added as saved
+  let problem: string | null = null;
+  let cartItem: ReturnType<typeof buildFavoriteCartItem> = null;
+  let summary = '';
+  if (!menuItem || menuItem.hidden) {
+    problem = 'No longer on the menu';
+  } else if (deriveStockStatus(menuItem) === 'out_of_stock') {
+    problem = 'Out of stock';
+  } else {
+    const unavailable = getUnavailableFavoriteOptions(favorite, menuItem);
+    if (unavailable.length > 0) {
+      problem = `Unavailable: ${unavailable.join(', ')}`;
+    } else {
+      cartItem = buildFavoriteCartItem(favorite, menuItem);
+    }
+    summary = Object.values(getFavoriteCustomizations(favorite, menuItem)).flat().join(', ');
+  }
+
+  const handleAdd = () => {
+    if (cartItem) {
+      addToCart(cartItem, 1);
+      toastUtils.success(`${title} added to cart`);
+    } else if (menuItem) {
+      // Options changed (e.g. a new required choice); let the customer pick again
+      setShowCustomization(true);
+    }
+  };
+
+  return (
+    <div
+      className={`relative bg-white border rounded-lg p-3 flex flex-col ${
+        problem ? 'border-orange-200' : 'border-gray-200'
+      } ${compact ? 'w-56 flex-shrink-0' : ''}`}
+    >
+      <button
+        type="button"
+        onClick={() => removeFavorite(favorite.id)}
+        className="absolute top-2 right-2 text-gray-400 hover:text-gray-600"
+        aria-label="Remove favorite"
+      >
+        <X className="h-4 w-4" />
+      </button>
+
+      <p className="font-medium text-gray-900 pr-5 truncate">{title}</p>
+      {favorite.name && menuItem && <p className="text-xs text-gray-500 truncate">{menuItem.name}</p>}
+      {summary && <p className="text-xs text-gray-600 mt-1 line-clamp-2">{summary}</p>}
+      {problem && (
+        <p className="flex items-start text-xs text-orange-700 mt-1">
+          <AlertCircle className="h-3.5 w-3.5 mr-1 mt-px flex-shrink-0" />
+          {problem}
+        </p>
+      )}
+
+      <div className="mt-auto pt-3 flex items-center justify-between">
+        <span className="text-sm font-semibold text-shimizu-blue">
+          {cartItem ? `$${cartItem.price.toFixed(2)}` : ''}
+        </span>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!!problem}
+          className={`inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-white ${
+            problem ? 'bg-gray-300 cursor-not-allowed' : 'bg-shimizu-blue hover:bg-shimizu-light-blue'
+          }`}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          {cartItem ? 'Add' : 'Customize'}
+        </button>
+      </div>
+
+      {showCustomization && menuItem && (
+        <CustomizationModal item={menuItem} onClose={() => setShowCustomization(false)} />
+      )}
+    </div>
+  );
+}
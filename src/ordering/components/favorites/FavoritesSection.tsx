@@ -0,0 +1,93 @@
+// src/ordering/components/favorites/FavoritesSection.tsx
+
+import { useEffect, useMemo } from 'react';
+import { Heart } from 'lucide-react';
+import { useAuthStore } from '../../store/authStore';
+import { useFavoritesStore } from '../../store/favoritesStore';
+import { useMenuStore } from '../../store/menuStore';
+import { useLocationStore } from '../../store/locationStore';
+import { localizeMenuItem } from '../../utils/locationUtils';
+import { FavoriteCard } from './FavoriteCard';
+
+interface FavoritesSectionProps {
+  /** 'menu' renders a compact horizontal strip for the top of MenuPage */
+  variant?: 'profile' | 'menu';
+  className?: string;
+}
+
+export function FavoritesSection({ variant = 'profile', className = '' }: FavoritesSectionProps) {
+  const user = useAuthStore((state) => state.user);
+  const { favorites, loaded, loading, fetchFavorites, reset } = useFavoritesStore();
+  const menuItems = useMenuStore((state) => state.menuItems);
+  const selectedLocationId = useLocationStore((state) => state.selectedLocationId);
+  const locationOverrides = useLocationStore((state) =>
+    state.selectedLocationId ? state.overridesByLocation[state.selectedLocationId] : undefined
+  );
+  const loadSelectedOverrides = useLocationStore((state) => state.loadSelectedOverrides);
+
+  useEffect(() => {
+    if (user) {
+      fetchFavorites();
+    } else {
+      reset();
+    }
+  }, [user, fetchFavorites, reset]);
+
+  useEffect(() => {
+    loadSelectedOverrides();
+  }, [selectedLocationId, loadSelectedOverrides]);
+
+  const overrides = useMemo(() => locationOverrides || [], [locationOverrides]);
+
+  if (!user) return null;
+  // Keep the menu uncluttered until the customer has saved something
+  if (variant === 'menu' && favorites.length === 0) return null;
+
+  // Prefer the embedded menu item; fall back to the loaded menu. Either way
+  // it's shown as the selected location sells it, or not at all.
+  const resolveItem = (menuItemId: string) =>
+    menuItems.find((item) => String(item.id) === String(menuItemId));
+
+  const cards = favorites.map((favorite) => {
+    const menuItem = favorite.menu_item || resolveItem(favorite.menu_item_id);
+    return (
+      <FavoriteCard
+        key={favorite.id}
+        favorite={favorite}
+        menuItem={menuItem ? localizeMenuItem(menuItem, overrides) || undefined : undefined}
+        compact={variant === 'menu'}
+      />
+    );
+  });
+
+  if (variant === 'menu') {
+    return (
+      <div className={className}>
+        <h2 className="flex items-center text-lg font-semibold text-gray-900 mb-3">
+          <Heart className="h-5 w-5 mr-2 fill-red-500 text-red-500" />
+          Your Favorites
+        </h2>
+        <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">{cards}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`bg-white border border-gray-200 shadow-sm rounded-lg p-6 ${className}`}>
+      <h3 className="flex items-center text-xl font-bold text-gray-900 mb-1">
+        <Heart className="h-5 w-5 mr-2 fill-red-500 text-red-500" />
+        Favorites
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Tap the heart on any menu item, or save a customized item from its options screen.
+      </p>
+      {loading && !loaded ? (
+        <p className="text-sm text-gray-500">Loading favorites...</p>
+      ) : favorites.length === 0 ? (
+        <p className="text-sm text-gray-500">You haven't saved any favorites yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">{cards}</div>
+      )}
+    </div>
+  );
+}
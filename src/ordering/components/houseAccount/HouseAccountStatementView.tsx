@@ -0,0 +1,109 @@
+// src/ordering/components/houseAccount/HouseAccountStatementView.tsx
+
+import { format } from 'date-fns';
+import type { HouseAccountStatement, PayPeriod } from '../../types/houseAccount';
+
+interface HouseAccountStatementViewProps {
+  statement: HouseAccountStatement;
+  onPeriodChange: (period: PayPeriod) => void;
+}
+
+function formatBalance(balance: number): string {
+  const label = balance > 0 ? ' owed' : balance < 0 ? ' credit' : '';
+  return `$${Math.abs(balance).toFixed(2)}${label}`;
+}
+
+/**
+ * House account activity for one pay period. Used by admins in
+ * StaffManagement and by staff on their own profile.
+ */
+export function HouseAccountStatementView({ statement, onPeriodChange }: HouseAccountStatementViewProps) {
+  const { period } = statement;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Period Start</label>
+          <input
+            type="date"
+            value={period.start}
+            max={period.end}
+            onChange={(e) => e.target.value && onPeriodChange({ ...period, start: e.target.value })}
+            className="p-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Period End</label>
+          <input
+            type="date"
+            value={period.end}
+            min={period.start}
+            onChange={(e) => e.target.value && onPeriodChange({ ...period, end: e.target.value })}
+            className="p-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <div className="p-3 bg-gray-50 rounded-md">
+          <p className="text-xs text-gray-500">Opening Balance</p>
+          <p className="text-lg font-semibold">{formatBalance(statement.opening_balance)}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-md">
+          <p className="text-xs text-gray-500">Charges</p>
+          <p className="text-lg font-semibold text-red-600">${statement.charges.toFixed(2)}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-md">
+          <p className="text-xs text-gray-500">Payments</p>
+          <p className="text-lg font-semibold text-green-600">${statement.payments.toFixed(2)}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-md">
+          <p className="text-xs text-gray-500">Closing Balance</p>
+          <p className="text-lg font-semibold">{formatBalance(statement.closing_balance)}</p>
+        </div>
+      </div>
+
+      {statement.transactions.length === 0 ? (
+        <p className="text-sm text-gray-500">No house account activity in this period.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Date</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Description</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Reference</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {statement.transactions.map((transaction) => {
+                const amount = Number(transaction.amount);
+                return (
+                  <tr key={transaction.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      {format(new Date(transaction.created_at), 'MM/dd/yyyy')}
+                    </td>
+                    <td className="px-3 py-2">
+                      {transaction.description}
+                      {transaction.order_id && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          (Order #{transaction.order_number || transaction.order_id})
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{transaction.reference || '—'}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${amount < 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {amount < 0 ? '-' : ''}${Math.abs(amount).toFixed(2)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
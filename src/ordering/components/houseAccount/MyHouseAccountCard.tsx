@@ -0,0 +1,68 @@
+// src/ordering/components/houseAccount/MyHouseAccountCard.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { houseAccountsApi } from '../../../shared/api/endpoints/houseAccounts';
+import type { HouseAccountStaffMember, HouseAccountTransaction, PayPeriod } from '../../types/houseAccount';
+import { buildHouseAccountStatement, getDefaultPayPeriod } from '../../utils/houseAccountUtils';
+import { HouseAccountStatementView } from './HouseAccountStatementView';
+
+interface MyHouseAccountCardProps {
+  userId: number;
+}
+
+/**
+ * The signed-in staff member's own house account statement. Renders nothing
+ * for users without a staff record.
+ */
+export function MyHouseAccountCard({ userId }: MyHouseAccountCardProps) {
+  const [staffMember, setStaffMember] = useState<HouseAccountStaffMember | null>(null);
+  const [transactions, setTransactions] = useState<HouseAccountTransaction[]>([]);
+  const [period, setPeriod] = useState<PayPeriod>(() => getDefaultPayPeriod());
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const staff = await houseAccountsApi.getStaffMemberForUser(userId);
+        if (!staff || cancelled) return;
+        const history = await houseAccountsApi.getTransactions(staff.id);
+        if (cancelled) return;
+        setStaffMember(staff);
+        setTransactions(history);
+      } catch (err) {
+        // Not fatal for the profile page; the card just stays hidden
+        console.error('Error loading house account:', err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const statement = useMemo(
+    () => buildHouseAccountStatement(transactions, Number(staffMember?.house_account_balance || 0), period),
+    [transactions, staffMember, period]
+  );
+
+  if (!staffMember) return null;
+
+  const balance = Number(staffMember.house_account_balance);
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mb-8">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">House Account</h2>
+          <p className="text-sm text-gray-500">Staff orders charged to your account and payroll deductions.</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-gray-500">Current Balance</p>
+          <p className={`text-lg font-semibold ${balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            ${Math.abs(balance).toFixed(2)}{balance > 0 ? ' owed' : balance < 0 ? ' credit' : ''}
+          </p>
+        </div>
+      </div>
+      <HouseAccountStatementView statement={statement} onPeriodChange={setPeriod} />
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+// src/ordering/components/kitchen/KitchenDisplay.tsx
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CalendarClock, ChefHat, Maximize, Minimize, RefreshCw } from 'lucide-react';
+import { useOrderStore } from '../../store/orderStore';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { useMenuStore } from '../../store/menuStore';
+import { useRestaurantStore } from '../../../shared/store/restaurantStore';
+import webSocketManager, { NotificationType } from '../../../shared/services/WebSocketManager';
+import { Order } from '../../types/order';
+import { KitchenOrderTile } from './KitchenOrderTile';
+import {
+  KITCHEN_COLUMNS,
+  getMenuItemCategoryMap,
+  buildKitchenQueryParams,
+  getKitchenColumn,
+  getKitchenNextStatus,
+  isHeldPreOrder,
+  isHeldScheduledOrder
+} from '../../utils/kitchenUtils';
+import { formatPickupTime } from '../../utils/pickupTimeUtils';
+
+const STATION_STORAGE_KEY = 'kitchen_station_ids';
+const REFRESH_INTERVAL_MS = 60000;
+const NEW_ORDER_HIGHLIGHT_MS = 15000;
+
+function loadSavedStations(): number[] {
+  try {
+    const saved = localStorage.getItem(STATION_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Touch-friendly kitchen board. Orders arrive in real time over the
+ * WebSocket and are bumped from New → Preparing → Ready → Completed.
+ */
+export function KitchenDisplay() {
+  const {
+    orders,
+    loading,
+    fetchOrders,
+    fetchOrdersQuietly,
+    updateOrderStatusQuietly,
+    startWebSocketConnection,
+    websocketConnected
+  } = useOrderStore();
+  const { categories, menuItems, fetchCategories, fetchMenuItems } = useMenuStore();
+  const timeZone = useRestaurantStore((state) => state.restaurant?.time_zone || undefined);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [stationIds, setStationIds] = useState<number[]>(loadSavedStations);
+  const [newOrderIds, setNewOrderIds] = useState<Set<string>>(new Set());
+  const [bumpingIds, setBumpingIds] = useState<Set<string>>(new Set());
+  // Updated every 30 seconds so tile ages and colors stay current and
+  // scheduled orders move onto the board when their prep window opens
+  const [now, setNow] = useState(() => new Date());
+
+  // Rebuilt on every fetch so the date window follows the clock
+  const refreshOrders = useCallback(
+    () => fetchOrdersQuietly(buildKitchenQueryParams(new Date(), timeZone)),
+    [fetchOrdersQuietly, timeZone]
+  );
+
+  useEffect(() => {
+    fetchOrders(buildKitchenQueryParams(new Date(), timeZone));
+    fetchCategories();
+    fetchMenuItems();
+  }, [fetchOrders, fetchCategories, fetchMenuItems, timeZone]);
+
+  // Real-time updates; order notifications are only delivered in admin context
+  useEffect(() => {
+    webSocketManager.setAdminContext(true);
+    startWebSocketConnection();
+
+    const highlightNewOrder = (order: Order) => {
+      if (!order?.id) return;
+      const id = String(order.id);
+      setNewOrderIds((prev) => new Set(prev).add(id));
+      setTimeout(() => {
+        setNewOrderIds((prev) => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
+      }, NEW_ORDER_HIGHLIGHT_MS);
+    };
+    webSocketManager.registerHandler(NotificationType.NEW_ORDER, highlightNewOrder);
+
+    return () => {
+      webSocketManager.unregisterHandler(NotificationType.NEW_ORDER, highlightNewOrder);
+      webSocketManager.setAdminContext(false);
+    };
+  }, [startWebSocketConnection]);
+
+  // Safety refresh in case a notification was missed
+  useEffect(() => {
+    const refresh = setInterval(refreshOrders, REFRESH_INTERVAL_MS);
+    const tick = setInterval(() => setNow(new Date()), 30000);
+    return () => {
+      clearInterval(refresh);
+      clearInterval(tick);
+    };
+  }, [refreshOrders]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(STATION_STORAGE_KEY, JSON.stringify(stationIds));
+  }, [stationIds]);
+
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await containerRef.current?.requestFullscreen();
+      }
+    } catch (err) {
+      console.warn('[KitchenDisplay] Fullscreen not available:', err);
+    }
+  };
+
+  const toggleStation = (id: number) => {
+    setStationIds((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  const handleBump = useCallback(
+    async (order: Order) => {
+      const nextStatus = getKitchenNextStatus(order);
+      if (!nextStatus) return;
+      setBumpingIds((prev) => new Set(prev).add(order.id));
+      try {
+        const updated = await updateOrderStatusQuietly(order.id, nextStatus);
+        if (!updated) {
+          // The store has already moved the tile back; make sure the line sees why
+          toastUtils.error(
+            `Order #${order.order_number || order.id} was NOT updated: ${useOrderStore.getState().error || 'unknown error'}`,
+            { duration: Infinity }
+          );
+        }
+      } finally {
+        setBumpingIds((prev) => {
+          const next = new Set(prev);
+          next.delete(order.id);
+          return next;
+        });
+      }
+    },
+    [updateOrderStatusQuietly]
+  );
+
+  const itemCategoryIds = useMemo(() => getMenuItemCategoryMap(menuItems), [menuItems]);
+
+  // Group orders into columns, oldest first, keeping only those for the selected stations
+  const columns = useMemo(() => {
+    const grouped: Record<string, Order[]> = {};
+    KITCHEN_COLUMNS.forEach((column) => {
+      grouped[column.key] = [];
+    });
+
+    orders.forEach((order) => {
+      const column = getKitchenColumn(order.status);
+      if (!column || isHeldPreOrder(order) || isHeldScheduledOrder(order, now)) return;
+      if (stationIds.length > 0) {
+        const matches = order.items?.some((item) =>
+          (itemCategoryIds.get(String(item.id)) || []).some((id) => stationIds.includes(id))
+        );
+        if (!matches) return;
+      }
+      grouped[column].push(order);
+    });
+
+    Object.values(grouped).forEach((list) =>
+      list.sort(
+        (a, b) =>
+          new Date(a.created_at || a.createdAt || 0).getTime() -
+          new Date(b.created_at || b.createdAt || 0).getTime()
+      )
+    );
+    return grouped;
+  }, [orders, stationIds, itemCategoryIds, now]);
+
+  // Pre-orders not fired yet and scheduled pickups not due yet, soonest
+  // first, so the line can plan ahead
+  const upcomingOrders = useMemo(
+    () =>
+      orders
+        .filter(
+          (order) =>
+            getKitchenColumn(order.status) && (isHeldPreOrder(order) || isHeldScheduledOrder(order, now))
+        )
+        .sort(
+          (a, b) => new Date(a.pickup_time || 0).getTime() - new Date(b.pickup_time || 0).getTime()
+        ),
+    [orders, now]
+  );
+
+  return (
+    <div ref={containerRef} className="min-h-screen bg-gray-900 text-white flex flex-col">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-gray-800 border-b border-gray-700">
+        <div className="flex items-center">
+          <ChefHat className="h-7 w-7 mr-2 text-[#50a3d9]" />
+          <h1 className="text-2xl font-bold">Kitchen</h1>
+          <span
+            className={`ml-3 h-2.5 w-2.5 rounded-full ${websocketConnected ? 'bg-green-400' : 'bg-red-500'}`}
+            title={websocketConnected ? 'Live' : 'Reconnecting'}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={refreshOrders}
+            className="p-3 rounded-lg bg-gray-700 hover:bg-gray-600"
+            aria-label="Refresh orders"
+          >
+            <RefreshCw className="h-5 w-5" />
+          </button>
+          <button
+            type="button"
+            onClick={toggleFullscreen}
+            className="p-3 rounded-lg bg-gray-700 hover:bg-gray-600"
+            aria-label={isFullscreen ? 'Exit full screen' : 'Full screen'}
+          >
+            {isFullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+          </button>
+        </div>
+      </div>
+
+      {/* Station filter */}
+      {categories.length > 0 && (
+        <div className="flex gap-2 px-4 py-3 overflow-x-auto bg-gray-800/60 border-b border-gray-700">
+          <button
+            type="button"
+            onClick={() => setStationIds([])}
+            className={`px-4 py-2 rounded-full text-base whitespace-nowrap border ${
+              stationIds.length === 0
+                ? 'bg-[#0078d4] border-[#0078d4] text-white'
+                : 'border-gray-600 text-gray-300'
+            }`}
+          >
+            All stations
+          </button>
+          {categories.map((category) => (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => toggleStation(category.id)}
+              className={`px-4 py-2 rounded-full text-base whitespace-nowrap border ${
+                stationIds.includes(category.id)
+                  ? 'bg-[#0078d4] border-[#0078d4] text-white'
+                  : 'border-gray-600 text-gray-300'
+              }`}
+            >
+              {category.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Held reservation pre-orders and scheduled pickups */}
+      {upcomingOrders.length > 0 && (
+        <div className="flex items-center gap-3 px-4 py-2 overflow-x-auto bg-gray-800/40 border-b border-gray-700 text-sm">
+          <span className="flex items-center text-gray-400 whitespace-nowrap">
+            <CalendarClock className="h-4 w-4 mr-1" />
+            Upcoming
+          </span>
+          {upcomingOrders.map((order) => (
+            <span key={order.id} className="px-3 py-1 rounded-full bg-gray-700 whitespace-nowrap">
+              {order.pickup_time ? formatPickupTime(order.pickup_time, timeZone) : 'Today'} ·{' '}
+              {order.contact_name || `#${order.order_number || order.id}`} ·{' '}
+              {(order.items || []).reduce((sum, item) => sum + item.quantity, 0)} items
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Board */}
+      <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-4 p-4 overflow-hidden">
+        {KITCHEN_COLUMNS.map((column) => (
+          <div key={column.key} className="flex flex-col min-h-0 bg-gray-800 rounded-xl">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+              <h2 className="text-xl font-semibold">{column.label}</h2>
+              <span className="px-3 py-1 rounded-full bg-gray-700 text-lg font-bold">
+                {columns[column.key].length}
+              </span>
+            </div>
+            <div className="flex-1 overflow-y-auto p-3 space-y-3">
+              {loading && orders.length === 0 ? (
+                <p className="text-center text-gray-400 py-8">Loading orders...</p>
+              ) : columns[column.key].length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No orders</p>
+              ) : (
+                columns[column.key].map((order) => (
+                  <KitchenOrderTile
+                    key={order.id}
+                    order={order}
+                    stationIds={stationIds}
+                    itemCategoryIds={itemCategoryIds}
+                    isNew={newOrderIds.has(String(order.id))}
+                    bumping={bumpingIds.has(order.id)}
+                    onBump={handleBump}
+                  />
+                ))
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default KitchenDisplay;
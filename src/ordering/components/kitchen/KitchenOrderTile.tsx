@@ -0,0 +1,125 @@
+// src/ordering/components/kitchen/KitchenOrderTile.tsx
+
+import { Order } from '../../types/order';
+import { StatusTimer } from '../admin/StatusTimer';
+import { getElapsedTime, getStatusAgeLevel } from '../../utils/statusTimerUtils';
+import { getKitchenBumpLabel, isAwaitingDriver } from '../../utils/kitchenUtils';
+import { formatPickupTime } from '../../utils/pickupTimeUtils';
+
+interface KitchenOrderTileProps {
+  order: Order;
+  /** Selected station category ids; empty means all stations */
+  stationIds: number[];
+  itemCategoryIds: Map<string, number[]>;
+  isNew: boolean;
+  bumping: boolean;
+  onBump: (order: Order) => void;
+}
+
+const AGE_STYLES = {
+  normal: 'border-gray-600',
+  warning: 'border-yellow-400',
+  urgent: 'border-red-500'
+};
+
+export function KitchenOrderTile({
+  order,
+  stationIds,
+  itemCategoryIds,
+  isNew,
+  bumping,
+  onBump
+}: KitchenOrderTileProps) {
+  const createdAt = order.created_at || order.createdAt || '';
+  const statusUpdatedAt = order.updated_at || order.updatedAt;
+  const ageLevel = getStatusAgeLevel(order.status, getElapsedTime(createdAt, statusUpdatedAt));
+  const bumpLabel = getKitchenBumpLabel(order);
+
+  // Items for other stations are counted but not listed
+  const isForStation = (itemId: string) =>
+    stationIds.length === 0 ||
+    (itemCategoryIds.get(String(itemId)) || []).some((id) => stationIds.includes(id));
+  const stationItems = (order.items || []).filter((item) => isForStation(item.id));
+  const otherItemCount = (order.items || []).length - stationItems.length;
+
+  return (
+    <div
+      className={`rounded-xl bg-gray-700 border-4 ${AGE_STYLES[ageLevel]} ${
+        isNew ? 'ring-4 ring-[#50a3d9] animate-pulse' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between px-4 pt-3">
+        <div>
+          <p className="text-2xl font-bold">#{order.order_number || order.id}</p>
+          {order.contact_name && <p className="text-gray-300">{order.contact_name}</p>}
+          {order.pickup_time && (
+            <p className="text-sm text-gray-400">
+              {order.reservation_id ? 'Reservation' : 'Pickup'} {formatPickupTime(order.pickup_time)}
+            </p>
+          )}
+        </div>
+        {createdAt && (
+          <StatusTimer
+            createdAt={createdAt}
+            statusUpdatedAt={statusUpdatedAt}
+            status={order.status}
+            className="text-base font-semibold bg-white rounded-full px-2 py-0.5"
+          />
+        )}
+      </div>
+
+      <ul className="px-4 py-3 space-y-2">
+        {stationItems.map((item, index) => (
+          <li key={`${order.id}-${item.id}-${index}`}>
+            <p className="text-lg">
+              <span className="font-bold mr-2">{item.quantity}×</span>
+              {item.name}
+            </p>
+            {item.customizations && Object.keys(item.customizations).length > 0 && (
+              <div className="ml-7 text-sm text-gray-300">
+                {Array.isArray(item.customizations)
+                  ? item.customizations.map((custom: { option_name?: string }, cidx: number) => (
+                      <div key={cidx}>{custom.option_name}</div>
+                    ))
+                  : Object.entries(item.customizations as Record<string, string[] | string>).map(([group, options]) => (
+                      <div key={group}>
+                        <span className="text-gray-400">{group}:</span>{' '}
+                        {Array.isArray(options) ? options.join(', ') : options}
+                      </div>
+                    ))}
+              </div>
+            )}
+            {item.notes && <p className="ml-7 text-sm text-yellow-300">{item.notes}</p>}
+          </li>
+        ))}
+        {otherItemCount > 0 && (
+          <li className="text-sm text-gray-400">
+            +{otherItemCount} item{otherItemCount === 1 ? '' : 's'} for other stations
+          </li>
+        )}
+      </ul>
+
+      {order.special_instructions && (
+        <p className="mx-4 mb-3 px-3 py-2 rounded-lg bg-yellow-500/20 text-yellow-200 text-sm">
+          {order.special_instructions}
+        </p>
+      )}
+
+      {bumpLabel && (
+        <button
+          type="button"
+          onClick={() => onBump(order)}
+          disabled={bumping}
+          className="w-full py-4 rounded-b-lg bg-[#0078d4] hover:bg-[#50a3d9] active:bg-[#50a3d9] text-xl font-semibold disabled:opacity-60"
+        >
+          {bumping ? 'Updating...' : bumpLabel}
+        </button>
+      )}
+      {isAwaitingDriver(order) && (
+        <p className="w-full py-4 rounded-b-lg bg-gray-600 text-center text-xl font-semibold text-gray-200">
+          Awaiting driver
+        </p>
+      )}
+    </div>
+  );
+}
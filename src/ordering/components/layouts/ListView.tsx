@@ -4,6 +4,7 @@ import { MenuItem } from '../../types/menu';
 import { Plus, Coffee, Pizza, Salad, Sandwich, Utensils, Dessert, Wine } from 'lucide-react';
 import { useOrderStore } from '../../store/orderStore';
 import { CustomizationModal } from '../CustomizationModal';
+import { FavoriteButton } from '../favorites/FavoriteButton';
 import { deriveStockStatus, calculateAvailableQuantity } from '../../utils/inventoryUtils';
 import OptimizedImage from '../../../shared/components/ui/OptimizedImage';
 import { useRestaurantStore } from '../../../shared/store/restaurantStore';
@@ -282,7 +283,10 @@ const ListViewItem: React.FC<{ item: MenuItem }> = ({ item }) => {
                 <div className="flex justify-between items-start mb-1">
                   <h3 className="text-sm sm:text-base font-semibold text-gray-900 mr-2 leading-tight">{item.name}</h3>
                   {/* Price shown on all screen sizes, positioned inline with title */}
-                  <span className="text-sm sm:text-base font-medium text-gray-900 whitespace-nowrap">${item.price.toFixed(2)}</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-sm sm:text-base font-medium text-gray-900 whitespace-nowrap">${item.price.toFixed(2)}</span>
+                    <FavoriteButton item={item} className="shadow-none" />
+                  </div>
                 </div>
                 
                 {/* Description with strict character truncation */}
@@ -0,0 +1,75 @@
+// src/ordering/components/loyalty/LoyaltyPointsCard.tsx
+
+import { useEffect } from 'react';
+import { Gift, Star } from 'lucide-react';
+import { useLoyaltyStore } from '../../store/loyaltyStore';
+import { calculateRedemptionValue } from '../../utils/loyaltyUtils';
+
+interface LoyaltyPointsCardProps {
+  className?: string;
+}
+
+export function LoyaltyPointsCard({ className = '' }: LoyaltyPointsCardProps) {
+  const { settings, account, loading, fetchSettings, fetchAccount } = useLoyaltyStore();
+
+  useEffect(() => {
+    fetchSettings();
+    fetchAccount();
+  }, [fetchSettings, fetchAccount]);
+
+  // Hide the card entirely when the restaurant hasn't turned the program on
+  if (!settings?.enabled) return null;
+
+  const balance = account?.points_balance ?? 0;
+  const balanceValue = calculateRedemptionValue(balance, settings);
+  const recentTransactions = account?.recent_transactions?.slice(0, 5) ?? [];
+
+  return (
+    <div className={`bg-gradient-to-r from-shimizu-dark-blue to-shimizu-blue text-white p-6 rounded-lg shadow-md ${className}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold mb-1">Rewards Points</h3>
+          <p className="text-white/90 text-sm">
+            Earn {settings.earn_points_per_dollar} {settings.earn_points_per_dollar === 1 ? 'point' : 'points'} for
+            every dollar spent. Redeem {settings.redeem_points_per_dollar} points for $1 off.
+          </p>
+        </div>
+        <Star className="h-8 w-8 flex-shrink-0" />
+      </div>
+
+      <div className="mt-4 flex items-end gap-3">
+        <span className="text-4xl font-bold">
+          {loading && !account ? '—' : balance.toLocaleString()}
+        </span>
+        <span className="text-white/90 mb-1">points</span>
+      </div>
+      {balanceValue > 0 && (
+        <p className="mt-1 flex items-center text-sm text-white/90">
+          <Gift className="h-4 w-4 mr-1" />
+          Worth ${balanceValue.toFixed(2)} off your next order
+        </p>
+      )}
+
+      {recentTransactions.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-white/20">
+          <h4 className="text-sm font-semibold mb-2">Recent Activity</h4>
+          <ul className="space-y-1 text-sm">
+            {recentTransactions.map((tx) => (
+              <li key={tx.id} className="flex justify-between">
+                <span className="text-white/90">
+                  {tx.reason || (tx.order_number ? `Order #${tx.order_number}` : tx.transaction_type)}
+                  <span className="ml-2 text-white/70">
+                    {new Date(tx.created_at).toLocaleDateString()}
+                  </span>
+                </span>
+                <span className="font-medium">
+                  {tx.points > 0 ? '+' : ''}{tx.points}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
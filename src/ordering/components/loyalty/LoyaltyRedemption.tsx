@@ -0,0 +1,94 @@
+// src/ordering/components/loyalty/LoyaltyRedemption.tsx
+
+import { useEffect } from 'react';
+import { Star } from 'lucide-react';
+import { useAuthStore } from '../../store/authStore';
+import { useLoyaltyStore } from '../../store/loyaltyStore';
+import { calculateRedemptionValue, getMaxRedeemablePoints } from '../../utils/loyaltyUtils';
+
+interface LoyaltyRedemptionProps {
+  /** Order amount the points discount is applied against */
+  subtotal: number;
+  className?: string;
+}
+
+export function LoyaltyRedemption({ subtotal, className = '' }: LoyaltyRedemptionProps) {
+  const user = useAuthStore((state) => state.user);
+  const {
+    settings,
+    account,
+    pointsToRedeem,
+    fetchSettings,
+    fetchAccount,
+    setPointsToRedeem,
+    clearRedemption,
+  } = useLoyaltyStore();
+
+  useEffect(() => {
+    fetchSettings();
+    if (user) {
+      fetchAccount();
+    }
+  }, [user, fetchSettings, fetchAccount]);
+
+  const balance = account?.points_balance ?? 0;
+  const maxPoints = getMaxRedeemablePoints(balance, subtotal, settings);
+
+  // Keep the selection within what this cart allows (e.g. after removing items)
+  useEffect(() => {
+    if (pointsToRedeem > maxPoints) {
+      setPointsToRedeem(maxPoints);
+    }
+  }, [pointsToRedeem, maxPoints, setPointsToRedeem]);
+
+  if (!user || !settings?.enabled || !account) return null;
+
+  if (maxPoints === 0) {
+    return (
+      <div className={`flex items-center text-sm text-gray-600 ${className}`}>
+        <Star className="h-4 w-4 mr-2 text-[#0078d4]" />
+        You have {balance.toLocaleString()} points.
+        {balance < settings.min_redeem_points &&
+          ` Redeem once you reach ${settings.min_redeem_points.toLocaleString()}.`}
+      </div>
+    );
+  }
+
+  const isRedeeming = pointsToRedeem > 0;
+  const discount = calculateRedemptionValue(pointsToRedeem, settings);
+
+  return (
+    <div className={`border border-gray-200 rounded-md p-4 ${className}`}>
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="flex items-center text-sm font-medium text-gray-700">
+          <Star className="h-4 w-4 mr-2 text-[#0078d4]" />
+          Use rewards points ({balance.toLocaleString()} available)
+        </span>
+        <input
+          type="checkbox"
+          checked={isRedeeming}
+          onChange={(e) => (e.target.checked ? setPointsToRedeem(maxPoints) : clearRedemption())}
+          className="h-4 w-4 text-[#0078d4] border-gray-300 rounded focus:ring-[#0078d4]"
+        />
+      </label>
+
+      {isRedeeming && (
+        <div className="mt-3">
+          <input
+            type="range"
+            min={settings.min_redeem_points}
+            max={maxPoints}
+            step={1}
+            value={pointsToRedeem}
+            onChange={(e) => setPointsToRedeem(Number(e.target.value))}
+            className="w-full accent-[#0078d4]"
+          />
+          <div className="flex justify-between text-sm text-gray-600 mt-1">
+            <span>{pointsToRedeem.toLocaleString()} points</span>
+            <span className="font-medium text-green-600">-${discount.toFixed(2)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { api } from '../../../shared/api/apiClient';
+import { stripeApi } from '../../../shared/api/endpoints/stripe';
 import { LoadingSpinner } from '../../../shared/components/ui';
 
 // Define the possible response types from the payment intent API
-interface PaymentIntentResponse {
+export interface PaymentIntentResponse {
   success: boolean;
   client_secret?: string;
   free_order?: boolean;
@@ -18,11 +19,16 @@ interface StripeCheckoutProps {
   currency?: string;
   publishableKey: string;
   testMode: boolean;
+  /** 'setup' saves the card with a SetupIntent (e.g. a no-show guarantee) without charging it */
+  intentType?: 'payment' | 'setup';
+  /** Asks the server for the intent instead of /stripe/create_intent, so it can set the amount itself */
+  createIntent?: () => Promise<PaymentIntentResponse>;
   onPaymentSuccess: (details: {
     status: string;
     transaction_id: string;
     payment_id?: string; // Added for webhook lookups
     payment_intent_id?: string; // Added to explicitly track the payment intent ID
+    setup_intent_id?: string; // Set instead of payment_intent_id for setup intents
     amount: string;
   }) => void;
   onPaymentError: (error: Error) => void;
@@ -39,6 +45,8 @@ export const StripeCheckout = React.forwardRef<StripeCheckoutRef, StripeCheckout
     currency = 'USD',
     publishableKey,
     testMode,
+    intentType = 'payment',
+    createIntent,
     onPaymentSuccess,
     onPaymentError
   } = props;
@@ -58,6 +66,8 @@ export const StripeCheckout = React.forwardRef<StripeCheckoutRef, StripeCheckout
   const paymentIntentCreated = useRef(false);
   const elementsInitialized = useRef(false);
   const paymentElementMounted = useRef(false);
+  // Amount the current payment intent was created with
+  const intentAmount = useRef<string | null>(null);
   const paymentElementRef = useRef<HTMLDivElement>(null);
 
   // Load Stripe.js - only once
@@ -121,11 +131,13 @@ export const StripeCheckout = React.forwardRef<StripeCheckoutRef, StripeCheckout
         // Get restaurant ID from localStorage or use default
         const restaurantId = localStorage.getItem('restaurant_id') || '2';
         
-        const response = await api.post<PaymentIntentResponse>('/stripe/create_intent', {
-          amount,
-          currency,
-          restaurant_id: restaurantId // Include restaurant_id for tenant isolation
-        });
+        const response = createIntent
+          ? await createIntent()
+          : await api.post<PaymentIntentResponse>('/stripe/create_intent', {
+              amount,
+              currency,
+              restaurant_id: restaurantId // Include restaurant_id for tenant isolation
+            });
         
         // Check if this is a free or small order
         if (response && (response.free_order || response.small_order)) {
@@ -135,30 +147,63 @@ export const StripeCheckout = React.forwardRef<StripeCheckoutRef, StripeCheckout
             setIsSmallOrder(true);
           }
           setSpecialOrderId(response.order_id || `special_${Math.random().toString(36).substring(2, 10)}`);
+          intentAmount.current = amount;
           setLoading(false);
           return;
         }
         
         // Normal paid order with client secret
         if (response && response.client_secret) {
+          intentAmount.current = amount;
           setClientSecret(response.client_secret);
         } else if (response && response.success) {
           // This is a successful response but doesn't have a client secret
           // (could be a free or small order that wasn't caught above)
           setIsSmallOrder(true);
           setSpecialOrderId(`special_${Math.random().toString(36).substring(2, 10)}`);
+          intentAmount.current = amount;
           setLoading(false);
         } else {
           throw new Error('No client secret returned');
         }
-      } catch (err: any) {
-        setError(err.message || 'Failed to create payment intent');
-        onPaymentError(err);
+      } catch (err) {
+        const paymentError = err instanceof Error ? err : new Error(String(err));
+        setError(paymentError.message || 'Failed to create payment intent');
+        onPaymentError(paymentError);
       }
     };
 
     createPaymentIntent();
-  }, [stripe, testMode, clientSecret, error, amount, currency, onPaymentError]);
+  }, [stripe, testMode, clientSecret, error, amount, currency, createIntent, onPaymentError]);
+
+  // Payment intents can't be re-priced from the browser, so when the charged
+  // total changes (e.g. a tip is added) cancel the old intent and start over
+  // with a new one for the new total
+  useEffect(() => {
+    if (testMode || !intentAmount.current || intentAmount.current === amount) {
+      return;
+    }
+
+    // Debounce so typing a custom tip doesn't create an intent per keystroke
+    const timer = setTimeout(() => {
+      if (clientSecret && intentType === 'payment') {
+        // Client secrets are "<intent id>_secret_<token>"
+        const staleIntentId = clientSecret.split('_secret_')[0];
+        stripeApi.cancelPaymentIntent(staleIntentId).catch((err) => {
+          console.error('Error cancelling replaced payment intent:', err);
+        });
+      }
+      intentAmount.current = null;
+      paymentIntentCreated.current = false;
+      elementsInitialized.current = false;
+      setElements(null);
+      setClientSecret(null);
+      setIsFreeOrder(false);
+      setIsSmallOrder(false);
+      setSpecialOrderId(null);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [amount, clientSecret, intentType, isFreeOrder, isSmallOrder, testMode]);
 
   // Initialize Stripe Elements - only once
   useEffect(() => {
@@ -224,8 +269,47 @@ export const StripeCheckout = React.forwardRef<StripeCheckoutRef, StripeCheckout
     };
   }, [elements, testMode]);
 
+  // Saves the card for later off-session charges; nothing is charged now
+  const confirmSetup = useCallback(async (): Promise<boolean> => {
+    try {
+      const { error: setupError, setupIntent } = await stripe.confirmSetup({
+        elements,
+        confirmParams: {
+          return_url: window.location.href,
+        },
+        redirect: 'if_required',
+      });
+
+      if (setupError) {
+        setError(setupError.message || 'Card could not be saved');
+        onPaymentError(new Error(setupError.message || 'Card could not be saved'));
+        return false;
+      }
+
+      if (setupIntent && setupIntent.status === 'succeeded') {
+        onPaymentSuccess({
+          status: setupIntent.status,
+          transaction_id: setupIntent.id,
+          setup_intent_id: setupIntent.id,
+          amount,
+        });
+        return true;
+      }
+
+      const errorMsg = setupIntent ? `Card setup status: ${setupIntent.status}` : 'Card setup failed with unknown error';
+      setError(errorMsg);
+      onPaymentError(new Error(errorMsg));
+      return false;
+    } catch (err) {
+      const setupFailure = err instanceof Error ? err : new Error(String(err));
+      setError(setupFailure.message || 'Card could not be saved');
+      onPaymentError(setupFailure);
+      return false;
+    }
+  }, [stripe, elements, amount, onPaymentSuccess, onPaymentError]);
+
   // Process payment function - exposed to parent via ref
-  const processPayment = async (): Promise<boolean> => {
+  const processPayment = useCallback(async (): Promise<boolean> => {
     if (processing) return false;
     
     setProcessing(true);
@@ -235,6 +319,17 @@ export const StripeCheckout = React.forwardRef<StripeCheckoutRef, StripeCheckout
       setTimeout(() => {
         // Generate a Stripe-like test payment intent ID
         // This format matches what Stripe would generate in their test mode
+        if (intentType === 'setup') {
+          const testSetupId = `seti_test_${Math.random().toString(36).substring(2, 15)}`;
+          onPaymentSuccess({
+            status: 'succeeded',
+            transaction_id: testSetupId,
+            setup_intent_id: testSetupId,
+            amount: amount,
+          });
+          setProcessing(false);
+          return;
+        }
         const testId = `pi_test_${Math.random().toString(36).substring(2, 15)}`;
         onPaymentSuccess({
           status: 'succeeded',
@@ -268,7 +363,22 @@ export const StripeCheckout = React.forwardRef<StripeCheckoutRef, StripeCheckout
       setProcessing(false);
       return false;
     }
+
+    // The intent for a changed total is created after a short debounce
+    if (intentAmount.current !== amount) {
+      setProcessing(false);
+      onPaymentError(new Error('Payment amount is still updating. Please try again.'));
+      return false;
+    }
     
+    if (intentType === 'setup') {
+      try {
+        return await confirmSetup();
+      } finally {
+        setProcessing(false);
+      }
+    }
+
     try {
       const { error: submitError, paymentIntent } = await stripe.confirmPayment({
         elements,
@@ -307,14 +417,29 @@ export const StripeCheckout = React.forwardRef<StripeCheckoutRef, StripeCheckout
       }
       
       return false;
-    } catch (err: any) {
-      setError(err.message || 'Payment failed');
-      onPaymentError(err);
+    } catch (err) {
+      const paymentError = err instanceof Error ? err : new Error(String(err));
+      setError(paymentError.message || 'Payment failed');
+      onPaymentError(paymentError);
       return false;
     } finally {
       setProcessing(false);
     }
-  };
+  }, [
+    processing,
+    testMode,
+    intentType,
+    amount,
+    isFreeOrder,
+    isSmallOrder,
+    specialOrderId,
+    stripe,
+    elements,
+    clientSecret,
+    confirmSetup,
+    onPaymentSuccess,
+    onPaymentError,
+  ]);
 
   // Expose the processPayment method to parent component
   React.useImperativeHandle(ref, () => ({
@@ -0,0 +1,118 @@
+// src/ordering/components/payment/TipSelector.tsx
+import { useState, useEffect } from 'react';
+import { Heart } from 'lucide-react';
+
+// Percentage presets offered at checkout
+const TIP_PERCENTAGES = [15, 18, 20];
+
+type TipChoice = number | 'custom' | 'none';
+
+interface TipSelectorProps {
+  /** Amount the tip percentages are calculated from */
+  subtotal: number;
+  /** Currently selected tip in dollars */
+  value: number;
+  onChange: (tip: number) => void;
+  className?: string;
+}
+
+/**
+ * Rounds a dollar amount to cents
+ */
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function TipSelector({ subtotal, value, onChange, className = '' }: TipSelectorProps) {
+  const [choice, setChoice] = useState<TipChoice>('none');
+  const [customAmount, setCustomAmount] = useState('');
+
+  // Keep percentage tips in sync when the subtotal changes (e.g. promo applied)
+  useEffect(() => {
+    if (typeof choice === 'number') {
+      const tip = roundToCents((subtotal * choice) / 100);
+      if (tip !== value) {
+        onChange(tip);
+      }
+    }
+  }, [subtotal, choice, value, onChange]);
+
+  function handlePresetClick(percent: number) {
+    setChoice(percent);
+    onChange(roundToCents((subtotal * percent) / 100));
+  }
+
+  function handleNoTip() {
+    setChoice('none');
+    setCustomAmount('');
+    onChange(0);
+  }
+
+  function handleCustomChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const raw = e.target.value;
+    setChoice('custom');
+    setCustomAmount(raw);
+    const parsed = parseFloat(raw);
+    onChange(isNaN(parsed) || parsed < 0 ? 0 : roundToCents(parsed));
+  }
+
+  const buttonClass = (active: boolean) =>
+    `px-2 py-2 rounded-md border text-sm font-medium transition-colors duration-200
+    ${active
+      ? 'border-[#0078d4] bg-[#0078d4] text-white'
+      : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`;
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 mb-6 ${className}`}>
+      <h2 className="text-xl font-semibold mb-1 flex items-center">
+        <Heart className="w-5 h-5 mr-2 text-[#0078d4]" />
+        Add a Tip
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">100% of tips go to our staff.</p>
+
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        {TIP_PERCENTAGES.map((percent) => (
+          <button
+            key={percent}
+            type="button"
+            onClick={() => handlePresetClick(percent)}
+            className={buttonClass(choice === percent)}
+          >
+            <span className="block">{percent}%</span>
+            <span className={`block text-xs ${choice === percent ? 'text-white' : 'text-gray-500'}`}>
+              ${roundToCents((subtotal * percent) / 100).toFixed(2)}
+            </span>
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={handleNoTip}
+          className={buttonClass(choice === 'none')}
+        >
+          No tip
+        </button>
+      </div>
+
+      <div>
+        <label htmlFor="customTip" className="block text-sm font-medium text-gray-700 mb-1">
+          Custom Amount
+        </label>
+        <div className="relative">
+          <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-500">$</span>
+          <input
+            type="number"
+            id="customTip"
+            min="0"
+            step="0.01"
+            inputMode="decimal"
+            value={customAmount}
+            onChange={handleCustomChange}
+            placeholder="0.00"
+            className={`w-full pl-7 pr-4 py-2 border rounded-md focus:ring-[#0078d4] focus:border-[#0078d4]
+              ${choice === 'custom' ? 'border-[#0078d4]' : 'border-gray-300'}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
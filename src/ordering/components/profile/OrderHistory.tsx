@@ -2,10 +2,12 @@
 import { useEffect, useState } from 'react';
 import { useOrderStore } from '../../store/orderStore';
 import { useAuthStore } from '../../store/authStore';
-import { Clock, ShoppingBag, Filter, Calendar } from 'lucide-react';
+import { Clock, ShoppingBag, Filter, Calendar, RotateCcw } from 'lucide-react';
 import { MobileSelect } from '../../../shared/components/ui/MobileSelect';
 import { OrderHistorySkeletonList } from '../../../shared/components/ui/SkeletonLoader';
 import { Order } from '../../types/order';
+import { ReorderModal } from './ReorderModal';
+import { formatOrderStatus } from '../../utils/deliveryUtils';
 
 type OrderStatus = 'pending' | 'preparing' | 'ready' | 'completed' | 'cancelled';
 type SortOption = 'newest' | 'oldest' | 'highest' | 'lowest';
@@ -38,6 +40,7 @@ export function OrderHistory() {
   const [sortOption, setSortOption] = useState<SortOption>('newest');
   const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
   const [isFilterExpanded, setIsFilterExpanded] = useState(false);
+  const [reorderingOrder, setReorderingOrder] = useState<Order | null>(null);
   
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -93,6 +96,8 @@ export function OrderHistory() {
       pending: 'bg-yellow-100 text-yellow-800',
       preparing: 'bg-blue-100 text-blue-800',
       ready: 'bg-green-100 text-green-800',
+      out_for_delivery: 'bg-teal-100 text-teal-800',
+      delivered: 'bg-gray-100 text-gray-800',
       completed: 'bg-gray-100 text-gray-800',
       cancelled: 'bg-red-100 text-red-800',
       confirmed: 'bg-purple-100 text-purple-800',
@@ -234,7 +239,7 @@ export function OrderHistory() {
                     </div>
                   </div>
                   <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${getStatusBadgeColor(order.status)}`}>
-                    {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                    {formatOrderStatus(order.status)}
                   </span>
                 </div>
 
@@ -272,7 +277,18 @@ export function OrderHistory() {
                       <Clock className="h-3.5 w-3.5 mr-1.5" />
                       Pickup: {new Date(order.estimatedPickupTime || order.pickup_time || '').toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                     </div>
-                    <p className="text-base font-medium">Total: ${order.total.toFixed(2)}</p>
+                    <div className="flex items-center justify-between sm:justify-end gap-4">
+                      <p className="text-base font-medium">Total: ${order.total.toFixed(2)}</p>
+                      {order.status !== 'cancelled' && (
+                        <button
+                          onClick={() => setReorderingOrder(order as Order)}
+                          className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md bg-[#c1902f] text-white hover:bg-[#d4a43f]"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1.5" />
+                          Reorder
+                        </button>
+                      )}
+                    </div>
                   </div>
 
                   {(order.specialInstructions || order.special_instructions) && (
@@ -332,6 +348,10 @@ export function OrderHistory() {
           )}
         </div>
       )}
+
+      {reorderingOrder && (
+        <ReorderModal order={reorderingOrder} onClose={() => setReorderingOrder(null)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,187 @@
+// src/ordering/components/profile/ReorderModal.tsx
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, X } from 'lucide-react';
+import { useOrderStore } from '../../store/orderStore';
+import { useMenuStore } from '../../store/menuStore';
+import { useMerchandiseStore } from '../../store/merchandiseStore';
+import { useLocationStore } from '../../store/locationStore';
+import { useRestaurantStore } from '../../../shared/store/restaurantStore';
+import { Order } from '../../types/order';
+import {
+  ReorderLine,
+  REORDER_ISSUE_LABELS,
+  buildMenuReorderLine,
+  buildMerchandiseReorderLine
+} from '../../utils/reorderUtils';
+import { localizeMenuItem } from '../../utils/locationUtils';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { handleApiError } from '../../../shared/utils/errorHandler';
+
+interface ReorderModalProps {
+  order: Order;
+  onClose: () => void;
+}
+
+/**
+ * Checks a past order against the current menu, then adds whatever can
+ * still be ordered to the cart at today's prices.
+ */
+export function ReorderModal({ order, onClose }: ReorderModalProps) {
+  const navigate = useNavigate();
+  const addToCart = useOrderStore((state) => state.addToCart);
+  const getMenuItemById = useMenuStore((state) => state.getMenuItemById);
+  const getMerchandiseItemById = useMerchandiseStore((state) => state.getMerchandiseItemById);
+  const loadSelectedOverrides = useLocationStore((state) => state.loadSelectedOverrides);
+  const timeZone = useRestaurantStore((state) => state.restaurant?.time_zone) || undefined;
+
+  const [lines, setLines] = useState<ReorderLine[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Fetch each item fresh so stock, visibility, options and prices are current,
+    // as sold at the selected location
+    const loadLines = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const overrides = await loadSelectedOverrides();
+        if (!overrides) {
+          throw new Error(useLocationStore.getState().error || "Couldn't load this location's menu");
+        }
+        const now = new Date();
+        const foodLines = await Promise.all(
+          (order.items || []).map(async (item) => {
+            const current = await getMenuItemById(item.id);
+            return buildMenuReorderLine(item, current && localizeMenuItem(current, overrides), now, timeZone);
+          })
+        );
+        const merchandiseLines = await Promise.all(
+          (order.merchandise_items || []).map(async (item) =>
+            buildMerchandiseReorderLine(item, await getMerchandiseItemById(item.id))
+          )
+        );
+        if (!cancelled) {
+          setLines([...foodLines, ...merchandiseLines]);
+        }
+      } catch (err) {
+        console.error('Error checking reorder items:', err);
+        if (!cancelled) {
+          setError(handleApiError(err, "We couldn't check this order against the current menu. Please try again."));
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadLines();
+    return () => {
+      cancelled = true;
+    };
+  }, [order, timeZone, getMenuItemById, getMerchandiseItemById, loadSelectedOverrides]);
+
+  const availableLines = (lines || []).filter((line) => line.cartItem);
+  const flaggedLines = (lines || []).filter((line) => !line.cartItem);
+  const newTotal = availableLines.reduce((sum, line) => sum + (line.currentPrice || 0) * line.quantity, 0);
+
+  const handleAddToCart = () => {
+    availableLines.forEach((line) => addToCart(line.cartItem!, line.quantity));
+    const count = availableLines.reduce((sum, line) => sum + line.quantity, 0);
+    toastUtils.success(`Added ${count} item${count === 1 ? '' : 's'} to your cart`);
+    onClose();
+    navigate('/cart');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-2 sm:p-4 animate-fadeIn">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      <div className="relative bg-white rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] flex flex-col mt-8 sm:mt-16 animate-slideUp">
+        <div className="p-5 border-b border-gray-100">
+          <button
+            className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+          <h3 className="text-lg font-semibold">Reorder #{order.order_number || order.id}</h3>
+          <p className="text-sm text-gray-500">Items are added at today's prices.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Checking availability...</p>
+          ) : error || !lines ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <>
+              {availableLines.length > 0 && (
+                <ul className="space-y-2">
+                  {availableLines.map((line, index) => (
+                    <li key={`ok-${index}`} className="flex justify-between text-sm">
+                      <span>
+                        {line.name} × {line.quantity}
+                      </span>
+                      <span className="text-right">
+                        {line.currentPrice !== line.previousPrice && (
+                          <span className="text-xs text-gray-400 line-through mr-2">
+                            ${(line.previousPrice * line.quantity).toFixed(2)}
+                          </span>
+                        )}
+                        <span className="font-medium">${((line.currentPrice || 0) * line.quantity).toFixed(2)}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {flaggedLines.length > 0 && (
+                <div className="rounded-md bg-amber-50 border border-amber-200 p-3">
+                  <p className="flex items-center text-sm font-medium text-amber-800 mb-2">
+                    <AlertTriangle className="h-4 w-4 mr-1.5" />
+                    {flaggedLines.length === 1 ? "This item won't be added" : "These items won't be added"}
+                  </p>
+                  <ul className="space-y-1.5">
+                    {flaggedLines.map((line, index) => (
+                      <li key={`flagged-${index}`} className="text-sm">
+                        <span className="font-medium text-gray-800">{line.name}</span>
+                        <span className="block text-xs text-amber-700">
+                          {line.issues.map((issue) => REORDER_ISSUE_LABELS[issue]).join(' · ')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex items-center justify-between">
+          <p className="text-sm font-medium">
+            {lines && availableLines.length > 0 && <>New total: ${newTotal.toFixed(2)}</>}
+          </p>
+          <div className="space-x-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAddToCart}
+              disabled={!lines || availableLines.length === 0}
+              className="px-4 py-2 text-sm rounded-md bg-[#c1902f] text-white hover:bg-[#d4a43f] disabled:opacity-50"
+            >
+              Add to cart
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
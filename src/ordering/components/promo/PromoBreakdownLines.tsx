@@ -0,0 +1,26 @@
+// src/ordering/components/promo/PromoBreakdownLines.tsx
+
+import type { PromoBreakdown } from '../../types/promo';
+
+interface PromoBreakdownLinesProps {
+  breakdown: PromoBreakdown | null;
+  className?: string;
+}
+
+/**
+ * Renders each discount line of an applied promo, e.g. "BOGO: Spam Musubi -$4.50"
+ */
+export function PromoBreakdownLines({ breakdown, className = '' }: PromoBreakdownLinesProps) {
+  if (!breakdown?.valid || breakdown.lines.length === 0) return null;
+
+  return (
+    <div className={`space-y-1 text-sm text-green-600 ${className}`}>
+      {breakdown.lines.map((line, index) => (
+        <div key={`${line.itemId ?? 'order'}-${index}`} className="flex justify-between">
+          <span>{line.label}</span>
+          <span>-${line.amount.toFixed(2)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+// src/ordering/components/promo/PromoCodeInput.tsx
+
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { usePromoStore } from '../../store/promoStore';
+import type { CartItem } from '../../store/orderStore';
+import type { MenuItem } from '../../types/menu';
+import type { PromoBreakdown } from '../../types/promo';
+
+interface PromoCodeInputProps {
+  cartItems: CartItem[];
+  menuItems: MenuItem[];
+  /** Breakdown of the currently applied promo, if any */
+  breakdown: PromoBreakdown | null;
+  /** Used by the server to enforce per-customer limits */
+  email?: string;
+  className?: string;
+}
+
+export function PromoCodeInput({
+  cartItems,
+  menuItems,
+  breakdown,
+  email,
+  className = '',
+}: PromoCodeInputProps) {
+  const { appliedPromo, validatePromoCode, clearAppliedPromo } = usePromoStore();
+  const [code, setCode] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  async function handleApply() {
+    if (!code.trim()) return;
+    setApplying(true);
+    try {
+      const result = await validatePromoCode(code, cartItems, menuItems, email);
+      if (result.valid) {
+        toastUtils.success(`Promo code ${result.code} applied!`);
+        setCode('');
+      } else {
+        toastUtils.error(result.error || 'Invalid or expired promo code');
+      }
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  if (appliedPromo) {
+    return (
+      <div className={className}>
+        <div className="flex items-center justify-between px-3 py-2 bg-green-50 border border-green-200 rounded-md">
+          <span className="flex items-center text-sm font-medium text-green-700">
+            <Tag className="h-4 w-4 mr-2" />
+            {appliedPromo.code}
+            {appliedPromo.description && (
+              <span className="ml-2 font-normal text-green-600">{appliedPromo.description}</span>
+            )}
+          </span>
+          <button
+            type="button"
+            onClick={clearAppliedPromo}
+            className="text-green-700 hover:text-green-900"
+            aria-label="Remove promo code"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        {/* The cart can change after a code is applied, e.g. dropping below the minimum */}
+        {breakdown && !breakdown.valid && breakdown.error && (
+          <p className="mt-1 text-sm text-amber-600">{breakdown.error}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-1">
+        Promo Code
+      </label>
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          id="promoCode"
+          name="promoCode"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          onKeyDown={(e) => {
+            // Don't submit the surrounding checkout form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Enter promo code"
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-md
+            focus:ring-[#0078d4] focus:border-[#0078d4]"
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={applying || !code.trim()}
+          className="px-4 py-2 bg-gray-100 text-gray-700
+            rounded-md hover:bg-gray-200 disabled:opacity-60"
+        >
+          {applying ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+    </div>
+  );
+}
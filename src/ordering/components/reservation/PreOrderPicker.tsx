@@ -0,0 +1,123 @@
+// src/ordering/components/reservation/PreOrderPicker.tsx
+import { useEffect, useMemo, useState } from 'react';
+import { Minus, Plus, ShoppingCart } from 'lucide-react';
+import { useMenuStore } from '../../store/menuStore';
+import { useOrderStore } from '../../store/orderStore';
+import {
+  PreOrderItem,
+  isPreOrderable,
+  setPreOrderQuantity,
+  cartToPreOrder,
+  preOrderItemCount,
+  preOrderSubtotal,
+} from '../../utils/preOrderUtils';
+
+interface PreOrderPickerProps {
+  items: PreOrderItem[];
+  onChange: (items: PreOrderItem[]) => void;
+  /** Used to hide items whose advance notice can't be met */
+  hoursUntilReservation?: number;
+}
+
+/**
+ * Lets a guest pick food to be ready when their party is seated.
+ * Simple items are added here; anything with options can be brought over from the cart.
+ */
+export function PreOrderPicker({ items, onChange, hoursUntilReservation }: PreOrderPickerProps) {
+  const { menuItems, fetchMenuItems } = useMenuStore();
+  const cartItems = useOrderStore((state) => state.cartItems);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    if (menuItems.length === 0) fetchMenuItems();
+  }, [menuItems.length, fetchMenuItems]);
+
+  const choices = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return menuItems
+      .filter((item) => isPreOrderable(item, hoursUntilReservation))
+      .filter((item) => !query || item.name.toLowerCase().includes(query));
+  }, [menuItems, search, hoursUntilReservation]);
+
+  const quantityOf = (id: string) => items.find((line) => line.id === String(id))?.quantity || 0;
+  const cartFood = cartToPreOrder(cartItems);
+
+  return (
+    <div className="rounded-md border border-gray-200 p-3 space-y-3">
+      {cartFood.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange(cartFood)}
+          className="inline-flex items-center text-sm font-medium text-[#c1902f] hover:text-[#d4a43f]"
+        >
+          <ShoppingCart className="h-4 w-4 mr-1" />
+          Use the {preOrderItemCount(cartFood)} item{preOrderItemCount(cartFood) === 1 ? '' : 's'} in my cart
+        </button>
+      )}
+
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search the menu"
+        className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm
+                   focus:border-[#c1902f] focus:outline-none focus:ring-1 focus:ring-[#c1902f]"
+      />
+
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+        {choices.map((menuItem) => {
+          const qty = quantityOf(menuItem.id);
+          return (
+            <li key={menuItem.id} className="flex items-center justify-between py-2 text-sm">
+              <div className="min-w-0 pr-2">
+                <p className="font-medium truncate">{menuItem.name}</p>
+                <p className="text-gray-500">${Number(menuItem.price).toFixed(2)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onChange(setPreOrderQuantity(items, menuItem, qty - 1))}
+                  disabled={qty === 0}
+                  className="p-1 rounded-full border border-gray-300 disabled:opacity-40"
+                  aria-label={`Remove one ${menuItem.name}`}
+                >
+                  <Minus className="h-3 w-3" />
+                </button>
+                <span className="w-5 text-center">{qty}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(setPreOrderQuantity(items, menuItem, qty + 1))}
+                  className="p-1 rounded-full border border-gray-300"
+                  aria-label={`Add one ${menuItem.name}`}
+                >
+                  <Plus className="h-3 w-3" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {choices.length === 0 && (
+          <li className="py-2 text-sm text-gray-500">No matching items.</li>
+        )}
+      </ul>
+
+      {items.length > 0 && (
+        <div className="border-t border-gray-200 pt-2 text-sm">
+          {items.map((line) => (
+            <div key={line.id} className="flex justify-between text-gray-700">
+              <span>
+                {line.quantity}× {line.name}
+              </span>
+              <span>${(line.price * line.quantity).toFixed(2)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-semibold mt-1">
+            <span>Estimated subtotal</span>
+            <span>${preOrderSubtotal(items).toFixed(2)}</span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Paid at your table. The kitchen starts it when you arrive.</p>
+        </div>
+      )}
+    </div>
+  );
+}
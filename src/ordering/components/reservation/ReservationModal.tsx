@@ -7,8 +7,18 @@ import {
   Mail,
   MapPin,
   Share2,
+  Utensils,
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { fetchAvailability, createReservation } from '../../../reservations/services/api';
+import { buildManageReservationPath } from '../../../reservations/utils/selfServiceUtils';
+import type { Reservation } from '../../../reservations/types';
+import { PreOrderPicker } from './PreOrderPicker';
+import {
+  PreOrderItem,
+  preOrderItemCount,
+  toPreOrderRequest,
+} from '../../utils/preOrderUtils';
 
 interface ReservationModalProps {
   isOpen: boolean;
@@ -28,6 +38,10 @@ interface ReservationData {
 
 interface ConfirmationData extends ReservationData {
   confirmed: boolean;
+  confirmationCode?: string;
+  preOrderItems: PreOrderItem[];
+  /** Priced by the server */
+  preOrderTotal?: number;
 }
 
 /**
@@ -52,6 +66,10 @@ export function ReservationModal({ isOpen, onClose }: ReservationModalProps) {
   const [confirmation, setConfirmation] = useState<ConfirmationData | null>(null);
   const [timeSlots, setTimeSlots] = useState<string[]>([]);
 
+  // Optional food to have ready when the party is seated
+  const [wantsPreOrder, setWantsPreOrder] = useState(false);
+  const [preOrderItems, setPreOrderItems] = useState<PreOrderItem[]>([]);
+
   // On open, if phone is blank => set +1671 as the default
   useEffect(() => {
     if (isOpen && formData.phone.trim() === '') {
@@ -112,8 +130,9 @@ Party Size: ${confirmation.partySize} people`;
 
     try {
       const start_time = `${formData.date}T${formData.time}:00`;
+      const attachPreOrder = wantsPreOrder && preOrderItems.length > 0;
 
-      await createReservation({
+      const created = await createReservation({
         reservation: {
           restaurant_id: 1,
           start_time,
@@ -123,14 +142,22 @@ Party Size: ${confirmation.partySize} people`;
           contact_email: formData.email,
           status: 'booked',
           duration_minutes: parseDuration(formData.duration),
+          // The server prices the items and creates a held order timed to
+          // start_time; staff fire it on arrival
+          ...(attachPreOrder && {
+            pre_order: { items: toPreOrderRequest(preOrderItems) },
+          }),
         },
-      });
+      }) as Pick<Reservation, 'confirmation_code' | 'pre_order'>;
 
       // If successful => Show confirmation
       setConfirmation({
         ...formData,
         phone: finalPhone,
         confirmed: true,
+        confirmationCode: created?.confirmation_code,
+        preOrderItems: attachPreOrder ? preOrderItems : [],
+        preOrderTotal: created?.pre_order?.total,
       });
     } catch (err) {
       console.error('Failed to create reservation:', err);
@@ -158,6 +185,19 @@ Party Size: ${confirmation.partySize} people`;
             </div>
             <h2 className="text-2xl md:text-3xl font-bold mt-4">Reservation Confirmed!</h2>
             <p className="mt-2 text-sm text-gray-600">Thank you! We look forward to serving you.</p>
+            {confirmation.confirmationCode && (
+              <div className="mt-4">
+                <p className="text-sm text-gray-600">Confirmation code</p>
+                <p className="text-xl font-mono font-bold tracking-wider">{confirmation.confirmationCode}</p>
+                <Link
+                  to={buildManageReservationPath(confirmation.confirmationCode)}
+                  onClick={onClose}
+                  className="text-sm font-medium text-[#c1902f] hover:text-[#d4a43f]"
+                >
+                  Manage reservation
+                </Link>
+              </div>
+            )}
 
             <div className="mt-6 space-y-6 text-left max-w-md mx-auto">
               <div>
@@ -193,6 +233,25 @@ Party Size: ${confirmation.partySize} people`;
                   )}
                 </div>
               )}
+              {confirmation.preOrderItems.length > 0 && (
+                <div>
+                  <h4 className="font-medium flex items-center gap-2">
+                    <Utensils className="h-4 w-4 text-[#c1902f]" />
+                    Pre-Order
+                  </h4>
+                  {confirmation.preOrderItems.map((line) => (
+                    <p key={line.id} className="mt-1 text-gray-600">
+                      {line.quantity}× {line.name}
+                    </p>
+                  ))}
+                  <p className="text-sm text-gray-500">
+                    {preOrderItemCount(confirmation.preOrderItems)} items
+                    {confirmation.preOrderTotal !== undefined &&
+                      `, $${Number(confirmation.preOrderTotal).toFixed(2)}`}{' '}
+                    — paid at your table
+                  </p>
+                </div>
+              )}
               <div>
                 <h4 className="font-medium flex items-center gap-2">
                   <MapPin className="h-4 w-4 text-[#c1902f]" />
@@ -380,6 +439,28 @@ Party Size: ${confirmation.partySize} people`;
               </div>
             </div>
 
+            {/* Optional pre-order */}
+            <div>
+              <label className="inline-flex items-center text-sm font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={wantsPreOrder}
+                  onChange={(e) => setWantsPreOrder(e.target.checked)}
+                  className="mr-2"
+                />
+                Pre-order food for when we arrive
+              </label>
+              {wantsPreOrder && (
+                <div className="mt-2">
+                  <PreOrderPicker
+                    items={preOrderItems}
+                    onChange={setPreOrderItems}
+                    hoursUntilReservation={hoursUntil(formData.date, formData.time)}
+                  />
+                </div>
+              )}
+            </div>
+
             <div className="pt-4">
               <button
                 type="submit"
@@ -397,6 +478,14 @@ Party Size: ${confirmation.partySize} people`;
   );
 }
 
+/** Hours from now until the chosen slot, or undefined until both are picked. */
+function hoursUntil(date: string, time: string): number | undefined {
+  if (!date || !time) return undefined;
+  const start = new Date(`${date}T${time}:00`);
+  if (isNaN(start.getTime())) return undefined;
+  return (start.getTime() - Date.now()) / (1000 * 60 * 60);
+}
+
 /** Formats "12:00" => "12:00 PM" for displayed slots. */
 function formatTime(t: string) {
   const [hh, mm] = t.split(':').map(Number);
@@ -1,74 +1,144 @@
-import React from 'react';
-import { X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { X, Plus, Check } from 'lucide-react';
 import type { MenuItem } from '../../types/menu';
+import type { UpsellSuggestion } from '../../types/upsell';
+import { trackCustomerEvent, EventNames } from '../../../shared/utils/analyticsUtils';
+import OptimizedImage from '../../../shared/components/ui/OptimizedImage';
 
 interface UpsellModalProps {
-  item: MenuItem;
+  /** Ranked suggestions from evaluateUpsellRules */
+  suggestions: UpsellSuggestion[];
+  /** Cart subtotal when the modal opened, included in tracking events */
+  cartSubtotal?: number;
   onClose: () => void;
-  onAddToCart: (item: MenuItem) => void;
+  onAddToCart: (item: MenuItem, ruleId: number) => void;
 }
 
-export function UpsellModal({ item, onClose, onAddToCart }: UpsellModalProps) {
-  const handleAdd = () => {
-    onAddToCart(item);
+function trackingProps(suggestion: UpsellSuggestion, position: number, cartSubtotal?: number) {
+  return {
+    rule_id: suggestion.rule.id,
+    rule_name: suggestion.rule.name,
+    item_id: suggestion.item.id,
+    item_name: suggestion.item.name,
+    item_price: suggestion.item.price,
+    position,
+    cart_subtotal: cartSubtotal,
+  };
+}
+
+export function UpsellModal({ suggestions, cartSubtotal, onClose, onAddToCart }: UpsellModalProps) {
+  const [addedIds, setAddedIds] = useState<string[]>([]);
+  // The cart grows as suggestions are added; events report it as it was on open
+  const [openingSubtotal] = useState(cartSubtotal);
+
+  const trackImpressions = useCallback(() => {
+    suggestions.forEach((suggestion, index) => {
+      trackCustomerEvent(EventNames.UPSELL_IMPRESSION, trackingProps(suggestion, index + 1, openingSubtotal));
+    });
+  }, [suggestions, openingSubtotal]);
+
+  // Record one impression per suggestion each time the modal opens
+  useEffect(() => {
+    trackImpressions();
+  }, [trackImpressions]);
+
+  // Conversions are tracked at checkout, once the order containing the item is placed
+  const handleAdd = (suggestion: UpsellSuggestion, index: number) => {
+    trackCustomerEvent(EventNames.UPSELL_ACCEPTED, trackingProps(suggestion, index + 1, openingSubtotal));
+    setAddedIds((prev) => [...prev, suggestion.item.id]);
+    onAddToCart(suggestion.item, suggestion.rule.id);
+  };
+
+  const handleClose = () => {
+    if (addedIds.length === 0) {
+      trackCustomerEvent(EventNames.UPSELL_DISMISSED, {
+        rule_ids: Array.from(new Set(suggestions.map((s) => s.rule.id))),
+        item_ids: suggestions.map((s) => s.item.id),
+        cart_subtotal: openingSubtotal,
+      });
+    }
     onClose();
   };
 
+  if (suggestions.length === 0) return null;
+
+  const headline = suggestions[0].rule.headline || 'Complete Your Meal!';
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
-        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
-        
-        <div className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-sm sm:p-6">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={handleClose} />
+
+        <div className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-md sm:p-6">
           <div className="absolute right-0 top-0 pr-4 pt-4">
             <button
               type="button"
               className="rounded-md bg-white text-gray-400 hover:text-gray-500"
-              onClick={onClose}
+              onClick={handleClose}
             >
               <X className="h-6 w-6" />
             </button>
           </div>
 
           <div>
-            <div className="mt-3 text-center sm:mt-5">
-              <h3 className="text-lg font-semibold leading-6 text-gray-900">
-                Complete Your Meal!
-              </h3>
-              <div className="mt-2">
-                <img
-                  src={item.image}
-                  alt={item.name}
-                  className="w-full h-48 object-cover rounded-md"
-                />
-                <p className="mt-4 text-sm text-gray-500">
-                  Would you like to add a {item.name} to your order?
-                </p>
-                <p className="mt-1 text-lg font-semibold">
-                  ${item.price.toFixed(2)}
-                </p>
-              </div>
-            </div>
+            <h3 className="mt-3 text-center text-lg font-semibold leading-6 text-gray-900 sm:mt-5">
+              {headline}
+            </h3>
+            <ul className="mt-4 divide-y divide-gray-100">
+              {suggestions.map((suggestion, index) => {
+                const { item } = suggestion;
+                const added = addedIds.includes(item.id);
+                return (
+                  <li key={item.id} className="flex items-center py-3">
+                    <OptimizedImage
+                      src={item.image}
+                      alt={item.name}
+                      className="h-16 w-16 flex-shrink-0 rounded-md object-cover"
+                      context="cart"
+                      fallbackSrc="/placeholder-food.png"
+                    />
+                    <div className="ml-3 flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                      <p className="text-sm text-gray-500">${item.price.toFixed(2)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      disabled={added}
+                      onClick={() => handleAdd(suggestion, index)}
+                      className={`ml-3 inline-flex items-center rounded-md px-3 py-1.5 text-sm font-semibold
+                        ${added
+                          ? 'bg-green-100 text-green-700 cursor-default'
+                          : 'bg-[#0078d4] text-white hover:bg-[#50a3d9]'}`}
+                    >
+                      {added ? (
+                        <>
+                          <Check className="h-4 w-4 mr-1" />
+                          Added
+                        </>
+                      ) : (
+                        <>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add
+                        </>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
           </div>
 
-          <div className="mt-5 sm:mt-6 space-y-2">
-            <button
-              type="button"
-              className="inline-flex w-full justify-center rounded-md bg-[#c1902f] px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-[#d4a43f]"
-              onClick={handleAdd}
-            >
-              Add to Order
-            </button>
+          <div className="mt-5 sm:mt-6">
             <button
               type="button"
               className="inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
-              onClick={onClose}
+              onClick={handleClose}
             >
-              No Thanks
+              {addedIds.length > 0 ? 'Continue to Checkout' : 'No Thanks, Continue'}
             </button>
           </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -2,6 +2,8 @@
 import { create } from 'zustand';
 import { fetchAllCategories, fetchCategoriesByMenu, Category as ApiCategory } from '../../shared/api/endpoints/categories';
 import { websocketService } from '../../shared/services/websocketService';
+import { saveCatalog, loadCatalog } from '../../shared/utils/offlineDb';
+import { isNetworkError } from '../../shared/utils/errorHandler';
 
 // Use the ApiCategory interface directly instead of creating a duplicate
 export type Category = ApiCategory;
@@ -57,6 +59,11 @@ export const useCategoryStore = create<CategoryStore>((set, get) => ({
       console.debug('Fetching categories from API for menu', menuId);
       const response = await fetchCategoriesByMenu(menuId, restaurantId) as Category[];
       set({ categories: response, loading: false });
+
+      // Keep a copy for offline browsing
+      saveCatalog(`categories:menu:${menuId}`, response).catch((err) => {
+        console.debug('Could not save offline copy of categories:', err);
+      });
       
       // Only try to start WebSocket if we have restaurant ID
       const storedRestaurantId = localStorage.getItem('restaurantId');
@@ -67,6 +74,14 @@ export const useCategoryStore = create<CategoryStore>((set, get) => ({
         console.debug('Restaurant ID not available yet, skipping WebSocket setup for categories');
       }
     } catch (err: any) {
+      if (isNetworkError(err)) {
+        const cached = await loadCatalog<Category[]>(`categories:menu:${menuId}`).catch(() => null);
+        if (cached) {
+          console.debug('Using offline copy of categories for menu', menuId);
+          set({ categories: cached, loading: false });
+          return;
+        }
+      }
       set({ error: err.message, loading: false });
     }
   },
@@ -0,0 +1,71 @@
+// src/ordering/store/favoritesStore.ts
+
+import { create } from 'zustand';
+import { createFavorite, deleteFavorite, getFavorites } from '../../shared/api/endpoints/favorites';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import type { Favorite, FavoritePayload } from '../types/favorite';
+
+interface FavoritesStore {
+  favorites: Favorite[];
+  loaded: boolean;
+  loading: boolean;
+  error: string | null;
+
+  fetchFavorites: () => Promise<void>;
+  addFavorite: (data: FavoritePayload) => Promise<Favorite | null>;
+  removeFavorite: (id: number) => Promise<void>;
+  /** The plain (unnamed, no options) favorite for a menu item, if any */
+  getItemFavorite: (menuItemId: string) => Favorite | undefined;
+  reset: () => void;
+}
+
+export const useFavoritesStore = create<FavoritesStore>((set, get) => ({
+  favorites: [],
+  loaded: false,
+  loading: false,
+  error: null,
+
+  // GET /favorites
+  fetchFavorites: async () => {
+    set({ loading: true, error: null });
+    try {
+      const favorites = await getFavorites();
+      set({ favorites, loaded: true, loading: false });
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to load favorites'), loading: false });
+    }
+  },
+
+  // POST /favorites
+  addFavorite: async (data) => {
+    try {
+      const favorite = await createFavorite(data);
+      set((state) => ({ favorites: [favorite, ...state.favorites] }));
+      return favorite;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to save favorite') });
+      return null;
+    }
+  },
+
+  // DELETE /favorites/:id, removed optimistically
+  removeFavorite: async (id) => {
+    const previous = get().favorites;
+    set({ favorites: previous.filter((f) => f.id !== id) });
+    try {
+      await deleteFavorite(id);
+    } catch (err) {
+      set({ favorites: previous, error: handleApiError(err, 'Failed to remove favorite') });
+    }
+  },
+
+  getItemFavorite: (menuItemId) => {
+    return get().favorites.find(
+      (f) => String(f.menu_item_id) === String(menuItemId) && !f.name && !f.option_selections
+    );
+  },
+
+  reset: () => {
+    set({ favorites: [], loaded: false, error: null });
+  }
+}));
@@ -0,0 +1,128 @@
+// src/ordering/store/ingredientStore.ts
+
+import { create } from 'zustand';
+import { ingredientsApi } from '../../shared/api/endpoints/ingredients';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import type { Ingredient, IngredientPayload, MenuItemRecipe } from '../types/inventory';
+import type { UpdateStockParams } from '../types/menu';
+
+interface IngredientStore {
+  ingredients: Ingredient[];
+  /** Keyed by menu item id */
+  recipes: Record<string, MenuItemRecipe>;
+  /** Location the stock numbers are for; null is restaurant-wide */
+  locationId: number | null;
+  loading: boolean;
+  error: string | null;
+
+  fetchIngredients: (locationId?: number | null) => Promise<void>;
+  createIngredient: (payload: IngredientPayload) => Promise<Ingredient | null>;
+  updateIngredient: (id: number, payload: Partial<IngredientPayload>) => Promise<Ingredient | null>;
+  deleteIngredient: (id: number) => Promise<boolean>;
+  updateIngredientStock: (id: number, params: UpdateStockParams) => Promise<Ingredient | null>;
+  fetchRecipes: () => Promise<void>;
+  saveRecipe: (
+    menuItemId: string,
+    recipe: Pick<MenuItemRecipe, 'lines' | 'option_deltas'>
+  ) => Promise<MenuItemRecipe | null>;
+}
+
+function replaceIngredient(list: Ingredient[], updated: Ingredient): Ingredient[] {
+  return list.map((ingredient) => (ingredient.id === updated.id ? updated : ingredient));
+}
+
+export const useIngredientStore = create<IngredientStore>((set, get) => ({
+  ingredients: [],
+  recipes: {},
+  locationId: null,
+  loading: false,
+  error: null,
+
+  // GET /ingredients(?location_id=)
+  fetchIngredients: async (locationId = get().locationId) => {
+    set({ loading: true, error: null, locationId });
+    try {
+      const ingredients = await ingredientsApi.getAll({ location_id: locationId });
+      set({ ingredients: ingredients || [], loading: false });
+    } catch (err) {
+      set({ loading: false, error: handleApiError(err, 'Failed to load ingredients') });
+    }
+  },
+
+  createIngredient: async (payload) => {
+    try {
+      const created = await ingredientsApi.create(payload);
+      set((state) => ({
+        ingredients: [...state.ingredients, created].sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      return created;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to create ingredient') });
+      return null;
+    }
+  },
+
+  updateIngredient: async (id, payload) => {
+    try {
+      const updated = await ingredientsApi.update(id, payload);
+      set((state) => ({ ingredients: replaceIngredient(state.ingredients, updated) }));
+      return updated;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to update ingredient') });
+      return null;
+    }
+  },
+
+  deleteIngredient: async (id) => {
+    try {
+      await ingredientsApi.delete(id);
+      set((state) => ({ ingredients: state.ingredients.filter((ingredient) => ingredient.id !== id) }));
+      return true;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to delete ingredient') });
+      return false;
+    }
+  },
+
+  // POST /ingredients/:id/update_stock, scoped to the current location
+  updateIngredientStock: async (id, params) => {
+    try {
+      const { locationId } = get();
+      const updated = await ingredientsApi.updateStock(id, {
+        ...params,
+        ...(locationId ? { location_id: locationId } : {}),
+      });
+      set((state) => ({ ingredients: replaceIngredient(state.ingredients, updated) }));
+      return updated;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to update ingredient stock') });
+      return null;
+    }
+  },
+
+  // GET /recipes
+  fetchRecipes: async () => {
+    try {
+      const list = await ingredientsApi.getRecipes();
+      const recipes: Record<string, MenuItemRecipe> = {};
+      (list || []).forEach((recipe) => {
+        recipes[String(recipe.menu_item_id)] = recipe;
+      });
+      set({ recipes });
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to load recipes') });
+    }
+  },
+
+  // PUT /menu_items/:id/recipe
+  saveRecipe: async (menuItemId, recipe) => {
+    try {
+      const saved = await ingredientsApi.saveRecipe(menuItemId, recipe);
+      set((state) => ({ recipes: { ...state.recipes, [menuItemId]: saved } }));
+      return saved;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to save recipe') });
+      return null;
+    }
+  },
+}));
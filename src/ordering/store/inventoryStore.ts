@@ -4,9 +4,12 @@ import type { InventoryStatus } from '../types/inventory';
 
 interface InventoryStore {
   inventory: Record<string, InventoryStatus>;
+  /** Scopes stock to one location; null is the restaurant-wide count */
+  locationId: number | null;
   loading: boolean;
   error: string | null;
   fetchInventory: () => Promise<void>;
+  setLocationId: (locationId: number | null) => Promise<void>;
   updateInventoryStatus: (itemId: string, status: Partial<InventoryStatus>) => Promise<void>;
 }
 
@@ -14,15 +17,18 @@ interface InventoryStore {
 
 export const useInventoryStore = create<InventoryStore>((set, get) => ({
   inventory: {},
+  locationId: null,
   loading: false,
   error: null,
 
-  // GET /inventory_status
+  // GET /inventory_status(?location_id=)
   fetchInventory: async () => {
     set({ loading: true, error: null });
     try {
+      const { locationId } = get();
+      const query = locationId ? `?location_id=${locationId}` : '';
       // Suppose your rails endpoint returns an array of inventory statuses
-      const list: InventoryStatus[] = await api.get('/inventory_status');
+      const list: InventoryStatus[] = await api.get(`/inventory_status${query}`);
       const record: Record<string, InventoryStatus> = {};
       list.forEach((inv) => {
         record[inv.itemId] = inv;
@@ -33,13 +39,21 @@ export const useInventoryStore = create<InventoryStore>((set, get) => ({
     }
   },
 
+  // Switch locations and reload their stock
+  setLocationId: async (locationId) => {
+    set({ locationId, inventory: {} });
+    await get().fetchInventory();
+  },
+
   // PATCH /inventory_status/:itemId
   updateInventoryStatus: async (itemId, status) => {
     set({ loading: true, error: null });
     try {
+      const { locationId } = get();
       // Usually we'd pass the updated fields in a JSON body, e.g.
       const updated = await api.patch(`/inventory_status/${itemId}`, {
-        ...status
+        ...status,
+        ...(locationId ? { location_id: locationId } : {})
       });
       // Merge updated into local store
       set((state) => ({
@@ -0,0 +1,74 @@
+// src/ordering/store/locationStore.ts
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { locationsApi } from '../../shared/api/endpoints/locations';
+import type { LocationMenuItemOverride, LocationOperatingHour } from '../../shared/types/Location';
+
+interface LocationStore {
+  /** The location the customer is ordering from; shared by the menu and checkout */
+  selectedLocationId: number | null;
+  overridesByLocation: Record<number, LocationMenuItemOverride[]>;
+  hoursByLocation: Record<number, LocationOperatingHour[]>;
+  error: string | null;
+
+  setSelectedLocationId: (locationId: number | null) => void;
+  /** Resolves null when the request fails, so callers don't mistake it for "no overrides" */
+  fetchOverrides: (locationId: number) => Promise<LocationMenuItemOverride[] | null>;
+  /** Overrides for the selected location, fetched if they aren't loaded yet; null if that fails */
+  loadSelectedOverrides: () => Promise<LocationMenuItemOverride[] | null>;
+  fetchHours: (locationId: number) => Promise<LocationOperatingHour[]>;
+}
+
+export const useLocationStore = create<LocationStore>()(
+  persist(
+    (set, get) => ({
+      selectedLocationId: null,
+      overridesByLocation: {},
+      hoursByLocation: {},
+      error: null,
+
+      setSelectedLocationId: (locationId) => {
+        set({ selectedLocationId: locationId });
+      },
+
+      // GET /locations/:id/menu_item_overrides
+      fetchOverrides: async (locationId) => {
+        try {
+          const overrides = await locationsApi.getMenuItemOverrides(locationId);
+          set((state) => ({
+            overridesByLocation: { ...state.overridesByLocation, [locationId]: overrides || [] },
+          }));
+          return overrides || [];
+        } catch (err) {
+          set({ error: err instanceof Error ? err.message : 'Failed to load location menu' });
+          return null;
+        }
+      },
+
+      loadSelectedOverrides: async () => {
+        const { selectedLocationId, overridesByLocation, fetchOverrides } = get();
+        if (!selectedLocationId) return [];
+        return overridesByLocation[selectedLocationId] || fetchOverrides(selectedLocationId);
+      },
+
+      // GET /locations/:id/operating_hours
+      fetchHours: async (locationId) => {
+        try {
+          const hours = await locationsApi.getOperatingHours(locationId);
+          set((state) => ({
+            hoursByLocation: { ...state.hoursByLocation, [locationId]: hours || [] },
+          }));
+          return hours || [];
+        } catch (err) {
+          set({ error: err instanceof Error ? err.message : 'Failed to load location hours' });
+          return [];
+        }
+      },
+    }),
+    {
+      name: 'location-storage',
+      partialize: (state) => ({ selectedLocationId: state.selectedLocationId }),
+    }
+  )
+);
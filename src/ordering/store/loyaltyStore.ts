@@ -0,0 +1,75 @@
+// src/ordering/store/loyaltyStore.ts
+
+import { create } from 'zustand';
+import {
+  getLoyaltySettings,
+  getMyLoyaltyAccount,
+} from '../../shared/api/endpoints/loyalty';
+import { useAuthStore } from './authStore';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import type { LoyaltyAccount, LoyaltySettings } from '../types/loyalty';
+
+interface LoyaltyStore {
+  settings: LoyaltySettings | null;
+  account: LoyaltyAccount | null;
+  /** Points the customer chose to redeem on the current cart */
+  pointsToRedeem: number;
+  loading: boolean;
+  error: string | null;
+
+  fetchSettings: () => Promise<void>;
+  fetchAccount: () => Promise<void>;
+  setPointsToRedeem: (points: number) => void;
+  clearRedemption: () => void;
+  /** Forgets the signed-in customer's account and redemption */
+  reset: () => void;
+}
+
+export const useLoyaltyStore = create<LoyaltyStore>((set) => ({
+  settings: null,
+  account: null,
+  pointsToRedeem: 0,
+  loading: false,
+  error: null,
+
+  // GET /loyalty/settings
+  fetchSettings: async () => {
+    try {
+      const settings = await getLoyaltySettings();
+      set({ settings });
+    } catch (err) {
+      console.error('Failed to fetch loyalty settings:', err);
+      set({ error: handleApiError(err, 'Failed to load rewards settings') });
+    }
+  },
+
+  // GET /loyalty/account
+  fetchAccount: async () => {
+    set({ loading: true, error: null });
+    try {
+      const account = await getMyLoyaltyAccount();
+      set({ account, loading: false });
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to load rewards account'), loading: false });
+    }
+  },
+
+  setPointsToRedeem: (points: number) => {
+    set({ pointsToRedeem: Math.max(0, Math.floor(points)) });
+  },
+
+  clearRedemption: () => {
+    set({ pointsToRedeem: 0 });
+  },
+
+  reset: () => {
+    set({ account: null, pointsToRedeem: 0, error: null });
+  }
+}));
+
+// Signing out drops the account and any points chosen for the cart
+useAuthStore.subscribe((state, previous) => {
+  if (previous.user && !state.user) {
+    useLoyaltyStore.getState().reset();
+  }
+});
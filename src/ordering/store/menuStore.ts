@@ -1,7 +1,7 @@
 // src/ordering/store/menuStore.ts
 import { create } from 'zustand';
 import { menusApi, Menu } from '../../shared/api/endpoints/menus';
-import { handleApiError } from '../../shared/utils/errorHandler';
+import { handleApiError, isNetworkError } from '../../shared/utils/errorHandler';
 import { MenuItem, Category, MenuItemFilterParams } from '../types/menu';
 import { apiClient } from '../../shared/api/apiClient';
 import { menuItemsApi } from '../../shared/api/endpoints/menuItems';
@@ -9,6 +9,50 @@ import { websocketService } from '../../shared/services/websocketService';
 import { getCurrentRestaurantId, addRestaurantIdToParams } from '../../shared/utils/tenantUtils';
 import { pollingManager, PollingResourceType } from '../../shared/services/PollingManager';
 import { useMenuLayoutStore } from './menuLayoutStore';
+import { saveCatalog, loadCatalog } from '../../shared/utils/offlineDb';
+
+// Keys for the offline copy of the customer-facing catalog
+const MENU_ITEMS_CATALOG_KEY = 'menuItems';
+const VISIBLE_MENU_ITEMS_CATALOG_KEY = 'visibleMenuItems';
+const CATEGORIES_CATALOG_KEY = 'categories';
+const ACTIVE_MENUS_CATALOG_KEY = 'activeMenus';
+
+/**
+ * Keeps a copy of the catalog so customers can keep browsing when the
+ * connection drops. Failures here shouldn't affect the live data.
+ */
+function saveCatalogCopy<T>(key: string, data: T) {
+  saveCatalog(key, data).catch((err) => {
+    console.debug(`Could not save offline copy of ${key}:`, err);
+  });
+}
+
+async function loadCatalogCopy<T>(key: string): Promise<T | null> {
+  try {
+    return await loadCatalog<T>(key);
+  } catch {
+    return null;
+  }
+}
+
+/** The unfiltered customer menu is the one worth keeping an offline copy of */
+function isFullCustomerMenu(params: MenuItemFilterParams): boolean {
+  return params.hidden === false && !params.category_id && !params.featured &&
+    !params.seasonal && !params.search_query;
+}
+
+/** Applies the customer menu filters locally to the offline copy */
+function filterOfflineMenuItems(items: MenuItem[], params: MenuItemFilterParams): MenuItem[] {
+  const query = params.search_query?.trim().toLowerCase();
+  return items.filter((item) => {
+    if (params.category_id && !item.category_ids?.includes(params.category_id)) return false;
+    if (params.featured && !item.featured) return false;
+    if (params.seasonal && !item.seasonal) return false;
+    if (query && !item.name.toLowerCase().includes(query) &&
+        !item.description?.toLowerCase().includes(query)) return false;
+    return true;
+  });
+}
 
 interface MenuState {
   menus: Menu[];
@@ -97,9 +141,16 @@ export const useMenuStore = create<MenuState>((set, get) => ({
       
       // Set the active menu in the store
       set({ menus: activeMenus, currentMenuId, loading: false });
+      saveCatalogCopy(ACTIVE_MENUS_CATALOG_KEY, activeMenus);
       
       console.debug('[MenuStore] Fetched active menu:', currentMenuId);
     } catch (error) {
+      const cached = isNetworkError(error) ? await loadCatalogCopy<Menu[]>(ACTIVE_MENUS_CATALOG_KEY) : null;
+      if (cached) {
+        console.debug('[MenuStore] Using offline copy of the active menu');
+        set({ menus: cached, currentMenuId: cached[0]?.id ?? null, loading: false });
+        return;
+      }
       const errorMessage = handleApiError(error);
       set({ error: errorMessage, loading: false });
       console.error('[MenuStore] Error fetching active menu:', error);
@@ -251,7 +302,14 @@ export const useMenuStore = create<MenuState>((set, get) => ({
     try {
       const response = await apiClient.get('/categories');
       set({ categories: response.data, loading: false });
+      saveCatalogCopy(CATEGORIES_CATALOG_KEY, response.data);
     } catch (error) {
+      const cached = isNetworkError(error) ? await loadCatalogCopy<Category[]>(CATEGORIES_CATALOG_KEY) : null;
+      if (cached) {
+        console.debug('Using offline copy of categories');
+        set({ categories: cached, loading: false });
+        return;
+      }
       const errorMessage = handleApiError(error);
       set({ error: errorMessage, loading: false });
     }
@@ -279,6 +337,7 @@ export const useMenuStore = create<MenuState>((set, get) => ({
       }));
       
       set({ menuItems: processedItems, loading: false });
+      saveCatalogCopy(MENU_ITEMS_CATALOG_KEY, processedItems);
       
       // Only try to start WebSocket if we have restaurant ID
       const restaurantId = localStorage.getItem('restaurantId');
@@ -289,6 +348,12 @@ export const useMenuStore = create<MenuState>((set, get) => ({
         console.debug('Restaurant ID not available yet, skipping WebSocket setup for menu items');
       }
     } catch (error) {
+      const cached = isNetworkError(error) ? await loadCatalogCopy<MenuItem[]>(MENU_ITEMS_CATALOG_KEY) : null;
+      if (cached) {
+        console.debug('Using offline copy of menu items');
+        set({ menuItems: cached, loading: false });
+        return;
+      }
       const errorMessage = handleApiError(error);
       set({ error: errorMessage, loading: false });
     }
@@ -972,9 +1037,21 @@ export const useMenuStore = create<MenuState>((set, get) => ({
         ...item,
         image: item.image_url || '/placeholder-food.png'
       }));
+
+      if (isFullCustomerMenu(params)) {
+        saveCatalogCopy(VISIBLE_MENU_ITEMS_CATALOG_KEY, processedItems);
+      }
       
       return processedItems;
     } catch (error) {
+      // Offline: keep customers browsing with the last copy of the menu
+      if (params.hidden === false && isNetworkError(error)) {
+        const cached = await loadCatalogCopy<MenuItem[]>(VISIBLE_MENU_ITEMS_CATALOG_KEY);
+        if (cached) {
+          console.debug('[menuStore] Using offline copy of the menu');
+          return filterOfflineMenuItems(cached, params);
+        }
+      }
       console.error('[menuStore] Error fetching filtered menu items:', error);
       const errorMessage = handleApiError(error);
       set({ error: errorMessage });
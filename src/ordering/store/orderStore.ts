@@ -3,9 +3,13 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { api } from '../lib/api';
 import type { Order, OrderItem } from '../types/order';
+import type { OrderDeliveryDetails } from '../types/delivery';
+import type { OrderDineInDetails } from '../types/dineIn';
 import webSocketManager, { NotificationType } from '../../shared/services/WebSocketManager';
 import pollingManager, { PollingResourceType } from '../../shared/services/PollingManager';
 import { useAuthStore } from './authStore';
+import { useOfflineQueueStore } from '../../shared/store/offlineQueueStore';
+import { handleApiError, isNetworkError } from '../../shared/utils/errorHandler';
 
 /** CartItem for local cart usage. */
 export interface CartItem extends Omit<OrderItem, 'id'> {
@@ -21,6 +25,8 @@ export interface CartItem extends Omit<OrderItem, 'id'> {
   variant_id?: number;
   size?: string;
   color?: string;
+  /** Set when the item was added from an upsell suggestion */
+  upsell_rule_id?: number;
 }
 
 export interface OrdersMetadata {
@@ -38,6 +44,7 @@ export interface OrderQueryParams {
   sortDirection?: 'asc' | 'desc';
   dateFrom?: string | null;
   dateTo?: string | null;
+  date_field?: 'created_at' | 'pickup_time'; // Which timestamp dateFrom/dateTo filter on (default created_at)
   searchQuery?: string | null;
   restaurantId?: string | null;
   endpoint?: string; // Used to determine which API endpoint to call (e.g., 'staff' for /orders/staff)
@@ -45,9 +52,31 @@ export interface OrderQueryParams {
   staff_member_id?: string; // Used to filter by staff member
   user_id?: string; // Used to filter by user
   include_online_orders?: string; // Used to include online orders with user orders
+  fulfillment_type?: string; // 'pickup', 'delivery' or 'dine_in'
   _sourceId?: string; // Track the source of the request for debugging
 }
 
+export interface NewOrderOptions {
+  items: CartItem[];
+  total: number;
+  specialInstructions: string;
+  contactName?: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  transactionId?: string;
+  paymentMethod?: string; // Defaults to 'credit_card'
+  vipCode?: string;
+  staffModal?: boolean; // True for orders placed by staff from the admin order modal
+  paymentDetails?: any;
+  locationId?: number | null;
+  pickupTime?: string | null; // Scheduled pickup time; null for ASAP
+  tip?: number;
+  loyaltyPointsRedeemed?: number;
+  promoCode?: string | null;
+  delivery?: OrderDeliveryDetails | null;
+  dineIn?: OrderDineInDetails | null;
+}
+
 interface OrderStore {
   orders: Order[];
   metadata: OrdersMetadata;
@@ -72,29 +101,23 @@ interface OrderStore {
   fetchOrdersQuietly: (params?: OrderQueryParams) => Promise<void>;
 
   /** Creates a new order in the backend and returns it. */
-  addOrder: (
-    items: CartItem[],
-    total: number,
-    specialInstructions: string,
-    contactName?: string,
-    contactPhone?: string,
-    contactEmail?: string,
-    transactionId?: string,
-    paymentMethod?: string,
-    vipCode?: string,
-    staffModal?: boolean,
-    paymentDetails?: any,
-    locationId?: number | null
-  ) => Promise<Order>;
+  addOrder: (options: NewOrderOptions) => Promise<Order>;
 
   /** Update just status + optional pickupTime. */
   updateOrderStatus: (orderId: string, status: string, pickupTime?: string) => Promise<void>;
   
-  /** Update status without showing loading state (for smoother UI) */
-  updateOrderStatusQuietly: (orderId: string, status: string, pickupTime?: string) => Promise<void>;
+  /**
+   * Update status without showing loading state (for smoother UI). The change
+   * is shown right away and rolled back if the server rejects it; resolves
+   * false in that case.
+   */
+  updateOrderStatusQuietly: (orderId: string, status: string, pickupTime?: string) => Promise<boolean>;
 
   /** For admin editing an entire order's data (items, total, instructions, etc.). */
   updateOrderData: (orderId: string, updatedOrder: any) => Promise<void>;
+
+  /** Settle a dine-in pay-at-end tab with the method staff collected. */
+  closeOrderTab: (orderId: string, paymentMethod: string) => Promise<void>;
   getOrderHistory: (userId: number) => Order[];
 
   // CART
@@ -105,6 +128,8 @@ interface OrderStore {
   addToCart: (item: Omit<CartItem, 'quantity'>, quantity?: number) => void;
   removeFromCart: (itemId: string) => void;
   setCartQuantity: (itemId: string, quantity: number) => void;
+  /** Replaces the whole cart, e.g. after repricing it for another location */
+  setCartItems: (items: CartItem[]) => void;
   clearCart: () => void;
 
   // Per‐item notes
@@ -774,7 +799,7 @@ export const useOrderStore = create<OrderStore>()(
       // ---------------------------------------------------------
       // Create Order
       // ---------------------------------------------------------
-      addOrder: async (
+      addOrder: async ({
         items,
         total,
         specialInstructions,
@@ -786,8 +811,14 @@ export const useOrderStore = create<OrderStore>()(
         vipCode,
         staffModal = false,
         paymentDetails = null,
-        locationId = null
-      ) => {
+        locationId = null,
+        pickupTime = null,
+        tip = 0,
+        loyaltyPointsRedeemed = 0,
+        promoCode = null,
+        delivery = null,
+        dineIn = null
+      }) => {
         // Skip setting loading state since we're showing a payment processing overlay already
         // This avoids unnecessary UI updates that can slow down the process
         set({ error: null });
@@ -840,6 +871,25 @@ export const useOrderStore = create<OrderStore>()(
               payment_details: paymentDetails,
               // Include location_id if provided
               location_id: locationId,
+              // Scheduled pickup time (null means ASAP)
+              pickup_time: pickupTime,
+              // Tip is already included in total; sent separately for reporting
+              tip,
+              // Points to redeem; the server validates the balance and applies the discount
+              loyalty_points_redeemed: loyaltyPointsRedeemed,
+              // Applied promo code; the server recalculates the discount
+              promo_code: promoCode,
+              // Delivery orders carry only the address; the server works out the zone and fee
+              fulfillment_type: delivery ? 'delivery' : dineIn ? 'dine_in' : 'pickup',
+              ...(delivery && {
+                delivery_address: delivery.address
+              }),
+              // Dine-in orders carry the signed table token; the server resolves the table.
+              // Pay-at-end orders arrive unpaid
+              ...(dineIn && {
+                table_token: dineIn.table.token,
+                pay_at_end: dineIn.pay_at_end
+              }),
               // Include staff order parameters, especially created_by_staff_id
               ...staffOrderParams
             },
@@ -853,12 +903,19 @@ export const useOrderStore = create<OrderStore>()(
             items: foodItems,
             merchandise_items: merchandiseItems,
             total,
+            tip,
             special_instructions: specialInstructions,
             contact_name: contactName || '',
             contact_phone: contactPhone || '',
             contact_email: contactEmail || '',
             transaction_id: transactionId || '',
             payment_method: paymentMethod,
+            pickup_time: pickupTime || undefined,
+            fulfillment_type: delivery ? 'delivery' : dineIn ? 'dine_in' : 'pickup',
+            delivery_address: delivery?.address,
+            delivery_fee: delivery?.quoted_fee,
+            table_context: dineIn?.table,
+            pay_at_end: dineIn?.pay_at_end,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
           };
@@ -868,8 +925,30 @@ export const useOrderStore = create<OrderStore>()(
             cartItems: [] // Clear the cart right away for fast UI
           });
 
-          // Real API call
-          const newOrder = await api.post<Order>('/orders', payload);
+          // Real API call. The same key goes with any offline replay, so an order
+          // whose response was lost isn't created a second time
+          const idempotencyKey = crypto.randomUUID();
+          let newOrder: Order;
+          try {
+            newOrder = await api.post<Order>('/orders', payload, {
+              headers: { 'Idempotency-Key': idempotencyKey }
+            });
+          } catch (postErr) {
+            // Staff orders taken on flaky Wi-Fi are queued and replayed once we're back online
+            if (!staffModal || !isNetworkError(postErr)) throw postErr;
+
+            const label = `${contactName || 'Walk-in'} – $${Number(total).toFixed(2)}`;
+            const queued = await useOfflineQueueStore.getState().queueOrder(payload, label, idempotencyKey);
+            const queuedOrder: Order = {
+              ...optimisticOrder,
+              id: `queued-${queued.id}`,
+              queued_offline: true
+            };
+            set({
+              orders: get().orders.map(order => order.id === tempId ? queuedOrder : order)
+            });
+            return queuedOrder;
+          }
 
           // Replace the optimistic order with the real one
           set({
@@ -939,9 +1018,16 @@ export const useOrderStore = create<OrderStore>()(
             o.id === updatedOrder.id ? updatedOrder : o
           );
           set({ orders: newOrders });
-        } catch (err: any) {
-          set({ error: err.message });
-          // revert or re-fetch if needed
+          return true;
+        } catch (err) {
+          // Put the order back the way it was so the UI doesn't show a change that never happened
+          set({
+            error: handleApiError(err, 'Failed to update order status'),
+            orders: existingOrder
+              ? get().orders.map(o => (o.id === orderId ? existingOrder : o))
+              : get().orders
+          });
+          return false;
         }
       },
 
@@ -963,6 +1049,24 @@ export const useOrderStore = create<OrderStore>()(
         }
       },
 
+      // ---------------------------------------------------------
+      // Close a dine-in tab
+      // ---------------------------------------------------------
+      closeOrderTab: async (orderId, paymentMethod) => {
+        set({ error: null });
+        try {
+          const resp = await api.post<Order>(`/orders/${orderId}/close_tab`, {
+            payment_method: paymentMethod
+          });
+          set({
+            orders: get().orders.map(o => (o.id === resp.id ? resp : o))
+          });
+        } catch (err) {
+          set({ error: err instanceof Error ? err.message : String(err) });
+          throw err;
+        }
+      },
+
       // ---------------------------------------------------------
       // Return order history for a user
       // ---------------------------------------------------------
@@ -1054,6 +1158,10 @@ export const useOrderStore = create<OrderStore>()(
         }
       },
 
+      setCartItems: (items) => {
+        set({ cartItems: items });
+      },
+
       clearCart: () => {
         set({ cartItems: [] });
       },
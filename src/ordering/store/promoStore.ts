@@ -1,14 +1,34 @@
 import { create } from 'zustand';
 import { api } from '../lib/api';
-import type { PromoCode } from '../types/promo';
+import { validatePromoCode as validatePromoCodeRequest } from '../../shared/api/endpoints/orders';
+import { useRestaurantStore } from '../../shared/store/restaurantStore';
+import { handleApiError, isNetworkError } from '../../shared/utils/errorHandler';
+import { calculatePromoBreakdown } from '../utils/promoUtils';
+import type { MenuItem } from '../types/menu';
+import type { PromoBreakdown, PromoCode } from '../types/promo';
+import type { CartItem } from './orderStore';
+
+interface ValidatePromoResponse {
+  promo_code: PromoCode;
+  customer_uses?: number;
+}
 
 interface PromoStore {
   promoCodes: PromoCode[];
   loading: boolean;
   error: string | null;
+  /** Promo the customer applied to the current cart */
+  appliedPromo: PromoCode | null;
+  /** Times the current customer has already used appliedPromo */
+  customerUses: number;
   fetchPromoCodes: () => Promise<void>;
-  validatePromoCode: (code: string) => PromoCode | null;
-  applyDiscount: (total: number, code: string) => Promise<number>;
+  validatePromoCode: (
+    code: string,
+    cartItems: CartItem[],
+    menuItems: MenuItem[],
+    email?: string
+  ) => Promise<PromoBreakdown>;
+  clearAppliedPromo: () => void;
   addPromoCode: (code: Partial<PromoCode>) => Promise<void>;
   updatePromoCode: (code: Partial<PromoCode>) => Promise<void>;
   deletePromoCode: (code: string) => Promise<void>;
@@ -18,6 +38,8 @@ export const usePromoStore = create<PromoStore>((set, get) => ({
   promoCodes: [],
   loading: false,
   error: null,
+  appliedPromo: null,
+  customerUses: 0,
 
   // GET /promo_codes
   fetchPromoCodes: async () => {
@@ -30,40 +52,59 @@ export const usePromoStore = create<PromoStore>((set, get) => ({
     }
   },
 
-  // Validate code locally from fetched list
-  validatePromoCode: (code: string) => {
-    const promoCode = get().promoCodes.find((promo) => {
-      const notExpired = new Date(promo.validUntil) > new Date();
-      const underMaxUses = !promo.maxUses || promo.currentUses < promo.maxUses;
-      return promo.code === code && notExpired && underMaxUses;
+  // Look the code up on the server, then work out the breakdown locally so
+  // the cart can show each line. If the code is usable it becomes the
+  // applied promo.
+  validatePromoCode: async (code, cartItems, menuItems, email) => {
+    const normalized = code.trim().toUpperCase();
+    const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const invalid = (error: string): PromoBreakdown => ({
+      code: normalized,
+      valid: false,
+      error,
+      lines: [],
+      subtotal,
+      totalDiscount: 0,
+      newTotal: subtotal
     });
-    return promoCode || null;
-  },
+    let promo: PromoCode | null = null;
+    let customerUses = 0;
 
-  // Attempt to apply discount via a server call or local logic
-  // If your Rails endpoint calculates discount, do an API call.
-  applyDiscount: async (total: number, code: string) => {
-    // If the server calculates, do something like:
     try {
-      const result = await api.post('/promo_codes/apply', { code, total });
-      // Suppose server returns { newTotal, codeUsed }
-      const { newTotal, codeUsed } = result;
-      // If codeUsed is valid, update usage count locally
-      if (codeUsed) {
-        set((state) => ({
-          promoCodes: state.promoCodes.map((p) =>
-            p.code === codeUsed.code
-              ? { ...p, currentUses: (p.currentUses + 1) }
-              : p
-          )
-        }));
-        return newTotal;
+      const result = await validatePromoCodeRequest(normalized, email) as ValidatePromoResponse | PromoCode;
+      if ('promo_code' in result) {
+        promo = result.promo_code;
+        customerUses = result.customer_uses ?? 0;
+      } else {
+        promo = result;
+      }
+    } catch (err) {
+      // A rejection from the server is final; only an unreachable server
+      // falls back to codes already loaded (staff sessions only)
+      if (!isNetworkError(err)) {
+        return invalid(handleApiError(err, 'Invalid promo code'));
+      }
+      console.warn('Promo validation request failed, checking loaded codes:', err);
+      promo = get().promoCodes.find((p) => p.code.toUpperCase() === normalized) || null;
+      if (!promo) {
+        return invalid("We couldn't check this code right now. Please try again.");
       }
-      return total;
-    } catch (err: any) {
-      // fallback to original total if error
-      return total;
     }
+
+    if (!promo) {
+      return invalid('Invalid promo code');
+    }
+
+    const timeZone = useRestaurantStore.getState().restaurant?.time_zone || undefined;
+    const breakdown = calculatePromoBreakdown(promo, cartItems, menuItems, { customerUses, timeZone });
+    if (breakdown.valid) {
+      set({ appliedPromo: promo, customerUses });
+    }
+    return breakdown;
+  },
+
+  clearAppliedPromo: () => {
+    set({ appliedPromo: null, customerUses: 0 });
   },
 
   // POST /promo_codes
@@ -0,0 +1,165 @@
+// src/ordering/store/purchasingStore.ts
+
+import { create } from 'zustand';
+import { purchaseOrdersApi, suppliersApi } from '../../shared/api/endpoints/purchasing';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import type {
+  PurchaseOrder,
+  PurchaseOrderPayload,
+  ReceivePurchaseOrderLine,
+  SalesVelocity,
+  Supplier,
+  SupplierPayload,
+} from '../types/purchasing';
+
+interface PurchasingStore {
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  salesVelocity: SalesVelocity[];
+  /** Days the salesVelocity numbers cover */
+  velocityWindowDays: number;
+  loading: boolean;
+  error: string | null;
+
+  fetchSuppliers: () => Promise<void>;
+  createSupplier: (payload: SupplierPayload) => Promise<Supplier | null>;
+  updateSupplier: (id: number, payload: Partial<SupplierPayload>) => Promise<Supplier | null>;
+  deleteSupplier: (id: number) => Promise<boolean>;
+  fetchPurchaseOrders: () => Promise<void>;
+  createPurchaseOrder: (payload: PurchaseOrderPayload) => Promise<PurchaseOrder | null>;
+  submitPurchaseOrder: (id: number) => Promise<PurchaseOrder | null>;
+  cancelPurchaseOrder: (id: number) => Promise<PurchaseOrder | null>;
+  receivePurchaseOrder: (
+    id: number,
+    lines: ReceivePurchaseOrderLine[],
+    idempotencyKey: string
+  ) => Promise<PurchaseOrder | null>;
+  fetchSalesVelocity: (days?: number) => Promise<void>;
+}
+
+function replacePurchaseOrder(list: PurchaseOrder[], updated: PurchaseOrder): PurchaseOrder[] {
+  return list.map((po) => (po.id === updated.id ? updated : po));
+}
+
+export const usePurchasingStore = create<PurchasingStore>((set, get) => ({
+  suppliers: [],
+  purchaseOrders: [],
+  salesVelocity: [],
+  velocityWindowDays: 14,
+  loading: false,
+  error: null,
+
+  // GET /suppliers
+  fetchSuppliers: async () => {
+    try {
+      const suppliers = await suppliersApi.getAll();
+      set({ suppliers: suppliers || [] });
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to load suppliers') });
+    }
+  },
+
+  createSupplier: async (payload) => {
+    try {
+      const created = await suppliersApi.create(payload);
+      set((state) => ({
+        suppliers: [...state.suppliers, created].sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      return created;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to create supplier') });
+      return null;
+    }
+  },
+
+  updateSupplier: async (id, payload) => {
+    try {
+      const updated = await suppliersApi.update(id, payload);
+      set((state) => ({
+        suppliers: state.suppliers.map((supplier) => (supplier.id === id ? updated : supplier)),
+      }));
+      return updated;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to update supplier') });
+      return null;
+    }
+  },
+
+  deleteSupplier: async (id) => {
+    try {
+      await suppliersApi.delete(id);
+      set((state) => ({ suppliers: state.suppliers.filter((supplier) => supplier.id !== id) }));
+      return true;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to delete supplier') });
+      return false;
+    }
+  },
+
+  // GET /purchase_orders
+  fetchPurchaseOrders: async () => {
+    set({ loading: true, error: null });
+    try {
+      const purchaseOrders = await purchaseOrdersApi.getAll();
+      set({ purchaseOrders: purchaseOrders || [], loading: false });
+    } catch (err) {
+      set({ loading: false, error: handleApiError(err, 'Failed to load purchase orders') });
+    }
+  },
+
+  createPurchaseOrder: async (payload) => {
+    try {
+      const created = await purchaseOrdersApi.create(payload);
+      set((state) => ({ purchaseOrders: [created, ...state.purchaseOrders] }));
+      return created;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to create purchase order') });
+      return null;
+    }
+  },
+
+  submitPurchaseOrder: async (id) => {
+    try {
+      const updated = await purchaseOrdersApi.submit(id);
+      set((state) => ({ purchaseOrders: replacePurchaseOrder(state.purchaseOrders, updated) }));
+      return updated;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to submit purchase order') });
+      return null;
+    }
+  },
+
+  cancelPurchaseOrder: async (id) => {
+    try {
+      const updated = await purchaseOrdersApi.cancel(id);
+      set((state) => ({ purchaseOrders: replacePurchaseOrder(state.purchaseOrders, updated) }));
+      return updated;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to cancel purchase order') });
+      return null;
+    }
+  },
+
+  // POST /purchase_orders/:id/receive; the API posts the stock and audits.
+  // Retries with the same key are applied once.
+  receivePurchaseOrder: async (id, lines, idempotencyKey) => {
+    try {
+      const updated = await purchaseOrdersApi.receive(id, lines, idempotencyKey);
+      set((state) => ({ purchaseOrders: replacePurchaseOrder(state.purchaseOrders, updated) }));
+      return updated;
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to receive purchase order') });
+      return null;
+    }
+  },
+
+  // GET /inventory/sales_velocity?days=
+  fetchSalesVelocity: async (days = get().velocityWindowDays) => {
+    try {
+      const salesVelocity = await purchaseOrdersApi.getSalesVelocity(days);
+      set({ salesVelocity: salesVelocity || [], velocityWindowDays: days });
+    } catch (err) {
+      set({ error: handleApiError(err, 'Failed to load sales velocity') });
+    }
+  },
+}));
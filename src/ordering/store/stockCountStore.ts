@@ -0,0 +1,116 @@
+// src/ordering/store/stockCountStore.ts
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { stockCountsApi } from '../../shared/api/endpoints/stockCounts';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import type { StockCount, StockCountLine, StockCountScope } from '../types/inventory';
+import type { StockItemType } from '../types/purchasing';
+import { isStockCountExpired, refreshExpectedQuantities } from '../utils/stockCountUtils';
+
+interface StockCountSession {
+  scope: StockCountScope;
+  started_at: string;
+  lines: StockCountLine[];
+}
+
+interface StockCountStore {
+  /** The count in progress, if any */
+  session: StockCountSession | null;
+  history: StockCount[];
+  committing: boolean;
+  error: string | null;
+
+  startSession: (scope: StockCountScope, lines: StockCountLine[]) => void;
+  setCountedQuantity: (itemType: StockItemType, itemId: number, quantity: number | null) => void;
+  /** Replaces expected quantities with a freshly built sheet's, keeping counts */
+  refreshExpected: (current: StockCountLine[]) => void;
+  discardSession: () => void;
+  commitSession: (notes?: string) => Promise<StockCount | null>;
+  fetchHistory: () => Promise<void>;
+}
+
+// Persisted so a count survives the tablet going to sleep or a page reload mid-walk
+export const useStockCountStore = create<StockCountStore>()(
+  persist(
+    (set, get) => ({
+      session: null,
+      history: [],
+      committing: false,
+      error: null,
+
+      startSession: (scope, lines) => {
+        set({ session: { scope, lines, started_at: new Date().toISOString() }, error: null });
+      },
+
+      setCountedQuantity: (itemType, itemId, quantity) => {
+        const { session } = get();
+        if (!session) return;
+        set({
+          session: {
+            ...session,
+            lines: session.lines.map((line) =>
+              line.item_type === itemType && line.item_id === itemId
+                ? { ...line, counted_quantity: quantity, counted_at: quantity === null ? null : new Date().toISOString() }
+                : line
+            ),
+          },
+        });
+      },
+
+      refreshExpected: (current) => {
+        const { session } = get();
+        if (!session) return;
+        set({ session: { ...session, lines: refreshExpectedQuantities(session.lines, current) } });
+      },
+
+      discardSession: () => {
+        set({ session: null, error: null });
+      },
+
+      // POST /stock_counts with only the lines that were actually counted. Each
+      // line carries its counted_at so sales during the count aren't lost
+      commitSession: async (notes) => {
+        const { session } = get();
+        if (!session) return null;
+        set({ committing: true, error: null });
+        try {
+          const committed = await stockCountsApi.create({
+            scope: session.scope,
+            started_at: session.started_at,
+            notes: notes || null,
+            lines: session.lines.filter((line) => line.counted_quantity !== null),
+          });
+          set((state) => ({ session: null, committing: false, history: [committed, ...state.history] }));
+          return committed;
+        } catch (err) {
+          set({ committing: false, error: handleApiError(err, 'Failed to commit stock count') });
+          return null;
+        }
+      },
+
+      // GET /stock_counts
+      fetchHistory: async () => {
+        try {
+          const history = await stockCountsApi.getAll();
+          set({ history: history || [] });
+        } catch (err) {
+          set({ error: handleApiError(err, 'Failed to load stock count history') });
+        }
+      },
+    }),
+    {
+      name: 'stock-count-storage',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ session: state.session }),
+      // A count abandoned for days is no longer worth resuming
+      merge: (persisted, current) => {
+        const session = (persisted as Partial<StockCountStore> | undefined)?.session;
+        return {
+          ...current,
+          session: session && !isStockCountExpired(session.started_at) ? session : null,
+        };
+      },
+    }
+  )
+);
@@ -0,0 +1,37 @@
+// src/ordering/store/tableStore.ts
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { SignedTable } from '../types/dineIn';
+
+interface TableStore {
+  /** Set when the guest arrives from a table QR code; null for pickup/delivery */
+  table: SignedTable | null;
+
+  setTable: (table: SignedTable | null) => void;
+  clearTable: () => void;
+}
+
+// Session storage so a table scanned tonight doesn't follow the guest to next week's pickup order
+export const useTableStore = create<TableStore>()(
+  persist(
+    (set) => ({
+      table: null,
+
+      setTable: (table) => {
+        set({ table });
+      },
+
+      clearTable: () => {
+        set({ table: null });
+      },
+    }),
+    {
+      name: 'table-storage',
+      storage: createJSONStorage(() => sessionStorage),
+      // Tables saved before codes were signed have no token; drop them
+      version: 1,
+      migrate: (persisted) => ({ ...(persisted as TableStore), table: null }),
+    }
+  )
+);
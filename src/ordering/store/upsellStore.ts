@@ -0,0 +1,83 @@
+// src/ordering/store/upsellStore.ts
+
+import { create } from 'zustand';
+import {
+  createUpsellRule,
+  deleteUpsellRule,
+  getUpsellRules,
+  updateUpsellRule,
+} from '../../shared/api/endpoints/upsellRules';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import type { UpsellRule, UpsellRuleFormData } from '../types/upsell';
+
+interface UpsellStore {
+  rules: UpsellRule[];
+  loading: boolean;
+  error: string | null;
+  fetchRules: () => Promise<void>;
+  addRule: (data: UpsellRuleFormData) => Promise<UpsellRule | null>;
+  updateRule: (id: number, data: Partial<UpsellRuleFormData>) => Promise<UpsellRule | null>;
+  deleteRule: (id: number) => Promise<boolean>;
+}
+
+export const useUpsellStore = create<UpsellStore>((set, get) => ({
+  rules: [],
+  loading: false,
+  error: null,
+
+  // GET /upsell_rules
+  fetchRules: async () => {
+    set({ loading: true, error: null });
+    try {
+      const rules = await getUpsellRules();
+      set({ rules, loading: false });
+    } catch (err) {
+      set({ error: handleApiError(err), loading: false });
+    }
+  },
+
+  // POST /upsell_rules
+  addRule: async (data) => {
+    set({ loading: true, error: null });
+    try {
+      const rule = await createUpsellRule(data);
+      set({ rules: [...get().rules, rule], loading: false });
+      return rule;
+    } catch (err) {
+      set({ error: handleApiError(err), loading: false });
+      return null;
+    }
+  },
+
+  // PATCH /upsell_rules/:id
+  updateRule: async (id, data) => {
+    set({ loading: true, error: null });
+    try {
+      const updated = await updateUpsellRule(id, data);
+      set({
+        rules: get().rules.map((r) => (r.id === id ? updated : r)),
+        loading: false
+      });
+      return updated;
+    } catch (err) {
+      set({ error: handleApiError(err), loading: false });
+      return null;
+    }
+  },
+
+  // DELETE /upsell_rules/:id
+  deleteRule: async (id) => {
+    set({ loading: true, error: null });
+    try {
+      await deleteUpsellRule(id);
+      set({
+        rules: get().rules.filter((r) => r.id !== id),
+        loading: false
+      });
+      return true;
+    } catch (err) {
+      set({ error: handleApiError(err), loading: false });
+      return false;
+    }
+  }
+}));
@@ -0,0 +1,60 @@
+// src/ordering/types/delivery.ts
+
+// dine_in orders come from a table QR code (see types/dineIn.ts)
+export type FulfillmentType = 'pickup' | 'delivery' | 'dine_in';
+
+/**
+ * Where a delivery order goes, as entered at checkout
+ */
+export interface DeliveryAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  postal_code: string;
+  instructions?: string; // Gate codes, "leave at the door", etc.
+}
+
+/**
+ * A delivery area drawn in RestaurantSettings. Radius zones are measured
+ * from the restaurant's address; postal-code zones match the customer's code.
+ */
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  type: 'radius' | 'postal_codes';
+  radius_miles?: number;
+  postal_codes?: string[];
+  fee: number;
+  minimum_order: number;
+}
+
+/**
+ * Stored under restaurant.admin_settings.delivery
+ */
+export interface DeliverySettings {
+  enabled: boolean;
+  zones: DeliveryZone[];
+}
+
+/**
+ * Response from POST /delivery/quote. The server geocodes the address and
+ * picks the zone; zone_id is null when the address is outside every zone
+ * or can't be located.
+ */
+export interface DeliveryQuote {
+  distance_miles: number | null;
+  zone_id: string | null;
+  zone_name?: string;
+  fee: number;
+  minimum_order: number;
+}
+
+/**
+ * Delivery fields for a new order. Only the address is sent; the server
+ * prices delivery from it again when the order is placed.
+ */
+export interface OrderDeliveryDetails {
+  address: DeliveryAddress;
+  /** The quoted fee, shown on the pending order until the saved one comes back */
+  quoted_fee: number;
+}
@@ -0,0 +1,28 @@
+// src/ordering/types/dineIn.ts
+
+/**
+ * The table (and optionally seat) a guest scanned a QR code at. Codes are
+ * printed from the active seat layout in SeatLayoutEditor.
+ */
+export interface TableContext {
+  section_id: number; // Seat section (table or counter) from the layout
+  seat_id?: number; // Set when the code is for a single seat
+  label: string; // e.g. "Table 4 · Seat 2", shown to the guest and on the order card
+}
+
+/**
+ * A table with the server-signed token from its QR code. The token is what
+ * identifies the table to the server; the other fields are for display.
+ */
+export interface SignedTable extends TableContext {
+  token: string;
+}
+
+/**
+ * Dine-in fields for a new order. Only the token is sent for the table.
+ */
+export interface OrderDineInDetails {
+  table: SignedTable;
+  /** Leave the order open and settle the bill with staff at the end of the meal */
+  pay_at_end: boolean;
+}
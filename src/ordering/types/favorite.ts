@@ -0,0 +1,24 @@
+// src/ordering/types/favorite.ts
+
+import type { MenuItem } from './menu';
+
+/**
+ * A customer's saved menu item. Plain favorites (the heart) have no name or
+ * selections; named builds ("My usual bowl") also store the chosen options.
+ */
+export interface Favorite {
+  id: number;
+  menu_item_id: string;
+  name?: string | null;
+  /** Chosen option ids keyed by option group id */
+  option_selections?: Record<string, number[]> | null;
+  /** Current menu item, including option groups, embedded by the API */
+  menu_item?: MenuItem;
+  created_at: string;
+}
+
+export interface FavoritePayload {
+  menu_item_id: string;
+  name?: string | null;
+  option_selections?: Record<string, number[]> | null;
+}
@@ -0,0 +1,42 @@
+// src/ordering/types/houseAccount.ts
+
+export interface HouseAccountStaffMember {
+  id: number;
+  name: string;
+  position: string;
+  user_id: number | null;
+  house_account_balance: number; // Positive means the staff member owes
+  active: boolean;
+}
+
+/**
+ * A house account entry. Charges (staff orders, manual charges) are positive;
+ * payments are negative.
+ */
+export interface HouseAccountTransaction {
+  id: number;
+  staff_member_id: number;
+  order_id: number | null;
+  order_number?: string;
+  amount: number;
+  transaction_type: string; // 'order', 'charge', 'payment', 'adjustment'
+  description: string;
+  reference: string;
+  created_by_id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayPeriod {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface HouseAccountStatement {
+  period: PayPeriod;
+  opening_balance: number;
+  charges: number;
+  payments: number; // Positive total of payments received
+  closing_balance: number;
+  transactions: HouseAccountTransaction[]; // In-period, oldest first
+}
@@ -1,3 +1,5 @@
+import type { StockItemType } from './purchasing';
+
 export interface InventoryStatus {
   itemId: string;
   inStock: boolean;
@@ -10,3 +12,128 @@ export interface InventoryUpdate {
   status: 'in_stock' | 'low_stock' | 'out_of_stock';
   quantity?: number;
 }
+
+/**
+ * A stocked ingredient shared by any number of menu items' recipes.
+ * Quantities are in the ingredient's own unit.
+ */
+export interface Ingredient {
+  id: number;
+  name: string;
+  unit: string; // e.g. 'lb', 'oz', 'each'
+  stock_quantity: number;
+  low_stock_threshold: number;
+  cost_per_unit?: number | null;
+  location_id?: number | null; // Set when stock is counted per location
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type IngredientPayload = Pick<
+  Ingredient,
+  'name' | 'unit' | 'stock_quantity' | 'low_stock_threshold' | 'cost_per_unit'
+>;
+
+/**
+ * How much of an ingredient one serving of a menu item uses
+ */
+export interface RecipeLine {
+  id?: number;
+  ingredient_id: number;
+  quantity: number;
+}
+
+/**
+ * Extra (or, when negative, saved) ingredient when a guest picks an option,
+ * e.g. "Extra chicken" +0.25 lb, "No cheese" -1 oz
+ */
+export interface OptionIngredientDelta {
+  id?: number;
+  menu_option_id: number;
+  ingredient_id: number;
+  quantity: number;
+}
+
+/**
+ * Everything an order of one menu item takes out of ingredient stock.
+ * The API depletes these when an order is created and restores them on refunds.
+ */
+export interface MenuItemRecipe {
+  menu_item_id: string;
+  lines: RecipeLine[];
+  option_deltas: OptionIngredientDelta[];
+}
+
+/**
+ * Which items a physical stock count covers
+ */
+export type StockCountScope =
+  | { type: 'all' }
+  | { type: 'category'; category_id: number; name: string }
+  | { type: 'collection'; collection_id: number; name: string };
+
+/**
+ * One row on a count sheet. expected_quantity is the system's sellable stock
+ * (damaged units excluded), refreshed before review; counted_quantity stays
+ * null until someone counts it.
+ */
+export interface StockCountLine {
+  item_type: StockItemType;
+  item_id: number;
+  name: string;
+  group: string; // Category, collection or "Ingredients", for grouping the sheet
+  expected_quantity: number;
+  counted_quantity: number | null;
+  counted_at?: string | null; // When the count was entered, so the API can allow for sales since
+  unit_cost: number; // cost_to_make, ingredient cost_per_unit, merchandise purchase cost, or 0 when unknown
+}
+
+/**
+ * A committed count. For each counted line the API takes the counted
+ * quantity, applies any stock movements after its counted_at, sets that as
+ * the item's sellable stock and records an 'adjustment' audit referencing
+ * the count.
+ */
+export interface StockCount {
+  id: number;
+  scope: StockCountScope;
+  lines: StockCountLine[];
+  notes?: string | null;
+  started_at: string;
+  committed_at: string;
+  user_id?: number;
+}
+
+export type StockCountPayload = Pick<StockCount, 'scope' | 'lines' | 'notes' | 'started_at'>;
+
+/**
+ * Why stock moved. 'order' and 'return' are posted by the API as orders are
+ * placed and refunded; 'damage' comes from mark-as-damaged.
+ */
+export type LedgerReasonType = 'restock' | 'adjustment' | 'damage' | 'order' | 'return' | 'other';
+
+/**
+ * One stock movement for a menu item or merchandise variant, from
+ * GET /inventory/ledger. Wraps the per-item stock audits in a common shape.
+ */
+export interface InventoryLedgerEntry {
+  id: string; // e.g. "menu_item:42", unique across audit tables
+  item_type: Exclude<StockItemType, 'ingredient'>;
+  item_id: number;
+  item_name: string;
+  previous_quantity: number;
+  new_quantity: number;
+  // Damage entries: marking units damaged moves them into damaged_quantity,
+  // which may leave stock_quantity unchanged
+  previous_damaged_quantity?: number | null;
+  new_damaged_quantity?: number | null;
+  reason_type: LedgerReasonType;
+  reason?: string | null; // Free text, e.g. the damage reason or adjustment details
+  unit_cost?: number | null;
+  user_id?: number | null;
+  user_name?: string | null;
+  order_id?: number | null;
+  purchase_order_id?: number | null;
+  stock_count_id?: number | null;
+  created_at: string;
+}
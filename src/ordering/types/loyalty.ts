@@ -0,0 +1,47 @@
+// src/ordering/types/loyalty.ts
+
+/**
+ * Restaurant-wide loyalty program configuration
+ */
+export interface LoyaltySettings {
+  enabled: boolean;
+  earn_points_per_dollar: number; // points earned for every $1 spent
+  redeem_points_per_dollar: number; // points needed for $1 off
+  min_redeem_points: number; // smallest redemption allowed
+  max_redeem_percentage: number; // max share (0-100) of an order payable with points
+}
+
+export type LoyaltyTransactionType = 'earn' | 'redeem' | 'adjustment' | 'reversal';
+
+/**
+ * A single entry in a user's points ledger.
+ * `points` is signed: positive for credits, negative for debits.
+ */
+export interface LoyaltyTransaction {
+  id: number;
+  user_id: number;
+  order_id?: number | null;
+  order_number?: string | null;
+  transaction_type: LoyaltyTransactionType;
+  points: number;
+  balance_after: number;
+  reason?: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+}
+
+/**
+ * Points balance and totals for one user
+ */
+export interface LoyaltyAccount {
+  user_id: number;
+  points_balance: number;
+  lifetime_points_earned: number;
+  lifetime_points_redeemed: number;
+  recent_transactions?: LoyaltyTransaction[];
+}
+
+export interface LoyaltyAdjustmentData {
+  points: number;
+  reason: string;
+}
@@ -60,6 +60,7 @@ export interface MenuItemStockAudit {
   reason?: string;
   user_id?: number;
   order_id?: number;
+  purchase_order_id?: number; // Set when stock came in on a received PO
   created_at: string;
   updated_at: string;
 }
@@ -123,6 +124,10 @@ export interface MenuItem {
   damaged_quantity?: number;
   low_stock_threshold?: number;
   available_quantity?: number; // Computed: stock_quantity - damaged_quantity
+
+  // Ingredient-level inventory, computed by the API from the item's recipe
+  recipe_servings_available?: number | null; // Servings the scarcest ingredient allows; null without a recipe
+  recipe_low_stock?: boolean; // A recipe ingredient is at or below its own low-stock threshold
   
   // Visibility status
   hidden?: boolean;
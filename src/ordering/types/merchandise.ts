@@ -12,6 +12,7 @@ export interface MerchandiseVariant {
   price_adjustment: number;
   stock_quantity: number;
   damaged_quantity?: number;
+  unit_cost?: number | null; // Latest purchase cost, set by the API when a PO line is received
   low_stock_threshold?: number;
   stock_status?: 'in_stock' | 'out_of_stock' | 'low_stock';
   in_stock?: boolean;
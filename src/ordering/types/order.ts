@@ -1,5 +1,7 @@
 // src/ordering/types/order.ts
 import { Location } from '../../shared/types/Location';
+import type { DeliveryAddress, FulfillmentType } from './delivery';
+import type { TableContext } from './dineIn';
 
 export interface OrderItem {
   id: string;
@@ -29,13 +31,25 @@ export interface Order {
   updated_at?: string;
   createdAt?: string;
   updatedAt?: string;
-  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'completed' | 'cancelled' | 'error';
+  status:
+    | 'pending'
+    | 'confirmed'
+    | 'preparing'
+    | 'ready'
+    | 'out_for_delivery' // Delivery orders only: handed to the driver
+    | 'delivered' // Delivery orders only: the delivery equivalent of completed
+    | 'completed'
+    | 'cancelled'
+    | 'error';
   items: OrderItem[];
   merchandise_items?: MerchandiseOrderItem[];
   total: number;
   subtotal?: number;
   tax?: number;
   tip?: number;
+  loyalty_points_redeemed?: number;
+  loyalty_discount?: number;
+  loyalty_points_earned?: number;
   special_instructions?: string;
   contact_name?: string;
   contact_phone?: string;
@@ -48,9 +62,43 @@ export interface Order {
   created_by_staff_id?: number | string | null; // ID of the staff member who created this order
   is_staff_order?: boolean; // Flag to indicate if this is a staff order (vs customer order)
   error?: string; // For error handling in optimistic updates
+  queued_offline?: boolean; // Created while offline; will be sent when the connection returns
   global_last_acknowledged_at?: string; // Timestamp when any admin acknowledged the order
   location?: Location; // Location information for multi-location restaurants
   location_id?: number; // ID of the location for this order
+  tracking_token?: string; // Signed token that lets guests open the tracking page
+  reservation_id?: number; // Set on reservation pre-orders; pickup_time is the reservation start
+  fired_at?: string | null; // When staff sent a pre-order to the kitchen; held until then
+  fulfillment_type?: FulfillmentType; // Missing on older orders, which are all pickup
+  delivery_address?: DeliveryAddress;
+  delivery_fee?: number; // Included in total
+  delivery_zone_id?: string;
+  driver_name?: string | null; // Assigned by staff in OrderManager
+  table_context?: TableContext; // Dine-in orders: where the guest is seated
+  pay_at_end?: boolean; // Dine-in tab left open at checkout; staff collect payment later
+  tab_closed_at?: string | null; // When staff settled a pay-at-end tab
+}
+
+/**
+ * Public view of an order returned by GET /orders/:id/track.
+ * Contains only what the customer needs to follow their order.
+ */
+export interface OrderTracking {
+  id: string;
+  order_number?: string;
+  status: Order['status'];
+  items: Pick<OrderItem, 'name' | 'quantity'>[];
+  total: number;
+  pickup_time?: string; // Pickup or delivery time the customer asked for (scheduled orders)
+  estimated_pickup_time?: string; // ETA set by staff when they start preparing
+  created_at: string;
+  updated_at?: string;
+  contact_name?: string;
+  location?: Pick<Location, 'name' | 'address'>;
+  fulfillment_type?: FulfillmentType;
+  delivery_address?: DeliveryAddress;
+  table_context?: TableContext;
+  status_history?: { status: Order['status']; at: string }[];
 }
 
 export interface OrderManagerProps {
@@ -0,0 +1,47 @@
+// src/ordering/types/pickup.ts
+
+/**
+ * Operating hours for a single day of the week as returned by /operating_hours
+ */
+export interface OperatingHour {
+  id: number;
+  restaurant_id: number;
+  day_of_week: number; // 0-6, where 0 is Sunday
+  open_time: string | null;
+  close_time: string | null;
+  closed: boolean;
+}
+
+/**
+ * Special event row as returned by /special_events
+ * Events override the regular operating hours for their date
+ */
+export interface PickupSpecialEvent {
+  id: number;
+  event_date: string; // "YYYY-MM-DD"
+  start_time: string | null;
+  end_time: string | null;
+  closed: boolean;
+  exclusive_booking: boolean;
+  description?: string | null;
+}
+
+/**
+ * A single selectable pickup time
+ */
+export interface PickupSlot {
+  time: string; // ISO timestamp sent to the API as pickup_time
+  label: string; // e.g. "5:30 PM"
+  available: boolean;
+  blockedReason?: string;
+}
+
+/**
+ * All pickup slots for one calendar day
+ */
+export interface PickupDay {
+  date: string; // "YYYY-MM-DD"
+  label: string; // e.g. "Today", "Tomorrow", "Fri, Mar 14"
+  closedReason?: string;
+  slots: PickupSlot[];
+}
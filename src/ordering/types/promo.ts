@@ -1,8 +1,82 @@
+export type PromoDiscountType = 'percentage' | 'fixed_amount' | 'bogo' | 'free_item';
+
 export interface PromoCode {
   code: string;
+  /** Defaults to 'percentage' for codes created before discount types existed */
+  discountType?: PromoDiscountType;
   discountPercent: number;
+  /** Dollar amount off for 'fixed_amount' promos */
+  discountAmount?: number;
+  /** BOGO: buy this many eligible items... */
+  buyQuantity?: number;
+  /** ...and get this many (the cheapest ones) at discountPercent off (100 = free) */
+  getQuantity?: number;
+  /** Menu item given for free by a 'free_item' promo (must be in the cart) */
+  freeItemId?: string | null;
+
+  /** Limit the discount to items in these categories (empty = whole order) */
+  eligibleCategoryIds?: number[];
+  /** Limit the discount to these items (empty = whole order) */
+  eligibleItemIds?: string[];
+
+  minSubtotal?: number | null;
+  maxUsesPerCustomer?: number | null;
+  /** Days of the week the code works (0-6, where 0 is Sunday; empty = every day) */
+  activeDays?: number[];
+  /** Daily time window, "HH:MM" in restaurant local time */
+  startTime?: string | null;
+  endTime?: string | null;
+
+  validFrom?: string | null;
   validUntil: string;
   maxUses?: number;
   currentUses: number;
   description?: string;
 }
+
+/**
+ * One line of a promo breakdown, e.g. "BOGO: Spam Musubi -$4.50"
+ */
+export interface PromoDiscountLine {
+  label: string;
+  amount: number;
+  itemId?: string;
+}
+
+/**
+ * Result of validating a promo against the current cart
+ */
+export interface PromoBreakdown {
+  code: string;
+  valid: boolean;
+  /** Why the code can't be applied right now */
+  error?: string;
+  lines: PromoDiscountLine[];
+  subtotal: number;
+  totalDiscount: number;
+  newTotal: number;
+}
+
+/**
+ * A single order that used a promo code
+ */
+export interface PromoCodeUsage {
+  order_id: number;
+  order_number?: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  user_id: number | null;
+  discount_amount: number;
+  order_total: number;
+  created_at: string;
+}
+
+export interface PromoCodeUsageStats {
+  code: string;
+  total_uses: number;
+  unique_customers: number;
+  total_discount: number;
+  total_revenue: number;
+  average_order_value: number;
+  usages: PromoCodeUsage[];
+}
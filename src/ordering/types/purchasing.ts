@@ -0,0 +1,97 @@
+// src/ordering/types/purchasing.ts
+
+/**
+ * Someone we buy stock from
+ */
+export interface Supplier {
+  id: number;
+  name: string;
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  lead_time_days?: number | null; // Typical days from order to delivery
+  notes?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SupplierPayload = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>;
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'submitted'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+/** What a PO line restocks */
+export type StockItemType = 'menu_item' | 'merchandise_variant' | 'ingredient';
+
+export interface PurchaseOrderLine {
+  id?: number;
+  item_type: StockItemType;
+  item_id: number;
+  item_name: string; // Snapshot so the PO still reads right after renames
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrder {
+  id: number;
+  supplier_id: number;
+  supplier_name?: string;
+  status: PurchaseOrderStatus;
+  expected_on?: string | null; // YYYY-MM-DD
+  notes?: string | null;
+  lines: PurchaseOrderLine[];
+  location_id?: number | null;
+  submitted_at?: string | null;
+  received_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface PurchaseOrderPayload {
+  supplier_id: number;
+  expected_on?: string | null;
+  notes?: string | null;
+  location_id?: number | null;
+  lines: Omit<PurchaseOrderLine, 'id' | 'quantity_received'>[];
+}
+
+/**
+ * Quantity arriving now for one line. The API adds it to stock and writes a
+ * 'restock' stock audit pointing back at the PO.
+ */
+export interface ReceivePurchaseOrderLine {
+  line_id: number;
+  quantity: number;
+}
+
+/**
+ * Units sold (or, for ingredients, used) over the requested window
+ */
+export interface SalesVelocity {
+  item_type: StockItemType;
+  item_id: number;
+  quantity: number;
+}
+
+/**
+ * Anything with a stock level that a PO can restock
+ */
+export interface StockedItem {
+  item_type: StockItemType;
+  item_id: number;
+  name: string;
+  stock_quantity: number;
+  low_stock_threshold: number;
+  unit_cost?: number | null;
+}
+
+export interface ReorderSuggestion extends StockedItem {
+  daily_usage: number;
+  days_of_stock: number | null; // null when nothing has sold recently
+  suggested_quantity: number;
+}
@@ -0,0 +1,37 @@
+// src/ordering/types/upsell.ts
+
+import type { MenuItem } from './menu';
+
+/**
+ * Admin-configured rule describing when to suggest extra items.
+ * Every condition that is set must match the cart for the rule to fire;
+ * empty arrays and null thresholds are ignored.
+ */
+export interface UpsellRule {
+  id: number;
+  name: string;
+  active: boolean;
+  priority: number; // higher priority rules are shown first
+
+  // Conditions
+  cart_has_category_ids: number[]; // cart contains an item from any of these
+  cart_lacks_category_ids: number[]; // cart contains no items from any of these
+  min_subtotal: number | null;
+  max_subtotal: number | null;
+
+  // Suggestions
+  suggest_category_ids: number[];
+  suggest_item_ids: string[];
+  headline: string | null; // e.g. "Add a drink?"
+}
+
+export type UpsellRuleFormData = Omit<UpsellRule, 'id'> & { id?: number };
+
+/**
+ * A menu item suggested to the customer, along with the rule that produced it
+ */
+export interface UpsellSuggestion {
+  item: MenuItem;
+  rule: UpsellRule;
+  score: number;
+}
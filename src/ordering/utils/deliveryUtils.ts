@@ -0,0 +1,81 @@
+// src/ordering/utils/deliveryUtils.ts
+
+import type { Order } from '../types/order';
+import type { DeliveryAddress, DeliveryQuote, DeliverySettings, DeliveryZone } from '../types/delivery';
+
+export const DEFAULT_DELIVERY_SETTINGS: DeliverySettings = {
+  enabled: false,
+  zones: [],
+};
+
+export const EMPTY_DELIVERY_ADDRESS: DeliveryAddress = {
+  line1: '',
+  line2: '',
+  city: '',
+  postal_code: '',
+  instructions: '',
+};
+
+/**
+ * Fills in defaults for anything missing from admin_settings
+ */
+export function getDeliverySettings(adminSettings?: Record<string, unknown> | null): DeliverySettings {
+  const saved = (adminSettings?.delivery || {}) as Partial<DeliverySettings>;
+  return {
+    enabled: saved.enabled ?? DEFAULT_DELIVERY_SETTINGS.enabled,
+    zones: Array.isArray(saved.zones) ? saved.zones : DEFAULT_DELIVERY_SETTINGS.zones,
+  };
+}
+
+export function createDeliveryZone(): DeliveryZone {
+  return {
+    id: `zone-${Date.now()}`,
+    name: '',
+    type: 'radius',
+    radius_miles: 3,
+    postal_codes: [],
+    fee: 0,
+    minimum_order: 0,
+  };
+}
+
+export function normalizePostalCode(code: string): string {
+  return code.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Splits a comma/space/newline separated list as typed in settings
+ */
+export function parsePostalCodes(text: string): string[] {
+  return Array.from(new Set(text.split(/[\s,]+/).map(normalizePostalCode).filter(Boolean)));
+}
+
+/**
+ * How much more the customer must add to reach the zone's minimum (0 when met).
+ * Measured against the food subtotal before promos and points, as the server does.
+ */
+export function getMinimumShortfall(quote: Pick<DeliveryQuote, 'minimum_order'>, subtotal: number): number {
+  return Math.max(0, Math.round((quote.minimum_order - subtotal) * 100) / 100);
+}
+
+export function isDeliveryAddressComplete(address: DeliveryAddress): boolean {
+  return !!(address.line1.trim() && address.city.trim() && address.postal_code.trim());
+}
+
+export function formatDeliveryAddress(address?: DeliveryAddress | null): string {
+  if (!address) return '';
+  return [address.line1, address.line2, address.city, address.postal_code]
+    .map((part) => (part || '').trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function isDeliveryOrder(order: Pick<Order, 'fulfillment_type'>): boolean {
+  return order.fulfillment_type === 'delivery';
+}
+
+/** "out_for_delivery" => "Out for delivery" */
+export function formatOrderStatus(status: string): string {
+  const words = status.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
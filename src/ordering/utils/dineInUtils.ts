@@ -0,0 +1,38 @@
+// src/ordering/utils/dineInUtils.ts
+
+import type { Order } from '../types/order';
+
+/**
+ * "Table 4" or "Table 4 · Seat 2"
+ */
+export function formatTableLabel(sectionName: string, seatLabel?: string | null): string {
+  const seat = (seatLabel || '').trim();
+  return seat ? `${sectionName} · ${seat}` : sectionName;
+}
+
+/**
+ * Menu link encoded in a table's QR code. Only the signed token travels in
+ * the link, so editing it can't move an order to another table.
+ */
+export function buildTableOrderPath(token: string): string {
+  return `/menu?${new URLSearchParams({ t: token }).toString()}`;
+}
+
+/**
+ * The signed token from a scanned link, or null for ordinary menu visits.
+ * The server resolves it to the table (see resolveTableToken).
+ */
+export function parseTableToken(params: URLSearchParams): string | null {
+  return params.get('t')?.trim() || null;
+}
+
+export function isDineInOrder(order: Pick<Order, 'fulfillment_type'>): boolean {
+  return order.fulfillment_type === 'dine_in';
+}
+
+/**
+ * A pay-at-end tab staff haven't settled yet
+ */
+export function isOpenTab(order: Pick<Order, 'pay_at_end' | 'tab_closed_at'>): boolean {
+  return !!order.pay_at_end && !order.tab_closed_at;
+}
@@ -0,0 +1,63 @@
+// src/ordering/utils/favoriteUtils.ts
+
+import { CartItem } from '../store/orderStore';
+import { Favorite } from '../types/favorite';
+import { MenuItem } from '../types/menu';
+import { priceCustomizations } from './reorderUtils';
+
+/**
+ * Names of saved options that are no longer orderable (removed or marked unavailable).
+ * An empty list means the favorite can still be added as saved.
+ */
+export function getUnavailableFavoriteOptions(favorite: Favorite, menuItem: MenuItem): string[] {
+  const unavailable: string[] = [];
+  const groups = menuItem.option_groups || [];
+
+  Object.entries(favorite.option_selections || {}).forEach(([groupId, optionIds]) => {
+    const group = groups.find((g) => String(g.id) === groupId);
+    optionIds.forEach((optionId) => {
+      const option = group?.options.find((o) => o.id === optionId);
+      if (!option) {
+        unavailable.push('A saved option');
+      } else if (option.available === false || option.is_available === false) {
+        unavailable.push(option.name);
+      }
+    });
+  });
+
+  return unavailable;
+}
+
+/**
+ * Converts saved option ids into the group name => option names format used by the cart
+ */
+export function getFavoriteCustomizations(favorite: Favorite, menuItem: MenuItem): Record<string, string[]> {
+  const customizations: Record<string, string[]> = {};
+  (menuItem.option_groups || []).forEach((group) => {
+    const optionIds = favorite.option_selections?.[String(group.id)] || [];
+    const names = group.options.filter((o) => optionIds.includes(o.id)).map((o) => o.name);
+    if (names.length > 0) {
+      customizations[group.name] = names;
+    }
+  });
+  return customizations;
+}
+
+/**
+ * Builds a cart item for a favorite at current prices, or null if its
+ * selections no longer satisfy the item's option groups.
+ */
+export function buildFavoriteCartItem(favorite: Favorite, menuItem: MenuItem): Omit<CartItem, 'quantity'> | null {
+  const customizations = getFavoriteCustomizations(favorite, menuItem);
+  const optionsPrice = priceCustomizations(menuItem.option_groups || [], customizations);
+  if (optionsPrice === null) return null;
+
+  return {
+    id: String(menuItem.id),
+    name: menuItem.name,
+    price: Number(menuItem.price) + optionsPrice,
+    customizations: (Object.keys(customizations).length > 0 ? customizations : []) as CartItem['customizations'],
+    advance_notice_hours: menuItem.advance_notice_hours,
+    image: menuItem.image || menuItem.image_url
+  };
+}
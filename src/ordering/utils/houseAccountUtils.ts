@@ -0,0 +1,126 @@
+// src/ordering/utils/houseAccountUtils.ts
+
+import { format, parseISO, subDays } from 'date-fns';
+import type {
+  HouseAccountStaffMember,
+  HouseAccountStatement,
+  HouseAccountTransaction,
+  PayPeriod,
+} from '../types/houseAccount';
+
+/**
+ * The two weeks ending today, the default pay period for statements
+ */
+export function getDefaultPayPeriod(today: Date = new Date()): PayPeriod {
+  return {
+    start: format(subDays(today, 13), 'yyyy-MM-dd'),
+    end: format(today, 'yyyy-MM-dd'),
+  };
+}
+
+/** "04/01/2025 – 04/14/2025" */
+export function formatPayPeriod(period: PayPeriod): string {
+  return `${format(parseISO(period.start), 'MM/dd/yyyy')} – ${format(parseISO(period.end), 'MM/dd/yyyy')}`;
+}
+
+function transactionDay(transaction: HouseAccountTransaction): string {
+  return format(new Date(transaction.created_at), 'yyyy-MM-dd');
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * A statement for one pay period. Opening and closing balances are worked
+ * back from the current balance, so the full transaction history is needed.
+ */
+export function buildHouseAccountStatement(
+  transactions: HouseAccountTransaction[],
+  currentBalance: number,
+  period: PayPeriod
+): HouseAccountStatement {
+  let sinceStart = 0;
+  let afterEnd = 0;
+  let charges = 0;
+  let payments = 0;
+  const inPeriod: HouseAccountTransaction[] = [];
+
+  transactions.forEach((transaction) => {
+    const day = transactionDay(transaction);
+    const amount = Number(transaction.amount);
+    if (day >= period.start) sinceStart += amount;
+    if (day > period.end) {
+      afterEnd += amount;
+      return;
+    }
+    if (day < period.start) return;
+
+    inPeriod.push(transaction);
+    if (amount >= 0) {
+      charges += amount;
+    } else {
+      payments += -amount;
+    }
+  });
+
+  return {
+    period,
+    opening_balance: roundMoney(currentBalance - sinceStart),
+    charges: roundMoney(charges),
+    payments: roundMoney(payments),
+    closing_balance: roundMoney(currentBalance - afterEnd),
+    transactions: inPeriod.sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  };
+}
+
+export function getSettlementReference(period: PayPeriod): string {
+  return `Payroll ${formatPayPeriod(period)}`;
+}
+
+/**
+ * What to deduct for a pay period: the balance owed at the end of the period,
+ * less anything paid since. Nothing once the period has been settled, so a
+ * second export or settlement can't take it twice.
+ */
+export function getPayrollDeduction(
+  transactions: HouseAccountTransaction[],
+  currentBalance: number,
+  period: PayPeriod
+): number {
+  const reference = getSettlementReference(period);
+  if (transactions.some((transaction) => transaction.reference === reference)) return 0;
+
+  const { closing_balance } = buildHouseAccountStatement(transactions, currentBalance, period);
+  const paidSince = transactions
+    .filter((transaction) => Number(transaction.amount) < 0 && transactionDay(transaction) > period.end)
+    .reduce((sum, transaction) => sum - Number(transaction.amount), 0);
+  return roundMoney(Math.max(0, closing_balance - paidSince));
+}
+
+/**
+ * One row per staff member with a deduction for the period, for the payroll
+ * export. Staff without loaded transactions are left out.
+ */
+export function buildPayrollDeductionRows(
+  staffMembers: HouseAccountStaffMember[],
+  transactionsByStaff: Map<number, HouseAccountTransaction[]>,
+  period: PayPeriod
+) {
+  const periodLabel = formatPayPeriod(period);
+  return staffMembers
+    .flatMap((staff) => {
+      const transactions = transactionsByStaff.get(staff.id);
+      if (!transactions) return [];
+      const deduction = getPayrollDeduction(transactions, Number(staff.house_account_balance), period);
+      return deduction > 0 ? [{ staff, deduction }] : [];
+    })
+    .sort((a, b) => a.staff.name.localeCompare(b.staff.name))
+    .map(({ staff, deduction }) => ({
+      'Staff ID': staff.id,
+      'Name': staff.name,
+      'Position': staff.position,
+      'Pay Period': periodLabel,
+      'Deduction': deduction,
+    }));
+}
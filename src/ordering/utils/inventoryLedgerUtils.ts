@@ -0,0 +1,110 @@
+// src/ordering/utils/inventoryLedgerUtils.ts
+
+import type { InventoryLedgerEntry, LedgerReasonType } from '../types/inventory';
+
+export const LEDGER_REASON_LABELS: Record<LedgerReasonType, string> = {
+  restock: 'Restock',
+  adjustment: 'Adjustment',
+  damage: 'Damage',
+  order: 'Order',
+  return: 'Return',
+  other: 'Other',
+};
+
+export interface LedgerFilters {
+  reasonType: LedgerReasonType | '';
+  userName: string;
+  orderId: string;
+  search: string; // Matches item names
+}
+
+export interface ShrinkageRow {
+  label: string;
+  quantity: number;
+  value: number;
+}
+
+export interface ShrinkageReport {
+  byReason: ShrinkageRow[];
+  byItem: ShrinkageRow[];
+  totalQuantity: number;
+  totalValue: number;
+}
+
+export const EMPTY_LEDGER_FILTERS: LedgerFilters = {
+  reasonType: '',
+  userName: '',
+  orderId: '',
+  search: '',
+};
+
+// Negative adjustments with no stated reason are unexplained shrinkage
+const UNEXPLAINED_LABEL = 'Unexplained (count/adjustment)';
+
+export function getLedgerChange(entry: InventoryLedgerEntry): number {
+  return entry.new_quantity - entry.previous_quantity;
+}
+
+/** Units newly marked damaged by an entry; 0 for entries that don't touch damaged stock */
+export function getDamagedChange(entry: InventoryLedgerEntry): number {
+  return (entry.new_damaged_quantity ?? 0) - (entry.previous_damaged_quantity ?? 0);
+}
+
+export function filterLedgerEntries(entries: InventoryLedgerEntry[], filters: LedgerFilters): InventoryLedgerEntry[] {
+  const search = filters.search.trim().toLowerCase();
+  const orderId = filters.orderId.replace('#', '').trim();
+  return entries.filter((entry) => {
+    if (filters.reasonType && entry.reason_type !== filters.reasonType) return false;
+    if (filters.userName && entry.user_name !== filters.userName) return false;
+    if (orderId && String(entry.order_id ?? '') !== orderId) return false;
+    if (search && !entry.item_name.toLowerCase().includes(search)) return false;
+    return true;
+  });
+}
+
+function addToGroup(groups: Map<string, ShrinkageRow>, label: string, quantity: number, value: number) {
+  const row = groups.get(label) || { label, quantity: 0, value: 0 };
+  row.quantity += quantity;
+  row.value += value;
+  groups.set(label, row);
+}
+
+function sortedRows(groups: Map<string, ShrinkageRow>): ShrinkageRow[] {
+  return Array.from(groups.values()).sort((a, b) => b.value - a.value || b.quantity - a.quantity);
+}
+
+/**
+ * Units lost to damage and downward adjustments, valued at unit cost and
+ * grouped by reason and by item. Damage is measured by the rise in damaged
+ * quantity, adjustments by the drop in stock. Restocks, orders and returns
+ * are left out.
+ */
+export function buildShrinkageReport(entries: InventoryLedgerEntry[]): ShrinkageReport {
+  const byReason = new Map<string, ShrinkageRow>();
+  const byItem = new Map<string, ShrinkageRow>();
+  let totalQuantity = 0;
+  let totalValue = 0;
+
+  entries.forEach((entry) => {
+    if (entry.reason_type !== 'damage' && entry.reason_type !== 'adjustment') return;
+    const lost = entry.reason_type === 'damage' ? getDamagedChange(entry) : -getLedgerChange(entry);
+    if (lost <= 0) return;
+
+    const reason = entry.reason_type === 'damage'
+      ? (entry.reason || '').trim() || 'Damage (no reason)'
+      : UNEXPLAINED_LABEL;
+    const value = lost * (entry.unit_cost || 0);
+
+    addToGroup(byReason, reason, lost, value);
+    addToGroup(byItem, entry.item_name, lost, value);
+    totalQuantity += lost;
+    totalValue += value;
+  });
+
+  return {
+    byReason: sortedRows(byReason),
+    byItem: sortedRows(byItem),
+    totalQuantity,
+    totalValue,
+  };
+}
@@ -2,6 +2,15 @@
 
 import { OrderItem } from '../components/admin/AdminEditOrderModal';
 import { MenuItem } from '../types/menu';
+import { Ingredient, RecipeLine } from '../types/inventory';
+
+type StockStatus = 'out_of_stock' | 'low_stock' | 'in_stock';
+
+const STOCK_STATUS_SEVERITY: Record<StockStatus, number> = {
+  in_stock: 0,
+  low_stock: 1,
+  out_of_stock: 2,
+};
 
 /**
  * Calculates the effective available quantity for an item, taking into account
@@ -96,6 +105,12 @@ export function getStockStatusLabel(
  * @returns The available quantity, or Infinity if stock tracking is disabled and item is in stock
  */
 export function calculateAvailableQuantity(item: MenuItem): number {
+  // A recipe caps what can be made regardless of the item's own count
+  const recipeLimit = item.recipe_servings_available ?? Infinity;
+  return Math.min(calculateItemAvailableQuantity(item), Math.max(0, recipeLimit));
+}
+
+function calculateItemAvailableQuantity(item: MenuItem): number {
   // If inventory tracking is disabled, check the manually set stock status
   if (!item.enable_stock_tracking) {
     // If manually set to out of stock, return 0
@@ -120,11 +135,35 @@ export function calculateAvailableQuantity(item: MenuItem): number {
 
 /**
  * Derives the stock status for a menu item.
+ * Items with a recipe also take the status of their scarcest ingredient,
+ * whichever is worse.
  *
  * @param item The menu item to check
  * @returns 'out_of_stock', 'low_stock', or 'in_stock'
  */
-export function deriveStockStatus(item: MenuItem): 'out_of_stock' | 'low_stock' | 'in_stock' {
+export function deriveStockStatus(item: MenuItem): StockStatus {
+  const itemStatus = deriveItemStockStatus(item);
+  const recipeStatus = deriveRecipeStockStatus(item);
+  return STOCK_STATUS_SEVERITY[recipeStatus] > STOCK_STATUS_SEVERITY[itemStatus] ? recipeStatus : itemStatus;
+}
+
+/**
+ * Stock status from the item's recipe alone; 'in_stock' when it has none
+ */
+export function deriveRecipeStockStatus(item: MenuItem): StockStatus {
+  if (item.recipe_servings_available === undefined || item.recipe_servings_available === null) {
+    return 'in_stock';
+  }
+  if (item.recipe_servings_available <= 0) {
+    return 'out_of_stock';
+  }
+  if (item.recipe_low_stock || item.recipe_servings_available <= (item.low_stock_threshold || 5)) {
+    return 'low_stock';
+  }
+  return 'in_stock';
+}
+
+function deriveItemStockStatus(item: MenuItem): StockStatus {
   // If inventory tracking is disabled, respect the manually set stock_status
   if (!item.enable_stock_tracking) {
     // Check if the item has a manually set stock_status
@@ -150,3 +189,37 @@ export function deriveStockStatus(item: MenuItem): 'out_of_stock' | 'low_stock'
   
   return 'in_stock';
 }
+
+/**
+ * Servings a recipe allows from current ingredient stock, and which
+ * ingredient runs out first. Mirrors the API's recipe_servings_available
+ * so admins can preview a recipe before saving it.
+ *
+ * @param lines The recipe's ingredient lines
+ * @param ingredients Ingredient catalog keyed by id
+ * @returns servings (Infinity for an empty recipe), the limiting ingredient, and whether any line is low
+ */
+export function calculateRecipeServings(
+  lines: RecipeLine[],
+  ingredients: Record<number, Ingredient>
+): { servings: number; limiting: Ingredient | null; low: boolean } {
+  let servings = Infinity;
+  let limiting: Ingredient | null = null;
+  let low = false;
+
+  for (const line of lines) {
+    const ingredient = ingredients[line.ingredient_id];
+    if (!ingredient || line.quantity <= 0) continue;
+
+    const possible = Math.floor(Math.max(0, ingredient.stock_quantity) / line.quantity);
+    if (possible < servings) {
+      servings = possible;
+      limiting = ingredient;
+    }
+    if (ingredient.stock_quantity <= ingredient.low_stock_threshold) {
+      low = true;
+    }
+  }
+
+  return { servings, limiting, low };
+}
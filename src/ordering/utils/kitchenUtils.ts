@@ -0,0 +1,139 @@
+// src/ordering/utils/kitchenUtils.ts
+
+import { MenuItem } from '../types/menu';
+import { Order } from '../types/order';
+import type { OrderQueryParams } from '../store/orderStore';
+import { isDeliveryOrder } from './deliveryUtils';
+import {
+  DEFAULT_TIME_ZONE,
+  addDaysToDateKey,
+  getZonedDateKey,
+  zonedTimeToDate
+} from '../../shared/utils/timeZoneUtils';
+
+export type KitchenColumnKey = 'new' | 'preparing' | 'ready';
+
+export const KITCHEN_COLUMNS: { key: KitchenColumnKey; label: string }[] = [
+  { key: 'new', label: 'New' },
+  { key: 'preparing', label: 'Preparing' },
+  { key: 'ready', label: 'Ready' }
+];
+
+/** Statuses the board fetches; completed and cancelled orders never come back */
+export const KITCHEN_ACTIVE_STATUSES: Order['status'][] = ['pending', 'confirmed', 'preparing', 'ready'];
+
+/** How long before a scheduled pickup its order appears on the board */
+export const KITCHEN_PREP_LEAD_MINUTES = 30;
+
+/** Status an order moves to when it's bumped; see getKitchenNextStatus for delivery orders */
+export const KITCHEN_NEXT_STATUS: Partial<Record<Order['status'], Order['status']>> = {
+  pending: 'preparing',
+  confirmed: 'preparing',
+  preparing: 'ready',
+  ready: 'completed'
+};
+
+/** Label for the bump button in each status */
+export const KITCHEN_BUMP_LABELS: Partial<Record<Order['status'], string>> = {
+  pending: 'Start',
+  confirmed: 'Start',
+  preparing: 'Ready',
+  ready: 'Picked up'
+};
+
+/**
+ * Delivery orders stop at ready on the board: sending one out needs a
+ * driver, which is assigned in the order manager
+ */
+export function isAwaitingDriver(order: Order): boolean {
+  return order.status === 'ready' && isDeliveryOrder(order);
+}
+
+/**
+ * Status an order moves to when it's bumped, or undefined if it can't be bumped from the board
+ */
+export function getKitchenNextStatus(order: Order): Order['status'] | undefined {
+  return isAwaitingDriver(order) ? undefined : KITCHEN_NEXT_STATUS[order.status];
+}
+
+/**
+ * Bump button label for an order, or undefined if it can't be bumped from the board
+ */
+export function getKitchenBumpLabel(order: Order): string | undefined {
+  return isAwaitingDriver(order) ? undefined : KITCHEN_BUMP_LABELS[order.status];
+}
+
+/**
+ * Board column for an order status, or null if the order isn't shown
+ */
+export function getKitchenColumn(status: Order['status']): KitchenColumnKey | null {
+  switch (status) {
+    case 'pending':
+    case 'confirmed':
+      return 'new';
+    case 'preparing':
+      return 'preparing';
+    case 'ready':
+      return 'ready';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reservation pre-orders wait off the board until staff fire them on arrival
+ */
+export function isHeldPreOrder(order: Order): boolean {
+  return !!order.reservation_id && !order.fired_at;
+}
+
+/**
+ * Scheduled pickups wait off the board until their prep window opens.
+ * Only orders nobody has started count; pickup_time on a started order is
+ * the ETA staff set when they began preparing it.
+ */
+export function isHeldScheduledOrder(order: Order, now: Date = new Date()): boolean {
+  if (order.reservation_id || !order.pickup_time) return false;
+  if (order.status !== 'pending' && order.status !== 'confirmed') return false;
+  const prepStart = new Date(order.pickup_time).getTime() - KITCHEN_PREP_LEAD_MINUTES * 60 * 1000;
+  return prepStart > now.getTime();
+}
+
+/**
+ * Query for the board: active orders due today on the restaurant's clock,
+ * newest first so a busy day never pushes new orders past the page limit.
+ * The window is on pickup_time, which for a reservation pre-order is the
+ * reservation's start, so food booked days ahead still shows on its day;
+ * the server falls back to created_at for ASAP orders without one.
+ * Built per request so the window moves past midnight on a long-running screen.
+ */
+export function buildKitchenQueryParams(
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): OrderQueryParams {
+  const today = getZonedDateKey(now, timeZone);
+  const start = zonedTimeToDate(today, 0, timeZone);
+  const end = new Date(zonedTimeToDate(addDaysToDateKey(today, 1), 0, timeZone).getTime() - 1);
+  return {
+    page: 1,
+    perPage: 100,
+    status: KITCHEN_ACTIVE_STATUSES.join(','),
+    sortBy: 'created_at',
+    sortDirection: 'desc',
+    dateFrom: start.toISOString(),
+    dateTo: end.toISOString(),
+    date_field: 'pickup_time',
+    _sourceId: 'kitchen-display'
+  };
+}
+
+/**
+ * Maps menu item ids to their category ids, used for station filtering
+ */
+export function getMenuItemCategoryMap(menuItems: MenuItem[]): Map<string, number[]> {
+  const map = new Map<string, number[]>();
+  menuItems.forEach((item) => {
+    map.set(String(item.id), item.category_ids || []);
+  });
+  return map;
+}
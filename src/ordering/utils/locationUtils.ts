@@ -0,0 +1,136 @@
+// src/ordering/utils/locationUtils.ts
+
+import type { MenuItem } from '../types/menu';
+import type { OperatingHour } from '../types/pickup';
+import type { CartItem } from '../store/orderStore';
+import type { LocationMenuItemOverride, LocationOperatingHour } from '../../shared/types/Location';
+import { priceCustomizations } from './reorderUtils';
+
+export function findItemOverride(
+  overrides: LocationMenuItemOverride[],
+  menuItemId: string | number
+): LocationMenuItemOverride | undefined {
+  return overrides.find((override) => String(override.menu_item_id) === String(menuItemId));
+}
+
+/**
+ * Stock status for a location's own count, using the item's low-stock threshold
+ */
+function locationStockStatus(item: MenuItem, quantity: number): MenuItem['stock_status'] {
+  if (quantity <= 0) return 'out_of_stock';
+  if (quantity <= (item.low_stock_threshold || 5)) return 'low_stock';
+  return 'in_stock';
+}
+
+/**
+ * One menu item as seen at a location, or null if it's switched off there.
+ * The location's price and stock count replace the restaurant-wide values.
+ */
+export function localizeMenuItem(
+  item: MenuItem,
+  overrides: LocationMenuItemOverride[]
+): MenuItem | null {
+  const override = findItemOverride(overrides, item.id);
+  if (!override) return item;
+  if (!override.available) return null;
+
+  const localized: MenuItem = { ...item };
+  if (override.price !== null && override.price !== undefined) {
+    localized.price = Number(override.price);
+  }
+  if (item.enable_stock_tracking && override.stock_quantity !== null && override.stock_quantity !== undefined) {
+    localized.stock_quantity = override.stock_quantity;
+    localized.available_quantity = override.stock_quantity;
+    localized.stock_status = locationStockStatus(item, override.stock_quantity);
+  }
+  return localized;
+}
+
+/**
+ * The menu as seen at one location, with items switched off there dropped
+ */
+export function applyLocationOverrides(
+  items: MenuItem[],
+  overrides: LocationMenuItemOverride[]
+): MenuItem[] {
+  if (overrides.length === 0) return items;
+
+  return items.reduce<MenuItem[]>((result, item) => {
+    const localized = localizeMenuItem(item, overrides);
+    if (localized) result.push(localized);
+    return result;
+  }, []);
+}
+
+export interface LocalizedCart {
+  items: CartItem[];
+  /** Lines the location doesn't offer, is out of, or can't price with their options */
+  removed: CartItem[];
+  changed: boolean;
+}
+
+/**
+ * Re-checks a cart against another location: each food line is repriced at
+ * the location's base price plus its options, and lines that can't be ordered
+ * there are removed. Merchandise and items missing from `menuItems` are kept.
+ */
+export function localizeCartItems(
+  cartItems: CartItem[],
+  menuItems: MenuItem[],
+  overrides: LocationMenuItemOverride[]
+): LocalizedCart {
+  const items: CartItem[] = [];
+  const removed: CartItem[] = [];
+
+  cartItems.forEach((cartItem) => {
+    const menuItem = cartItem.type === 'merchandise'
+      ? undefined
+      : menuItems.find((item) => String(item.id) === String(cartItem.id));
+    if (!menuItem) {
+      items.push(cartItem);
+      return;
+    }
+
+    const localized = localizeMenuItem(menuItem, overrides);
+    if (!localized || localized.stock_status === 'out_of_stock') {
+      removed.push(cartItem);
+      return;
+    }
+
+    // Older carts store customizations as a flat array that can't be repriced
+    const customizations = cartItem.customizations as unknown;
+    if (Array.isArray(customizations) && customizations.length > 0) {
+      items.push(cartItem);
+      return;
+    }
+    const optionsPrice = customizations && !Array.isArray(customizations)
+      ? priceCustomizations(localized.option_groups || [], customizations as Record<string, string[]>)
+      : 0;
+    if (optionsPrice === null) {
+      removed.push(cartItem);
+      return;
+    }
+    items.push({ ...cartItem, price: Number(localized.price) + optionsPrice });
+  });
+
+  const changed = removed.length > 0 || items.some((item, index) => item.price !== cartItems[index].price);
+  return { items, removed, changed };
+}
+
+/**
+ * Restaurant hours with any per-day rows for the location swapped in.
+ * Days the location hasn't customized keep the restaurant's hours.
+ */
+export function mergeLocationHours(
+  restaurantHours: OperatingHour[],
+  locationHours: LocationOperatingHour[]
+): OperatingHour[] {
+  if (locationHours.length === 0) return restaurantHours;
+
+  return restaurantHours.map((hour) => {
+    const local = locationHours.find((row) => row.day_of_week === hour.day_of_week);
+    return local
+      ? { ...hour, open_time: local.open_time, close_time: local.close_time, closed: local.closed }
+      : hour;
+  });
+}
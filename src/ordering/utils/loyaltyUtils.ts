@@ -0,0 +1,40 @@
+// src/ordering/utils/loyaltyUtils.ts
+
+import type { LoyaltySettings } from '../types/loyalty';
+
+/**
+ * Points a customer earns for spending the given amount.
+ * Partial dollars don't earn partial points.
+ */
+export function calculatePointsEarned(amount: number, settings: LoyaltySettings | null): number {
+  if (!settings?.enabled || amount <= 0) return 0;
+  return Math.floor(amount * settings.earn_points_per_dollar);
+}
+
+/**
+ * Dollar value of redeeming the given number of points, rounded down to the cent
+ */
+export function calculateRedemptionValue(points: number, settings: LoyaltySettings | null): number {
+  if (!settings?.enabled || points <= 0 || settings.redeem_points_per_dollar <= 0) return 0;
+  return Math.floor((points / settings.redeem_points_per_dollar) * 100) / 100;
+}
+
+/**
+ * The most points that can be applied to an order of the given subtotal,
+ * limited by the customer's balance and the program's max redemption percentage.
+ *
+ * @returns 0 if the customer can't redeem anything on this order
+ */
+export function getMaxRedeemablePoints(
+  balance: number,
+  subtotal: number,
+  settings: LoyaltySettings | null
+): number {
+  if (!settings?.enabled || balance < settings.min_redeem_points || subtotal <= 0) return 0;
+
+  const maxDiscount = subtotal * (Math.min(settings.max_redeem_percentage, 100) / 100);
+  const pointsForMaxDiscount = Math.floor(maxDiscount * settings.redeem_points_per_dollar);
+  const maxPoints = Math.min(balance, pointsForMaxDiscount);
+
+  return maxPoints >= settings.min_redeem_points ? maxPoints : 0;
+}
@@ -0,0 +1,96 @@
+// src/ordering/utils/orderTrackingUtils.ts
+
+import { Order } from '../types/order';
+
+export interface TrackingStep {
+  key: string;
+  label: string;
+  description: string;
+  /** Order statuses that count as reaching this step */
+  statuses: Order['status'][];
+}
+
+export const TRACKING_STEPS: TrackingStep[] = [
+  {
+    key: 'received',
+    label: 'Order received',
+    description: "We've got your order and will start on it shortly.",
+    statuses: ['pending', 'confirmed']
+  },
+  {
+    key: 'preparing',
+    label: 'Preparing',
+    description: 'The kitchen is working on your order.',
+    statuses: ['preparing']
+  },
+  {
+    key: 'ready',
+    label: 'Ready for pickup',
+    description: 'Your order is ready. Show your order number at the counter.',
+    statuses: ['ready']
+  },
+  {
+    key: 'completed',
+    label: 'Picked up',
+    description: 'Enjoy your meal!',
+    statuses: ['completed']
+  }
+];
+
+export const DELIVERY_TRACKING_STEPS: TrackingStep[] = [
+  TRACKING_STEPS[0],
+  TRACKING_STEPS[1],
+  {
+    key: 'out_for_delivery',
+    label: 'Out for delivery',
+    description: 'Your order is on its way.',
+    statuses: ['ready', 'out_for_delivery']
+  },
+  {
+    key: 'delivered',
+    label: 'Delivered',
+    description: 'Enjoy your meal!',
+    statuses: ['delivered', 'completed']
+  }
+];
+
+export const DINE_IN_TRACKING_STEPS: TrackingStep[] = [
+  TRACKING_STEPS[0],
+  TRACKING_STEPS[1],
+  {
+    key: 'ready',
+    label: 'On its way to your table',
+    description: 'Your order is ready and will be brought out shortly.',
+    statuses: ['ready']
+  },
+  {
+    key: 'completed',
+    label: 'Served',
+    description: 'Enjoy your meal!',
+    statuses: ['completed']
+  }
+];
+
+/**
+ * Timeline for an order's fulfillment type
+ */
+export function getTrackingSteps(fulfillmentType?: Order['fulfillment_type']): TrackingStep[] {
+  if (fulfillmentType === 'delivery') return DELIVERY_TRACKING_STEPS;
+  if (fulfillmentType === 'dine_in') return DINE_IN_TRACKING_STEPS;
+  return TRACKING_STEPS;
+}
+
+/**
+ * Index of the current step in `steps`, or -1 for cancelled/unknown statuses
+ */
+export function getTrackingStepIndex(status: Order['status'], steps: TrackingStep[] = TRACKING_STEPS): number {
+  return steps.findIndex((step) => step.statuses.includes(status));
+}
+
+/**
+ * Shareable link to the tracking page. The token lets guests open it without signing in.
+ */
+export function buildTrackingPath(orderId: string | number, token?: string | null): string {
+  const path = `/orders/${orderId}/track`;
+  return token ? `${path}?token=${encodeURIComponent(token)}` : path;
+}
@@ -0,0 +1,183 @@
+// src/ordering/utils/pickupTimeUtils.ts
+
+import type { OperatingHour, PickupDay, PickupSlot, PickupSpecialEvent } from '../types/pickup';
+import {
+  DEFAULT_TIME_ZONE,
+  addDaysToDateKey,
+  getDateKeyWeekday,
+  getZonedDateKey,
+  zonedTimeToDate,
+} from '../../shared/utils/timeZoneUtils';
+
+// How many days ahead customers can schedule a pickup
+export const SCHEDULE_DAYS_AHEAD = 7;
+
+// Minimum time between "now" and the earliest scheduled slot
+export const MIN_SCHEDULE_LEAD_MINUTES = 30;
+
+// Slot spacing used when the restaurant has no time_slot_interval configured
+const DEFAULT_SLOT_INTERVAL_MINUTES = 15;
+
+interface AdvanceNoticeItem {
+  name: string;
+  advance_notice_hours?: number;
+}
+
+interface BuildPickupScheduleOptions {
+  operatingHours: OperatingHour[];
+  specialEvents?: PickupSpecialEvent[];
+  items?: AdvanceNoticeItem[];
+  intervalMinutes?: number;
+  daysAhead?: number;
+  now?: Date;
+  /** Restaurant time zone; operating hours and day boundaries are on its clock */
+  timeZone?: string;
+}
+
+/**
+ * Extracts hours and minutes from a DB time string.
+ * Handles both "HH:MM(:SS)" and Rails-style "2000-01-01T11:00:00.000Z" values.
+ *
+ * @returns Minutes since midnight, or null if the value can't be parsed
+ */
+export function parseTimeOfDay(dbTime: string | null | undefined): number | null {
+  if (!dbTime) return null;
+  const match = dbTime.match(/(?:^|T)(\d{2}):(\d{2})/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Returns the longest advance notice (in hours) required by any item
+ */
+export function getMaxAdvanceNoticeHours(items: AdvanceNoticeItem[]): number {
+  return items.reduce((max, item) => Math.max(max, item.advance_notice_hours ?? 0), 0);
+}
+
+/**
+ * Formats a pickup time for display in the restaurant's time zone,
+ * e.g. "Fri, Mar 14 at 5:30 PM"
+ */
+export function formatPickupTime(isoTime: string | null | undefined, timeZone: string = DEFAULT_TIME_ZONE): string {
+  if (!isoTime) return '';
+  const d = new Date(isoTime);
+  if (isNaN(d.getTime())) return '';
+  const day = d.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+  const time = d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone });
+  return `${day} at ${time}`;
+}
+
+function getDayLabel(dateKey: string, offset: number): string {
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  // Noon UTC keeps the calendar date the same wherever the browser is
+  return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Items whose advance notice rules out a pickup at `slotTime`
+ */
+function getBlockingItems(items: AdvanceNoticeItem[], slotTime: number, now: Date): AdvanceNoticeItem[] {
+  return items.filter(
+    (item) => (item.advance_notice_hours ?? 0) > 0 && now.getTime() + (item.advance_notice_hours ?? 0) * 3_600_000 > slotTime
+  );
+}
+
+/**
+ * Builds the list of pickup days and time slots a customer can choose from.
+ *
+ * Days and hours are on the restaurant's clock, whatever time zone the
+ * customer's browser is in. Regular operating hours define each day's window;
+ * a special event on the same date replaces that window (or closes the day
+ * entirely). Slots that fall inside an item's advance notice are returned as
+ * unavailable, naming only the items that block that particular slot.
+ */
+export function buildPickupSchedule({
+  operatingHours,
+  specialEvents = [],
+  items = [],
+  intervalMinutes = DEFAULT_SLOT_INTERVAL_MINUTES,
+  daysAhead = SCHEDULE_DAYS_AHEAD,
+  now = new Date(),
+  timeZone = DEFAULT_TIME_ZONE,
+}: BuildPickupScheduleOptions): PickupDay[] {
+  const interval = intervalMinutes > 0 ? intervalMinutes : DEFAULT_SLOT_INTERVAL_MINUTES;
+  const earliestPickup = now.getTime() + MIN_SCHEDULE_LEAD_MINUTES * 60_000;
+  const todayKey = getZonedDateKey(now, timeZone);
+
+  const eventsByDate = new Map(specialEvents.map((ev) => [ev.event_date, ev]));
+  const days: PickupDay[] = [];
+
+  for (let offset = 0; offset < daysAhead; offset++) {
+    const dateKey = addDaysToDateKey(todayKey, offset);
+    const day: PickupDay = { date: dateKey, label: getDayLabel(dateKey, offset), slots: [] };
+    days.push(day);
+
+    const event = eventsByDate.get(dateKey);
+    if (event?.closed || event?.exclusive_booking) {
+      day.closedReason = event.description || 'Closed for a special event';
+      continue;
+    }
+
+    const hours = operatingHours.find((oh) => oh.day_of_week === getDateKeyWeekday(dateKey));
+    let openMinutes = parseTimeOfDay(hours?.open_time);
+    let closeMinutes = parseTimeOfDay(hours?.close_time);
+
+    if (event && (event.start_time || event.end_time)) {
+      openMinutes = parseTimeOfDay(event.start_time) ?? openMinutes;
+      closeMinutes = parseTimeOfDay(event.end_time) ?? closeMinutes;
+    } else if (!hours || hours.closed) {
+      day.closedReason = 'Closed';
+      continue;
+    }
+
+    if (openMinutes === null || closeMinutes === null) {
+      day.closedReason = 'Closed';
+      continue;
+    }
+
+    // Overnight hours (e.g. 5 PM - 1 AM) close on the following day
+    if (closeMinutes <= openMinutes) {
+      closeMinutes += 24 * 60;
+    }
+
+    for (let minutes = openMinutes; minutes < closeMinutes; minutes += interval) {
+      const slotDate = zonedTimeToDate(dateKey, minutes, timeZone);
+      if (slotDate.getTime() < earliestPickup) continue;
+
+      const slot: PickupSlot = {
+        time: slotDate.toISOString(),
+        label: slotDate.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone }),
+        available: true,
+      };
+
+      const blocking = getBlockingItems(items, slotDate.getTime(), now);
+      if (blocking.length > 0) {
+        const noticeHours = getMaxAdvanceNoticeHours(blocking);
+        slot.available = false;
+        slot.blockedReason = `${blocking.map((item) => item.name).join(', ')} ${blocking.length === 1 ? 'requires' : 'require'} ${noticeHours} hours notice`;
+      }
+
+      day.slots.push(slot);
+    }
+
+    if (day.slots.length === 0) {
+      day.closedReason = 'No pickup times left today';
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Checks whether a previously chosen pickup time is still one of the available slots
+ */
+export function isPickupTimeAvailable(schedule: PickupDay[], pickupTime: string | null): boolean {
+  if (!pickupTime) return true;
+  return schedule.some((day) => day.slots.some((slot) => slot.time === pickupTime && slot.available));
+}
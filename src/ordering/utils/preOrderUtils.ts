@@ -0,0 +1,81 @@
+// src/ordering/utils/preOrderUtils.ts
+
+import type { MenuItem } from '../types/menu';
+import type { CartItem } from '../store/orderStore';
+
+/** A line in a reservation pre-order; name and price are only for display */
+export interface PreOrderItem {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  customizations?: CartItem['customizations'];
+  notes?: string;
+}
+
+/** What the server needs to price a pre-order line itself */
+export interface PreOrderRequestItem {
+  id: string;
+  quantity: number;
+  customizations?: CartItem['customizations'];
+  notes?: string;
+}
+
+/**
+ * Menu items a guest can add straight from the reservation form.
+ * Items with options need the full item page, so they come in via the cart instead.
+ */
+export function isPreOrderable(item: MenuItem, hoursUntilReservation?: number): boolean {
+  if (item.has_required_unavailable_options) return false;
+  if (item.has_options || (item.option_groups && item.option_groups.length > 0)) return false;
+  if (
+    hoursUntilReservation !== undefined &&
+    (item.advance_notice_hours ?? 0) > hoursUntilReservation
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Sets a menu item's quantity, adding or removing its line as needed
+ */
+export function setPreOrderQuantity(
+  items: PreOrderItem[],
+  menuItem: Pick<MenuItem, 'id' | 'name' | 'price'>,
+  quantity: number
+): PreOrderItem[] {
+  const id = String(menuItem.id);
+  if (quantity <= 0) return items.filter((line) => line.id !== id);
+  if (items.some((line) => line.id === id)) {
+    return items.map((line) => (line.id === id ? { ...line, quantity } : line));
+  }
+  return [...items, { id, name: menuItem.name, price: Number(menuItem.price), quantity }];
+}
+
+/** Food from the cart, keeping customizations; merchandise isn't served at the table */
+export function cartToPreOrder(cartItems: CartItem[]): PreOrderItem[] {
+  return cartItems
+    .filter((item) => item.type !== 'merchandise')
+    .map((item) => ({
+      id: String(item.id),
+      name: item.name,
+      price: Number(item.price),
+      quantity: item.quantity,
+      customizations: item.customizations,
+      notes: item.notes,
+    }));
+}
+
+/** Lines sent with the reservation, without client prices or totals */
+export function toPreOrderRequest(items: PreOrderItem[]): PreOrderRequestItem[] {
+  return items.map(({ id, quantity, customizations, notes }) => ({ id, quantity, customizations, notes }));
+}
+
+export function preOrderItemCount(items: PreOrderItem[]): number {
+  return items.reduce((sum, line) => sum + line.quantity, 0);
+}
+
+export function preOrderSubtotal(items: PreOrderItem[]): number {
+  return items.reduce((sum, line) => sum + line.price * line.quantity, 0);
+}
@@ -0,0 +1,225 @@
+// src/ordering/utils/promoUtils.ts
+
+import type { MenuItem } from '../types/menu';
+import type { PromoBreakdown, PromoCode, PromoDiscountLine } from '../types/promo';
+import { parseTimeOfDay } from './pickupTimeUtils';
+import { DEFAULT_TIME_ZONE, getZonedParts } from '../../shared/utils/timeZoneUtils';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface PromoCartItem {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  type?: 'food' | 'merchandise';
+}
+
+interface PromoBreakdownOptions {
+  now?: Date;
+  /** How many times the current customer has already used this code */
+  customerUses?: number;
+  /** Active days and hours are on the restaurant's clock */
+  timeZone?: string;
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatTimeOfDay(value: string): string {
+  const minutes = parseTimeOfDay(value);
+  if (minutes === null) return value;
+  const d = new Date();
+  d.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Short human-readable description of what a promo does, e.g. "$5 off" or "Buy 1, get 1 free"
+ */
+export function describePromo(promo: PromoCode): string {
+  switch (promo.discountType) {
+    case 'fixed_amount':
+      return `$${(promo.discountAmount ?? 0).toFixed(2)} off`;
+    case 'bogo': {
+      const reward = promo.discountPercent >= 100 ? 'free' : `${promo.discountPercent}% off`;
+      return `Buy ${promo.buyQuantity ?? 1}, get ${promo.getQuantity ?? 1} ${reward}`;
+    }
+    case 'free_item':
+      return 'Free item';
+    default:
+      return `${promo.discountPercent}% off`;
+  }
+}
+
+/**
+ * Checks the restrictions that don't depend on which items are in the cart
+ *
+ * @returns A customer-facing reason the code can't be used, or null if it's usable
+ */
+export function getPromoAvailabilityError(
+  promo: PromoCode,
+  subtotal: number,
+  { now = new Date(), customerUses = 0, timeZone = DEFAULT_TIME_ZONE }: PromoBreakdownOptions = {}
+): string | null {
+  if (promo.validFrom && new Date(promo.validFrom) > now) {
+    return `This code starts on ${new Date(promo.validFrom).toLocaleDateString()}`;
+  }
+  if (new Date(promo.validUntil) < now) {
+    return 'This code has expired';
+  }
+  if (promo.maxUses && promo.currentUses >= promo.maxUses) {
+    return 'This code has reached its usage limit';
+  }
+  if (promo.maxUsesPerCustomer && customerUses >= promo.maxUsesPerCustomer) {
+    return "You've already used this code the maximum number of times";
+  }
+
+  const { weekday, hour, minute } = getZonedParts(now, timeZone);
+  if (promo.activeDays && promo.activeDays.length > 0 && !promo.activeDays.includes(weekday)) {
+    return `This code is only valid on ${promo.activeDays.map((d) => DAY_NAMES[d]).join(', ')}`;
+  }
+
+  const start = parseTimeOfDay(promo.startTime);
+  const end = parseTimeOfDay(promo.endTime);
+  if (start !== null && end !== null) {
+    const current = hour * 60 + minute;
+    // Windows like 9 PM - 2 AM wrap past midnight
+    const inWindow = start <= end
+      ? current >= start && current < end
+      : current >= start || current < end;
+    if (!inWindow) {
+      return `This code is only valid from ${formatTimeOfDay(promo.startTime!)} to ${formatTimeOfDay(promo.endTime!)}`;
+    }
+  }
+
+  if (promo.minSubtotal && subtotal < promo.minSubtotal) {
+    return `Add $${(promo.minSubtotal - subtotal).toFixed(2)} more to use this code (minimum $${promo.minSubtotal.toFixed(2)})`;
+  }
+
+  return null;
+}
+
+/**
+ * Calculates the line-by-line discount a promo gives on the current cart.
+ *
+ * Category and item limits narrow which cart items the discount applies to.
+ * When a code has no limits, percentage and fixed discounts apply to the whole order.
+ */
+export function calculatePromoBreakdown(
+  promo: PromoCode,
+  cartItems: PromoCartItem[],
+  menuItems: MenuItem[],
+  options: PromoBreakdownOptions = {}
+): PromoBreakdown {
+  const subtotal = roundToCents(cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  const invalid = (error: string): PromoBreakdown => ({
+    code: promo.code,
+    valid: false,
+    error,
+    lines: [],
+    subtotal,
+    totalDiscount: 0,
+    newTotal: subtotal,
+  });
+
+  const availabilityError = getPromoAvailabilityError(promo, subtotal, options);
+  if (availabilityError) return invalid(availabilityError);
+
+  const eligibleItemIds = promo.eligibleItemIds ?? [];
+  const eligibleCategoryIds = promo.eligibleCategoryIds ?? [];
+  const isRestricted = eligibleItemIds.length > 0 || eligibleCategoryIds.length > 0;
+  const menuItemsById = new Map(menuItems.map((item) => [String(item.id), item]));
+
+  const eligibleItems = cartItems.filter((item) => {
+    if (!isRestricted) return true;
+    if (item.type === 'merchandise') return false;
+    if (eligibleItemIds.includes(String(item.id))) return true;
+    const categories = menuItemsById.get(String(item.id))?.category_ids ?? [];
+    return categories.some((id) => eligibleCategoryIds.includes(id));
+  });
+
+  if (eligibleItems.length === 0 && promo.discountType !== 'free_item') {
+    return invalid('None of the items in your cart qualify for this code');
+  }
+
+  const lines: PromoDiscountLine[] = [];
+  const percent = Math.min(Math.max(promo.discountPercent || 0, 0), 100);
+
+  switch (promo.discountType) {
+    case 'fixed_amount': {
+      const eligibleSubtotal = eligibleItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+      const amount = Math.min(promo.discountAmount ?? 0, eligibleSubtotal);
+      lines.push({ label: `${promo.code} ($${(promo.discountAmount ?? 0).toFixed(2)} off)`, amount });
+      break;
+    }
+
+    case 'bogo': {
+      const buy = Math.max(promo.buyQuantity ?? 1, 1);
+      const get = Math.max(promo.getQuantity ?? 1, 1);
+      // Most expensive first, so the discounted units in each group are the cheapest
+      const units = eligibleItems
+        .flatMap((item) => Array.from({ length: item.quantity }, () => item))
+        .sort((a, b) => b.price - a.price);
+
+      const discountByItem = new Map<string, { item: PromoCartItem; amount: number }>();
+      for (let start = 0; start + buy < units.length; start += buy + get) {
+        units.slice(start + buy, start + buy + get).forEach((unit) => {
+          const entry = discountByItem.get(unit.id) ?? { item: unit, amount: 0 };
+          entry.amount += unit.price * (percent / 100);
+          discountByItem.set(unit.id, entry);
+        });
+      }
+
+      if (discountByItem.size === 0) {
+        return invalid(`Add ${buy + get} qualifying items to use this code`);
+      }
+      discountByItem.forEach(({ item, amount }) => {
+        lines.push({ label: `${promo.code}: ${item.name}`, amount, itemId: item.id });
+      });
+      break;
+    }
+
+    case 'free_item': {
+      const freeItem = cartItems.find((item) => String(item.id) === String(promo.freeItemId));
+      if (!freeItem) {
+        const name = promo.freeItemId ? menuItemsById.get(String(promo.freeItemId))?.name : null;
+        return invalid(`Add ${name || 'the free item'} to your cart to use this code`);
+      }
+      lines.push({ label: `${promo.code}: Free ${freeItem.name}`, amount: freeItem.price, itemId: freeItem.id });
+      break;
+    }
+
+    default: {
+      if (isRestricted) {
+        eligibleItems.forEach((item) => {
+          lines.push({
+            label: `${promo.code}: ${percent}% off ${item.name}`,
+            amount: item.price * item.quantity * (percent / 100),
+            itemId: item.id,
+          });
+        });
+      } else {
+        lines.push({ label: `${promo.code} (${percent}% off)`, amount: subtotal * (percent / 100) });
+      }
+    }
+  }
+
+  const roundedLines = lines
+    .map((line) => ({ ...line, amount: roundToCents(line.amount) }))
+    .filter((line) => line.amount > 0);
+  const totalDiscount = Math.min(
+    roundToCents(roundedLines.reduce((sum, line) => sum + line.amount, 0)),
+    subtotal
+  );
+
+  return {
+    code: promo.code,
+    valid: true,
+    lines: roundedLines,
+    subtotal,
+    totalDiscount,
+    newTotal: roundToCents(subtotal - totalDiscount),
+  };
+}
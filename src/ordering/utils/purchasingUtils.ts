@@ -0,0 +1,170 @@
+// src/ordering/utils/purchasingUtils.ts
+
+import type { MenuItem } from '../types/menu';
+import type { MerchandiseItem } from '../types/merchandise';
+import type { Ingredient } from '../types/inventory';
+import type {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  ReorderSuggestion,
+  SalesVelocity,
+  StockItemType,
+  StockedItem,
+} from '../types/purchasing';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const STOCK_ITEM_TYPE_LABELS: Record<StockItemType, string> = {
+  menu_item: 'Menu Item',
+  merchandise_variant: 'Merchandise',
+  ingredient: 'Ingredient',
+};
+
+/** Map key for a stocked item, since ids are only unique per type */
+export function stockItemKey(itemType: StockItemType, itemId: number): string {
+  return `${itemType}:${itemId}`;
+}
+
+export function isOpenPurchaseOrder(po: Pick<PurchaseOrder, 'status'>): boolean {
+  return po.status === 'submitted' || po.status === 'partially_received';
+}
+
+export function getOutstandingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(0, line.quantity_ordered - line.quantity_received);
+}
+
+export function getPurchaseOrderTotal(po: Pick<PurchaseOrder, 'lines'>): number {
+  return po.lines.reduce((sum, line) => sum + line.quantity_ordered * line.unit_cost, 0);
+}
+
+/**
+ * Units still expected from open POs, keyed by stockItemKey
+ */
+export function getQuantityOnOrder(purchaseOrders: PurchaseOrder[]): Map<string, number> {
+  const onOrder = new Map<string, number>();
+  purchaseOrders.filter(isOpenPurchaseOrder).forEach((po) => {
+    po.lines.forEach((line) => {
+      const key = stockItemKey(line.item_type, line.item_id);
+      onOrder.set(key, (onOrder.get(key) || 0) + getOutstandingQuantity(line));
+    });
+  });
+  return onOrder;
+}
+
+/**
+ * Stock that can be sold: on hand minus anything marked damaged. Used by
+ * purchasing and stock counts so both compare against the same number.
+ */
+export function getSellableStock(item: { stock_quantity?: number; damaged_quantity?: number }): number {
+  return (item.stock_quantity || 0) - (item.damaged_quantity || 0);
+}
+
+/**
+ * Flattens everything with tracked stock into one list for PO lines and reorder checks
+ */
+export function collectStockedItems(
+  menuItems: MenuItem[],
+  merchandiseItems: MerchandiseItem[],
+  ingredients: Ingredient[]
+): StockedItem[] {
+  const items: StockedItem[] = [];
+
+  menuItems
+    .filter((item) => item.enable_stock_tracking)
+    .forEach((item) => {
+      items.push({
+        item_type: 'menu_item',
+        item_id: Number(item.id),
+        name: item.name,
+        stock_quantity: getSellableStock(item),
+        low_stock_threshold: item.low_stock_threshold || 0,
+        unit_cost: item.cost_to_make,
+      });
+    });
+
+  merchandiseItems
+    .filter((item) => item.enable_inventory_tracking ?? item.enable_stock_tracking)
+    .forEach((item) => {
+      item.variants.forEach((variant) => {
+        const variantName = variant.name || [variant.size, variant.color].filter(Boolean).join(' / ');
+        items.push({
+          item_type: 'merchandise_variant',
+          item_id: variant.id,
+          name: variantName ? `${item.name} (${variantName})` : item.name,
+          stock_quantity: getSellableStock(variant),
+          low_stock_threshold: variant.low_stock_threshold ?? item.low_stock_threshold ?? 0,
+          unit_cost: variant.unit_cost,
+        });
+      });
+    });
+
+  ingredients.forEach((ingredient) => {
+    items.push({
+      item_type: 'ingredient',
+      item_id: ingredient.id,
+      name: ingredient.name,
+      stock_quantity: ingredient.stock_quantity,
+      low_stock_threshold: ingredient.low_stock_threshold,
+      unit_cost: ingredient.cost_per_unit,
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Items that will run low within `coverDays` at their recent sales rate, or are
+ * already at their low-stock threshold. The suggested quantity tops stock (plus
+ * anything already on order) back up to the threshold plus `coverDays` of usage;
+ * items with no recent sales are topped up to twice their threshold.
+ */
+export function buildReorderSuggestions(
+  items: StockedItem[],
+  velocity: SalesVelocity[],
+  options: { windowDays: number; coverDays: number; onOrder?: Map<string, number> }
+): ReorderSuggestion[] {
+  const { windowDays, coverDays, onOrder } = options;
+  const sold = new Map<string, number>();
+  velocity.forEach((row) => {
+    const key = stockItemKey(row.item_type, row.item_id);
+    sold.set(key, (sold.get(key) || 0) + row.quantity);
+  });
+
+  const suggestions: ReorderSuggestion[] = [];
+  items.forEach((item) => {
+    const key = stockItemKey(item.item_type, item.item_id);
+    const dailyUsage = windowDays > 0 ? (sold.get(key) || 0) / windowDays : 0;
+    const available = item.stock_quantity + (onOrder?.get(key) || 0);
+    const daysOfStock = dailyUsage > 0 ? Math.max(0, available) / dailyUsage : null;
+
+    const belowThreshold = available <= item.low_stock_threshold;
+    const runningOut = daysOfStock !== null && daysOfStock < coverDays;
+    if (!belowThreshold && !runningOut) return;
+
+    const target = item.low_stock_threshold + Math.max(Math.ceil(dailyUsage * coverDays), item.low_stock_threshold);
+    const suggested = Math.ceil(target - available);
+    if (suggested <= 0) return;
+
+    suggestions.push({
+      ...item,
+      daily_usage: Math.round(dailyUsage * 100) / 100,
+      days_of_stock: daysOfStock === null ? null : Math.floor(daysOfStock),
+      suggested_quantity: suggested,
+    });
+  });
+
+  // Soonest to run out first; items with no sales data after those with some
+  return suggestions.sort((a, b) => {
+    if (a.days_of_stock === null && b.days_of_stock === null) return a.name.localeCompare(b.name);
+    if (a.days_of_stock === null) return 1;
+    if (b.days_of_stock === null) return -1;
+    return a.days_of_stock - b.days_of_stock;
+  });
+}
@@ -0,0 +1,204 @@
+// src/ordering/utils/reorderUtils.ts
+
+import { CartItem } from '../store/orderStore';
+import { MenuItem, OptionGroup } from '../types/menu';
+import { MerchandiseItem } from '../types/merchandise';
+import { MerchandiseOrderItem, OrderItem } from '../types/order';
+import { calculateFinalPrice } from './merchandiseUtils';
+import { DEFAULT_TIME_ZONE, getZonedParts } from '../../shared/utils/timeZoneUtils';
+
+export type ReorderIssue =
+  | 'not_found'
+  | 'hidden'
+  | 'out_of_stock'
+  | 'unavailable_today'
+  | 'options_changed';
+
+export const REORDER_ISSUE_LABELS: Record<ReorderIssue, string> = {
+  not_found: 'No longer on the menu',
+  hidden: 'Not currently offered',
+  out_of_stock: 'Out of stock',
+  unavailable_today: 'Not available today',
+  options_changed: 'Options have changed. Please customize it again from the menu.'
+};
+
+export interface ReorderLine {
+  name: string;
+  quantity: number;
+  previousPrice: number;
+  /** Current unit price, or null if the item can't be priced anymore */
+  currentPrice: number | null;
+  issues: ReorderIssue[];
+  /** Ready to pass to addToCart; only set when there are no issues */
+  cartItem?: Omit<CartItem, 'quantity'>;
+}
+
+function optionPrice(option: { additional_price?: number; additional_price_float?: number }): number {
+  if (typeof option.additional_price === 'number') return option.additional_price;
+  if (typeof option.additional_price_float === 'number') return option.additional_price_float;
+  return Number(option.additional_price) || 0;
+}
+
+/**
+ * Whether a menu item can be ordered on the given day, based on available_days.
+ * The day is the restaurant's, not the customer's device.
+ */
+export function isAvailableOnDay(
+  item: MenuItem,
+  date: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): boolean {
+  if (!item.available_days || item.available_days.length === 0) return true;
+  return item.available_days.map(Number).includes(getZonedParts(date, timeZone).weekday);
+}
+
+/**
+ * Re-prices saved customizations against the item's current option groups.
+ * Returns null when the selections no longer fit (renamed or removed options,
+ * unavailable options, or changed min/max rules).
+ */
+export function priceCustomizations(
+  optionGroups: OptionGroup[],
+  customizations: Record<string, string[]>
+): number | null {
+  let total = 0;
+
+  for (const [groupName, optionNames] of Object.entries(customizations)) {
+    const group = optionGroups.find((g) => g.name === groupName);
+    if (!group) return null;
+
+    const chosen = optionNames.map((name) => group.options.find((o) => o.name === name));
+    if (chosen.some((o) => !o || o.available === false || o.is_available === false)) return null;
+    if (group.max_select > 0 && chosen.length > group.max_select) return null;
+
+    // Most expensive options are the free ones, matching CustomizationModal
+    const prices = chosen.map((o) => optionPrice(o!)).sort((a, b) => b - a);
+    total += prices.slice(group.free_option_count || 0).reduce((sum, p) => sum + p, 0);
+  }
+
+  // Required groups must still be satisfied
+  for (const group of optionGroups) {
+    const selected = customizations[group.name]?.length || 0;
+    if (group.min_select > 0 && selected < group.min_select) return null;
+  }
+
+  return total;
+}
+
+/**
+ * Rebuilds a past food item against the current menu item
+ */
+export function buildMenuReorderLine(
+  item: OrderItem,
+  current: MenuItem | null,
+  date: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): ReorderLine {
+  const line: ReorderLine = {
+    name: item.name,
+    quantity: item.quantity,
+    previousPrice: item.price,
+    currentPrice: null,
+    issues: []
+  };
+
+  if (!current) {
+    line.issues.push('not_found');
+    return line;
+  }
+
+  if (current.hidden) line.issues.push('hidden');
+  if (
+    current.stock_status === 'out_of_stock' ||
+    (current.enable_stock_tracking && (current.available_quantity ?? current.stock_quantity ?? 1) <= 0)
+  ) {
+    line.issues.push('out_of_stock');
+  }
+  if (!isAvailableOnDay(current, date, timeZone)) line.issues.push('unavailable_today');
+
+  // Older orders store customizations as a flat array without group names
+  const rawCustomizations = item.customizations as unknown;
+  let customizations: Record<string, string[]> | undefined;
+  if (Array.isArray(rawCustomizations)) {
+    if (rawCustomizations.length > 0) line.issues.push('options_changed');
+  } else if (rawCustomizations && typeof rawCustomizations === 'object') {
+    customizations = rawCustomizations as Record<string, string[]>;
+  }
+
+  let optionsPrice: number | null = 0;
+  if (customizations && Object.keys(customizations).length > 0) {
+    optionsPrice = priceCustomizations(current.option_groups || [], customizations);
+  } else if ((current.option_groups || []).some((group) => group.min_select > 0)) {
+    // A required choice was added since this order
+    optionsPrice = null;
+  }
+  if (optionsPrice === null) {
+    if (!line.issues.includes('options_changed')) line.issues.push('options_changed');
+  } else {
+    line.currentPrice = Number(current.price) + optionsPrice;
+  }
+
+  if (line.issues.length === 0 && line.currentPrice !== null) {
+    line.cartItem = {
+      id: String(current.id),
+      name: current.name,
+      price: line.currentPrice,
+      notes: item.notes,
+      customizations: customizations as unknown as CartItem['customizations'],
+      advance_notice_hours: current.advance_notice_hours,
+      image: current.image_url || current.image
+    };
+  }
+
+  return line;
+}
+
+/**
+ * Rebuilds a past merchandise item against the current item and its variants
+ */
+export function buildMerchandiseReorderLine(
+  item: MerchandiseOrderItem,
+  current: MerchandiseItem | null
+): ReorderLine {
+  const line: ReorderLine = {
+    name: item.name,
+    quantity: item.quantity,
+    previousPrice: item.price,
+    currentPrice: null,
+    issues: []
+  };
+
+  if (!current) {
+    line.issues.push('not_found');
+    return line;
+  }
+  if (current.hidden) line.issues.push('hidden');
+
+  const variant = item.variant_id ? current.variants?.find((v) => v.id === item.variant_id) : null;
+  if (item.variant_id && !variant) {
+    line.issues.push('options_changed');
+    return line;
+  }
+
+  const outOfStock = variant
+    ? variant.stock_status === 'out_of_stock' || variant.in_stock === false
+    : current.stock_status === 'out_of_stock';
+  if (outOfStock) line.issues.push('out_of_stock');
+
+  line.currentPrice = calculateFinalPrice(current, variant);
+
+  if (line.issues.length === 0) {
+    line.cartItem = {
+      id: String(current.id),
+      type: 'merchandise',
+      name: current.name,
+      price: line.currentPrice,
+      image: current.image_url,
+      variant_id: variant?.id,
+      size: variant?.size || item.size,
+      color: variant?.color || item.color
+    };
+  }
+
+  return line;
+}
@@ -0,0 +1,46 @@
+// src/ordering/utils/statusTimerUtils.ts
+
+export type StatusAgeLevel = 'normal' | 'warning' | 'urgent';
+
+export interface ElapsedTime {
+  value: number;
+  unit: 'h' | 'm';
+}
+
+/**
+ * Time since the order's status last changed (or since it was created)
+ */
+export function getElapsedTime(createdAt: string, statusUpdatedAt?: string, now: Date = new Date()): ElapsedTime {
+  const statusDate = statusUpdatedAt ? new Date(statusUpdatedAt) : new Date(createdAt);
+
+  const diffMs = now.getTime() - statusDate.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMins / 60);
+
+  if (diffHours > 0) {
+    return { value: diffHours, unit: 'h' };
+  }
+  return { value: diffMins || 1, unit: 'm' }; // Minimum 1 minute
+}
+
+/**
+ * How overdue an order is for its current status.
+ * Pending orders should be started within 15-30 minutes, preparing ones finished within 20-45.
+ */
+export function getStatusAgeLevel(status: string, { value, unit }: ElapsedTime): StatusAgeLevel {
+  if (status === 'pending') {
+    if ((unit === 'h' && value >= 1) || (unit === 'm' && value >= 30)) {
+      return 'urgent';
+    } else if (unit === 'm' && value >= 15) {
+      return 'warning';
+    }
+  } else if (status === 'preparing') {
+    if ((unit === 'h' && value >= 1) || (unit === 'm' && value >= 45)) {
+      return 'urgent';
+    } else if (unit === 'm' && value >= 20) {
+      return 'warning';
+    }
+  }
+
+  return 'normal';
+}
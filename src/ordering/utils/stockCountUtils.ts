@@ -0,0 +1,162 @@
+// src/ordering/utils/stockCountUtils.ts
+
+import type { MenuItem } from '../types/menu';
+import type { MerchandiseItem } from '../types/merchandise';
+import type { Ingredient, StockCountLine, StockCountScope } from '../types/inventory';
+import { getSellableStock } from './purchasingUtils';
+
+/** Counts left open longer than this get a warning; stock has likely moved */
+export const STOCK_COUNT_STALE_HOURS = 12;
+
+/** Saved counts older than this are dropped rather than resumed */
+export const STOCK_COUNT_EXPIRY_DAYS = 7;
+
+interface CountSheetSources {
+  menuItems: MenuItem[];
+  merchandiseItems: MerchandiseItem[];
+  ingredients: Ingredient[];
+  categories: { id: number; name: string }[];
+  collections: { id: number; name: string }[];
+}
+
+export interface StockCountSummary {
+  totalLines: number;
+  countedLines: number;
+  /** Counted lines whose count differs from expected */
+  varianceLines: number;
+  /** Dollar value of stock missing (negative) */
+  shortageValue: number;
+  /** Dollar value of stock found over expected */
+  overageValue: number;
+  netValue: number;
+}
+
+export function describeStockCountScope(scope: StockCountScope): string {
+  return scope.type === 'all' ? 'All tracked items' : scope.name;
+}
+
+export function getStockCountAgeHours(startedAt: string, now: Date = new Date()): number {
+  return (now.getTime() - new Date(startedAt).getTime()) / (60 * 60 * 1000);
+}
+
+export function isStockCountStale(startedAt: string, now: Date = new Date()): boolean {
+  return getStockCountAgeHours(startedAt, now) >= STOCK_COUNT_STALE_HOURS;
+}
+
+export function isStockCountExpired(startedAt: string, now: Date = new Date()): boolean {
+  return getStockCountAgeHours(startedAt, now) >= STOCK_COUNT_EXPIRY_DAYS * 24;
+}
+
+/**
+ * The items to count for a scope, with their current sellable quantities.
+ * A category covers menu items, a collection covers merchandise variants,
+ * and 'all' covers every tracked menu item, variant and ingredient.
+ */
+export function buildCountSheet(scope: StockCountScope, sources: CountSheetSources): StockCountLine[] {
+  const categoryNames = new Map(sources.categories.map((c) => [c.id, c.name]));
+  const collectionNames = new Map(sources.collections.map((c) => [c.id, c.name]));
+  const lines: StockCountLine[] = [];
+
+  if (scope.type !== 'collection') {
+    sources.menuItems
+      .filter((item) => item.enable_stock_tracking)
+      .filter((item) => scope.type === 'all' || (item.category_ids || []).includes(scope.category_id))
+      .forEach((item) => {
+        const firstCategory = (item.category_ids || []).map((id) => categoryNames.get(id)).find(Boolean);
+        lines.push({
+          item_type: 'menu_item',
+          item_id: Number(item.id),
+          name: item.name,
+          group: scope.type === 'category' ? scope.name : firstCategory || 'Uncategorized',
+          expected_quantity: getSellableStock(item),
+          counted_quantity: null,
+          unit_cost: item.cost_to_make || 0,
+        });
+      });
+  }
+
+  if (scope.type !== 'category') {
+    sources.merchandiseItems
+      .filter((item) => item.enable_inventory_tracking ?? item.enable_stock_tracking)
+      .filter((item) => scope.type === 'all' || item.merchandise_collection_id === scope.collection_id)
+      .forEach((item) => {
+        item.variants.forEach((variant) => {
+          const variantName = variant.name || [variant.size, variant.color].filter(Boolean).join(' / ');
+          lines.push({
+            item_type: 'merchandise_variant',
+            item_id: variant.id,
+            name: variantName ? `${item.name} (${variantName})` : item.name,
+            group: collectionNames.get(item.merchandise_collection_id) || 'Merchandise',
+            expected_quantity: getSellableStock(variant),
+            counted_quantity: null,
+            unit_cost: variant.unit_cost || 0,
+          });
+        });
+      });
+  }
+
+  if (scope.type === 'all') {
+    sources.ingredients.forEach((ingredient) => {
+      lines.push({
+        item_type: 'ingredient',
+        item_id: ingredient.id,
+        name: `${ingredient.name} (${ingredient.unit})`,
+        group: 'Ingredients',
+        expected_quantity: ingredient.stock_quantity,
+        counted_quantity: null,
+        unit_cost: ingredient.cost_per_unit || 0,
+      });
+    });
+  }
+
+  return lines.sort((a, b) => a.group.localeCompare(b.group) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Updates expected quantities and costs from a freshly built sheet, keeping
+ * what's been counted. Items no longer on the sheet keep their old values.
+ */
+export function refreshExpectedQuantities(lines: StockCountLine[], current: StockCountLine[]): StockCountLine[] {
+  const latest = new Map(current.map((line) => [`${line.item_type}:${line.item_id}`, line]));
+  return lines.map((line) => {
+    const fresh = latest.get(`${line.item_type}:${line.item_id}`);
+    return fresh
+      ? { ...line, expected_quantity: fresh.expected_quantity, unit_cost: fresh.unit_cost }
+      : line;
+  });
+}
+
+/** Counted minus expected; null until the line is counted */
+export function getCountVariance(line: StockCountLine): number | null {
+  return line.counted_quantity === null ? null : line.counted_quantity - line.expected_quantity;
+}
+
+export function summarizeStockCount(lines: StockCountLine[]): StockCountSummary {
+  let countedLines = 0;
+  let varianceLines = 0;
+  let shortageValue = 0;
+  let overageValue = 0;
+
+  lines.forEach((line) => {
+    const variance = getCountVariance(line);
+    if (variance === null) return;
+    countedLines += 1;
+    if (variance === 0) return;
+    varianceLines += 1;
+    const value = variance * line.unit_cost;
+    if (value < 0) {
+      shortageValue += value;
+    } else {
+      overageValue += value;
+    }
+  });
+
+  return {
+    totalLines: lines.length,
+    countedLines,
+    varianceLines,
+    shortageValue,
+    overageValue,
+    netValue: shortageValue + overageValue,
+  };
+}
@@ -0,0 +1,102 @@
+// src/ordering/utils/upsellUtils.ts
+
+import type { MenuItem } from '../types/menu';
+import type { UpsellRule, UpsellSuggestion } from '../types/upsell';
+
+// How many suggestions to show at once
+export const MAX_UPSELL_SUGGESTIONS = 3;
+
+interface UpsellCartItem {
+  id: string;
+  price: number;
+  quantity: number;
+  type?: 'food' | 'merchandise';
+}
+
+/**
+ * Checks whether a single rule's conditions match the current cart
+ *
+ * @param cartCategoryIds Category IDs of every food item in the cart
+ */
+export function ruleMatchesCart(
+  rule: UpsellRule,
+  cartCategoryIds: Set<number>,
+  subtotal: number
+): boolean {
+  if (!rule.active) return false;
+
+  if (rule.cart_has_category_ids.length > 0 &&
+      !rule.cart_has_category_ids.some((id) => cartCategoryIds.has(id))) {
+    return false;
+  }
+
+  if (rule.cart_lacks_category_ids.some((id) => cartCategoryIds.has(id))) {
+    return false;
+  }
+
+  if (rule.min_subtotal != null && subtotal < rule.min_subtotal) return false;
+  if (rule.max_subtotal != null && subtotal > rule.max_subtotal) return false;
+
+  return true;
+}
+
+function isSuggestable(item: MenuItem): boolean {
+  return !item.hidden && item.stock_status !== 'out_of_stock';
+}
+
+/**
+ * Evaluates all upsell rules against the cart and returns ranked suggestions.
+ *
+ * Items picked explicitly by a rule rank above items pulled in from a
+ * suggested category, and higher priority rules rank above lower ones.
+ * Items already in the cart are never suggested, and each item appears once
+ * (credited to the highest scoring rule that suggested it).
+ */
+export function evaluateUpsellRules(
+  rules: UpsellRule[],
+  cartItems: UpsellCartItem[],
+  menuItems: MenuItem[],
+  maxSuggestions = MAX_UPSELL_SUGGESTIONS
+): UpsellSuggestion[] {
+  if (rules.length === 0 || cartItems.length === 0) return [];
+
+  const menuItemsById = new Map(menuItems.map((item) => [String(item.id), item]));
+  const cartItemIds = new Set(cartItems.map((item) => String(item.id)));
+
+  const cartCategoryIds = new Set<number>();
+  for (const cartItem of cartItems) {
+    if (cartItem.type === 'merchandise') continue;
+    menuItemsById.get(String(cartItem.id))?.category_ids?.forEach((id) => cartCategoryIds.add(id));
+  }
+
+  const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const bestByItem = new Map<string, UpsellSuggestion>();
+
+  const consider = (item: MenuItem | undefined, rule: UpsellRule, score: number) => {
+    if (!item || cartItemIds.has(String(item.id)) || !isSuggestable(item)) return;
+    const existing = bestByItem.get(String(item.id));
+    if (!existing || existing.score < score) {
+      bestByItem.set(String(item.id), { item, rule, score });
+    }
+  };
+
+  for (const rule of rules) {
+    if (!ruleMatchesCart(rule, cartCategoryIds, subtotal)) continue;
+
+    const baseScore = rule.priority * 100;
+
+    rule.suggest_item_ids.forEach((itemId) => {
+      consider(menuItemsById.get(String(itemId)), rule, baseScore + 50);
+    });
+
+    if (rule.suggest_category_ids.length > 0) {
+      menuItems
+        .filter((item) => item.category_ids?.some((id) => rule.suggest_category_ids.includes(id)))
+        .forEach((item) => consider(item, rule, baseScore + (item.featured ? 10 : 0)));
+    }
+  }
+
+  return Array.from(bestByItem.values())
+    .sort((a, b) => b.score - a.score || a.item.price - b.item.price)
+    .slice(0, maxSuggestions);
+}
@@ -12,6 +12,9 @@ import WaitlistTab from './components/dashboard/WaitlistTab';
 import SeatingTab from './components/dashboard/SeatingTab';
 import LayoutTab from './components/dashboard/LayoutTab';
 import SettingsTab from './components/dashboard/SettingsTab';
+import AnalyticsTab from './components/dashboard/AnalyticsTab';
+import ManageReservation from './components/ManageReservation';
+import WaitlistStatusPage from './components/WaitlistStatusPage';
 
 import { DateFilterProvider } from './context/DateFilterContext';
 
@@ -30,6 +33,10 @@ export default function ReservationsApp() {
         </AnonymousRoute>
       } />
 
+      {/* Guest self-service => /reservations/manage?code=... */}
+      <Route path="manage" element={<ManageReservation />} />
+      <Route path="waitlist/:id" element={<WaitlistStatusPage />} />
+
       {/* Example protected route => /reservations/profile */}
       <Route
         path="profile"
@@ -55,6 +62,7 @@ export default function ReservationsApp() {
         <Route path="waitlist"     element={<WaitlistTab />} />
         <Route path="seating"      element={<SeatingTab />} />
         <Route path="layout"       element={<LayoutTab />} />
+        <Route path="analytics"    element={<AnalyticsTab />} />
         <Route path="settings"     element={<SettingsTab />} />
 
         {/* default => go to “reservations” tab */}
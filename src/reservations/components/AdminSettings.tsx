@@ -15,6 +15,16 @@ import {
   deleteSpecialEvent,
   updateOperatingHour,
 } from '../services/api';
+import {
+  SelfServiceSettings,
+  DEFAULT_SELF_SERVICE_SETTINGS,
+  getSelfServiceSettings,
+} from '../utils/selfServiceUtils';
+import {
+  DepositSettings,
+  DEFAULT_DEPOSIT_SETTINGS,
+  getDepositSettings,
+} from '../utils/depositUtils';
 
 /** Basic Restaurant shape (including current_seat_count for the UI) */
 interface Restaurant {
@@ -43,6 +53,7 @@ interface SpecialEvent {
   closed: boolean;
   exclusive_booking: boolean;
   max_capacity: number;
+  deposit_required: boolean;
   description: string | null;
   _deleted?: boolean;
 }
@@ -103,6 +114,12 @@ export default function AdminSettings() {
   const [defaultLength, setDefaultLength] = useState(60);
   const [adminSettings, setAdminSettings] = useState('');
 
+  // Guest self-service (kept out of the raw JSON so it has its own inputs)
+  const [selfService, setSelfService] = useState<SelfServiceSettings>(DEFAULT_SELF_SERVICE_SETTINGS);
+
+  // Deposits / saved cards (also kept out of the raw JSON)
+  const [deposits, setDeposits] = useState<DepositSettings>(DEFAULT_DEPOSIT_SETTINGS);
+
   // Operating Hours
   const [draftHours, setDraftHours] = useState<OperatingHour[]>([]);
 
@@ -128,7 +145,10 @@ export default function AdminSettings() {
         setDefaultLength(rest.default_reservation_length);
       }
       if (rest.admin_settings) {
-        setAdminSettings(JSON.stringify(rest.admin_settings, null, 2));
+        const { reservation_self_service, reservation_deposits, ...otherSettings } = rest.admin_settings;
+        setSelfService(getSelfServiceSettings({ reservation_self_service }));
+        setDeposits(getDepositSettings({ reservation_deposits }));
+        setAdminSettings(JSON.stringify(otherSettings, null, 2));
       }
       if (rest.current_seat_count) {
         setSeatCount(rest.current_seat_count);
@@ -146,6 +166,7 @@ export default function AdminSettings() {
         closed:            item.closed,
         exclusive_booking: item.exclusive_booking,
         max_capacity:      item.max_capacity,
+        deposit_required:  !!item.deposit_required,
         description:       item.description,
         _deleted:          false,
       })) as SpecialEvent[];
@@ -186,6 +207,7 @@ export default function AdminSettings() {
       closed: false,
       exclusive_booking: false,
       max_capacity: seatCount,
+      deposit_required: false,
       description: '',
     };
     setDraftEvents((prev) => [...prev, newEvent]);
@@ -208,7 +230,11 @@ export default function AdminSettings() {
       // 1) Update restaurant
       const restaurantPayload = {
         default_reservation_length: Number(defaultLength),
-        admin_settings: parsedAdmin,
+        admin_settings: {
+          ...parsedAdmin,
+          reservation_self_service: selfService,
+          reservation_deposits: deposits,
+        },
       };
       await updateRestaurant(1, restaurantPayload);
 
@@ -233,6 +259,7 @@ export default function AdminSettings() {
           closed:           ev.closed,
           exclusive_booking: ev.exclusive_booking,
           max_capacity:     ev.max_capacity,
+          deposit_required: ev.deposit_required,
           description:      ev.description,
           start_time:       ev.start_time,
           end_time:         ev.end_time,
@@ -247,6 +274,7 @@ export default function AdminSettings() {
           closed:           ev.closed,
           exclusive_booking: ev.exclusive_booking,
           max_capacity:     ev.max_capacity,
+          deposit_required: ev.deposit_required,
           description:      ev.description,
           start_time:       ev.start_time,
           end_time:         ev.end_time,
@@ -403,6 +431,14 @@ export default function AdminSettings() {
                           Max Guests
                         </th>
                       )}
+                      {showAdvanced && (
+                        <th
+                          className="px-2 py-2 text-left text-sm"
+                          title="Every booking on this date needs a deposit or a card on file."
+                        >
+                          Deposit
+                        </th>
+                      )}
                       <th className="px-2 py-2 text-left text-sm">Start</th>
                       <th className="px-2 py-2 text-left text-sm">End</th>
                       <th className="px-2 py-2 text-left text-sm">Description</th>
@@ -460,6 +496,17 @@ export default function AdminSettings() {
                               />
                             </td>
                           )}
+                          {showAdvanced && (
+                            <td className="px-2 py-2 text-center">
+                              <input
+                                type="checkbox"
+                                checked={ev.deposit_required}
+                                onChange={(e) =>
+                                  handleEventChange(ev.id, 'deposit_required', e.target.checked)
+                                }
+                              />
+                            </td>
+                          )}
                           <td className="px-2 py-2">
                             <input
                               type="time"
@@ -556,7 +603,127 @@ export default function AdminSettings() {
             </div>
           </section>
 
-          {/* 4) Save Button */}
+          {/* 4) Guest Self-Service */}
+          <section className="bg-white p-4 rounded shadow">
+            <h2 className="text-xl font-bold mb-4">Guest Self-Service</h2>
+            <div className="space-y-4 max-w-lg">
+              <label className="inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selfService.allow_guest_changes}
+                  onChange={(e) =>
+                    setSelfService({ ...selfService, allow_guest_changes: e.target.checked })
+                  }
+                  className="mr-2"
+                />
+                <span className="text-sm text-gray-700">
+                  Let guests reschedule, change party size or cancel online
+                </span>
+              </label>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Change Cutoff (hours before reservation)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  disabled={!selfService.allow_guest_changes}
+                  value={selfService.modify_cutoff_hours}
+                  onChange={(e) =>
+                    setSelfService({ ...selfService, modify_cutoff_hours: +e.target.value })
+                  }
+                  className="border border-gray-300 rounded p-2 w-44 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Cancel Cutoff (hours before reservation)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  disabled={!selfService.allow_guest_changes}
+                  value={selfService.cancel_cutoff_hours}
+                  onChange={(e) =>
+                    setSelfService({ ...selfService, cancel_cutoff_hours: +e.target.value })
+                  }
+                  className="border border-gray-300 rounded p-2 w-44 text-sm"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Guests manage bookings at /reservations/manage with their confirmation code.
+              </p>
+            </div>
+          </section>
+
+          {/* 5) Deposits & Saved Cards */}
+          <section className="bg-white p-4 rounded shadow">
+            <h2 className="text-xl font-bold mb-4">Deposits &amp; Saved Cards</h2>
+            <div className="space-y-4 max-w-lg">
+              <label className="inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={deposits.enabled}
+                  onChange={(e) => setDeposits({ ...deposits, enabled: e.target.checked })}
+                  className="mr-2"
+                />
+                <span className="text-sm text-gray-700">
+                  Require a deposit or a card on file for large parties and flagged special events
+                </span>
+              </label>
+              <div>
+                <label className="block text-sm font-medium mb-1">Collect As</label>
+                <select
+                  disabled={!deposits.enabled}
+                  value={deposits.mode}
+                  onChange={(e) =>
+                    setDeposits({ ...deposits, mode: e.target.value as DepositSettings['mode'] })
+                  }
+                  className="border border-gray-300 rounded p-2 w-64 text-sm"
+                >
+                  <option value="hold">Card on file (charged only on no-show)</option>
+                  <option value="deposit">Deposit (charged when booking)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Party Size Threshold
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  disabled={!deposits.enabled}
+                  value={deposits.party_size_threshold}
+                  onChange={(e) =>
+                    setDeposits({ ...deposits, party_size_threshold: +e.target.value })
+                  }
+                  className="border border-gray-300 rounded p-2 w-44 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Amount per Guest ($)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  disabled={!deposits.enabled}
+                  value={deposits.amount_per_guest}
+                  onChange={(e) =>
+                    setDeposits({ ...deposits, amount_per_guest: +e.target.value })
+                  }
+                  className="border border-gray-300 rounded p-2 w-44 text-sm"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Collected through Stripe, so the payment processor must be set to Stripe. Flag
+                individual special events under Advanced Options above.
+              </p>
+            </div>
+          </section>
+
+          {/* 6) Save Button */}
           <div>
             <button
               type="button"
@@ -6,6 +6,7 @@ import {
 } from 'lucide-react';
 
 import toastUtils from '../../shared/utils/toastUtils';
+import { handleApiError } from '../../shared/utils/errorHandler';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import { formatPhoneNumber } from '../../shared/utils/formatters';
@@ -26,7 +27,13 @@ import {
   seatAllocationCancel,
   updateReservation,
   deleteReservation,
+  captureReservationDeposit,
+  releaseReservationDeposit,
+  fireReservationPreOrder,
 } from '../services/api';
+import { ReservationPreOrder } from '../types';
+import { proposeSeats, SeatProposal } from '../utils/autoAssignUtils';
+import { hasHeldDeposit, formatDepositAmount } from '../utils/depositUtils';
 
 /** ---------- Data Interfaces ---------- **/
 interface Reservation {
@@ -40,6 +47,10 @@ interface Reservation {
   created_at?: string;
   seat_labels?: string[];
   seat_preferences?: string[][];
+  deposit_amount?: number;
+  deposit_type?: 'deposit' | 'hold';
+  deposit_status?: 'pending' | 'paid' | 'held' | 'captured' | 'released';
+  pre_order?: ReservationPreOrder | null;
 }
 
 interface WaitlistEntry {
@@ -197,6 +208,8 @@ export default function FloorManager({
     selectedSeatIds: [],
     reservationData: undefined,
   });
+  // auto-assign suggestion shown on the canvas until confirmed or changed
+  const [seatProposal, setSeatProposal] = useState<SeatProposal | null>(null);
 
   useEffect(() => {
     initLoad();
@@ -366,6 +379,7 @@ export default function FloorManager({
   }
 
   function handleCancelWizard() {
+    setSeatProposal(null);
     setSeatWizard({
       occupantType: null,
       occupantId: null,
@@ -377,7 +391,36 @@ export default function FloorManager({
     });
   }
 
+  /** Guests the chosen seats hold (seats default to capacity 1) */
+  function getSelectedCapacity(seatIds: number[]) {
+    const seats = layout?.seat_sections.flatMap((sec) => sec.seats) || [];
+    return seatIds.reduce((sum, id) => {
+      const seat = seats.find((s) => s.id === id);
+      return sum + (seat?.capacity && seat.capacity > 0 ? seat.capacity : 1);
+    }, 0);
+  }
+
+  function handleAutoAssign() {
+    if (!layout || !seatWizard.active) return;
+    const { start, end } = getSeatWizardStartEnd();
+    const proposal = proposeSeats({
+      sections: layout.seat_sections,
+      allocations: dateSeatAllocations,
+      partySize: seatWizard.occupantPartySize,
+      start,
+      end,
+      seatPreferences: seatWizard.reservationData?.seat_preferences,
+    });
+    if (!proposal) {
+      toastUtils.error(`No open seats fit a party of ${seatWizard.occupantPartySize}. Pick seats manually.`);
+      return;
+    }
+    setSeatProposal(proposal);
+    setSeatWizard(prev => ({ ...prev, selectedSeatIds: proposal.seatIds }));
+  }
+
   function toggleSelectedSeat(seatId: number) {
+    setSeatProposal(null);
     setSeatWizard(prev => {
       const included = prev.selectedSeatIds.includes(seatId);
       const newList = included
@@ -389,8 +432,8 @@ export default function FloorManager({
 
   async function handleSeatNow() {
     if (!seatWizard.active || !seatWizard.occupantId) return;
-    if (seatWizard.selectedSeatIds.length !== seatWizard.occupantPartySize) {
-      toastUtils.error(`Need exactly ${seatWizard.occupantPartySize} seat(s).`);
+    if (getSelectedCapacity(seatWizard.selectedSeatIds) < seatWizard.occupantPartySize) {
+      toastUtils.error(`Need seats for ${seatWizard.occupantPartySize} guest(s).`);
       return;
     }
     const { start, end } = getSeatWizardStartEnd();
@@ -418,8 +461,8 @@ export default function FloorManager({
 
   async function handleReserveSeats() {
     if (!seatWizard.active || !seatWizard.occupantId) return;
-    if (seatWizard.selectedSeatIds.length !== seatWizard.occupantPartySize) {
-      toastUtils.error(`Need exactly ${seatWizard.occupantPartySize} seat(s).`);
+    if (getSelectedCapacity(seatWizard.selectedSeatIds) < seatWizard.occupantPartySize) {
+      toastUtils.error(`Need seats for ${seatWizard.occupantPartySize} guest(s).`);
       return;
     }
     const { start, end } = getSeatWizardStartEnd();
@@ -463,30 +506,116 @@ export default function FloorManager({
     setShowSeatDialog(false);
   }
 
+  function findOccupantReservation(occupantType: string, occupantId: number) {
+    if (occupantType !== 'reservation') return undefined;
+    return reservations.find(r => r.id === occupantId);
+  }
+
+  /** A pre-order that is still waiting to go to the kitchen */
+  function getUnfiredPreOrder(reservation?: Reservation) {
+    const preOrder = reservation?.pre_order;
+    return preOrder && !preOrder.fired_at ? preOrder : null;
+  }
+
+  /**
+   * Returns false when the kitchen didn't get the pre-order. The error stays
+   * up until dismissed so staff know the food hasn't started.
+   */
+  async function firePreOrder(reservation: Reservation) {
+    try {
+      await fireReservationPreOrder(reservation.id);
+      toastUtils.success('Pre-order sent to the kitchen.');
+      return true;
+    } catch (err) {
+      console.error('[FloorManager] firePreOrder error:', err);
+      toastUtils.error(
+        `Pre-order for ${reservation.contact_name || 'this party'} was NOT sent to the kitchen: ${handleApiError(err, 'unknown error')}`,
+        { duration: Infinity }
+      );
+      return false;
+    }
+  }
+
+  /** Returns false when the saved card couldn't be settled, so the status change can stop */
+  async function settleDeposit(reservation: Reservation, action: 'capture' | 'release') {
+    const amount = formatDepositAmount(reservation.deposit_amount);
+    try {
+      if (action === 'capture') {
+        await captureReservationDeposit(reservation.id);
+        toastUtils.success(`No-show fee of ${amount} charged.`);
+      } else {
+        await releaseReservationDeposit(reservation.id);
+        toastUtils.success('Saved card released.');
+      }
+      return true;
+    } catch (err) {
+      console.error(`[FloorManager] ${action} deposit error:`, err);
+      toastUtils.error(
+        action === 'capture'
+          ? `Failed to charge the ${amount} no-show fee. The reservation was left unchanged.`
+          : 'Failed to release the saved card. The reservation was left unchanged.'
+      );
+      return false;
+    }
+  }
+
   function getOccupantStatusActions(occupantType: string, occupantId: number) {
+    const reservation = findOccupantReservation(occupantType, occupantId);
+    const heldDeposit = hasHeldDeposit(reservation) ? reservation : undefined;
+    const unfiredPreOrder = getUnfiredPreOrder(reservation);
+
+    // The card is settled first so a failed charge never leaves a no-show that can't be billed
+    async function markNoShow(depositAction: 'capture' | 'release') {
+      if (heldDeposit && !(await settleDeposit(heldDeposit, depositAction))) return;
+      try {
+        await seatAllocationNoShow({ occupant_type: occupantType, occupant_id: occupantId });
+        toastUtils.success('Marked as no-show.');
+        closeSeatDialog();
+        await refreshLayout();
+      } catch (err) {
+        console.error('[FloorManager] handleNoShow error:', err);
+        toastUtils.error('Failed to mark no-show. Check console.');
+      }
+    }
+
     return {
-      finish: async () => {
+      heldDeposit,
+      preOrder: reservation?.pre_order || null,
+      unfiredPreOrder,
+      // On failure the dialog stays open with the Fire button so staff can retry
+      firePreOrder: async () => {
+        if (!reservation) return;
+        if (!(await firePreOrder(reservation))) return;
+        closeSeatDialog();
+        await refreshLayout();
+      },
+      arriveAndFire: async () => {
         try {
-          await seatAllocationFinish({ occupant_type: occupantType, occupant_id: occupantId });
-          toastUtils.success('Seat finished (freed).');
-          closeSeatDialog();
+          await seatAllocationArrive({ occupant_type: occupantType, occupant_id: occupantId });
+          toastUtils.success('Occupant arrived and seated!');
+          const fired = !(reservation && unfiredPreOrder) || (await firePreOrder(reservation));
+          if (fired) closeSeatDialog();
           await refreshLayout();
         } catch (err) {
-          console.error('[FloorManager] handleFinishOccupant error:', err);
-          toastUtils.error('Failed to free seat. Check console.');
+          console.error('[FloorManager] handleArriveOccupant error:', err);
+          toastUtils.error('Failed to seat occupant. Check console.');
         }
       },
-      noShow: async () => {
+      finish: async () => {
+        // The party showed up, so the saved card is released before the seat is freed
+        if (heldDeposit && !(await settleDeposit(heldDeposit, 'release'))) return;
         try {
-          await seatAllocationNoShow({ occupant_type: occupantType, occupant_id: occupantId });
-          toastUtils.success('Marked as no-show.');
+          await seatAllocationFinish({ occupant_type: occupantType, occupant_id: occupantId });
+          toastUtils.success('Seat finished (freed).');
           closeSeatDialog();
           await refreshLayout();
         } catch (err) {
-          console.error('[FloorManager] handleNoShow error:', err);
-          toastUtils.error('Failed to mark no-show. Check console.');
+          console.error('[FloorManager] handleFinishOccupant error:', err);
+          toastUtils.error('Failed to free seat. Check console.');
         }
       },
+      noShow: () => markNoShow('release'),
+      noShowAndCapture: () => markNoShow('capture'),
       arrive: async () => {
         try {
           await seatAllocationArrive({ occupant_type: occupantType, occupant_id: occupantId });
@@ -565,11 +694,13 @@ export default function FloorManager({
       const occupant_status = occ?.occupant_status || 'free';
       const occupant_name   = occ?.occupant_name || '';
       const isSelected = seatWizard.active && seatWizard.selectedSeatIds.includes(s.id);
+      const isSuggested = seatWizard.active && !!seatProposal?.seatIds.includes(s.id);
       return {
         ...s,
         occupant_status,
         occupant_name,
         isSelected,
+        isSuggested,
       };
     }),
   })) || [];
@@ -584,8 +715,8 @@ export default function FloorManager({
         return;
       }
       const alreadySelected = seatWizard.selectedSeatIds.includes(seat.id);
-      if (!alreadySelected && seatWizard.selectedSeatIds.length >= seatWizard.occupantPartySize) {
-        toastUtils.error(`Need exactly ${seatWizard.occupantPartySize} seat(s).`);
+      if (!alreadySelected && getSelectedCapacity(seatWizard.selectedSeatIds) >= seatWizard.occupantPartySize) {
+        toastUtils.error(`Need seats for ${seatWizard.occupantPartySize} guest(s).`);
         return;
       }
       toggleSelectedSeat(seat.id);
@@ -745,11 +876,17 @@ export default function FloorManager({
         ) : (
           <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded space-y-3">
             <div className="flex items-center gap-2">
+              <button
+                onClick={handleAutoAssign}
+                className="px-4 py-2 bg-purple-600 text-white rounded text-sm hover:bg-purple-700"
+              >
+                Auto-Assign
+              </button>
               <button
                 onClick={handleSeatNow}
                 className="px-4 py-2 bg-green-600 text-white rounded text-sm"
               >
-                Seat Now
+                {seatProposal ? 'Confirm & Seat' : 'Seat Now'}
               </button>
               {seatWizard.occupantType === 'reservation' && (
                 <button
@@ -767,6 +904,15 @@ export default function FloorManager({
               </button>
             </div>
 
+            {/* Auto-assign suggestion */}
+            {seatProposal && (
+              <div className="p-2 bg-purple-50 border border-purple-200 rounded text-sm">
+                <span className="font-semibold">Suggested:</span>{' '}
+                {seatProposal.labels.join(', ')}{' '}
+                <span className="text-gray-600">— {seatProposal.reason}</span>
+              </div>
+            )}
+
             {/* If the occupant is a reservation with seat preferences */}
             {seatWizard.occupantType === 'reservation' &&
               seatWizard.reservationData?.seat_preferences?.length ? (
@@ -883,6 +1029,11 @@ export default function FloorManager({
                     </div>
                     {timeStr && <div className="text-xs text-blue-500">Time: {timeStr}</div>}
                     <div className="text-xs text-gray-500">Status: {r.status}</div>
+                    {r.pre_order && (
+                      <div className="text-xs text-purple-700">
+                        Pre-order attached{r.pre_order.fired_at ? ' (fired)' : ''}
+                      </div>
+                    )}
                   </li>
                 );
               })}
@@ -1024,7 +1175,19 @@ export default function FloorManager({
                 const occName = occupantAlloc.occupant_name || 'someone';
                 const occSize = occupantAlloc.occupant_party_size || 1;
                 const occStatus = occupantAlloc.occupant_status;
-                const { finish, noShow, arrive, cancel } = getOccupantStatusActions(occType, occId);
+                const {
+                  heldDeposit, preOrder, unfiredPreOrder, firePreOrder, arriveAndFire,
+                  finish, noShow, noShowAndCapture, arrive, cancel,
+                } = getOccupantStatusActions(occType, occId);
+                const preOrderNote = preOrder && (
+                  <p className="text-sm mb-4 px-2 py-1 rounded bg-purple-50 text-purple-800">
+                    Pre-order attached: {preOrder.item_count} item{preOrder.item_count === 1 ? '' : 's'}
+                    {' '}(${Number(preOrder.total).toFixed(2)})
+                    {preOrder.fired_at
+                      ? ` — fired at ${new Date(preOrder.fired_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                      : ' — not fired yet'}
+                  </p>
+                );
 
                 if (occStatus === 'reserved') {
                   return (
@@ -1039,18 +1202,40 @@ export default function FloorManager({
                       <p className="text-sm text-gray-600 mb-4">
                         Reserved by <strong>{occName} (Party of {occSize})</strong>
                       </p>
+                      {heldDeposit && (
+                        <p className="text-sm text-gray-600 mb-4">
+                          Card on file: <strong>{formatDepositAmount(heldDeposit.deposit_amount)}</strong>
+                        </p>
+                      )}
+                      {preOrderNote}
                       <div className="flex flex-col space-y-2">
+                        {unfiredPreOrder && (
+                          <button
+                            onClick={arriveAndFire}
+                            className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700"
+                          >
+                            Seat &amp; Fire Pre-Order
+                          </button>
+                        )}
                         <button
                           onClick={arrive}
                           className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
                         >
                           Seat This Party
                         </button>
+                        {heldDeposit && (
+                          <button
+                            onClick={noShowAndCapture}
+                            className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                          >
+                            Mark No-Show &amp; Charge {formatDepositAmount(heldDeposit.deposit_amount)}
+                          </button>
+                        )}
                         <button
                           onClick={noShow}
                           className="px-4 py-2 bg-orange-600 text-white rounded hover:bg-orange-700"
                         >
-                          Mark No-Show
+                          {heldDeposit ? 'Mark No-Show & Release Card' : 'Mark No-Show'}
                         </button>
                         <button
                           onClick={cancel}
@@ -1074,6 +1259,20 @@ export default function FloorManager({
                       <p className="text-sm text-gray-600 mb-4">
                         Occupied by <strong>{occName} (Party of {occSize})</strong>
                       </p>
+                      {heldDeposit && (
+                        <p className="text-sm text-gray-600 mb-4">
+                          The saved card ({formatDepositAmount(heldDeposit.deposit_amount)} no-show fee) is released when you finish.
+                        </p>
+                      )}
+                      {preOrderNote}
+                      {unfiredPreOrder && (
+                        <button
+                          onClick={firePreOrder}
+                          className="px-4 py-2 mr-2 bg-purple-600 text-white rounded hover:bg-purple-700"
+                        >
+                          Fire Pre-Order
+                        </button>
+                      )}
                       <button
                         onClick={finish}
                         className="px-4 py-2 bg-hafaloha-gold text-white rounded hover:bg-hafaloha-coral"
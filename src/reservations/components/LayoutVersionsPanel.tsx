@@ -0,0 +1,135 @@
+// src/reservations/components/LayoutVersionsPanel.tsx
+
+import { useEffect, useState } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import toastUtils from '../../shared/utils/toastUtils';
+
+import { fetchLayoutVersions } from '../services/api';
+import {
+  LayoutSectionSnapshot,
+  LayoutVersion,
+  diffLayoutSections,
+} from '../utils/layoutVersionUtils';
+
+interface LayoutVersionsPanelProps {
+  layoutId: number;
+  currentSections: LayoutSectionSnapshot[];
+  onRestore: (version: LayoutVersion) => void;
+  onClose: () => void;
+}
+
+const KIND_STYLES = {
+  added: 'text-green-700',
+  removed: 'text-red-700',
+  changed: 'text-gray-800',
+};
+
+/**
+ * Lists saved snapshots of a layout. Selecting one shows what differs from
+ * the editor; restoring loads it into the editor (undoable, not yet saved).
+ */
+export default function LayoutVersionsPanel({
+  layoutId,
+  currentSections,
+  onRestore,
+  onClose,
+}: LayoutVersionsPanelProps) {
+  const [versions, setVersions] = useState<LayoutVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchLayoutVersions(layoutId)
+      .then((data) => {
+        const list = (data as LayoutVersion[]) || [];
+        setVersions(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch((err) => {
+        console.error('Error loading layout versions:', err);
+        toastUtils.error('Failed to load layout history.');
+      })
+      .finally(() => setLoading(false));
+  }, [layoutId]);
+
+  const selected = versions.find((v) => v.id === selectedId) || null;
+  const diff = selected ? diffLayoutSections(selected.sections_data.sections || [], currentSections) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded shadow-lg w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="text-lg font-bold">Layout History</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="p-4 text-sm text-gray-600">Loading versions...</div>
+        ) : versions.length === 0 ? (
+          <div className="p-4 text-sm text-gray-600">
+            No saved versions yet. A version is recorded each time you save.
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Version list */}
+            <ul className="w-64 border-r overflow-y-auto">
+              {versions.map((version) => (
+                <li key={version.id}>
+                  <button
+                    onClick={() => setSelectedId(version.id)}
+                    className={`w-full text-left px-4 py-2 text-sm border-b ${
+                      version.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-medium">{new Date(version.created_at).toLocaleString()}</div>
+                    <div className="text-xs text-gray-500">
+                      {version.name}
+                      {version.created_by_name ? ` · ${version.created_by_name}` : ''}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff vs the editor */}
+            <div className="flex-1 p-4 overflow-y-auto">
+              {selected && (
+                <>
+                  <h4 className="font-semibold mb-2">Changes since this version</h4>
+                  {diff.length === 0 ? (
+                    <p className="text-sm text-gray-600">The editor matches this version.</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {diff.map((entry, idx) => (
+                        <li key={`${entry.sectionName}-${idx}`} className={KIND_STYLES[entry.kind]}>
+                          <span className="font-medium">
+                            {entry.kind === 'added' ? '+ ' : entry.kind === 'removed' ? '− ' : '~ '}
+                            {entry.sectionName}
+                          </span>
+                          {entry.details.length > 0 && (
+                            <span className="text-gray-600"> ({entry.details.join(', ')})</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <button
+                    onClick={() => onRestore(selected)}
+                    disabled={diff.length === 0}
+                    className="mt-4 inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore This Version
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
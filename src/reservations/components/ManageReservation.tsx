@@ -0,0 +1,364 @@
+// src/reservations/components/ManageReservation.tsx
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
+import { CalendarClock, Clock, Search, Users, XCircle } from 'lucide-react';
+
+import toastUtils from '../../shared/utils/toastUtils';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import { useRestaurantStore } from '../../shared/store/restaurantStore';
+import {
+  cancelGuestReservation,
+  fetchAvailability,
+  lookupReservation,
+  modifyGuestReservation,
+} from '../services/api';
+import { Reservation } from '../types';
+import {
+  canGuestCancel,
+  canGuestModify,
+  getSelfServiceSettings,
+} from '../utils/selfServiceUtils';
+
+/** The API returns backend field names */
+interface GuestReservation extends Reservation {
+  party_size?: number;
+  contact_name?: string;
+}
+
+interface AvailabilityResponse {
+  slots: string[];
+  date: string;
+}
+
+/** Helpers */
+function formatYYYYMMDD(dateObj: Date): string {
+  const yyyy = dateObj.getFullYear();
+  const mm = String(dateObj.getMonth() + 1).padStart(2, '0');
+  const dd = String(dateObj.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+function formatHHMM(dateObj: Date): string {
+  return `${String(dateObj.getHours()).padStart(2, '0')}:${String(dateObj.getMinutes()).padStart(2, '0')}`;
+}
+function format12hSlot(slot: string) {
+  const [hh, mm] = slot.split(':').map(Number);
+  return new Date(2020, 0, 1, hh, mm).toLocaleString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+/**
+ * Guest-facing page to find a booking by confirmation code and phone/email,
+ * then reschedule, change party size or cancel within the restaurant's cutoffs.
+ */
+export default function ManageReservation() {
+  const [searchParams] = useSearchParams();
+  const { restaurant, fetchRestaurant } = useRestaurantStore();
+
+  // Lookup
+  const [code, setCode] = useState(searchParams.get('code') || '');
+  const [contact, setContact] = useState('');
+  const [lookingUp, setLookingUp] = useState(false);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [reservation, setReservation] = useState<GuestReservation | null>(null);
+
+  // Changes
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [time, setTime] = useState('');
+  const [partySizeText, setPartySizeText] = useState('');
+  const [timeslots, setTimeslots] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!restaurant) fetchRestaurant();
+  }, [restaurant, fetchRestaurant]);
+
+  const settings = getSelfServiceSettings(restaurant?.admin_settings);
+  const partySize = parseInt(partySizeText, 10) || 1;
+
+  const originalStart = reservation?.start_time ? new Date(reservation.start_time) : null;
+  const originalDate = originalStart ? formatYYYYMMDD(originalStart) : '';
+  const originalTime = originalStart ? formatHHMM(originalStart) : '';
+  const originalPartySize = reservation?.party_size ?? reservation?.partySize ?? 1;
+
+  function loadReservation(data: GuestReservation) {
+    setReservation(data);
+    if (data.start_time) {
+      const start = new Date(data.start_time);
+      setSelectedDate(start);
+      setTime(formatHHMM(start));
+    }
+    setPartySizeText(String(data.party_size ?? data.partySize ?? 1));
+  }
+
+  // Refresh open slots when the date or party size changes
+  useEffect(() => {
+    if (!reservation || !selectedDate) return;
+    const dateStr = formatYYYYMMDD(selectedDate);
+    fetchAvailability(dateStr, partySize)
+      .then((data) => {
+        const slots = (data as AvailabilityResponse).slots || [];
+        // The guest's own slot may not show as open, so keep it selectable
+        if (dateStr === originalDate && originalTime && !slots.includes(originalTime)) {
+          slots.push(originalTime);
+          slots.sort();
+        }
+        setTimeslots(slots);
+      })
+      .catch((err) => {
+        console.error('Error fetching availability:', err);
+        setTimeslots([]);
+      });
+  }, [reservation, selectedDate, partySize, originalDate, originalTime]);
+
+  async function handleLookup(e: React.FormEvent) {
+    e.preventDefault();
+    if (!code.trim() || !contact.trim()) {
+      setLookupError('Enter your confirmation code and the phone or email you booked with.');
+      return;
+    }
+    setLookingUp(true);
+    setLookupError(null);
+    try {
+      const data = await lookupReservation(code.trim(), contact.trim());
+      loadReservation(data as GuestReservation);
+    } catch (err) {
+      console.error('Reservation lookup failed:', err);
+      setLookupError("We couldn't find a reservation with those details.");
+    } finally {
+      setLookingUp(false);
+    }
+  }
+
+  async function handleSaveChanges() {
+    if (!reservation || !selectedDate || !time) return;
+    setSaving(true);
+    try {
+      const updated = await modifyGuestReservation(code.trim(), contact.trim(), {
+        start_time: `${formatYYYYMMDD(selectedDate)}T${time}:00`,
+        party_size: partySize,
+      });
+      loadReservation(updated as GuestReservation);
+      toastUtils.success('Your reservation has been updated.');
+    } catch (err) {
+      console.error('Failed to update reservation:', err);
+      // The server explains cutoff and availability rejections
+      toastUtils.error(handleApiError(err, 'That time is no longer available. Please pick another.'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCancel() {
+    if (!reservation) return;
+    if (!window.confirm('Cancel this reservation? This cannot be undone.')) return;
+    setSaving(true);
+    try {
+      const updated = await cancelGuestReservation(code.trim(), contact.trim());
+      loadReservation(updated as GuestReservation);
+      toastUtils.success('Your reservation has been canceled.');
+    } catch (err) {
+      console.error('Failed to cancel reservation:', err);
+      toastUtils.error(handleApiError(err, 'Failed to cancel reservation. Please call us instead.'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  /** Lookup form */
+  if (!reservation) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12">
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">Manage Your Reservation</h1>
+          <p className="text-sm text-gray-600 mb-6">
+            Enter the confirmation code from your booking and the phone number or email you used.
+          </p>
+          <form onSubmit={handleLookup} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confirmation Code</label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                className="w-full border border-gray-300 rounded-md p-2 text-sm font-mono tracking-wider"
+                autoComplete="off"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone or Email</label>
+              <input
+                type="text"
+                value={contact}
+                onChange={(e) => setContact(e.target.value)}
+                className="w-full border border-gray-300 rounded-md p-2 text-sm"
+              />
+            </div>
+            {lookupError && <p className="text-sm text-red-600">{lookupError}</p>}
+            <button
+              type="submit"
+              disabled={lookingUp}
+              className="w-full inline-flex items-center justify-center bg-shimizu-blue hover:bg-shimizu-light-blue text-white font-medium py-2 px-4 rounded-md disabled:opacity-60"
+            >
+              <Search className="h-4 w-4 mr-2" />
+              {lookingUp ? 'Looking up...' : 'Find Reservation'}
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  const isCanceled = reservation.status === 'canceled';
+  const canModify = canGuestModify(reservation, settings);
+  const canCancel = canGuestCancel(reservation, settings);
+  const hasChanges =
+    !!selectedDate &&
+    (formatYYYYMMDD(selectedDate) !== originalDate || time !== originalTime || partySize !== originalPartySize);
+
+  return (
+    <div className="max-w-xl mx-auto px-4 py-12">
+      <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {reservation.contact_name ? `Hi, ${reservation.contact_name.split(' ')[0]}` : 'Your Reservation'}
+          </h1>
+          {reservation.confirmation_code && (
+            <p className="text-sm text-gray-500">
+              Confirmation <span className="font-mono">{reservation.confirmation_code}</span>
+            </p>
+          )}
+        </div>
+
+        {/* Current booking */}
+        <div className="bg-gray-50 rounded-lg p-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex items-start space-x-2">
+            <CalendarClock className="h-5 w-5 text-shimizu-blue mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900">Date &amp; Time</p>
+              <p className="text-gray-600">
+                {originalStart?.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+              </p>
+              {originalTime && <p className="text-gray-600">{format12hSlot(originalTime)}</p>}
+            </div>
+          </div>
+          <div className="flex items-start space-x-2">
+            <Users className="h-5 w-5 text-shimizu-blue mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900">Party Size</p>
+              <p className="text-gray-600">
+                {originalPartySize} {originalPartySize === 1 ? 'person' : 'people'}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {isCanceled ? (
+          <div className="flex items-start p-4 rounded-md bg-red-50">
+            <XCircle className="h-5 w-5 text-red-500 mr-2 flex-shrink-0" />
+            <p className="text-sm text-red-700">This reservation has been canceled.</p>
+          </div>
+        ) : (
+          <>
+            {/* Reschedule / party size */}
+            {canModify ? (
+              <div className="space-y-4">
+                <h2 className="font-semibold text-gray-900">Change your reservation</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                    <DatePicker
+                      selected={selectedDate}
+                      onChange={(date: Date | null) => {
+                        setSelectedDate(date);
+                        setTime('');
+                      }}
+                      minDate={new Date()}
+                      dateFormat="MM/dd/yyyy"
+                      className="w-full border border-gray-300 rounded-md p-2 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Party Size</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={partySizeText}
+                      onChange={(e) => setPartySizeText(e.target.value.replace(/\D/g, ''))}
+                      className="w-full border border-gray-300 rounded-md p-2 text-sm"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Time</label>
+                  {timeslots.length === 0 ? (
+                    <p className="text-sm text-gray-500">No open times for this date and party size.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {timeslots.map((slot) => (
+                        <button
+                          key={slot}
+                          type="button"
+                          onClick={() => setTime(slot)}
+                          className={`px-3 py-1.5 rounded-md text-sm border ${
+                            time === slot
+                              ? 'bg-shimizu-blue border-shimizu-blue text-white'
+                              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {format12hSlot(slot)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSaveChanges}
+                  disabled={saving || !time || !hasChanges}
+                  className="w-full bg-shimizu-blue hover:bg-shimizu-light-blue text-white font-medium py-2 px-4 rounded-md disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-start p-4 rounded-md bg-gray-50">
+                <Clock className="h-5 w-5 text-gray-500 mr-2 flex-shrink-0" />
+                <p className="text-sm text-gray-600">
+                  {settings.allow_guest_changes
+                    ? `Changes can be made online up to ${settings.modify_cutoff_hours} hours before your reservation. Please call us to make changes.`
+                    : 'Please call us to make changes to your reservation.'}
+                </p>
+              </div>
+            )}
+
+            {/* Cancel */}
+            <div className="border-t pt-4">
+              {canCancel ? (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  disabled={saving}
+                  className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  Cancel reservation
+                </button>
+              ) : (
+                settings.allow_guest_changes && (
+                  <p className="text-sm text-gray-500">
+                    Online cancellation closes {settings.cancel_cutoff_hours} hours before your reservation.
+                  </p>
+                )
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
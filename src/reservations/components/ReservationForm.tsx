@@ -1,9 +1,10 @@
 // src/components/ReservationForm.tsx
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import Select, { SingleValue } from 'react-select';
+import { Link } from 'react-router-dom';
 import {
   Clock,
   Users,
@@ -13,6 +14,7 @@ import {
   MapPin,
   CalendarClock,
   Share2,
+  CreditCard,
 } from 'lucide-react';
 
 import { useAuth } from '../../shared/auth';
@@ -20,6 +22,23 @@ import toastUtils from '../../shared/utils/toastUtils';
 import { api } from '../../shared/api';
 import { Tooltip } from '../../shared/components/ui';
 import { formatPhoneNumber } from '../../shared/utils/formatters';
+import { useRestaurantStore } from '../../shared/store/restaurantStore';
+import {
+  StripeCheckout,
+  StripeCheckoutRef,
+  PaymentIntentResponse,
+} from '../../ordering/components/payment/StripeCheckout';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import { cancelGuestReservation, confirmGuestDeposit, createGuestDepositIntent } from '../services/api';
+import type { Reservation } from '../types';
+import { buildManageReservationPath } from '../utils/selfServiceUtils';
+import {
+  DepositEvent,
+  getDepositSettings,
+  getDepositRequirement,
+  isAwaitingDeposit,
+  formatDepositAmount,
+} from '../utils/depositUtils';
 
 // Define API types
 interface AvailabilityResponse {
@@ -32,8 +51,16 @@ const fetchAvailability = async (date: string, partySize: number): Promise<Avail
   return api.get<AvailabilityResponse>(`/availability?date=${date}&party_size=${partySize}`);
 };
 
-const createReservation = async (data: any): Promise<any> => {
-  return api.post<any>('/reservations', data);
+const createReservation = async (data: ReservationPayload): Promise<Reservation> => {
+  return api.post<Reservation>('/reservations', data);
+};
+
+interface SpecialEventSummary extends DepositEvent {
+  event_date: string;
+}
+
+const fetchSpecialEvents = async (): Promise<SpecialEventSummary[]> => {
+  return api.get<SpecialEventSummary[]>('/special_events');
 };
 
 /** Helpers */
@@ -87,6 +114,17 @@ interface ReservationFormData {
   email: string;
 }
 
+/** Body sent to POST /reservations */
+interface ReservationPayload {
+  start_time: string;
+  party_size: number;
+  contact_name: string;
+  contact_phone: string;
+  contact_email: string;
+  restaurant_id: number;
+  duration_minutes: number;
+}
+
 /** Data for the confirmation UI */
 interface ConfirmationData {
   date: string;
@@ -97,6 +135,9 @@ interface ConfirmationData {
   lastName?: string;
   phone?: string;
   email?: string;
+  confirmationCode?: string;
+  depositAmount?: number;
+  depositType?: 'deposit' | 'hold';
 }
 
 /** “Reservation Confirmed!” screen */
@@ -134,6 +175,31 @@ function ReservationConfirmation({
         </p>
       </div>
 
+      {reservation.confirmationCode && (
+        <div className="text-center mb-4">
+          <p className="text-sm text-gray-600">Confirmation code</p>
+          <p className="text-xl font-mono font-bold tracking-wider">{reservation.confirmationCode}</p>
+          <Link
+            to={buildManageReservationPath(reservation.confirmationCode)}
+            onClick={onClose}
+            className="text-sm text-shimizu-blue hover:text-shimizu-light-blue font-medium"
+          >
+            Manage reservation
+          </Link>
+        </div>
+      )}
+
+      {reservation.depositAmount ? (
+        <div className="flex items-start space-x-2 bg-gray-50 rounded-lg p-4 mb-4 text-sm text-gray-700">
+          <CreditCard className="h-5 w-5 text-shimizu-blue flex-shrink-0" />
+          <p>
+            {reservation.depositType === 'hold'
+              ? `Your card is on file and is only charged ${formatDepositAmount(reservation.depositAmount)} if you don’t show up.`
+              : `A deposit of ${formatDepositAmount(reservation.depositAmount)} was charged and will be applied to your visit.`}
+          </p>
+        </div>
+      ) : null}
+
       <div className="bg-gray-50 rounded-lg p-4 sm:p-6 mb-4">
         <h3 className="font-semibold text-base sm:text-lg mb-4 text-gray-900">
           Reservation Details
@@ -219,6 +285,7 @@ export default function ReservationForm({
   onToggleConfirmation?: (confirming: boolean) => void;
 }) {
   const { user } = useAuth();
+  const { restaurant, fetchRestaurant } = useRestaurantStore();
   // Basic form data
   const [formData, setFormData] = useState<ReservationFormData>({
     date: '',
@@ -238,11 +305,47 @@ export default function ReservationForm({
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [reservationDetails, setReservationDetails] = useState<ConfirmationData | null>(null);
 
+  // Deposits / saved cards
+  const [specialEvents, setSpecialEvents] = useState<SpecialEventSummary[]>([]);
+  const [processingDeposit, setProcessingDeposit] = useState(false);
+  const stripeRef = useRef<StripeCheckoutRef>(null);
+  // Booking created by the server but not confirmed until the card goes through
+  const [depositStep, setDepositStep] = useState<{
+    reservation: Reservation;
+    contact: string;
+    confirmData: ConfirmationData;
+  } | null>(null);
+
   /** Convert typed partySize => number */
   function getPartySize(): number {
     return parseInt(partySizeText, 10) || 1;
   }
 
+  useEffect(() => {
+    if (!restaurant) fetchRestaurant();
+  }, [restaurant, fetchRestaurant]);
+
+  useEffect(() => {
+    fetchSpecialEvents()
+      .then((events) => setSpecialEvents(events || []))
+      .catch((err) => console.error('Error fetching special events:', err));
+  }, []);
+
+  const paymentGateway = restaurant?.admin_settings?.payment_gateway;
+  const stripeEnabled = paymentGateway?.payment_processor === 'stripe';
+  const eventForDate = specialEvents.find((ev) => ev.event_date === formData.date) || null;
+  // Only tells the guest up front that a card is coming; the server prices the deposit
+  const depositRequirement = stripeEnabled
+    ? getDepositRequirement(getDepositSettings(restaurant?.admin_settings), getPartySize(), eventForDate)
+    : null;
+
+  const depositCode = depositStep?.reservation.confirmation_code || '';
+  const depositContact = depositStep?.contact || '';
+  const createDepositIntent = useCallback(
+    () => createGuestDepositIntent(depositCode, depositContact) as Promise<PaymentIntentResponse>,
+    [depositCode, depositContact]
+  );
+
   /** Fetch timeslots on date or partySize changes */
   useEffect(() => {
     async function loadTimes() {
@@ -293,6 +396,10 @@ export default function ReservationForm({
   /** On form submit => create reservation => show confirmation */
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
+    if (depositStep) {
+      await submitDeposit();
+      return;
+    }
     if (!formData.date || !formData.time) {
       toastUtils.error('Please pick a date and time.');
       return;
@@ -320,35 +427,104 @@ export default function ReservationForm({
       contactPhone = '';
     }
 
+    const payload: ReservationPayload = {
+      start_time,
+      party_size: finalPartySize,
+      contact_name: [contactFirstName, contactLastName].filter(Boolean).join(' '),
+      contact_phone: contactPhone,
+      contact_email: contactEmail,
+      restaurant_id: 1,
+      duration_minutes: duration,
+    };
+
+    // Data for the Confirmation UI
+    const confirmData: ConfirmationData = {
+      date: formData.date,
+      time: format12hSlot(formData.time),
+      partySize: finalPartySize,
+      duration: formatDuration(duration),
+      firstName: contactFirstName || undefined,
+      lastName: contactLastName || undefined,
+      phone: contactPhone || undefined,
+      email: contactEmail || undefined,
+    };
+
+    // The booking comes first so a card is never charged without one. When the
+    // server says a deposit is due, it waits in 'pending' for the card step.
+    let created: Reservation;
     try {
-      await createReservation({
-        start_time,
-        party_size: finalPartySize,
-        contact_name: [contactFirstName, contactLastName].filter(Boolean).join(' '),
-        contact_phone: contactPhone,
-        contact_email: contactEmail,
-        restaurant_id: 1,
-        duration_minutes: duration,
-      });
-      toastUtils.success('Reservation created successfully!');
-
-      // Build data for the Confirmation UI
-      const confirmData: ConfirmationData = {
-        date: formData.date,
-        time: format12hSlot(formData.time),
-        partySize: finalPartySize,
-        duration: formatDuration(duration),
-        firstName: contactFirstName || undefined,
-        lastName: contactLastName || undefined,
-        phone: contactPhone || undefined,
-        email: contactEmail || undefined,
-      };
-      setReservationDetails(confirmData);
-      setShowConfirmation(true);
-      onToggleConfirmation?.(true);
+      created = await createReservation(payload);
     } catch (err) {
       console.error('Error creating reservation:', err);
       toastUtils.error('Failed to create reservation. Please try again.');
+      return;
+    }
+
+    if (isAwaitingDeposit(created) && created.confirmation_code) {
+      setDepositStep({ reservation: created, contact: contactPhone || contactEmail, confirmData });
+      return;
+    }
+
+    toastUtils.success('Reservation created successfully!');
+    showReservationConfirmation({ ...confirmData, confirmationCode: created.confirmation_code });
+  }
+
+  function showReservationConfirmation(confirmData: ConfirmationData) {
+    setReservationDetails(confirmData);
+    setShowConfirmation(true);
+    onToggleConfirmation?.(true);
+  }
+
+  async function submitDeposit() {
+    if (!stripeRef.current) {
+      toastUtils.error('Card payment is not available right now.');
+      return;
+    }
+    setProcessingDeposit(true);
+    const started = await stripeRef.current.processPayment();
+    if (!started) setProcessingDeposit(false);
+  }
+
+  async function handleDepositSuccess(details: { transaction_id: string; payment_intent_id?: string; setup_intent_id?: string }) {
+    if (!depositStep) return;
+    const { reservation, contact, confirmData } = depositStep;
+    const code = reservation.confirmation_code || '';
+    try {
+      await confirmGuestDeposit(code, contact, details.setup_intent_id || details.payment_intent_id || details.transaction_id);
+      toastUtils.success('Reservation created successfully!');
+      setDepositStep(null);
+      showReservationConfirmation({
+        ...confirmData,
+        confirmationCode: code,
+        depositAmount: reservation.deposit_amount,
+        depositType: reservation.deposit_type,
+      });
+    } catch (err) {
+      // Cancelling releases the booking and refunds or releases the card with it
+      console.error('Error confirming deposit:', err);
+      toastUtils.error(handleApiError(err, 'Your deposit could not be confirmed, so the booking was cancelled.'));
+      await cancelPendingReservation();
+    } finally {
+      setProcessingDeposit(false);
+    }
+  }
+
+  function handleDepositError(error: Error) {
+    console.error('Deposit failed:', error);
+    toastUtils.error(`Card payment failed: ${error.message}`);
+    setProcessingDeposit(false);
+  }
+
+  /** Gives up the unpaid booking so its time slot is freed */
+  async function cancelPendingReservation() {
+    if (!depositStep) return;
+    const { reservation, contact } = depositStep;
+    setDepositStep(null);
+    try {
+      await cancelGuestReservation(reservation.confirmation_code || '', contact);
+    } catch (err) {
+      // The server also expires bookings left pending
+      console.error('Error cancelling pending reservation:', err);
     }
   }
 
@@ -400,196 +576,137 @@ export default function ReservationForm({
   return (
     <div className="w-full max-w-md mx-auto">
       <form onSubmit={handleSubmit} className="w-full">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4">
-          {/* Date */}
-          <div className="space-y-1">
-            <label className="block text-sm sm:text-base font-medium text-gray-700">
-              Date
-            </label>
-            <DatePicker
-              selected={selectedDate}
-              onChange={handleDateChange}
-              dateFormat="MM/dd/yyyy"
-              minDate={new Date()}
-              className="
-                w-full
-                px-3 py-2
-                border border-gray-300
-                rounded-md
-                focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
-                text-sm sm:text-base
-              "
-              placeholderText="Select date"
-              required
-              shouldCloseOnSelect
-            />
-          </div>
-
-          {/* Time => React Select */}
-          <div className="space-y-1">
-            <label className="block text-sm sm:text-base font-medium text-gray-700">
-              Time
-            </label>
-            <div className="relative">
-              <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-              <Select<TimeOption>
-                options={timeOptions}
-                placeholder="Select a time"
-                value={
-                  formData.time
-                    ? timeOptions.find((opt) => opt.value === formData.time)
-                    : null
-                }
-                onChange={(opt: SingleValue<TimeOption>) =>
-                  setFormData({ ...formData, time: opt?.value || '' })
-                }
-                styles={reactSelectStyles}
-              />
-            </div>
-          </div>
-
-          {/* Party Size */}
-          <div className="space-y-1">
-            <div className="flex items-center">
-              <label
-                htmlFor="partySize"
-                className="block text-sm sm:text-base font-medium text-gray-700"
-              >
-                Party Size
+        {/* Locked once the booking exists; cancel to change it */}
+        <fieldset disabled={!!depositStep} className="disabled:opacity-60">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4">
+            {/* Date */}
+            <div className="space-y-1">
+              <label className="block text-sm sm:text-base font-medium text-gray-700">
+                Date
               </label>
-              <Tooltip 
-                content="Enter the number of people in your party. This helps us allocate the right table size for your group."
-                position="top"
-                icon
-                iconClassName="ml-1 h-4 w-4"
-              />
-            </div>
-            <div className="relative">
-              <Users className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
-              <input
-                type="text"
-                id="partySize"
-                inputMode="numeric"
-                pattern="[0-9]*"
-                value={partySizeText}
-                onChange={handlePartySizeChange}
-                placeholder="1"
-                required
+              <DatePicker
+                selected={selectedDate}
+                onChange={handleDateChange}
+                dateFormat="MM/dd/yyyy"
+                minDate={new Date()}
                 className="
                   w-full
-                  pl-10 pr-3
-                  py-2
+                  px-3 py-2
                   border border-gray-300
                   rounded-md
                   focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
                   text-sm sm:text-base
                 "
+                placeholderText="Select date"
+                required
+                shouldCloseOnSelect
               />
             </div>
-          </div>
 
-          {/* Duration => React Select */}
-          <div className="space-y-1">
-            <div className="flex items-center">
+            {/* Time => React Select */}
+            <div className="space-y-1">
               <label className="block text-sm sm:text-base font-medium text-gray-700">
-                Duration
+                Time
               </label>
-              <Tooltip 
-                content="Select how long you expect to need the table. This helps us manage reservations efficiently."
-                position="top"
-                icon
-                iconClassName="ml-1 h-4 w-4"
-              />
+              <div className="relative">
+                <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <Select<TimeOption>
+                  options={timeOptions}
+                  placeholder="Select a time"
+                  value={
+                    formData.time
+                      ? timeOptions.find((opt) => opt.value === formData.time)
+                      : null
+                  }
+                  onChange={(opt: SingleValue<TimeOption>) =>
+                    setFormData({ ...formData, time: opt?.value || '' })
+                  }
+                  styles={reactSelectStyles}
+                />
+              </div>
             </div>
-            <Select<DurationOption>
-              options={durationOptions}
-              placeholder="Select duration"
-              value={durationOptions.find((opt) => opt.value === duration) || null}
-              onChange={(opt) => setDuration(opt?.value || 60)}
-              styles={reactSelectStyles}
-            />
-          </div>
 
-          {/* First Name */}
-          <div className="space-y-1">
-            <label
-              htmlFor="firstName"
-              className="block text-sm sm:text-base font-medium text-gray-700"
-            >
-              {user ? 'First Name (Optional)' : 'First Name (Required)'}
-            </label>
-            <input
-              type="text"
-              id="firstName"
-              placeholder={
-                user ? user.name?.split(' ')[0] || '' : 'Enter your first name'
-              }
-              value={formData.firstName}
-              onChange={(e) => setFormData({ ...formData, firstName: e.target.value })}
-              className="
-                w-full
-                px-3 py-2
-                border border-gray-300
-                rounded-md
-                focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
-                text-sm sm:text-base
-              "
-            />
-          </div>
+            {/* Party Size */}
+            <div className="space-y-1">
+              <div className="flex items-center">
+                <label
+                  htmlFor="partySize"
+                  className="block text-sm sm:text-base font-medium text-gray-700"
+                >
+                  Party Size
+                </label>
+                <Tooltip 
+                  content="Enter the number of people in your party. This helps us allocate the right table size for your group."
+                  position="top"
+                  icon
+                  iconClassName="ml-1 h-4 w-4"
+                />
+              </div>
+              <div className="relative">
+                <Users className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+                <input
+                  type="text"
+                  id="partySize"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={partySizeText}
+                  onChange={handlePartySizeChange}
+                  placeholder="1"
+                  required
+                  className="
+                    w-full
+                    pl-10 pr-3
+                    py-2
+                    border border-gray-300
+                    rounded-md
+                    focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
+                    text-sm sm:text-base
+                  "
+                />
+              </div>
+            </div>
 
-          {/* Last Name */}
-          <div className="space-y-1">
-            <label
-              htmlFor="lastName"
-              className="block text-sm sm:text-base font-medium text-gray-700"
-            >
-              Last Name (Optional)
-            </label>
-            <input
-              type="text"
-              id="lastName"
-              placeholder={user ? user.name?.split(' ')[1] || '' : 'Last name (optional)'}
-              value={formData.lastName}
-              onChange={(e) => setFormData({ ...formData, lastName: e.target.value })}
-              className="
-                w-full
-                px-3 py-2
-                border border-gray-300
-                rounded-md
-                focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
-                text-sm sm:text-base
-              "
-            />
-          </div>
+            {/* Duration => React Select */}
+            <div className="space-y-1">
+              <div className="flex items-center">
+                <label className="block text-sm sm:text-base font-medium text-gray-700">
+                  Duration
+                </label>
+                <Tooltip 
+                  content="Select how long you expect to need the table. This helps us manage reservations efficiently."
+                  position="top"
+                  icon
+                  iconClassName="ml-1 h-4 w-4"
+                />
+              </div>
+              <Select<DurationOption>
+                options={durationOptions}
+                placeholder="Select duration"
+                value={durationOptions.find((opt) => opt.value === duration) || null}
+                onChange={(opt) => setDuration(opt?.value || 60)}
+                styles={reactSelectStyles}
+              />
+            </div>
 
-          {/* Phone */}
-          <div className="space-y-1">
-            <div className="flex items-center">
+            {/* First Name */}
+            <div className="space-y-1">
               <label
-                htmlFor="phone"
+                htmlFor="firstName"
                 className="block text-sm sm:text-base font-medium text-gray-700"
               >
-                Phone {user ? '(Optional)' : '(Required)'}
+                {user ? 'First Name (Optional)' : 'First Name (Required)'}
               </label>
-              <Tooltip 
-                content="We may contact you about your reservation. Include country code (e.g., +1671 for Guam)."
-                position="top"
-                icon
-                iconClassName="ml-1 h-4 w-4"
-              />
-            </div>
-            <div className="relative">
-              <Phone className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
               <input
-                type="tel"
-                id="phone"
-                placeholder={user ? user.phone ?? '' : '+1671'}
-                value={formData.phone}
-                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                type="text"
+                id="firstName"
+                placeholder={
+                  user ? user.name?.split(' ')[0] || '' : 'Enter your first name'
+                }
+                value={formData.firstName}
+                onChange={(e) => setFormData({ ...formData, firstName: e.target.value })}
                 className="
                   w-full
-                  pl-10 pr-3
-                  py-2
+                  px-3 py-2
                   border border-gray-300
                   rounded-md
                   focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
@@ -597,28 +714,24 @@ export default function ReservationForm({
                 "
               />
             </div>
-          </div>
 
-          {/* Email */}
-          <div className="space-y-1">
-            <label
-              htmlFor="email"
-              className="block text-sm sm:text-base font-medium text-gray-700"
-            >
-              Email {user ? '(Optional)' : '(Required)'}
-            </label>
-            <div className="relative">
-              <Mail className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+            {/* Last Name */}
+            <div className="space-y-1">
+              <label
+                htmlFor="lastName"
+                className="block text-sm sm:text-base font-medium text-gray-700"
+              >
+                Last Name (Optional)
+              </label>
               <input
-                type="email"
-                id="email"
-                placeholder={user ? user.email ?? '' : 'Enter your email'}
-                value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                type="text"
+                id="lastName"
+                placeholder={user ? user.name?.split(' ')[1] || '' : 'Last name (optional)'}
+                value={formData.lastName}
+                onChange={(e) => setFormData({ ...formData, lastName: e.target.value })}
                 className="
                   w-full
-                  pl-10 pr-3
-                  py-2
+                  px-3 py-2
                   border border-gray-300
                   rounded-md
                   focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
@@ -626,13 +739,129 @@ export default function ReservationForm({
                 "
               />
             </div>
+
+            {/* Phone */}
+            <div className="space-y-1">
+              <div className="flex items-center">
+                <label
+                  htmlFor="phone"
+                  className="block text-sm sm:text-base font-medium text-gray-700"
+                >
+                  Phone {user ? '(Optional)' : '(Required)'}
+                </label>
+                <Tooltip 
+                  content="We may contact you about your reservation. Include country code (e.g., +1671 for Guam)."
+                  position="top"
+                  icon
+                  iconClassName="ml-1 h-4 w-4"
+                />
+              </div>
+              <div className="relative">
+                <Phone className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+                <input
+                  type="tel"
+                  id="phone"
+                  placeholder={user ? user.phone ?? '' : '+1671'}
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  className="
+                    w-full
+                    pl-10 pr-3
+                    py-2
+                    border border-gray-300
+                    rounded-md
+                    focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
+                    text-sm sm:text-base
+                  "
+                />
+              </div>
+            </div>
+
+            {/* Email */}
+            <div className="space-y-1">
+              <label
+                htmlFor="email"
+                className="block text-sm sm:text-base font-medium text-gray-700"
+              >
+                Email {user ? '(Optional)' : '(Required)'}
+              </label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+                <input
+                  type="email"
+                  id="email"
+                  placeholder={user ? user.email ?? '' : 'Enter your email'}
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="
+                    w-full
+                    pl-10 pr-3
+                    py-2
+                    border border-gray-300
+                    rounded-md
+                    focus:ring-2 focus:ring-shimizu-blue focus:border-shimizu-blue
+                    text-sm sm:text-base
+                  "
+                />
+              </div>
+            </div>
           </div>
-        </div>
+        </fieldset>
+
+        {/* Deposit / saved card */}
+        {depositStep ? (
+          <div className="mt-4 sm:mt-6 border border-gray-200 rounded-md p-4">
+            <div className="flex items-start space-x-2 mb-3">
+              <CreditCard className="h-5 w-5 text-shimizu-blue mt-0.5 flex-shrink-0" />
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">
+                  {depositStep.reservation.deposit_type === 'hold' ? 'Card on file' : 'Deposit'} of{' '}
+                  {formatDepositAmount(depositStep.reservation.deposit_amount)}
+                </p>
+                <p className="text-gray-600">
+                  {depositStep.reservation.deposit_type === 'hold'
+                    ? 'Your card is saved and only charged if you don’t show up.'
+                    : 'It will be applied to your visit.'}{' '}
+                  Your table is held until you finish this step.
+                </p>
+              </div>
+            </div>
+            <StripeCheckout
+              ref={stripeRef}
+              amount={String(depositStep.reservation.deposit_amount)}
+              currency="USD"
+              publishableKey={(paymentGateway?.publishable_key as string) || ''}
+              testMode={paymentGateway?.test_mode ?? true}
+              intentType={depositStep.reservation.deposit_type === 'hold' ? 'setup' : 'payment'}
+              createIntent={createDepositIntent}
+              onPaymentSuccess={handleDepositSuccess}
+              onPaymentError={handleDepositError}
+            />
+            <button
+              type="button"
+              onClick={cancelPendingReservation}
+              disabled={processingDeposit}
+              className="mt-2 text-sm text-gray-600 hover:text-gray-800 underline disabled:opacity-50"
+            >
+              Cancel booking
+            </button>
+          </div>
+        ) : depositRequirement && (
+          <div className="mt-4 sm:mt-6 flex items-start space-x-2 border border-gray-200 rounded-md p-4 text-sm">
+            <CreditCard className="h-5 w-5 text-shimizu-blue mt-0.5 flex-shrink-0" />
+            <p className="text-gray-600">
+              {depositRequirement.reason}: a{' '}
+              {depositRequirement.mode === 'hold' ? 'card on file' : 'deposit'} of about{' '}
+              {formatDepositAmount(depositRequirement.amount)}. You’ll enter your card next.
+            </p>
+          </div>
+        )}
 
         {/* Submit button */}
         <div className="mt-4 sm:mt-6">
           <button
             type="submit"
+            disabled={processingDeposit}
             className="
               w-full
               bg-shimizu-blue
@@ -645,9 +874,18 @@ export default function ReservationForm({
               transition-colors
               duration-200
               text-sm sm:text-base
+              disabled:opacity-50
             "
           >
-            Reserve Now
+            {processingDeposit
+              ? 'Processing...'
+              : depositStep
+                ? depositStep.reservation.deposit_type === 'hold'
+                  ? 'Save Card & Confirm'
+                  : `Pay ${formatDepositAmount(depositStep.reservation.deposit_amount)} & Confirm`
+                : depositRequirement
+                  ? 'Continue to Card'
+                  : 'Reserve Now'}
           </button>
         </div>
       </form>
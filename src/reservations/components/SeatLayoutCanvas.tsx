@@ -9,6 +9,7 @@ export interface DBSeat {
   occupant_status?: string;  // "free","reserved","occupied","seated", etc.
   occupant_name?: string;    // e.g. "John" or "John Smith"
   isSelected?: boolean;      // wizard highlight
+  isSuggested?: boolean;     // auto-assign proposal
 }
 
 export interface SeatSectionData {
@@ -187,6 +188,10 @@ export default function SeatLayoutCanvas({
                   if (seat.isSelected && seat.occupant_status === 'free') {
                     seatColor = 'bg-blue-500';
                   }
+                  // Auto-assign proposal => ring on top of the occupant color
+                  const suggestedRing = seat.isSuggested
+                    ? 'ring-4 ring-purple-400 ring-offset-2 animate-pulse'
+                    : '';
 
                   // Show occupant’s first name if seat is not free
                   // otherwise show the seat label
@@ -209,7 +214,7 @@ export default function SeatLayoutCanvas({
                         zIndex: 2,
                       }}
                       className={`
-                        ${seatColor}
+                        ${seatColor} ${suggestedRing}
                         rounded-full flex items-center justify-center cursor-pointer
                         shadow-md text-white font-semibold text-xs
                         hover:opacity-90
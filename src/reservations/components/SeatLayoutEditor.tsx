@@ -1,11 +1,12 @@
 // src/components/SeatLayoutEditor.tsx
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   Save, Trash2, Plus as LucidePlus, Settings, Edit2,
-  Minus, Maximize, Power
+  Minus, Maximize, Power, Undo2, Redo2, Copy, History, Download, Upload, QrCode
 } from 'lucide-react';
 import toastUtils from '../../shared/utils/toastUtils';
+import { useUndoHistory } from '../../shared/hooks/useUndoHistory';
 
 import {
   fetchAllLayouts,
@@ -16,6 +17,14 @@ import {
 } from '../services/api';
 
 import RenameSeatsModal from './RenameSeatsModal';
+import LayoutVersionsPanel from './LayoutVersionsPanel';
+import TableQrCodesModal from './TableQrCodesModal';
+import {
+  LayoutVersion,
+  stripLayoutIds,
+  buildLayoutExport,
+  parseLayoutImport,
+} from '../utils/layoutVersionUtils';
 
 /** ---------- Data Interfaces ---------- **/
 interface LayoutData {
@@ -69,6 +78,15 @@ export default function SeatLayoutEditor() {
   const [layoutName,     setLayoutName]     = useState('New Layout');
   const [sections,       setSections]       = useState<SeatSection[]>([]);
 
+  // Undo/redo for section + seat edits
+  const history = useUndoHistory(sections, setSections);
+  const dragRecordedRef = useRef(false);
+
+  // Version history + JSON import
+  const [showVersions, setShowVersions] = useState(false);
+  const [showQrCodes, setShowQrCodes] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   // Canvas sizing + zoom
   const [layoutSize, setLayoutSize] = useState<'auto'|'small'|'medium'|'large'>('medium');
   const [canvasWidth,  setCanvasWidth]  = useState(2000);
@@ -135,6 +153,25 @@ export default function SeatLayoutEditor() {
     })();
   }, []);
 
+  /** Ctrl/Cmd+Z => undo, Ctrl/Cmd+Shift+Z or Ctrl+Y => redo (ignored while typing). */
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history]);
+
   /** Load seat sections from the chosen layout. */
   async function loadOneLayout(id: number) {
     try {
@@ -162,10 +199,12 @@ export default function SeatLayoutEditor() {
       setActiveLayoutId(null);
       setLayoutName('New Layout');
       setSections([]);
+      history.reset();
       setActiveFloor(1);
       return;
     }
     setActiveLayoutId(id);
+    history.reset();
     loadOneLayout(id);
   }
 
@@ -232,6 +271,7 @@ export default function SeatLayoutEditor() {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(true);
+    dragRecordedRef.current = false;
     setSelectedSection(sectionId);
     setDragStart({ x: e.clientX, y: e.clientY });
   }
@@ -241,6 +281,12 @@ export default function SeatLayoutEditor() {
     const dx = e.clientX - dragStart.x;
     const dy = e.clientY - dragStart.y;
 
+    // One undo step per drag, taken on the first actual movement
+    if (!dragRecordedRef.current && (dx !== 0 || dy !== 0)) {
+      history.record();
+      dragRecordedRef.current = true;
+    }
+
     setSections(prev =>
       prev.map(sec => {
         if (sec.id !== selectedSection) return sec;
@@ -311,6 +357,7 @@ export default function SeatLayoutEditor() {
     setShowSectionDialog(true);
   }
   function deleteSection(sectionId: string) {
+    history.record();
     setSections(prev => prev.filter(s => s.id !== sectionId));
   }
 
@@ -319,6 +366,7 @@ export default function SeatLayoutEditor() {
     const finalSeatCount = parseInt(seatCountText, 10)    || 1;
     const finalCapacity  = parseInt(seatCapacityText, 10) || 1;
 
+    history.record();
     if (editingSectionId) {
       // update existing
       const oldSection = sections.find(s => s.id === editingSectionId);
@@ -429,7 +477,7 @@ export default function SeatLayoutEditor() {
     return seats;
   }
 
-  // Save Layout
+  // Save Layout. The server records a version snapshot in the same save.
   async function handleSaveLayout() {
     try {
       const payload = {
@@ -480,6 +528,69 @@ export default function SeatLayoutEditor() {
     }
   }
 
+  function applySections(newSections: SeatSection[]) {
+    const secWithFloors = newSections.map(sec => ({ ...sec, floorNumber: sec.floorNumber ?? 1 }));
+    setSections(secWithFloors);
+    const floors = Array.from(new Set(secWithFloors.map(s => s.floorNumber))).sort((a, b) => a - b);
+    setActiveFloor(floors.length > 0 ? floors[0] : 1);
+  }
+
+  // Version history
+  function handleRestoreVersion(version: LayoutVersion) {
+    history.record();
+    applySections(version.sections_data.sections || []);
+    setShowVersions(false);
+    toastUtils.success('Version restored. Save to keep it.');
+  }
+
+  // Duplicate => saves a copy as a new layout and switches to it
+  async function handleDuplicateLayout() {
+    try {
+      const copy = (await createLayout({
+        name: `${layoutName} (Copy)`,
+        sections_data: { sections: stripLayoutIds(sections) },
+      })) as LayoutData;
+      toastUtils.success(`Created "${copy.name}"`);
+      setAllLayouts(prev => [...prev, copy]);
+      setActiveLayoutId(copy.id);
+      history.reset();
+      loadOneLayout(copy.id);
+    } catch (err) {
+      console.error('Error duplicating layout:', err);
+      toastUtils.error('Failed to duplicate layout.');
+    }
+  }
+
+  // Export / Import JSON
+  function handleExportLayout() {
+    const data = buildLayoutExport(layoutName, sections);
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${layoutName.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'layout'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseLayoutImport(await file.text());
+      // Imports always become a new, unsaved layout in this restaurant
+      setActiveLayoutId(null);
+      setLayoutName(imported.name);
+      applySections(imported.sections);
+      history.reset();
+      toastUtils.success('Layout imported. Save to add it to this restaurant.');
+    } catch (err) {
+      console.error('Error importing layout:', err);
+      toastUtils.error(err instanceof Error ? err.message : 'Failed to import layout.');
+    }
+  }
+
   async function handleActivateLayout() {
     if (!activeLayoutId) {
       toastUtils.error('Cannot activate a layout that is not saved yet!');
@@ -508,6 +619,7 @@ export default function SeatLayoutEditor() {
     setRenameModalSectionName('');
   }
   function handleRenameModalSave(updatedSeats: DBSeat[]) {
+    history.record();
     setSections(prev =>
       prev.map(sec => {
         if (sec.name === renameModalSectionName) {
@@ -663,6 +775,76 @@ export default function SeatLayoutEditor() {
               Activate
             </button>
           )}
+
+          {/* Undo / Redo */}
+          <div className="flex items-center gap-1">
+            <button
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              className="p-2 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-40"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              className="p-2 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-40"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Duplicate / History (saved layouts only) */}
+          {activeLayoutId && (
+            <>
+              <button
+                onClick={handleDuplicateLayout}
+                className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                Duplicate
+              </button>
+              <button
+                onClick={() => setShowVersions(true)}
+                className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+              >
+                <History className="w-4 h-4 mr-1" />
+                History
+              </button>
+              <button
+                onClick={() => setShowQrCodes(true)}
+                className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+              >
+                <QrCode className="w-4 h-4 mr-1" />
+                QR Codes
+              </button>
+            </>
+          )}
+
+          {/* Export / Import JSON */}
+          <button
+            onClick={handleExportLayout}
+            className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Export
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
         </div>
 
         {/* Floor Tabs */}
@@ -986,6 +1168,25 @@ export default function SeatLayoutEditor() {
           </div>
         )}
 
+        {/* Layout History */}
+        {showVersions && activeLayoutId && (
+          <LayoutVersionsPanel
+            layoutId={activeLayoutId}
+            currentSections={sections}
+            onRestore={handleRestoreVersion}
+            onClose={() => setShowVersions(false)}
+          />
+        )}
+
+        {showQrCodes && activeLayoutId && (
+          <TableQrCodesModal
+            layoutId={activeLayoutId}
+            layoutName={layoutName}
+            sections={sections}
+            onClose={() => setShowQrCodes(false)}
+          />
+        )}
+
         {/* Rename Seats Modal */}
         {renameModalOpen && (
           <RenameSeatsModal
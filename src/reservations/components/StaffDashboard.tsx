@@ -29,6 +29,7 @@ export default function StaffDashboard() {
           <NavTab to="waitlist"     label="Waitlist"     currentPath={location.pathname} />
           <NavTab to="seating"      label="Seating"      currentPath={location.pathname} />
           <NavTab to="layout"       label="Layout"       currentPath={location.pathname} />
+          <NavTab to="analytics"    label="Analytics"    currentPath={location.pathname} />
           <NavTab to="settings"     label="Settings"     currentPath={location.pathname} />
         </div>
       </div>
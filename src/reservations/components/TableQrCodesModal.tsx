@@ -0,0 +1,141 @@
+// src/reservations/components/TableQrCodesModal.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { X, Printer } from 'lucide-react';
+import toastUtils from '../../shared/utils/toastUtils';
+import { handleApiError } from '../../shared/utils/errorHandler';
+import { issueTableTokens } from '../services/api';
+
+import {
+  QrLayoutSection,
+  TableQrCode,
+  TableQrScope,
+  buildQrPrintHtml,
+  buildTableQrCodes,
+  buildTableQrTargets,
+} from '../utils/tableQrUtils';
+
+interface TableQrCodesModalProps {
+  layoutId: number;
+  layoutName: string;
+  sections: QrLayoutSection[];
+  onClose: () => void;
+}
+
+/**
+ * Printable QR codes for the tables (or individual seats) in a saved layout.
+ * Each code opens the online menu with a server-signed token for that table.
+ */
+export default function TableQrCodesModal({ layoutId, layoutName, sections, onClose }: TableQrCodesModalProps) {
+  const [scope, setScope] = useState<TableQrScope>('table');
+  const [codes, setCodes] = useState<TableQrCode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targets = useMemo(() => buildTableQrTargets(sections, scope), [sections, scope]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCodes([]);
+    setError(null);
+    if (targets.length === 0) return;
+
+    setLoading(true);
+    (async () => {
+      try {
+        const signed = await issueTableTokens(layoutId, targets.map((target) => target.table));
+        const built = await buildTableQrCodes(targets, signed, window.location.origin);
+        if (!cancelled) setCodes(built);
+      } catch (err) {
+        if (!cancelled) setError(handleApiError(err, 'Failed to generate QR codes'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [layoutId, targets]);
+  const unsavedCount = sections.filter((sec) => !sec.dbId).length;
+
+  function handlePrint() {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toastUtils.error('Allow pop-ups to print QR codes.');
+      return;
+    }
+    printWindow.document.write(buildQrPrintHtml(codes, `${layoutName} QR Codes`));
+    printWindow.document.close();
+    // Print once the page (and its QR images) has finished loading
+    printWindow.onload = () => printWindow.print();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded shadow-lg w-full max-w-4xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="text-lg font-bold">Table QR Codes</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b">
+          <div className="flex gap-1">
+            {(['table', 'seat'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                className={`px-3 py-1 rounded text-sm ${
+                  scope === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option === 'table' ? 'One per table' : 'One per seat'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handlePrint}
+            disabled={loading || codes.length === 0}
+            className="flex items-center px-3 py-1 bg-gray-800 text-white rounded text-sm hover:bg-gray-900 disabled:opacity-40 ml-auto"
+          >
+            <Printer className="w-4 h-4 mr-1" />
+            Print
+          </button>
+        </div>
+
+        {unsavedCount > 0 && (
+          <p className="px-4 pt-3 text-sm text-amber-700">
+            {unsavedCount} unsaved section{unsavedCount === 1 ? '' : 's'} left out. Save the layout to include them.
+          </p>
+        )}
+
+        {targets.length === 0 ? (
+          <div className="p-4 text-sm text-gray-600">
+            No saved tables yet. Save the layout to generate QR codes.
+          </div>
+        ) : loading ? (
+          <div className="p-4 text-sm text-gray-600">Generating QR codes...</div>
+        ) : error ? (
+          <div className="p-4 text-sm text-red-600">{error}</div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 p-4 overflow-y-auto">
+            {codes.map((code) => (
+              <div key={code.key} className="border border-gray-200 rounded p-3 text-center">
+                <img
+                  src={code.image}
+                  alt={`QR code for ${code.label}`}
+                  className="mx-auto w-32 h-32"
+                />
+                <p className="mt-2 text-sm font-medium">{code.label}</p>
+                <p className="text-xs text-gray-500">Floor {code.floorNumber}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+// src/reservations/components/WaitlistStatusPage.tsx
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Bell, Clock, Users, XCircle } from 'lucide-react';
+
+import { fetchWaitlistStatus } from '../services/api';
+import { WaitlistStatus } from '../types';
+
+/** How often the guest's page refreshes their place in line */
+const REFRESH_MS = 30000;
+
+/**
+ * Public page a waitlisted guest opens from their link to watch their
+ * live position. The token in the link authorizes the lookup.
+ */
+export default function WaitlistStatusPage() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [status, setStatus] = useState<WaitlistStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    if (!id) return;
+    try {
+      const data = await fetchWaitlistStatus(id, token);
+      setStatus(data as WaitlistStatus);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load waitlist status:', err);
+      setError("We couldn't find your spot on the waitlist. Please check with the host stand.");
+    }
+  }, [id, token]);
+
+  useEffect(() => {
+    loadStatus();
+    const timer = setInterval(loadStatus, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [loadStatus]);
+
+  if (error) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <p className="text-gray-700">{error}</p>
+      </div>
+    );
+  }
+
+  if (!status) {
+    return <div className="max-w-md mx-auto px-4 py-16 text-center text-gray-500">Loading...</div>;
+  }
+
+  const isWaiting = status.status === 'waiting';
+  const joined = status.check_in_time ? new Date(status.check_in_time) : null;
+  const readyBy =
+    joined && status.quoted_wait_minutes != null
+      ? new Date(joined.getTime() + status.quoted_wait_minutes * 60000)
+      : null;
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-12">
+      <div className="bg-white rounded-lg shadow-lg p-6 text-center">
+        <h1 className="text-2xl font-bold text-gray-900">
+          {status.contact_name ? `Hi, ${status.contact_name.split(' ')[0]}!` : 'Your Spot'}
+        </h1>
+
+        {isWaiting && status.notified_at ? (
+          <div className="mt-6 p-4 rounded-lg bg-green-50">
+            <Bell className="h-8 w-8 text-green-600 mx-auto mb-2" />
+            <p className="text-lg font-semibold text-green-800">Your table is ready!</p>
+            <p className="text-sm text-green-700">Please head to the host stand.</p>
+          </div>
+        ) : isWaiting ? (
+          <>
+            <p className="mt-6 text-sm text-gray-600">You are</p>
+            <p className="text-6xl font-bold text-shimizu-blue">#{status.position ?? '—'}</p>
+            <p className="text-sm text-gray-600">
+              {status.parties_ahead === 0
+                ? "You're next in line"
+                : `${status.parties_ahead ?? 0} ${status.parties_ahead === 1 ? 'party' : 'parties'} ahead of you`}
+            </p>
+          </>
+        ) : (
+          <p className="mt-6 text-gray-700">
+            {status.status === 'seated'
+              ? "You've been seated. Enjoy your meal!"
+              : 'You are no longer on the waitlist.'}
+          </p>
+        )}
+
+        <div className="mt-6 grid grid-cols-2 gap-4 text-left bg-gray-50 rounded-lg p-4">
+          <div className="flex items-start space-x-2">
+            <Users className="h-5 w-5 text-shimizu-blue mt-0.5" />
+            <div>
+              <p className="text-xs text-gray-500">Party</p>
+              <p className="font-medium text-gray-900">{status.party_size ?? 1}</p>
+            </div>
+          </div>
+          {isWaiting && status.quoted_wait_minutes != null && (
+            <div className="flex items-start space-x-2">
+              <Clock className="h-5 w-5 text-shimizu-blue mt-0.5" />
+              <div>
+                <p className="text-xs text-gray-500">Quoted wait</p>
+                <p className="font-medium text-gray-900">~{status.quoted_wait_minutes} min</p>
+                {readyBy && (
+                  <p className="text-xs text-gray-500">
+                    around {readyBy.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {isWaiting && (
+          <p className="mt-4 text-xs text-gray-400">This page updates automatically.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+// src/reservations/components/dashboard/AnalyticsTab.tsx
+
+import { useCallback, useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import toastUtils from '../../../shared/utils/toastUtils';
+
+import { useDateFilter } from '../../context/DateFilterContext';
+import {
+  fetchReservations,
+  fetchSeatAllocations,
+  fetchRestaurant,
+  fetchLayout,
+} from '../../services/api';
+import {
+  AnalyticsAllocation,
+  AnalyticsReservation,
+  AnalyticsSection,
+  buildTurns,
+  turnTimeBySection,
+  turnTimeByPartySize,
+  noShowRateByDay,
+  seatUtilization,
+  coversBySlot,
+} from '../../utils/turnTimeAnalytics';
+
+const RANGE_OPTIONS = [7, 14, 30];
+
+/** Fallback heatmap hours when there is no data yet */
+const DEFAULT_HOURS = { start: 11, end: 22 };
+
+/** Days fetched at once; a 30-day range would otherwise fire 60 requests together */
+const MAX_CONCURRENT_DAYS = 3;
+
+function formatYYYYMMDD(d: Date): string {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/** The `days` dates ending on endDate (YYYY-MM-DD), oldest first */
+function datesEndingOn(endDate: string, days: number): string[] {
+  const [y, m, d] = endDate.split('-').map(Number);
+  return Array.from({ length: days }, (_, i) => formatYYYYMMDD(new Date(y, m - 1, d - (days - 1 - i))));
+}
+
+/** Runs `load` for every item, at most `limit` at a time, keeping results in order */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, load: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await load(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function formatHour(hour: number): string {
+  return new Date(2020, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric' });
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes ? `${Math.round(minutes)} min` : '—';
+}
+
+export default function AnalyticsTab() {
+  const { date } = useDateFilter();
+  const [rangeDays, setRangeDays] = useState(7);
+  const [loading, setLoading] = useState(false);
+
+  const [allocations, setAllocations] = useState<AnalyticsAllocation[]>([]);
+  const [reservations, setReservations] = useState<AnalyticsReservation[]>([]);
+  const [sections, setSections] = useState<AnalyticsSection[]>([]);
+  const [defaultLength, setDefaultLength] = useState(60);
+
+  // isCurrent turns false once the date or range changes, so a slow
+  // response for the old range can't overwrite the new one
+  const loadAnalytics = useCallback(async (isCurrent: () => boolean) => {
+    setLoading(true);
+    try {
+      const rest = (await fetchRestaurant(1)) as {
+        current_layout_id?: number | null;
+        default_reservation_length?: number;
+      };
+      const layout = rest.current_layout_id
+        ? ((await fetchLayout(rest.current_layout_id)) as { seat_sections?: AnalyticsSection[] })
+        : null;
+
+      const dates = datesEndingOn(date, rangeDays);
+      const perDay = await mapWithConcurrency(dates, MAX_CONCURRENT_DAYS, (day) =>
+        Promise.all([fetchSeatAllocations({ date: day }), fetchReservations(day)])
+      );
+      if (!isCurrent()) return;
+
+      setDefaultLength(rest.default_reservation_length || 60);
+      setSections(layout?.seat_sections || []);
+      setAllocations(perDay.flatMap(([allocs]) => (allocs as AnalyticsAllocation[]) || []));
+      setReservations(perDay.flatMap(([, res]) => (res as AnalyticsReservation[]) || []));
+    } catch (err) {
+      if (!isCurrent()) return;
+      console.error('Error loading analytics:', err);
+      toastUtils.error('Failed to load analytics.');
+    } finally {
+      if (isCurrent()) setLoading(false);
+    }
+  }, [date, rangeDays]);
+
+  useEffect(() => {
+    let current = true;
+    loadAnalytics(() => current);
+    return () => {
+      current = false;
+    };
+  }, [loadAnalytics]);
+
+  // Derived reports
+  const turns = buildTurns(allocations);
+  const bySection = turnTimeBySection(turns, sections);
+  const byPartySize = turnTimeByPartySize(turns);
+  const noShows = noShowRateByDay(reservations);
+  const covers = coversBySlot(reservations);
+
+  const startHours = allocations.filter((a) => a.start_time).map((a) => new Date(a.start_time as string).getHours());
+  const heatStart = startHours.length ? Math.min(...startHours) : DEFAULT_HOURS.start;
+  const heatEnd = startHours.length ? Math.min(24, Math.max(...startHours) + 2) : DEFAULT_HOURS.end;
+  const hours = Array.from({ length: heatEnd - heatStart }, (_, i) => heatStart + i);
+  const utilization = seatUtilization(allocations, sections, heatStart, heatEnd, rangeDays, defaultLength);
+  const maxCovers = Math.max(1, ...covers.map((c) => c.covers));
+
+  function handleExport() {
+    const wb = XLSX.utils.book_new();
+    const addSheet = (rows: Record<string, string | number>[], name: string) => {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), name);
+    };
+
+    addSheet(
+      bySection.map((r) => ({ Section: r.label, Turns: r.turns, 'Avg Turn (min)': Math.round(r.avgMinutes) })),
+      'Turn by Section'
+    );
+    addSheet(
+      byPartySize.map((r) => ({ 'Party Size': r.label, Turns: r.turns, 'Avg Turn (min)': Math.round(r.avgMinutes) })),
+      'Turn by Party Size'
+    );
+    addSheet(
+      noShows.map((r) => ({
+        Day: r.day,
+        Booked: r.booked,
+        'No-Shows': r.noShows,
+        'No-Show Rate (%)': Math.round(r.rate * 1000) / 10,
+      })),
+      'No-Shows by Day'
+    );
+    addSheet(
+      utilization.map((r) => {
+        const row: Record<string, string | number> = { Section: r.section, Seat: r.seat };
+        r.byHour.forEach((value, idx) => {
+          row[formatHour(hours[idx])] = Math.round(value * 100);
+        });
+        return row;
+      }),
+      'Seat Utilization (%)'
+    );
+    addSheet(
+      covers.map((r) => ({ Slot: r.slot, Reservations: r.reservations, Covers: r.covers })),
+      'Covers by Slot'
+    );
+
+    const dates = datesEndingOn(date, rangeDays);
+    XLSX.writeFile(wb, `TableAnalytics_${dates[0]}_to_${dates[dates.length - 1]}.xlsx`);
+  }
+
+  return (
+    <div className="bg-white shadow rounded-md">
+      {/* Toolbar */}
+      <div className="border-b border-gray-200 bg-shimizu-blue/5 rounded-t-md px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Table Analytics</h2>
+          <p className="text-sm text-gray-600">Last {rangeDays} days ending {date}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {RANGE_OPTIONS.map((days) => (
+            <button
+              key={days}
+              type="button"
+              onClick={() => setRangeDays(days)}
+              className={`px-3 py-1.5 text-sm rounded-md ${
+                rangeDays === days
+                  ? 'bg-shimizu-blue text-white'
+                  : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {days}d
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={loading}
+            className="inline-flex items-center px-3 py-1.5 text-sm rounded-md bg-shimizu-blue text-white hover:bg-shimizu-light-blue disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-4 text-gray-500">Loading analytics...</div>
+      ) : (
+        <div className="p-4 space-y-6">
+          {/* Turn times */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <section className="bg-white p-4 rounded shadow">
+              <h3 className="text-lg font-bold mb-3">Average Turn Time by Section</h3>
+              {bySection.length === 0 ? (
+                <p className="text-sm text-gray-600">No finished tables in this range.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Section</th>
+                      <th className="px-3 py-2 text-right">Turns</th>
+                      <th className="px-3 py-2 text-right">Avg Turn</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {bySection.map((row) => (
+                      <tr key={row.label} className="border-b last:border-b-0">
+                        <td className="px-3 py-2">{row.label}</td>
+                        <td className="px-3 py-2 text-right">{row.turns}</td>
+                        <td className="px-3 py-2 text-right font-medium">{formatMinutes(row.avgMinutes)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <section className="bg-white p-4 rounded shadow">
+              <h3 className="text-lg font-bold mb-3">Average Turn Time by Party Size</h3>
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Party Size</th>
+                    <th className="px-3 py-2 text-right">Turns</th>
+                    <th className="px-3 py-2 text-right">Avg Turn</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {byPartySize.map((row) => (
+                    <tr key={row.label} className="border-b last:border-b-0">
+                      <td className="px-3 py-2">{row.label}</td>
+                      <td className="px-3 py-2 text-right">{row.turns}</td>
+                      <td className="px-3 py-2 text-right font-medium">{formatMinutes(row.avgMinutes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </div>
+
+          {/* No-shows */}
+          <section className="bg-white p-4 rounded shadow">
+            <h3 className="text-lg font-bold mb-3">No-Show Rate by Day of Week</h3>
+            <div className="grid grid-cols-7 gap-2">
+              {noShows.map((row) => (
+                <div key={row.day} className="text-center">
+                  <div className="h-24 flex items-end justify-center bg-gray-50 rounded">
+                    <div
+                      className="w-8 bg-red-400 rounded-t"
+                      style={{ height: `${Math.round(row.rate * 100)}%` }}
+                      title={`${row.noShows} of ${row.booked}`}
+                    />
+                  </div>
+                  <p className="text-xs font-medium mt-1">{row.day.slice(0, 3)}</p>
+                  <p className="text-xs text-gray-600">
+                    {row.booked ? `${Math.round(row.rate * 100)}%` : '—'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Seat utilization heatmap */}
+          <section className="bg-white p-4 rounded shadow">
+            <h3 className="text-lg font-bold mb-1">Seat Utilization</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Share of each hour a seat was occupied, averaged across the range.
+            </p>
+            {utilization.length === 0 ? (
+              <p className="text-sm text-gray-600">No active layout found.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="text-xs">
+                  <thead>
+                    <tr>
+                      <th className="px-2 py-1 text-left">Seat</th>
+                      {hours.map((h) => (
+                        <th key={h} className="px-1 py-1 font-normal text-gray-500">
+                          {formatHour(h)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {utilization.map((row, idx) => (
+                      <tr key={`${row.section}-${row.seat}-${idx}`}>
+                        <td className="px-2 py-0.5 whitespace-nowrap">
+                          <span className="text-gray-400">{row.section} · </span>
+                          {row.seat}
+                        </td>
+                        {row.byHour.map((value, hIdx) => (
+                          <td key={hIdx} className="p-0.5">
+                            <div
+                              className="h-5 w-10 rounded-sm border border-gray-100"
+                              style={{ backgroundColor: `rgba(0, 120, 212, ${value.toFixed(2)})` }}
+                              title={`${Math.round(value * 100)}%`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          {/* Covers per slot */}
+          <section className="bg-white p-4 rounded shadow">
+            <h3 className="text-lg font-bold mb-3">Covers per Time Slot</h3>
+            {covers.length === 0 ? (
+              <p className="text-sm text-gray-600">No reservations in this range.</p>
+            ) : (
+              <div className="space-y-1">
+                {covers.map((row) => (
+                  <div key={row.slot} className="flex items-center text-sm">
+                    <span className="w-14 text-gray-600">{row.slot}</span>
+                    <div className="flex-1 bg-gray-50 rounded h-4 mr-2">
+                      <div
+                        className="h-4 rounded bg-shimizu-light-blue"
+                        style={{ width: `${(row.covers / maxCovers) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-32 text-right text-gray-700">
+                      {row.covers} covers · {row.reservations} res.
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,28 @@
 // src/components/dashboard/WaitlistTab.tsx
-import React, { useEffect, useState } from 'react';
-import { Search, Clock, Users, Phone } from 'lucide-react';
-import DatePicker from 'react-datepicker';  // optional if you want a date picker
-import 'react-datepicker/dist/react-datepicker.css';
+import { useCallback, useEffect, useState } from 'react';
+import { Search, Clock, Users, Phone, ChevronUp, ChevronDown, Bell, Plus, Link2 } from 'lucide-react';
 import { formatPhoneNumber } from '../../../shared/utils/formatters';
+import toastUtils from '../../../shared/utils/toastUtils';
+import { handleApiError } from '../../../shared/utils/errorHandler';
+import { DEFAULT_TIME_ZONE, getZonedDateKey } from '../../../shared/utils/timeZoneUtils';
 
 import { useDateFilter } from '../../context/DateFilterContext';
-import { fetchWaitlistEntries as apiFetchWaitlist } from '../../services/api';
+import {
+  fetchWaitlistEntries as apiFetchWaitlist,
+  fetchSeatAllocations,
+  fetchRestaurant,
+  createWaitlistEntry,
+  updateWaitlistEntry,
+  reorderWaitlist,
+} from '../../services/api';
+import {
+  AllocationTiming,
+  estimateWaitMinutes,
+  sortWaitingEntries,
+  moveInQueue,
+  buildWaitlistStatusPath,
+} from '../../utils/waitlistUtils';
+import { getWaitlistNotifier, buildTableReadyMessage } from '../../services/waitlistNotifier';
 
 interface WaitlistEntry {
   id: number;
@@ -16,15 +32,26 @@ interface WaitlistEntry {
   check_in_time?: string;
   status?: string; // "waiting", "seated", "removed", "no_show", etc.
   seat_labels?: string[];
+  position?: number;
+  quoted_wait_minutes?: number;
+  notified_at?: string | null;
+  public_token?: string;
 }
 
-// Utility for parse/format
-function parseDateFilter(dateStr: string): Date {
-  const d = new Date(dateStr);
-  return isNaN(d.getTime()) ? new Date() : d;
+interface NewParty {
+  name: string;
+  phone: string;
+  partySize: number;
 }
-function formatYYYYMMDD(dateObj: Date): string {
-  return dateObj.toISOString().split('T')[0];
+
+const EMPTY_PARTY: NewParty = { name: '', phone: '', partySize: 2 };
+
+function formatClockTime(d: Date): string {
+  return d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function statusPageUrl(entry: WaitlistEntry): string {
+  return `${window.location.origin}${buildWaitlistStatusPath(entry.id, entry.public_token)}`;
 }
 
 export default function WaitlistTab() {
@@ -34,22 +61,160 @@ export default function WaitlistTab() {
   const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
 
-  // Fetch waitlist whenever the “global” date changes
+  // Inputs for the wait quote
+  const [allocations, setAllocations] = useState<AllocationTiming[]>([]);
+  const [seatCount, setSeatCount] = useState(0);
+  const [defaultLength, setDefaultLength] = useState(60);
+  const [restaurantName, setRestaurantName] = useState<string | undefined>(undefined);
+
+  // “Add Party” form
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newParty, setNewParty] = useState<NewParty>(EMPTY_PARTY);
+  const [quoteOverride, setQuoteOverride] = useState('');
+  const [notifyingId, setNotifyingId] = useState<number | null>(null);
+
+  const fetchWaitlistData = useCallback(async () => {
+    try {
+      const data = await apiFetchWaitlist(date);
+      setWaitlist(data as WaitlistEntry[]);
+    } catch (err) {
+      console.error('Error fetching waitlist:', err);
+    }
+  }, [date]);
+
+  // Quotes are for parties joining now, so they use today's seating
+  // whatever date the dashboard is showing
+  const fetchSeatingData = useCallback(async () => {
+    try {
+      const restaurant = (await fetchRestaurant(1)) as {
+        name?: string;
+        time_zone?: string;
+        current_seat_count?: number;
+        default_reservation_length?: number;
+      };
+      setRestaurantName(restaurant.name);
+      setSeatCount(restaurant.current_seat_count || 0);
+      setDefaultLength(restaurant.default_reservation_length || 60);
+
+      const today = getZonedDateKey(new Date(), restaurant.time_zone || DEFAULT_TIME_ZONE);
+      const allocs = await fetchSeatAllocations({ date: today });
+      setAllocations((allocs as AllocationTiming[]) || []);
+    } catch (err) {
+      console.error('Error fetching seating for wait quotes:', err);
+    }
+  }, []);
+
+  // Fetch the waitlist whenever the “global” date changes
   useEffect(() => {
     fetchWaitlistData();
-  }, [date]);
+  }, [fetchWaitlistData]);
+
+  useEffect(() => {
+    fetchSeatingData();
+  }, [fetchSeatingData]);
+
+  // Refresh when the add form opens so the quote reflects who's seated right now
+  useEffect(() => {
+    if (showAddForm) fetchSeatingData();
+  }, [showAddForm, fetchSeatingData]);
+
+  // Queue: waiting parties in order, then everyone else by check-in
+  const waitingQueue = sortWaitingEntries(waitlist);
+  const otherEntries = waitlist
+    .filter((w) => w.status !== 'waiting')
+    .sort((a, b) => new Date(a.check_in_time || 0).getTime() - new Date(b.check_in_time || 0).getTime());
+  const positionById = new Map(waitingQueue.map((w, idx) => [w.id, idx + 1]));
+
+  const suggestedQuote = estimateWaitMinutes({
+    partySize: newParty.partySize,
+    seatCount,
+    allocations,
+    seatsAhead: waitingQueue.reduce((sum, w) => sum + (w.party_size ?? 1), 0),
+    defaultLengthMinutes: defaultLength,
+  });
 
-  async function fetchWaitlistData() {
+  async function handleAddParty(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newParty.name.trim()) {
+      toastUtils.error('Guest name is required.');
+      return;
+    }
+    const quoted = quoteOverride.trim() ? Number(quoteOverride) : suggestedQuote;
     try {
-      const data = await apiFetchWaitlist({ date });
-      setWaitlist(data);
+      await createWaitlistEntry({
+        contact_name: newParty.name.trim(),
+        contact_phone: newParty.phone.trim(),
+        party_size: newParty.partySize,
+        check_in_time: new Date().toISOString(),
+        status: 'waiting',
+        quoted_wait_minutes: quoted,
+        position: waitingQueue.length + 1,
+      });
+      toastUtils.success(`Added ${newParty.name.trim()} — quoted ${quoted} min`);
+      setNewParty(EMPTY_PARTY);
+      setQuoteOverride('');
+      setShowAddForm(false);
+      fetchWaitlistData();
     } catch (err) {
-      console.error('Error fetching waitlist:', err);
+      console.error('Error adding to waitlist:', err);
+      toastUtils.error('Failed to add party to the waitlist.');
+    }
+  }
+
+  async function handleMove(entryId: number, direction: -1 | 1) {
+    const index = waitingQueue.findIndex((w) => w.id === entryId);
+    const reordered = moveInQueue(waitingQueue, index, direction);
+    if (reordered === waitingQueue) return;
+
+    // Optimistic: renumber locally, then save
+    const newPositions = new Map(reordered.map((w, idx) => [w.id, idx + 1]));
+    setWaitlist((prev) =>
+      prev.map((w) => (newPositions.has(w.id) ? { ...w, position: newPositions.get(w.id) } : w))
+    );
+    try {
+      await reorderWaitlist(reordered.map((w) => w.id));
+    } catch (err) {
+      console.error('Error reordering waitlist:', err);
+      toastUtils.error('Failed to save the new order.');
+      fetchWaitlistData();
+    }
+  }
+
+  async function handleNotify(entry: WaitlistEntry) {
+    const notifier = getWaitlistNotifier();
+    setNotifyingId(entry.id);
+    try {
+      await notifier.send({
+        entryId: entry.id,
+        name: entry.contact_name,
+        phone: entry.contact_phone,
+        message: buildTableReadyMessage(entry.contact_name, restaurantName, statusPageUrl(entry)),
+      });
+      const notifiedAt = new Date().toISOString();
+      await updateWaitlistEntry(entry.id, { notified_at: notifiedAt });
+      setWaitlist((prev) =>
+        prev.map((w) => (w.id === entry.id ? { ...w, notified_at: notifiedAt } : w))
+      );
+      toastUtils.success(`Notified ${entry.contact_name || 'guest'} (${notifier.label})`);
+    } catch (err) {
+      console.error('Error notifying guest:', err);
+      toastUtils.error(handleApiError(err, 'Failed to notify guest.'));
+    } finally {
+      setNotifyingId(null);
+    }
+  }
+
+  async function handleCopyLink(entry: WaitlistEntry) {
+    try {
+      await navigator.clipboard.writeText(statusPageUrl(entry));
+      toastUtils.success('Status link copied');
+    } catch {
+      toastUtils.error('Could not copy link');
     }
   }
 
   // Searching logic
-  const searchedWaitlist = waitlist.filter((w) => {
+  const searchedWaitlist = [...waitingQueue, ...otherEntries].filter((w) => {
     const wName = w.contact_name?.toLowerCase() ?? '';
     const wPhone = w.contact_phone ?? '';
     const sTerm = searchTerm.toLowerCase();
@@ -79,8 +244,71 @@ export default function WaitlistTab() {
               "
             />
           </div>
-          {/* Optionally add DatePicker or arrow nav here if you want date-based waitlist. */}
+          <button
+            type="button"
+            onClick={() => setShowAddForm(!showAddForm)}
+            className="inline-flex items-center px-4 py-2 bg-shimizu-blue text-white text-sm font-medium rounded-md hover:bg-shimizu-light-blue"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Party
+          </button>
         </div>
+
+        {/* Add Party + quote */}
+        {showAddForm && (
+          <form onSubmit={handleAddParty} className="mt-4 grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+            <div className="sm:col-span-2">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+              <input
+                type="text"
+                value={newParty.name}
+                onChange={(e) => setNewParty({ ...newParty, name: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Phone</label>
+              <input
+                type="tel"
+                value={newParty.phone}
+                onChange={(e) => setNewParty({ ...newParty, phone: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Party Size</label>
+              <input
+                type="number"
+                min={1}
+                value={newParty.partySize}
+                onChange={(e) => setNewParty({ ...newParty, partySize: Math.max(1, +e.target.value) })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Quote (suggested {suggestedQuote} min)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={5}
+                placeholder={String(suggestedQuote)}
+                value={quoteOverride}
+                onChange={(e) => setQuoteOverride(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div className="sm:col-span-5 flex justify-end">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-shimizu-blue text-white text-sm font-medium rounded-md hover:bg-shimizu-light-blue"
+              >
+                Add to Waitlist
+              </button>
+            </div>
+          </form>
+        )}
       </div>
 
       {/* Waitlist table */}
@@ -89,6 +317,9 @@ export default function WaitlistTab() {
         <table className="w-full table-auto divide-y divide-gray-200 text-sm">
           <thead className="bg-gray-50">
             <tr>
+              <th className="px-3 py-3 text-left font-medium text-gray-500 uppercase tracking-wider">
+                #
+              </th>
               <th className="px-6 py-3 text-left font-medium text-gray-500 uppercase tracking-wider">
                 Time Joined
               </th>
@@ -101,9 +332,15 @@ export default function WaitlistTab() {
               <th className="px-6 py-3 text-left font-medium text-gray-500 uppercase tracking-wider">
                 Contact
               </th>
+              <th className="px-6 py-3 text-left font-medium text-gray-500 uppercase tracking-wider">
+                Quoted
+              </th>
               <th className="px-6 py-3 text-left font-medium text-gray-500 uppercase tracking-wider">
                 Status
               </th>
+              <th className="px-6 py-3 text-left font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
@@ -117,11 +354,22 @@ export default function WaitlistTab() {
                 ? `(Seated at ${w.seat_labels.join(', ')})`
                 : '';
 
+              const position = positionById.get(w.id);
+              const quotedReady =
+                w.quoted_wait_minutes != null && !isNaN(joined.getTime())
+                  ? new Date(joined.getTime() + w.quoted_wait_minutes * 60000)
+                  : null;
+
               return (
                 <tr
                   key={w.id}
                   className="hover:bg-hafaloha-gold/5 cursor-pointer"
                 >
+                  {/* Position */}
+                  <td className="px-3 py-4 font-semibold text-gray-900 whitespace-nowrap">
+                    {position ?? '—'}
+                  </td>
+
                   {/* Time Joined */}
                   <td className="px-6 py-4 text-gray-900 whitespace-nowrap">
                     <div className="flex items-center">
@@ -160,9 +408,74 @@ export default function WaitlistTab() {
                     )}
                   </td>
 
+                  {/* Quoted */}
+                  <td className="px-6 py-4 text-gray-900 whitespace-nowrap">
+                    {w.quoted_wait_minutes != null ? (
+                      <>
+                        ~{w.quoted_wait_minutes} min
+                        {quotedReady && (
+                          <span className="block text-xs text-gray-500">
+                            by {formatClockTime(quotedReady)}
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      'N/A'
+                    )}
+                  </td>
+
                   {/* Status */}
                   <td className="px-6 py-4 whitespace-nowrap">
                     {renderWaitlistStatusBadge(w.status)}
+                    {w.notified_at && (
+                      <span className="block text-xs text-gray-500 mt-1">
+                        Notified {formatClockTime(new Date(w.notified_at))}
+                      </span>
+                    )}
+                  </td>
+
+                  {/* Actions */}
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {position && (
+                      <div className="flex items-center space-x-1">
+                        <button
+                          type="button"
+                          onClick={() => handleMove(w.id, -1)}
+                          disabled={position === 1}
+                          className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                          title="Move up"
+                        >
+                          <ChevronUp className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleMove(w.id, 1)}
+                          disabled={position === waitingQueue.length}
+                          className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                          title="Move down"
+                        >
+                          <ChevronDown className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleNotify(w)}
+                          disabled={notifyingId === w.id}
+                          className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-shimizu-blue/10 text-shimizu-blue hover:bg-shimizu-blue/20 disabled:opacity-50"
+                          title="Tell the guest their table is ready"
+                        >
+                          <Bell className="h-3.5 w-3.5 mr-1" />
+                          {w.notified_at ? 'Notify again' : 'Notify'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleCopyLink(w)}
+                          className="p-1 rounded text-gray-500 hover:bg-gray-100"
+                          title="Copy guest status link"
+                        >
+                          <Link2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
                   </td>
                 </tr>
               );
@@ -171,7 +484,7 @@ export default function WaitlistTab() {
             {/* If no waitlist entries match the search */}
             {searchedWaitlist.length === 0 && (
               <tr>
-                <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
                   No waitlist entries found.
                 </td>
               </tr>
@@ -2,6 +2,8 @@
 // This is a proxy file that forwards all API requests to the shared API
 
 import { api as sharedApi } from '../../shared/api';
+import type { GuestReservationChanges, WaitlistEntryPayload } from '../types';
+import type { SignedTable, TableContext } from '../../ordering/types/dineIn';
 
 // Re-export the shared API
 export const api = sharedApi;
@@ -21,6 +23,58 @@ export const updateReservation = async (id: number, data: any) => {
   return sharedApi.patch(`/reservations/${id}`, data);
 };
 
+// Guest lookup by confirmation code plus the phone or email on the booking
+export const lookupReservation = async (confirmationCode: string, contact: string) => {
+  return sharedApi.post('/reservations/lookup', { confirmation_code: confirmationCode, contact });
+};
+
+// Guest changes are authorized by the same code and contact, not a staff session.
+// The server applies the self-service cutoffs and rejects late changes.
+export const modifyGuestReservation = async (
+  confirmationCode: string,
+  contact: string,
+  changes: GuestReservationChanges
+) => {
+  return sharedApi.patch('/reservations/guest', {
+    confirmation_code: confirmationCode,
+    contact,
+    reservation: changes
+  });
+};
+
+export const cancelGuestReservation = async (confirmationCode: string, contact: string) => {
+  return sharedApi.post('/reservations/guest/cancel', { confirmation_code: confirmationCode, contact });
+};
+
+// Deposits are priced by the server. The intent is a PaymentIntent for a
+// deposit or a SetupIntent that saves the card for a no-show charge.
+export const createGuestDepositIntent = async (confirmationCode: string, contact: string) => {
+  return sharedApi.post('/reservations/guest/deposit_intent', { confirmation_code: confirmationCode, contact });
+};
+
+// The server checks the intent against the deposit it priced before confirming the booking
+export const confirmGuestDeposit = async (confirmationCode: string, contact: string, intentId: string) => {
+  return sharedApi.post('/reservations/guest/confirm_deposit', {
+    confirmation_code: confirmationCode,
+    contact,
+    intent_id: intentId
+  });
+};
+
+// Saved cards: charge the no-show fee, or release the card once the party has been served
+export const captureReservationDeposit = async (id: number) => {
+  return sharedApi.post(`/reservations/${id}/capture_deposit`);
+};
+
+export const releaseReservationDeposit = async (id: number) => {
+  return sharedApi.post(`/reservations/${id}/release_deposit`);
+};
+
+// Pre-orders wait until the party arrives
+export const fireReservationPreOrder = async (id: number) => {
+  return sharedApi.post(`/reservations/${id}/fire_pre_order`);
+};
+
 export const deleteReservation = async (id: number) => {
   return sharedApi.delete(`/reservations/${id}`);
 };
@@ -31,6 +85,29 @@ export const fetchWaitlistEntries = async (date?: string) => {
   return sharedApi.get('/waitlist_entries', params);
 };
 
+export const createWaitlistEntry = async (data: WaitlistEntryPayload) => {
+  return sharedApi.post('/waitlist_entries', data);
+};
+
+export const updateWaitlistEntry = async (id: number, data: WaitlistEntryPayload) => {
+  return sharedApi.patch(`/waitlist_entries/${id}`, data);
+};
+
+// Texts the guest through the restaurant's SMS provider
+export const notifyWaitlistEntry = async (id: number, message: string) => {
+  return sharedApi.post(`/waitlist_entries/${id}/notify`, { message });
+};
+
+// Ids are listed front of the line first
+export const reorderWaitlist = async (entryIds: number[]) => {
+  return sharedApi.post('/waitlist_entries/reorder', { entry_ids: entryIds });
+};
+
+// Public position lookup for a guest, authorized by the entry's token
+export const fetchWaitlistStatus = async (id: number | string, token?: string | null) => {
+  return sharedApi.get(`/waitlist_entries/${id}/status`, token ? { token } : {});
+};
+
 export const fetchAvailability = async (date: string, partySize: number) => {
   return sharedApi.get('/availability', { date, party_size: partySize });
 };
@@ -99,6 +176,16 @@ export const activateLayout = async (id: number) => {
   return sharedApi.post(`/layouts/${id}/activate`);
 };
 
+// Snapshots are recorded by the server whenever a layout is created or updated
+export const fetchLayoutVersions = async (id: number) => {
+  return sharedApi.get(`/layouts/${id}/versions`);
+};
+
+// Signed tokens for table QR codes; the server checks each table is in the layout
+export const issueTableTokens = async (id: number, tables: TableContext[]): Promise<SignedTable[]> => {
+  return sharedApi.post<SignedTable[]>(`/layouts/${id}/table_tokens`, { tables });
+};
+
 export const fetchOperatingHours = async () => {
   return sharedApi.get('/operating_hours');
 };
@@ -0,0 +1,49 @@
+// src/reservations/services/waitlistNotifier.ts
+// Pluggable "your table is ready" notifier. The default texts the guest through
+// the backend's SMS provider; another channel can be swapped in with setWaitlistNotifier.
+
+import { notifyWaitlistEntry } from './api';
+
+export interface WaitlistNotification {
+  entryId: number;
+  name?: string;
+  phone?: string;
+  message: string;
+}
+
+export interface WaitlistNotifier {
+  /** Shown to staff, e.g. "SMS" or "Local" */
+  label: string;
+  send: (notification: WaitlistNotification) => Promise<void>;
+}
+
+/** Sends the message as an SMS; the server rejects entries without a phone number */
+export const smsWaitlistNotifier: WaitlistNotifier = {
+  label: 'SMS',
+  send: async (notification) => {
+    if (!notification.phone) {
+      throw new Error('This party has no phone number to text');
+    }
+    await notifyWaitlistEntry(notification.entryId, notification.message);
+  },
+};
+
+let activeNotifier: WaitlistNotifier = smsWaitlistNotifier;
+
+export function setWaitlistNotifier(notifier: WaitlistNotifier) {
+  activeNotifier = notifier;
+}
+
+export function getWaitlistNotifier(): WaitlistNotifier {
+  return activeNotifier;
+}
+
+export function buildTableReadyMessage(
+  name: string | undefined,
+  restaurantName: string | undefined,
+  statusUrl: string
+): string {
+  const greeting = name ? `Hi ${name.split(' ')[0]}, your` : 'Your';
+  const place = restaurantName ? ` at ${restaurantName}` : '';
+  return `${greeting} table${place} is ready! Please head to the host stand. ${statusUrl}`;
+}
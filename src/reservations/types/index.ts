@@ -38,6 +38,33 @@ export interface Reservation {
   // NEW: If your frontend or backend is storing seat preferences or seat labels
   seat_preferences?: string[][];    // an array of arrays, e.g. [["A1","A2"], ["B1","B2"], ...]
   seat_labels?: string[];           // current seat assignment labels
+
+  // Code shown to the guest on confirmation; used with phone/email to look up the booking
+  confirmation_code?: string;
+
+  // Deposit or saved card collected at booking (see utils/depositUtils). The
+  // server sets the amount; 'pending' means the guest hasn't given a card yet.
+  deposit_amount?: number;
+  deposit_type?: 'deposit' | 'hold';
+  deposit_status?: 'pending' | 'paid' | 'held' | 'captured' | 'released';
+  deposit_payment_intent_id?: string;
+
+  // Food ordered with the booking; held until staff fire it to the kitchen
+  pre_order?: ReservationPreOrder | null;
+}
+
+/** What a guest can change from the manage page */
+export interface GuestReservationChanges {
+  start_time?: string;
+  party_size?: number;
+}
+
+export interface ReservationPreOrder {
+  order_id: number | string;
+  item_count: number;
+  total: number;
+  fired_at?: string | null;
+  items?: { name: string; quantity: number }[];
 }
 
 //
@@ -51,6 +78,39 @@ export interface WaitlistEntry {
   check_in_time?: string; // e.g. "2025-01-15T10:00:00Z"
   joinedAt?: string;      // If you store an alternate time field
   status?: string;        // "waiting", "seated", "removed", etc.
+
+  // Queue management
+  position?: number;              // 1-based place in line among waiting parties
+  quoted_wait_minutes?: number;   // estimate given to the guest when added
+  notified_at?: string | null;    // when we told the guest their table is ready
+  public_token?: string;          // lets the guest open their status page without signing in
+}
+
+/** Fields staff send when adding or updating a waitlist entry (backend names) */
+export interface WaitlistEntryPayload {
+  contact_name?: string;
+  contact_phone?: string;
+  party_size?: number;
+  check_in_time?: string;
+  status?: string;
+  position?: number;
+  quoted_wait_minutes?: number;
+  notified_at?: string | null;
+}
+
+//
+// 3b) WaitlistStatus — public view of a guest's place in line
+//
+export interface WaitlistStatus {
+  id: number;
+  contact_name?: string;
+  party_size?: number;
+  status?: string;
+  position?: number;
+  parties_ahead?: number;
+  quoted_wait_minutes?: number;
+  check_in_time?: string;
+  notified_at?: string | null;
 }
 
 //
@@ -0,0 +1,248 @@
+// src/reservations/utils/autoAssignUtils.ts
+// Proposes seats for a party in the FloorManager seat wizard. Candidates are
+// scored (lower is better) and the best one is shown to staff for confirmation.
+
+export interface AssignSeat {
+  id: number;
+  label?: string;
+  position_x: number;
+  position_y: number;
+  capacity?: number;
+}
+
+export interface AssignSection {
+  id: number;
+  name: string;
+  section_type?: string;
+  orientation?: string;
+  seats: AssignSeat[];
+}
+
+export interface AssignAllocation {
+  seat_id: number;
+  start_time?: string;
+  end_time?: string;
+  released_at?: string | null;
+}
+
+export interface AutoAssignInput {
+  sections: AssignSection[];
+  allocations: AssignAllocation[];
+  partySize: number;
+  start: Date;
+  end: Date;
+  /** Guest's preferred seat label sets, best first */
+  seatPreferences?: string[][];
+}
+
+export interface SeatProposal {
+  seatIds: number[];
+  labels: string[];
+  sectionName: string;
+  /** Short explanation shown to staff */
+  reason: string;
+  score: number;
+}
+
+/** Allocations without an end are assumed to last this long */
+const DEFAULT_ALLOCATION_MINUTES = 60;
+/** A later booking starting within this many minutes of our end is a tight squeeze */
+const TURNOVER_BUFFER_MINUTES = 30;
+
+const SCORE = {
+  preferenceBase: -1000,
+  preferenceRank: 10,
+  wastedSeat: 10,
+  sharedTable: 50,
+  orphanedSeat: 5,
+  typeMismatch: 15,
+  tightTurnover: 20,
+};
+
+function seatCapacity(seat: AssignSeat): number {
+  return seat.capacity && seat.capacity > 0 ? seat.capacity : 1;
+}
+
+function allocationWindow(alloc: AssignAllocation): { start: number; end: number } | null {
+  if (alloc.released_at || !alloc.start_time) return null;
+  const start = new Date(alloc.start_time).getTime();
+  const end = alloc.end_time
+    ? new Date(alloc.end_time).getTime()
+    : start + DEFAULT_ALLOCATION_MINUTES * 60000;
+  return { start, end };
+}
+
+/**
+ * For each seat: whether it's free for [start, end), and minutes from our end
+ * until its next booking later in the evening (Infinity when none).
+ */
+function buildSeatSchedule(allocations: AssignAllocation[], start: Date, end: Date) {
+  const busy = new Set<number>();
+  const nextGap = new Map<number, number>();
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+
+  for (const alloc of allocations) {
+    const window = allocationWindow(alloc);
+    if (!window) continue;
+    if (window.start < endMs && window.end > startMs) {
+      busy.add(alloc.seat_id);
+    } else if (window.start >= endMs) {
+      const gap = (window.start - endMs) / 60000;
+      nextGap.set(alloc.seat_id, Math.min(nextGap.get(alloc.seat_id) ?? Infinity, gap));
+    }
+  }
+  return { busy, nextGap };
+}
+
+/** Seats in a counter section ordered along the counter */
+function orderAlongCounter(section: AssignSection): AssignSeat[] {
+  const seats = [...section.seats];
+  const xs = seats.map((s) => s.position_x);
+  const ys = seats.map((s) => s.position_y);
+  const spreadX = Math.max(...xs) - Math.min(...xs);
+  const spreadY = Math.max(...ys) - Math.min(...ys);
+  const vertical = section.orientation ? section.orientation === 'vertical' : spreadY > spreadX;
+  return seats.sort((a, b) => (vertical ? a.position_y - b.position_y : a.position_x - b.position_x));
+}
+
+function distance(a: AssignSeat, b: AssignSeat): number {
+  return Math.hypot(a.position_x - b.position_x, a.position_y - b.position_y);
+}
+
+/**
+ * Runs of neighbouring seats along a counter. A gap much wider than the usual
+ * spacing (an aisle or pillar) breaks the run.
+ */
+function counterRuns(ordered: AssignSeat[]): AssignSeat[][] {
+  if (ordered.length === 0) return [];
+  const gaps = ordered.slice(1).map((seat, i) => distance(ordered[i], seat)).filter((g) => g > 0);
+  const spacing = gaps.length ? Math.min(...gaps) : 0;
+  const maxGap = spacing * 1.5;
+
+  const runs: AssignSeat[][] = [[ordered[0]]];
+  for (let i = 1; i < ordered.length; i++) {
+    if (spacing && distance(ordered[i - 1], ordered[i]) > maxGap) {
+      runs.push([]);
+    }
+    runs[runs.length - 1].push(ordered[i]);
+  }
+  return runs;
+}
+
+function turnoverPenalty(seatIds: number[], nextGap: Map<number, number>): number {
+  return seatIds.filter((id) => (nextGap.get(id) ?? Infinity) < TURNOVER_BUFFER_MINUTES).length * SCORE.tightTurnover;
+}
+
+function prefersTable(partySize: number): boolean {
+  return partySize >= 3;
+}
+
+function toProposal(seats: AssignSeat[], section: AssignSection, score: number, reason: string): SeatProposal {
+  return {
+    seatIds: seats.map((s) => s.id),
+    labels: seats.map((s) => s.label || String(s.id)),
+    sectionName: section.name,
+    reason,
+    score,
+  };
+}
+
+/** Takes seats from the list until their combined capacity covers the party */
+function takeForParty(seats: AssignSeat[], partySize: number): AssignSeat[] | null {
+  const picked: AssignSeat[] = [];
+  let covered = 0;
+  for (const seat of seats) {
+    if (covered >= partySize) break;
+    picked.push(seat);
+    covered += seatCapacity(seat);
+  }
+  return covered >= partySize ? picked : null;
+}
+
+function capacityOf(seats: AssignSeat[]): number {
+  return seats.reduce((sum, seat) => sum + seatCapacity(seat), 0);
+}
+
+/**
+ * Best-fitting seats for a party, or null when no single section can hold them
+ */
+export function proposeSeats({
+  sections,
+  allocations,
+  partySize,
+  start,
+  end,
+  seatPreferences = [],
+}: AutoAssignInput): SeatProposal | null {
+  const { busy, nextGap } = buildSeatSchedule(allocations, start, end);
+  const isFree = (seat: AssignSeat) => !busy.has(seat.id);
+  const candidates: SeatProposal[] = [];
+
+  // 1) Guest preferences, if every seat in the set is free and they fit
+  const seatsByLabel = new Map<string, { seat: AssignSeat; section: AssignSection }>();
+  sections.forEach((section) =>
+    section.seats.forEach((seat) => seat.label && seatsByLabel.set(seat.label, { seat, section }))
+  );
+  seatPreferences.forEach((labels, rank) => {
+    const matches = labels.map((label) => seatsByLabel.get(label));
+    if (matches.length === 0 || matches.some((m) => !m || !isFree(m.seat))) return;
+    const seats = matches.map((m) => m!.seat);
+    if (capacityOf(seats) < partySize) return;
+    const score =
+      SCORE.preferenceBase + rank * SCORE.preferenceRank + turnoverPenalty(seats.map((s) => s.id), nextGap);
+    candidates.push(toProposal(seats, matches[0]!.section, score, `Guest preference option ${rank + 1}`));
+  });
+
+  for (const section of sections) {
+    const isTable = section.section_type === 'table';
+    const mismatch = isTable !== prefersTable(partySize) ? SCORE.typeMismatch : 0;
+
+    if (isTable) {
+      // 2) Tables: seats around one table are all adjacent; avoid sharing with another party
+      const freeSeats = section.seats.filter(isFree);
+      const picked = takeForParty(freeSeats, partySize);
+      if (!picked) continue;
+      const shared = freeSeats.length < section.seats.length;
+      const wasted = capacityOf(freeSeats) - partySize;
+      const score =
+        wasted * SCORE.wastedSeat +
+        (shared ? SCORE.sharedTable : 0) +
+        mismatch +
+        turnoverPenalty(picked.map((s) => s.id), nextGap);
+      candidates.push(
+        toProposal(picked, section, score, shared ? `Shares ${section.name}` : `${section.name} (${section.seats.length}-top)`)
+      );
+    } else {
+      // 3) Counters: a contiguous stretch of free seats, leaving as few stranded singles as possible
+      for (const run of counterRuns(orderAlongCounter(section))) {
+        for (let i = 0; i < run.length; i++) {
+          if (!isFree(run[i])) continue;
+          const window: AssignSeat[] = [];
+          for (let j = i; j < run.length && isFree(run[j]); j++) {
+            window.push(run[j]);
+            if (capacityOf(window) >= partySize) break;
+          }
+          if (capacityOf(window) < partySize) continue;
+
+          const before = run.slice(0, i);
+          const after = run.slice(i + window.length);
+          const freeBefore = before.length - before.map(isFree).lastIndexOf(false) - 1;
+          const firstTakenAfter = after.map(isFree).indexOf(false);
+          const freeAfter = firstTakenAfter === -1 ? after.length : firstTakenAfter;
+          const orphans = (freeBefore === 1 ? 1 : 0) + (freeAfter === 1 ? 1 : 0);
+
+          const score =
+            (capacityOf(window) - partySize) * SCORE.wastedSeat +
+            orphans * SCORE.orphanedSeat +
+            mismatch +
+            turnoverPenalty(window.map((s) => s.id), nextGap);
+          candidates.push(toProposal(window, section, score, `${window.length} together at ${section.name}`));
+        }
+      }
+    }
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, c) => (c.score < best.score ? c : best));
+}
@@ -0,0 +1,94 @@
+// src/reservations/utils/depositUtils.ts
+
+import { Reservation } from '../types';
+
+/**
+ * 'deposit' charges the card when booking; 'hold' saves the card so staff can
+ * charge it on a no-show or release it once the party has been seated.
+ * Authorizations lapse after about 7 days, so the card is saved rather than held.
+ */
+export type DepositMode = 'deposit' | 'hold';
+
+/** Stored under restaurant.admin_settings.reservation_deposits */
+export interface DepositSettings {
+  enabled: boolean;
+  mode: DepositMode;
+  /** Parties of at least this many guests need a deposit */
+  party_size_threshold: number;
+  amount_per_guest: number;
+}
+
+export const DEFAULT_DEPOSIT_SETTINGS: DepositSettings = {
+  enabled: false,
+  mode: 'hold',
+  party_size_threshold: 8,
+  amount_per_guest: 25,
+};
+
+/** An estimate for the booking form; the server prices the actual deposit */
+export interface DepositRequirement {
+  mode: DepositMode;
+  amount: number;
+  /** Shown to the guest above the card form */
+  reason: string;
+}
+
+/** The special-event fields that matter for deposits */
+export interface DepositEvent {
+  description?: string | null;
+  deposit_required?: boolean;
+}
+
+/**
+ * Fills in defaults for anything missing from admin_settings
+ */
+export function getDepositSettings(adminSettings?: Record<string, unknown> | null): DepositSettings {
+  const saved = (adminSettings?.reservation_deposits || {}) as Partial<DepositSettings>;
+  return {
+    enabled: saved.enabled ?? DEFAULT_DEPOSIT_SETTINGS.enabled,
+    mode: saved.mode === 'deposit' ? 'deposit' : DEFAULT_DEPOSIT_SETTINGS.mode,
+    party_size_threshold: Number(saved.party_size_threshold ?? DEFAULT_DEPOSIT_SETTINGS.party_size_threshold),
+    amount_per_guest: Number(saved.amount_per_guest ?? DEFAULT_DEPOSIT_SETTINGS.amount_per_guest),
+  };
+}
+
+/**
+ * What (if anything) the guest must put down for this booking. A special event
+ * flagged `deposit_required` applies regardless of party size.
+ */
+export function getDepositRequirement(
+  settings: DepositSettings,
+  partySize: number,
+  event?: DepositEvent | null
+): DepositRequirement | null {
+  if (!settings.enabled || settings.amount_per_guest <= 0 || partySize < 1) return null;
+
+  let reason: string;
+  if (event?.deposit_required) {
+    reason = event.description ? `Required for ${event.description}` : 'Required on this date';
+  } else if (partySize >= settings.party_size_threshold) {
+    reason = `Required for parties of ${settings.party_size_threshold} or more`;
+  } else {
+    return null;
+  }
+
+  return {
+    mode: settings.mode,
+    amount: Math.round(settings.amount_per_guest * partySize * 100) / 100,
+    reason,
+  };
+}
+
+/** A saved card that staff can still charge or release */
+export function hasHeldDeposit(reservation?: Reservation | null): boolean {
+  return !!reservation && reservation.deposit_type === 'hold' && reservation.deposit_status === 'held';
+}
+
+/** Created, but waiting on the guest's card before it's confirmed */
+export function isAwaitingDeposit(reservation?: Reservation | null): boolean {
+  return !!reservation && reservation.deposit_status === 'pending' && Number(reservation.deposit_amount) > 0;
+}
+
+export function formatDepositAmount(amount?: number | null): string {
+  return `$${Number(amount || 0).toFixed(2)}`;
+}
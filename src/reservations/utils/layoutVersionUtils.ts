@@ -0,0 +1,194 @@
+// src/reservations/utils/layoutVersionUtils.ts
+// Helpers for SeatLayoutEditor: comparing saved versions and moving layouts
+// between restaurants as JSON.
+
+export interface LayoutSeatSnapshot {
+  id?: number;
+  label?: string;
+  position_x: number;
+  position_y: number;
+  capacity: number;
+}
+
+export interface LayoutSectionSnapshot {
+  id: string;
+  dbId?: number;
+  name: string;
+  type: 'counter' | 'table';
+  orientation: 'vertical' | 'horizontal';
+  offsetX: number;
+  offsetY: number;
+  floorNumber: number;
+  seats: LayoutSeatSnapshot[];
+}
+
+export interface LayoutVersion {
+  id: number;
+  layout_id: number;
+  name: string;
+  created_at: string;
+  created_by_name?: string;
+  sections_data: {
+    sections: LayoutSectionSnapshot[];
+  };
+}
+
+export interface LayoutDiffEntry {
+  sectionName: string;
+  kind: 'added' | 'removed' | 'changed';
+  details: string[];
+}
+
+/** Identifies exported files so imports can reject unrelated JSON */
+export const LAYOUT_EXPORT_FORMAT = 'seat-layout';
+export const LAYOUT_EXPORT_VERSION = 1;
+
+function describeSectionChanges(before: LayoutSectionSnapshot, after: LayoutSectionSnapshot): string[] {
+  const details: string[] = [];
+  if (before.name !== after.name) details.push(`renamed from "${before.name}"`);
+  if (before.type !== after.type) details.push(`${before.type} → ${after.type}`);
+  if (before.orientation !== after.orientation) details.push(`${before.orientation} → ${after.orientation}`);
+  if ((before.floorNumber || 1) !== (after.floorNumber || 1)) {
+    details.push(`floor ${before.floorNumber || 1} → ${after.floorNumber || 1}`);
+  }
+  if (before.offsetX !== after.offsetX || before.offsetY !== after.offsetY) details.push('moved');
+  if (before.seats.length !== after.seats.length) {
+    details.push(`${before.seats.length} → ${after.seats.length} seats`);
+  } else {
+    const relabeled = before.seats.filter((seat, i) => seat.label !== after.seats[i].label).length;
+    const recapped = before.seats.filter((seat, i) => seat.capacity !== after.seats[i].capacity).length;
+    if (relabeled) details.push(`${relabeled} seat${relabeled === 1 ? '' : 's'} relabeled`);
+    if (recapped) details.push(`${recapped} seat capacit${recapped === 1 ? 'y' : 'ies'} changed`);
+  }
+  return details;
+}
+
+/**
+ * What changed going from `from` (e.g. a saved version) to `to` (e.g. the editor)
+ */
+export function diffLayoutSections(
+  from: LayoutSectionSnapshot[],
+  to: LayoutSectionSnapshot[]
+): LayoutDiffEntry[] {
+  const fromById = new Map(from.map((sec) => [sec.id, sec]));
+  const toById = new Map(to.map((sec) => [sec.id, sec]));
+  const entries: LayoutDiffEntry[] = [];
+
+  for (const sec of to) {
+    const before = fromById.get(sec.id);
+    if (!before) {
+      entries.push({ sectionName: sec.name, kind: 'added', details: [`${sec.seats.length} seats`] });
+      continue;
+    }
+    const details = describeSectionChanges(before, sec);
+    if (details.length) entries.push({ sectionName: sec.name, kind: 'changed', details });
+  }
+  for (const sec of from) {
+    if (!toById.has(sec.id)) {
+      entries.push({ sectionName: sec.name, kind: 'removed', details: [`${sec.seats.length} seats`] });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Drops database ids so the sections can be saved as a brand-new layout
+ */
+export function stripLayoutIds(sections: LayoutSectionSnapshot[]): LayoutSectionSnapshot[] {
+  return sections.map((sec) => {
+    const copy = { ...sec, seats: sec.seats.map((seat) => ({ ...seat })) };
+    delete copy.dbId;
+    copy.seats.forEach((seat) => delete seat.id);
+    return copy;
+  });
+}
+
+export function buildLayoutExport(name: string, sections: LayoutSectionSnapshot[]) {
+  return {
+    format: LAYOUT_EXPORT_FORMAT,
+    version: LAYOUT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    name,
+    sections: stripLayoutIds(sections),
+  };
+}
+
+/** Shape of an import file before validation */
+interface RawLayoutFile {
+  format?: unknown;
+  version?: unknown;
+  name?: unknown;
+  sections?: unknown;
+}
+
+interface RawSection {
+  id?: unknown;
+  name?: unknown;
+  type?: unknown;
+  orientation?: unknown;
+  offsetX?: unknown;
+  offsetY?: unknown;
+  floorNumber?: unknown;
+  seats?: unknown;
+}
+
+interface RawSeat {
+  label?: unknown;
+  position_x?: unknown;
+  position_y?: unknown;
+  capacity?: unknown;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+/**
+ * Parses an exported layout file. Throws an Error with a staff-readable message when invalid.
+ */
+export function parseLayoutImport(text: string): { name: string; sections: LayoutSectionSnapshot[] } {
+  let data: RawLayoutFile | null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (data?.format !== LAYOUT_EXPORT_FORMAT || !Array.isArray(data.sections)) {
+    throw new Error('File is not an exported seat layout.');
+  }
+  if (isNumber(data.version) && data.version > LAYOUT_EXPORT_VERSION) {
+    throw new Error('This layout was exported by a newer version of the app.');
+  }
+
+  const sections: LayoutSectionSnapshot[] = data.sections.map((sec: RawSection | null, idx: number) => {
+    if (!sec || typeof sec.name !== 'string' || !Array.isArray(sec.seats)) {
+      throw new Error(`Section ${idx + 1} is missing a name or seats.`);
+    }
+    if (sec.type !== 'counter' && sec.type !== 'table') {
+      throw new Error(`Section "${sec.name}" has an unknown type.`);
+    }
+    const name = sec.name;
+    return {
+      id: typeof sec.id === 'string' ? sec.id : `section-${idx + 1}`,
+      name,
+      type: sec.type,
+      orientation: sec.orientation === 'vertical' ? 'vertical' : 'horizontal',
+      offsetX: isNumber(sec.offsetX) ? sec.offsetX : 100,
+      offsetY: isNumber(sec.offsetY) ? sec.offsetY : 100,
+      floorNumber: isNumber(sec.floorNumber) ? sec.floorNumber : 1,
+      seats: sec.seats.map((seat: RawSeat | null, seatIdx: number) => {
+        if (!seat || !isNumber(seat.position_x) || !isNumber(seat.position_y)) {
+          throw new Error(`Seat ${seatIdx + 1} in "${name}" has no position.`);
+        }
+        return {
+          label: typeof seat.label === 'string' ? seat.label : `Seat #${seatIdx + 1}`,
+          position_x: seat.position_x,
+          position_y: seat.position_y,
+          capacity: isNumber(seat.capacity) && seat.capacity > 0 ? seat.capacity : 1,
+        };
+      }),
+    };
+  });
+
+  return { name: typeof data.name === 'string' ? data.name : 'Imported Layout', sections };
+}
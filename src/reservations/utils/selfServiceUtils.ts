@@ -0,0 +1,75 @@
+// src/reservations/utils/selfServiceUtils.ts
+
+import { Reservation } from '../types';
+
+/** Stored under restaurant.admin_settings.reservation_self_service */
+export interface SelfServiceSettings {
+  allow_guest_changes: boolean;
+  /** Guests can reschedule or change party size up to this many hours before */
+  modify_cutoff_hours: number;
+  /** Guests can cancel up to this many hours before */
+  cancel_cutoff_hours: number;
+}
+
+export const DEFAULT_SELF_SERVICE_SETTINGS: SelfServiceSettings = {
+  allow_guest_changes: true,
+  modify_cutoff_hours: 2,
+  cancel_cutoff_hours: 1,
+};
+
+/** Statuses a guest can still change or cancel */
+const OPEN_STATUSES = ['booked', 'reserved'];
+
+/**
+ * Fills in defaults for anything missing from admin_settings
+ */
+export function getSelfServiceSettings(adminSettings?: Record<string, unknown> | null): SelfServiceSettings {
+  const saved = (adminSettings?.reservation_self_service || {}) as Partial<SelfServiceSettings>;
+  return {
+    allow_guest_changes: saved.allow_guest_changes ?? DEFAULT_SELF_SERVICE_SETTINGS.allow_guest_changes,
+    modify_cutoff_hours: Number(saved.modify_cutoff_hours ?? DEFAULT_SELF_SERVICE_SETTINGS.modify_cutoff_hours),
+    cancel_cutoff_hours: Number(saved.cancel_cutoff_hours ?? DEFAULT_SELF_SERVICE_SETTINGS.cancel_cutoff_hours),
+  };
+}
+
+/** Hours from now until the reservation starts (negative once it has started) */
+export function hoursUntilStart(reservation: Reservation, now: Date = new Date()): number {
+  if (!reservation.start_time) return 0;
+  return (new Date(reservation.start_time).getTime() - now.getTime()) / (1000 * 60 * 60);
+}
+
+function isOpen(reservation: Reservation): boolean {
+  return OPEN_STATUSES.includes(reservation.status || 'booked');
+}
+
+export function canGuestModify(
+  reservation: Reservation,
+  settings: SelfServiceSettings,
+  now: Date = new Date()
+): boolean {
+  return (
+    settings.allow_guest_changes &&
+    isOpen(reservation) &&
+    hoursUntilStart(reservation, now) >= settings.modify_cutoff_hours
+  );
+}
+
+export function canGuestCancel(
+  reservation: Reservation,
+  settings: SelfServiceSettings,
+  now: Date = new Date()
+): boolean {
+  return (
+    settings.allow_guest_changes &&
+    isOpen(reservation) &&
+    hoursUntilStart(reservation, now) >= settings.cancel_cutoff_hours
+  );
+}
+
+/**
+ * Link to the guest manage page, prefilled with the confirmation code
+ */
+export function buildManageReservationPath(confirmationCode?: string | null): string {
+  const path = '/reservations/manage';
+  return confirmationCode ? `${path}?code=${encodeURIComponent(confirmationCode)}` : path;
+}
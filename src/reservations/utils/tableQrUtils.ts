@@ -0,0 +1,130 @@
+// src/reservations/utils/tableQrUtils.ts
+
+import QRCode from 'qrcode';
+import { buildTableOrderPath, formatTableLabel } from '../../ordering/utils/dineInUtils';
+import type { SignedTable, TableContext } from '../../ordering/types/dineIn';
+
+/** The parts of a layout section the QR sheet needs */
+export interface QrLayoutSection {
+  dbId?: number;
+  name: string;
+  floorNumber: number;
+  seats: { id?: number; label?: string }[];
+}
+
+export type TableQrScope = 'table' | 'seat';
+
+/** A table or seat that needs a code, before the server has signed it */
+export interface TableQrTarget {
+  key: string;
+  floorNumber: number;
+  table: TableContext;
+}
+
+export interface TableQrCode {
+  key: string;
+  label: string;
+  floorNumber: number;
+  url: string;
+  image: string; // PNG data URL, rendered in the browser
+}
+
+/**
+ * One target per table (section) or per seat. Sections and seats only get
+ * database ids once the layout is saved, so unsaved ones are skipped.
+ */
+export function buildTableQrTargets(sections: QrLayoutSection[], scope: TableQrScope): TableQrTarget[] {
+  return sections.flatMap((section) => {
+    const sectionId = section.dbId;
+    if (!sectionId) return [];
+
+    if (scope === 'table') {
+      return [{
+        key: `section-${sectionId}`,
+        floorNumber: section.floorNumber,
+        table: { section_id: sectionId, label: section.name },
+      }];
+    }
+
+    return section.seats.flatMap((seat, index) => {
+      if (!seat.id) return [];
+      return [{
+        key: `seat-${seat.id}`,
+        floorNumber: section.floorNumber,
+        table: {
+          section_id: sectionId,
+          seat_id: seat.id,
+          label: formatTableLabel(section.name, seat.label || `Seat ${index + 1}`),
+        },
+      }];
+    });
+  });
+}
+
+/**
+ * Pairs each target with the token the server signed for it and renders the
+ * code. Targets the server didn't return a token for are left out.
+ */
+export async function buildTableQrCodes(
+  targets: TableQrTarget[],
+  signed: SignedTable[],
+  origin: string
+): Promise<TableQrCode[]> {
+  const codes = targets.map(async (target) => {
+    const match = signed.find((table) =>
+      table.section_id === target.table.section_id &&
+      (table.seat_id ?? null) === (target.table.seat_id ?? null)
+    );
+    if (!match) return null;
+    const url = `${origin}${buildTableOrderPath(match.token)}`;
+    return {
+      key: target.key,
+      label: target.table.label,
+      floorNumber: target.floorNumber,
+      url,
+      image: await QRCode.toDataURL(url, { width: 320, margin: 2 }),
+    };
+  });
+  return (await Promise.all(codes)).filter((code): code is TableQrCode => code !== null);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Standalone page of table cards, opened in a new window for printing
+ */
+export function buildQrPrintHtml(codes: TableQrCode[], title: string): string {
+  const cards = codes
+    .map((code) => `
+      <div class="card">
+        <img src="${escapeHtml(code.image)}" alt="" />
+        <div class="label">${escapeHtml(code.label)}</div>
+        <div class="hint">Scan to order from your table</div>
+      </div>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 24px; }
+    .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 16px; }
+    .card { border: 1px dashed #999; border-radius: 8px; padding: 16px; text-align: center; page-break-inside: avoid; }
+    .card img { width: 100%; max-width: 200px; }
+    .label { font-size: 18px; font-weight: 600; margin-top: 8px; }
+    .hint { font-size: 12px; color: #555; margin-top: 4px; }
+  </style>
+</head>
+<body>
+  <div class="grid">${cards}</div>
+</body>
+</html>`;
+}
@@ -0,0 +1,217 @@
+// src/reservations/utils/turnTimeAnalytics.ts
+// Pure helpers for the dashboard Analytics tab. Inputs are the raw
+// seat_allocations / reservations rows collected over a date range.
+
+export interface AnalyticsAllocation {
+  seat_id: number;
+  occupant_type: 'reservation' | 'waitlist' | null;
+  occupant_id: number | null;
+  occupant_party_size?: number;
+  occupant_status?: string;
+  start_time?: string;
+  end_time?: string;
+  released_at?: string | null;
+}
+
+export interface AnalyticsReservation {
+  id: number;
+  start_time?: string;
+  party_size?: number;
+  status?: string;
+}
+
+export interface AnalyticsSection {
+  id: number;
+  name: string;
+  seats: { id: number; label?: string }[];
+}
+
+/** One party's stay: every seat allocation sharing an occupant and start time */
+export interface Turn {
+  partySize: number;
+  seatIds: number[];
+  start: Date;
+  /** When the seats were released, or null if still seated / not finished */
+  finishedAt: Date | null;
+  status?: string;
+}
+
+export interface TurnTimeRow {
+  label: string;
+  turns: number;
+  avgMinutes: number;
+}
+
+export interface NoShowRow {
+  day: string;
+  booked: number;
+  noShows: number;
+  rate: number;
+}
+
+export interface UtilizationRow {
+  section: string;
+  seat: string;
+  /** Fraction of each hour the seat was occupied, averaged over the range (0–1) */
+  byHour: number[];
+}
+
+export interface CoversRow {
+  slot: string;
+  reservations: number;
+  covers: number;
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const PARTY_SIZE_BUCKETS: { label: string; min: number; max: number }[] = [
+  { label: '1', min: 1, max: 1 },
+  { label: '2', min: 2, max: 2 },
+  { label: '3–4', min: 3, max: 4 },
+  { label: '5–6', min: 5, max: 6 },
+  { label: '7+', min: 7, max: Infinity },
+];
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function turnMinutes(turn: Turn): number | null {
+  if (!turn.finishedAt) return null;
+  const minutes = (turn.finishedAt.getTime() - turn.start.getTime()) / 60000;
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Groups per-seat allocations into party turns. Only finished turns with a
+ * release time count toward turn-time averages.
+ */
+export function buildTurns(allocations: AnalyticsAllocation[]): Turn[] {
+  const turns = new Map<string, Turn>();
+  for (const alloc of allocations) {
+    if (!alloc.occupant_id || !alloc.start_time) continue;
+    const key = `${alloc.occupant_type}-${alloc.occupant_id}-${alloc.start_time}`;
+    const existing = turns.get(key);
+    if (existing) {
+      existing.seatIds.push(alloc.seat_id);
+      continue;
+    }
+    const finished = alloc.occupant_status === 'finished' && alloc.released_at;
+    turns.set(key, {
+      partySize: alloc.occupant_party_size || 1,
+      seatIds: [alloc.seat_id],
+      start: new Date(alloc.start_time),
+      finishedAt: finished ? new Date(alloc.released_at as string) : null,
+      status: alloc.occupant_status,
+    });
+  }
+  return Array.from(turns.values());
+}
+
+export function turnTimeBySection(turns: Turn[], sections: AnalyticsSection[]): TurnTimeRow[] {
+  const sectionBySeat = new Map<number, string>();
+  sections.forEach((sec) => sec.seats.forEach((seat) => sectionBySeat.set(seat.id, sec.name)));
+
+  const minutesBySection = new Map<string, number[]>();
+  for (const turn of turns) {
+    const minutes = turnMinutes(turn);
+    if (minutes === null) continue;
+    // A party split across sections counts once in each
+    const names = new Set(turn.seatIds.map((id) => sectionBySeat.get(id) || 'Unassigned'));
+    names.forEach((name) => {
+      minutesBySection.set(name, [...(minutesBySection.get(name) || []), minutes]);
+    });
+  }
+
+  return Array.from(minutesBySection.entries())
+    .map(([label, values]) => ({ label, turns: values.length, avgMinutes: average(values) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function turnTimeByPartySize(turns: Turn[]): TurnTimeRow[] {
+  return PARTY_SIZE_BUCKETS.map((bucket) => {
+    const values = turns
+      .filter((t) => t.partySize >= bucket.min && t.partySize <= bucket.max)
+      .map(turnMinutes)
+      .filter((m): m is number => m !== null);
+    return { label: bucket.label, turns: values.length, avgMinutes: average(values) };
+  });
+}
+
+/**
+ * No-show rate by weekday. Canceled bookings are left out of the denominator.
+ */
+export function noShowRateByDay(reservations: AnalyticsReservation[]): NoShowRow[] {
+  const rows = DAY_NAMES.map((day) => ({ day, booked: 0, noShows: 0, rate: 0 }));
+  for (const res of reservations) {
+    if (!res.start_time || res.status === 'canceled') continue;
+    const row = rows[new Date(res.start_time).getDay()];
+    row.booked += 1;
+    if (res.status === 'no_show') row.noShows += 1;
+  }
+  rows.forEach((row) => {
+    row.rate = row.booked ? row.noShows / row.booked : 0;
+  });
+  return rows;
+}
+
+/**
+ * Per-seat occupancy for each hour in [startHour, endHour), averaged over dayCount days
+ */
+export function seatUtilization(
+  allocations: AnalyticsAllocation[],
+  sections: AnalyticsSection[],
+  startHour: number,
+  endHour: number,
+  dayCount: number,
+  defaultLengthMinutes: number
+): UtilizationRow[] {
+  const hourCount = Math.max(0, endHour - startHour);
+  const minutesBySeat = new Map<number, number[]>();
+
+  for (const alloc of allocations) {
+    if (!alloc.start_time || alloc.occupant_status === 'no_show' || alloc.occupant_status === 'canceled') continue;
+    const start = new Date(alloc.start_time);
+    const endStr = alloc.released_at || alloc.end_time;
+    const end = endStr ? new Date(endStr) : new Date(start.getTime() + defaultLengthMinutes * 60000);
+
+    const buckets = minutesBySeat.get(alloc.seat_id) || new Array(hourCount).fill(0);
+    for (let h = 0; h < hourCount; h++) {
+      const bucketStart = new Date(start);
+      bucketStart.setHours(startHour + h, 0, 0, 0);
+      const bucketEnd = new Date(bucketStart.getTime() + 60 * 60000);
+      const overlap = Math.min(end.getTime(), bucketEnd.getTime()) - Math.max(start.getTime(), bucketStart.getTime());
+      if (overlap > 0) buckets[h] += overlap / 60000;
+    }
+    minutesBySeat.set(alloc.seat_id, buckets);
+  }
+
+  const days = Math.max(1, dayCount);
+  return sections.flatMap((sec) =>
+    sec.seats.map((seat) => ({
+      section: sec.name,
+      seat: seat.label || `Seat ${seat.id}`,
+      byHour: (minutesBySeat.get(seat.id) || new Array(hourCount).fill(0)).map((m) =>
+        Math.min(1, m / (60 * days))
+      ),
+    }))
+  );
+}
+
+/**
+ * Reservations and covers (guests) per start-time slot, skipping canceled and no-shows
+ */
+export function coversBySlot(reservations: AnalyticsReservation[], slotMinutes = 30): CoversRow[] {
+  const bySlot = new Map<string, CoversRow>();
+  for (const res of reservations) {
+    if (!res.start_time || res.status === 'canceled' || res.status === 'no_show') continue;
+    const start = new Date(res.start_time);
+    const minutes = Math.floor((start.getHours() * 60 + start.getMinutes()) / slotMinutes) * slotMinutes;
+    const slot = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    const row = bySlot.get(slot) || { slot, reservations: 0, covers: 0 };
+    row.reservations += 1;
+    row.covers += res.party_size || 1;
+    bySlot.set(slot, row);
+  }
+  return Array.from(bySlot.values()).sort((a, b) => a.slot.localeCompare(b.slot));
+}
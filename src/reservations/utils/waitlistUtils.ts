@@ -0,0 +1,108 @@
+// src/reservations/utils/waitlistUtils.ts
+
+import { WaitlistEntry } from '../types';
+
+/** The parts of a seat allocation the wait estimate needs */
+export interface AllocationTiming {
+  seat_id: number;
+  start_time?: string;
+  end_time?: string;
+  released_at?: string | null;
+}
+
+export interface WaitEstimateInput {
+  partySize: number;
+  /** Total seats in the active layout */
+  seatCount: number;
+  allocations: AllocationTiming[];
+  /** Seats needed by waiting parties ahead of this one */
+  seatsAhead: number;
+  defaultLengthMinutes: number;
+  now?: Date;
+}
+
+/** Quotes are rounded up to this many minutes */
+const QUOTE_STEP_MINUTES = 5;
+
+function roundUpQuote(minutes: number): number {
+  return Math.max(0, Math.ceil(minutes / QUOTE_STEP_MINUTES) * QUOTE_STEP_MINUTES);
+}
+
+/**
+ * Estimates minutes until enough seats free up for a party. Occupied seats
+ * free up at their allocation's end_time, or start_time plus the default
+ * reservation length when no end is set. Parties already waiting are served first.
+ */
+export function estimateWaitMinutes({
+  partySize,
+  seatCount,
+  allocations,
+  seatsAhead,
+  defaultLengthMinutes,
+  now = new Date(),
+}: WaitEstimateInput): number {
+  const nowMs = now.getTime();
+  const lengthMs = defaultLengthMinutes * 60 * 1000;
+
+  // One allocation per seat; keep the latest release time for each occupied seat
+  const releaseBySeat = new Map<number, number>();
+  for (const alloc of allocations) {
+    if (alloc.released_at) continue;
+    const start = alloc.start_time ? new Date(alloc.start_time).getTime() : nowMs;
+    if (start > nowMs) continue;
+    const end = alloc.end_time ? new Date(alloc.end_time).getTime() : start + lengthMs;
+    if (end <= nowMs && alloc.end_time) continue;
+    // Seats past their expected end are treated as freeing up any minute now
+    const release = Math.max(end, nowMs);
+    releaseBySeat.set(alloc.seat_id, Math.max(releaseBySeat.get(alloc.seat_id) || 0, release));
+  }
+
+  const needed = partySize + seatsAhead;
+  let freeSeats = seatCount - releaseBySeat.size;
+  if (freeSeats >= needed) return 0;
+
+  const releases = Array.from(releaseBySeat.values()).sort((a, b) => a - b);
+  for (const release of releases) {
+    freeSeats += 1;
+    if (freeSeats >= needed) {
+      return roundUpQuote((release - nowMs) / 60000);
+    }
+  }
+
+  // More demand than the room holds; assume another full turn after the last table clears
+  const last = releases.length ? releases[releases.length - 1] : nowMs;
+  return roundUpQuote((last + lengthMs - nowMs) / 60000);
+}
+
+/**
+ * Waiting parties in queue order: explicit position first, then check-in time
+ */
+export function sortWaitingEntries<T extends WaitlistEntry>(entries: T[]): T[] {
+  return entries
+    .filter((entry) => entry.status === 'waiting')
+    .sort((a, b) => {
+      const posA = a.position ?? Number.MAX_SAFE_INTEGER;
+      const posB = b.position ?? Number.MAX_SAFE_INTEGER;
+      if (posA !== posB) return posA - posB;
+      return new Date(a.check_in_time || 0).getTime() - new Date(b.check_in_time || 0).getTime();
+    });
+}
+
+/**
+ * Returns a copy of the list with one item moved up (-1) or down (+1)
+ */
+export function moveInQueue<T>(list: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/**
+ * Shareable link to the guest's live waitlist status page
+ */
+export function buildWaitlistStatusPath(entryId: number | string, token?: string | null): string {
+  const path = `/reservations/waitlist/${entryId}`;
+  return token ? `${path}?token=${encodeURIComponent(token)}` : path;
+}
@@ -266,12 +266,20 @@ export const api = {
    * @param data Request body
    * @param options Additional options like silent mode
    */
-  async post<T>(endpoint: string, data?: any, options?: { silent?: boolean }): Promise<T> {
+  async post<T>(
+    endpoint: string,
+    data?: any,
+    options?: { silent?: boolean; headers?: Record<string, string> }
+  ): Promise<T> {
     const config: AxiosRequestConfig = {};
     
+    if (options?.headers) {
+      config.headers = { ...options.headers };
+    }
+
     // Add silent flag to prevent loading indicators
     if (options?.silent) {
-      config.headers = { 'X-Silent-Request': 'true' };
+      config.headers = { ...config.headers, 'X-Silent-Request': 'true' };
     }
     
     const response = await apiClient.post<T>(endpoint, data, config);
@@ -0,0 +1,12 @@
+// src/shared/api/endpoints/delivery.ts
+
+import { api } from '../apiClient';
+import type { DeliveryAddress, DeliveryQuote } from '../../../ordering/types/delivery';
+
+/**
+ * The zone, fee and minimum for a delivery address, worked out by the server
+ * from the restaurant's delivery settings
+ */
+export const quoteDelivery = async (address: DeliveryAddress): Promise<DeliveryQuote> => {
+  return api.post<DeliveryQuote>('/delivery/quote', { address });
+};
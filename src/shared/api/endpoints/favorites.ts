@@ -0,0 +1,25 @@
+// src/shared/api/endpoints/favorites.ts
+
+import { api } from '../apiClient';
+import type { Favorite, FavoritePayload } from '../../../ordering/types/favorite';
+
+/**
+ * Fetch the logged-in customer's favorites and saved builds
+ */
+export const getFavorites = async (): Promise<Favorite[]> => {
+  return api.get<Favorite[]>('/favorites');
+};
+
+/**
+ * Save a favorite item or a named build
+ */
+export const createFavorite = async (data: FavoritePayload): Promise<Favorite> => {
+  return api.post<Favorite>('/favorites', { favorite: data });
+};
+
+/**
+ * Remove a favorite
+ */
+export const deleteFavorite = async (id: number): Promise<void> => {
+  return api.delete(`/favorites/${id}`);
+};
@@ -0,0 +1,51 @@
+// src/shared/api/endpoints/houseAccounts.ts
+import { apiClient } from '../apiClient';
+import {
+  HouseAccountStaffMember,
+  HouseAccountTransaction,
+} from '../../../ordering/types/houseAccount';
+
+// The staff endpoints answer with either a bare array or { <key>: [...] }
+function unwrapList<T>(data: unknown, key: string): T[] {
+  if (Array.isArray(data)) return data as T[];
+  const nested = (data as Record<string, unknown> | null)?.[key];
+  return Array.isArray(nested) ? (nested as T[]) : [];
+}
+
+export const houseAccountsApi = {
+  /**
+   * The staff record linked to a user, or null if they aren't staff
+   */
+  getStaffMemberForUser: async (userId: number): Promise<HouseAccountStaffMember | null> => {
+    const response = await apiClient.get('/staff_members', { params: { user_id: userId } });
+    return unwrapList<HouseAccountStaffMember>(response.data, 'staff_members')[0] || null;
+  },
+
+  /**
+   * Every house account transaction for a staff member
+   */
+  getTransactions: async (staffMemberId: number): Promise<HouseAccountTransaction[]> => {
+    const response = await apiClient.get(`/staff_members/${staffMemberId}/transactions`);
+    return unwrapList<HouseAccountTransaction>(response.data, 'transactions');
+  },
+
+  /**
+   * Post a payment that clears `amount` of the balance, e.g. a payroll deduction.
+   * The server rejects a second payment with the same reference for a staff
+   * member, so a pay period can't be settled twice.
+   */
+  recordSettlement: async (
+    staffMemberId: number,
+    params: { amount: number; reference: string; description?: string }
+  ): Promise<HouseAccountTransaction> => {
+    const response = await apiClient.post(`/staff_members/${staffMemberId}/transactions`, {
+      transaction: {
+        transaction_type: 'payment',
+        amount: -Math.abs(params.amount),
+        reference: params.reference,
+        description: params.description || 'Payroll deduction',
+      },
+    });
+    return response.data;
+  },
+};
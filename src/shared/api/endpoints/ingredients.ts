@@ -0,0 +1,73 @@
+// src/shared/api/endpoints/ingredients.ts
+import { apiClient } from '../apiClient';
+import {
+  Ingredient,
+  IngredientPayload,
+  MenuItemRecipe,
+} from '../../../ordering/types/inventory';
+import { UpdateStockParams } from '../../../ordering/types/menu';
+
+export const ingredientsApi = {
+  /**
+   * Get the ingredient catalog, optionally with stock for one location
+   */
+  getAll: async (params?: { location_id?: number | null }): Promise<Ingredient[]> => {
+    const response = await apiClient.get('/ingredients', {
+      params: params?.location_id ? { location_id: params.location_id } : undefined
+    });
+    return response.data;
+  },
+
+  /**
+   * Create a new ingredient
+   */
+  create: async (ingredient: IngredientPayload): Promise<Ingredient> => {
+    const response = await apiClient.post('/ingredients', { ingredient });
+    return response.data;
+  },
+
+  /**
+   * Update an ingredient's name, unit, threshold or cost
+   */
+  update: async (id: number, ingredient: Partial<IngredientPayload>): Promise<Ingredient> => {
+    const response = await apiClient.patch(`/ingredients/${id}`, { ingredient });
+    return response.data;
+  },
+
+  /**
+   * Delete an ingredient (the API refuses while a recipe still uses it)
+   */
+  delete: async (id: number): Promise<void> => {
+    await apiClient.delete(`/ingredients/${id}`);
+  },
+
+  /**
+   * Set an ingredient's stock quantity, recording the reason in its audit trail
+   */
+  updateStock: async (
+    id: number,
+    params: UpdateStockParams & { location_id?: number | null }
+  ): Promise<Ingredient> => {
+    const response = await apiClient.post(`/ingredients/${id}/update_stock`, params);
+    return response.data;
+  },
+
+  /**
+   * Get every menu item's recipe
+   */
+  getRecipes: async (): Promise<MenuItemRecipe[]> => {
+    const response = await apiClient.get('/recipes');
+    return response.data;
+  },
+
+  /**
+   * Replace a menu item's recipe and option deltas
+   */
+  saveRecipe: async (
+    menuItemId: string | number,
+    recipe: Pick<MenuItemRecipe, 'lines' | 'option_deltas'>
+  ): Promise<MenuItemRecipe> => {
+    const response = await apiClient.put(`/menu_items/${menuItemId}/recipe`, { recipe });
+    return response.data;
+  },
+};
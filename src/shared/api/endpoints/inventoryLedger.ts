@@ -0,0 +1,14 @@
+// src/shared/api/endpoints/inventoryLedger.ts
+import { apiClient } from '../apiClient';
+import { InventoryLedgerEntry } from '../../../ordering/types/inventory';
+
+export const inventoryLedgerApi = {
+  /**
+   * Stock movements for all menu items and merchandise variants between two
+   * dates (YYYY-MM-DD, inclusive), newest first
+   */
+  getEntries: async (params: { start_date: string; end_date: string }): Promise<InventoryLedgerEntry[]> => {
+    const response = await apiClient.get('/inventory/ledger', { params });
+    return response.data;
+  },
+};
@@ -1,6 +1,7 @@
 // src/shared/api/endpoints/layouts.ts
 
 import { api } from '../apiClient';
+import type { SignedTable, TableContext } from '../../../ordering/types/dineIn';
 
 /**
  * Fetch a specific layout by ID
@@ -43,3 +44,19 @@ export const deleteLayout = async (id: number) => {
 export const activateLayout = async (id: number) => {
   return api.post(`/layouts/${id}/activate`);
 };
+
+/**
+ * Fetch saved version snapshots for a layout, newest first. The server
+ * records one as part of every layout create and update.
+ */
+export const fetchLayoutVersions = async (id: number) => {
+  return api.get(`/layouts/${id}/versions`);
+};
+
+/**
+ * Sign QR tokens for tables or seats in a saved layout. The server checks
+ * each section and seat belongs to the layout.
+ */
+export const issueTableTokens = async (id: number, tables: TableContext[]): Promise<SignedTable[]> => {
+  return api.post<SignedTable[]>(`/layouts/${id}/table_tokens`, { tables });
+};
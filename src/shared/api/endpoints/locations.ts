@@ -1,7 +1,13 @@
 // src/shared/api/endpoints/locations.ts
 
 import { apiClient } from '../apiClient';
-import { Location, LocationPayload } from '../../types/Location';
+import {
+  Location,
+  LocationPayload,
+  LocationMenuItemOverride,
+  LocationMenuItemOverridePayload,
+  LocationOperatingHour
+} from '../../types/Location';
 
 const BASE_URL = '/locations';
 
@@ -64,5 +70,64 @@ export const locationsApi = {
   setDefaultLocation: async (id: number): Promise<Location> => {
     const response = await apiClient.put(`${BASE_URL}/${id}/default`);
     return response.data;
+  },
+
+  /**
+   * Get the menu item overrides for a location
+   * @param id Location ID
+   * @returns Promise with overrides array
+   */
+  getMenuItemOverrides: async (id: number): Promise<LocationMenuItemOverride[]> => {
+    const response = await apiClient.get(`${BASE_URL}/${id}/menu_item_overrides`);
+    return response.data;
+  },
+
+  /**
+   * Create or update a location's override for one menu item
+   * @param id Location ID
+   * @param menuItemId Menu item ID
+   * @param override Override data
+   * @returns Promise with saved override
+   */
+  saveMenuItemOverride: async (
+    id: number,
+    menuItemId: string,
+    override: LocationMenuItemOverridePayload
+  ): Promise<LocationMenuItemOverride> => {
+    const response = await apiClient.put(`${BASE_URL}/${id}/menu_item_overrides/${menuItemId}`, {
+      menu_item_override: override
+    });
+    return response.data;
+  },
+
+  /**
+   * Remove a location's override so the item uses restaurant-wide settings again
+   * @param id Location ID
+   * @param menuItemId Menu item ID
+   * @returns Promise with no content
+   */
+  deleteMenuItemOverride: async (id: number, menuItemId: string): Promise<void> => {
+    await apiClient.delete(`${BASE_URL}/${id}/menu_item_overrides/${menuItemId}`);
+  },
+
+  /**
+   * Get the operating hours set for a location
+   * @param id Location ID
+   * @returns Promise with hours array (days without a row use the restaurant's hours)
+   */
+  getOperatingHours: async (id: number): Promise<LocationOperatingHour[]> => {
+    const response = await apiClient.get(`${BASE_URL}/${id}/operating_hours`);
+    return response.data;
+  },
+
+  /**
+   * Replace the operating hours for a location
+   * @param id Location ID
+   * @param hours One row per day that differs from the restaurant's hours
+   * @returns Promise with saved hours array
+   */
+  updateOperatingHours: async (id: number, hours: LocationOperatingHour[]): Promise<LocationOperatingHour[]> => {
+    const response = await apiClient.put(`${BASE_URL}/${id}/operating_hours`, { operating_hours: hours });
+    return response.data;
   }
 };
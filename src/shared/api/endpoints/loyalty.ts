@@ -0,0 +1,61 @@
+// src/shared/api/endpoints/loyalty.ts
+
+import { api } from '../apiClient';
+import type {
+  LoyaltyAccount,
+  LoyaltyAdjustmentData,
+  LoyaltySettings,
+  LoyaltyTransaction,
+} from '../../../ordering/types/loyalty';
+
+/**
+ * Fetch the restaurant's loyalty program settings
+ */
+export const getLoyaltySettings = async (): Promise<LoyaltySettings> => {
+  return api.get<LoyaltySettings>('/loyalty/settings');
+};
+
+/**
+ * Update the loyalty program settings (admin only)
+ */
+export const updateLoyaltySettings = async (
+  data: Partial<LoyaltySettings>
+): Promise<LoyaltySettings> => {
+  return api.patch<LoyaltySettings>('/loyalty/settings', { loyalty_settings: data });
+};
+
+/**
+ * Fetch the logged-in user's points balance and recent activity
+ */
+export const getMyLoyaltyAccount = async (): Promise<LoyaltyAccount> => {
+  return api.get<LoyaltyAccount>('/loyalty/account');
+};
+
+/**
+ * Fetch a user's points balance (admin only)
+ */
+export const getUserLoyaltyAccount = async (userId: number): Promise<LoyaltyAccount> => {
+  return api.get<LoyaltyAccount>(`/admin/users/${userId}/loyalty`);
+};
+
+/**
+ * Fetch the full points ledger for a user (admin only)
+ */
+export const getUserLoyaltyTransactions = async (
+  userId: number
+): Promise<LoyaltyTransaction[]> => {
+  return api.get<LoyaltyTransaction[]>(`/admin/users/${userId}/loyalty/transactions`);
+};
+
+/**
+ * Manually add or remove points for a user (admin only)
+ * Use a negative number of points to deduct.
+ */
+export const createLoyaltyAdjustment = async (
+  userId: number,
+  data: LoyaltyAdjustmentData
+): Promise<LoyaltyTransaction> => {
+  return api.post<LoyaltyTransaction>(`/admin/users/${userId}/loyalty/adjustments`, {
+    adjustment: data,
+  });
+};
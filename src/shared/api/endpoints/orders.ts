@@ -16,6 +16,14 @@ export const fetchOrder = async (id: number) => {
   return api.get(`/orders/${id}`);
 };
 
+/**
+ * Fetch the public tracking view of an order
+ * Guests pass the signed token from their confirmation link
+ */
+export const fetchOrderTracking = async (id: string, token?: string | null) => {
+  return api.get(`/orders/${id}/track`, token ? { token } : undefined);
+};
+
 /**
  * Create a new order
  */
@@ -46,7 +54,15 @@ export const fetchPromoCodes = async () => {
 
 /**
  * Validate a promo code
+ * Pass the customer's email so the server can report their previous uses
+ */
+export const validatePromoCode = async (code: string, email?: string) => {
+  return api.post('/promo_codes/validate', { code, email });
+};
+
+/**
+ * Fetch usage stats and the orders that used a promo code
  */
-export const validatePromoCode = async (code: string) => {
-  return api.post('/promo_codes/validate', { code });
+export const getPromoCodeUsage = async (code: string) => {
+  return api.get(`/promo_codes/${encodeURIComponent(code)}/usage`);
 };
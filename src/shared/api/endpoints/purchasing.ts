@@ -0,0 +1,101 @@
+// src/shared/api/endpoints/purchasing.ts
+import { apiClient } from '../apiClient';
+import {
+  PurchaseOrder,
+  PurchaseOrderPayload,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderLine,
+  SalesVelocity,
+  Supplier,
+  SupplierPayload,
+} from '../../../ordering/types/purchasing';
+
+export const suppliersApi = {
+  /**
+   * Get all suppliers
+   */
+  getAll: async (): Promise<Supplier[]> => {
+    const response = await apiClient.get('/suppliers');
+    return response.data;
+  },
+
+  /**
+   * Create a new supplier
+   */
+  create: async (supplier: SupplierPayload): Promise<Supplier> => {
+    const response = await apiClient.post('/suppliers', { supplier });
+    return response.data;
+  },
+
+  /**
+   * Update a supplier's contact details
+   */
+  update: async (id: number, supplier: Partial<SupplierPayload>): Promise<Supplier> => {
+    const response = await apiClient.patch(`/suppliers/${id}`, { supplier });
+    return response.data;
+  },
+
+  /**
+   * Delete a supplier (the API refuses while open POs reference it)
+   */
+  delete: async (id: number): Promise<void> => {
+    await apiClient.delete(`/suppliers/${id}`);
+  },
+};
+
+export const purchaseOrdersApi = {
+  /**
+   * Get purchase orders, optionally filtered by status
+   */
+  getAll: async (params?: { status?: PurchaseOrderStatus }): Promise<PurchaseOrder[]> => {
+    const response = await apiClient.get('/purchase_orders', { params });
+    return response.data;
+  },
+
+  /**
+   * Create a draft purchase order
+   */
+  create: async (purchaseOrder: PurchaseOrderPayload): Promise<PurchaseOrder> => {
+    const response = await apiClient.post('/purchase_orders', { purchase_order: purchaseOrder });
+    return response.data;
+  },
+
+  /**
+   * Mark a draft as sent to the supplier
+   */
+  submit: async (id: number): Promise<PurchaseOrder> => {
+    const response = await apiClient.post(`/purchase_orders/${id}/submit`);
+    return response.data;
+  },
+
+  /**
+   * Cancel a PO that hasn't been fully received
+   */
+  cancel: async (id: number): Promise<PurchaseOrder> => {
+    const response = await apiClient.post(`/purchase_orders/${id}/cancel`);
+    return response.data;
+  },
+
+  /**
+   * Receive some or all of a PO's lines. Stock and stock audits are posted
+   * server-side; the PO comes back partially_received or received.
+   * The server posts each Idempotency-Key once, returning the same PO for a
+   * repeat, and rejects quantities beyond what's still outstanding.
+   */
+  receive: async (id: number, lines: ReceivePurchaseOrderLine[], idempotencyKey: string): Promise<PurchaseOrder> => {
+    const response = await apiClient.post(
+      `/purchase_orders/${id}/receive`,
+      { lines },
+      { headers: { 'Idempotency-Key': idempotencyKey } }
+    );
+    return response.data;
+  },
+
+  /**
+   * Units sold or used per stocked item over the last `days` days
+   */
+  getSalesVelocity: async (days: number): Promise<SalesVelocity[]> => {
+    const response = await apiClient.get('/inventory/sales_velocity', { params: { days } });
+    return response.data;
+  },
+};
@@ -29,12 +29,14 @@ export interface PaymentMethodReport {
   count: number;
   amount: number;
   percentage: number;
+  tip_amount?: number; // Portion of amount that was tips
 }
 
 export interface PaymentMethodReportResponse {
   payment_methods: PaymentMethodReport[];
   total_amount: number;
   total_count: number;
+  total_tips?: number;
 }
 
 // VIP Customer Report Types
@@ -1,6 +1,7 @@
 // src/shared/api/endpoints/reservations.ts
 
 import { api } from '../apiClient';
+import type { GuestReservationChanges, WaitlistEntryPayload } from '../../../reservations/types';
 
 /**
  * Fetch reservations for a specific date
@@ -25,6 +26,78 @@ export const updateReservation = async (id: number, data: any) => {
   return api.patch(`/reservations/${id}`, data);
 };
 
+/**
+ * Look up a reservation by confirmation code plus the phone or email on the booking
+ */
+export const lookupReservation = async (confirmationCode: string, contact: string) => {
+  return api.post('/reservations/lookup', { confirmation_code: confirmationCode, contact });
+};
+
+/**
+ * Reschedule or resize a reservation as the guest, authorized by confirmation
+ * code and contact. The server rejects changes past the modify cutoff.
+ */
+export const modifyGuestReservation = async (
+  confirmationCode: string,
+  contact: string,
+  changes: GuestReservationChanges
+) => {
+  return api.patch('/reservations/guest', {
+    confirmation_code: confirmationCode,
+    contact,
+    reservation: changes
+  });
+};
+
+/**
+ * Cancel a reservation as the guest. The server rejects it past the cancel cutoff.
+ */
+export const cancelGuestReservation = async (confirmationCode: string, contact: string) => {
+  return api.post('/reservations/guest/cancel', { confirmation_code: confirmationCode, contact });
+};
+
+/**
+ * Create the Stripe intent for a new booking's deposit, authorized by
+ * confirmation code and contact. The server sets the amount; for a no-show
+ * guarantee it returns a SetupIntent that saves the card instead.
+ */
+export const createGuestDepositIntent = async (confirmationCode: string, contact: string) => {
+  return api.post('/reservations/guest/deposit_intent', { confirmation_code: confirmationCode, contact });
+};
+
+/**
+ * Confirm a booking once its deposit intent has gone through. The server
+ * checks the intent against the deposit it priced.
+ */
+export const confirmGuestDeposit = async (confirmationCode: string, contact: string, intentId: string) => {
+  return api.post('/reservations/guest/confirm_deposit', {
+    confirmation_code: confirmationCode,
+    contact,
+    intent_id: intentId
+  });
+};
+
+/**
+ * Charge a reservation's no-show fee to the saved card
+ */
+export const captureReservationDeposit = async (id: number) => {
+  return api.post(`/reservations/${id}/capture_deposit`);
+};
+
+/**
+ * Release a reservation's saved card without charging it
+ */
+export const releaseReservationDeposit = async (id: number) => {
+  return api.post(`/reservations/${id}/release_deposit`);
+};
+
+/**
+ * Send a reservation's held pre-order to the kitchen
+ */
+export const fireReservationPreOrder = async (id: number) => {
+  return api.post(`/reservations/${id}/fire_pre_order`);
+};
+
 /**
  * Delete a reservation
  */
@@ -41,6 +114,41 @@ export const fetchWaitlistEntries = async (date?: string) => {
   return api.get('/waitlist_entries', params);
 };
 
+/**
+ * Add a party to the waitlist
+ */
+export const createWaitlistEntry = async (data: WaitlistEntryPayload) => {
+  return api.post('/waitlist_entries', data);
+};
+
+/**
+ * Update a waitlist entry (status, quoted wait, notified_at, etc.)
+ */
+export const updateWaitlistEntry = async (id: number, data: WaitlistEntryPayload) => {
+  return api.patch(`/waitlist_entries/${id}`, data);
+};
+
+/**
+ * Text a waiting guest through the restaurant's SMS provider
+ */
+export const notifyWaitlistEntry = async (id: number, message: string) => {
+  return api.post(`/waitlist_entries/${id}/notify`, { message });
+};
+
+/**
+ * Save the order of waiting parties; ids are listed front of the line first
+ */
+export const reorderWaitlist = async (entryIds: number[]) => {
+  return api.post('/waitlist_entries/reorder', { entry_ids: entryIds });
+};
+
+/**
+ * Public position lookup for a guest, authorized by the entry's token
+ */
+export const fetchWaitlistStatus = async (id: number | string, token?: string | null) => {
+  return api.get(`/waitlist_entries/${id}/status`, token ? { token } : {});
+};
+
 /**
  * Fetch availability for a specific date and party size
  */
@@ -0,0 +1,22 @@
+// src/shared/api/endpoints/stockCounts.ts
+import { apiClient } from '../apiClient';
+import { StockCount, StockCountPayload } from '../../../ordering/types/inventory';
+
+export const stockCountsApi = {
+  /**
+   * Get past stock counts, newest first
+   */
+  getAll: async (): Promise<StockCount[]> => {
+    const response = await apiClient.get('/stock_counts');
+    return response.data;
+  },
+
+  /**
+   * Commit a count. Every counted line is adjusted in one batch, each with
+   * an audit entry naming the count.
+   */
+  create: async (stockCount: StockCountPayload): Promise<StockCount> => {
+    const response = await apiClient.post('/stock_counts', { stock_count: stockCount });
+    return response.data;
+  },
+};
@@ -55,4 +55,15 @@ export const stripeApi = {
     });
     return response;
   },
+
+  /**
+   * Cancel a payment intent that will no longer be confirmed, e.g. one
+   * replaced after the order total changed
+   * @param paymentIntentId - The ID of the payment intent to cancel
+   */
+  cancelPaymentIntent: async (paymentIntentId: string): Promise<void> => {
+    await api.post('/stripe/cancel_intent', {
+      payment_intent_id: paymentIntentId,
+    });
+  },
 };
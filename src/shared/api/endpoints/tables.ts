@@ -0,0 +1,12 @@
+// src/shared/api/endpoints/tables.ts
+
+import { api } from '../apiClient';
+import type { SignedTable } from '../../../ordering/types/dineIn';
+
+/**
+ * The table a scanned QR token belongs to. The server rejects tokens it
+ * didn't sign and ones for tables removed from the active layout.
+ */
+export const resolveTableToken = async (token: string): Promise<SignedTable> => {
+  return api.get<SignedTable>('/tables/resolve', { token });
+};
@@ -0,0 +1,35 @@
+// src/shared/api/endpoints/upsellRules.ts
+
+import { api } from '../apiClient';
+import type { UpsellRule, UpsellRuleFormData } from '../../../ordering/types/upsell';
+
+/**
+ * Fetch all upsell rules for the current restaurant
+ */
+export const getUpsellRules = async (): Promise<UpsellRule[]> => {
+  return api.get<UpsellRule[]>('/upsell_rules');
+};
+
+/**
+ * Create a new upsell rule
+ */
+export const createUpsellRule = async (data: UpsellRuleFormData): Promise<UpsellRule> => {
+  return api.post<UpsellRule>('/upsell_rules', { upsell_rule: data });
+};
+
+/**
+ * Update an existing upsell rule
+ */
+export const updateUpsellRule = async (
+  id: number,
+  data: Partial<UpsellRuleFormData>
+): Promise<UpsellRule> => {
+  return api.patch<UpsellRule>(`/upsell_rules/${id}`, { upsell_rule: data });
+};
+
+/**
+ * Delete an upsell rule
+ */
+export const deleteUpsellRule = async (id: number): Promise<void> => {
+  return api.delete(`/upsell_rules/${id}`);
+};
@@ -8,6 +8,9 @@ import { User } from '../../types/auth';
 import { useAuthStore } from '../../auth/authStore';
 import { Input } from '../ui/Input';
 import { ProfileSkeleton } from '../ui/SkeletonLoader';
+import { LoyaltyPointsCard } from '../../../ordering/components/loyalty/LoyaltyPointsCard';
+import { FavoritesSection } from '../../../ordering/components/favorites/FavoritesSection';
+import { MyHouseAccountCard } from '../../../ordering/components/houseAccount/MyHouseAccountCard';
 
 export function ProfilePage() {
   const { user } = useAuth(); // Read the user from shared auth
@@ -108,6 +111,11 @@ export function ProfilePage() {
 
   return (
     <div className="max-w-5xl w-full mx-auto px-4 sm:px-6 py-8">
+      {user && <LoyaltyPointsCard className="mb-8" />}
+      {user && <FavoritesSection className="mb-8" />}
+      {/* Only staff-side users can have a house account */}
+      {user && user.role && user.role !== 'customer' && <MyHouseAccountCard userId={Number(user.id)} />}
+
       <div className="bg-white border border-gray-200 shadow-sm rounded-lg p-6 sm:p-8 md:p-10">
         <h1 className="text-3xl font-bold text-gray-900 mb-8">My Profile</h1>
 
@@ -0,0 +1,119 @@
+// src/shared/components/ui/PendingSyncIndicator.tsx
+
+import React, { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import toastUtils from '../../utils/toastUtils';
+import { useOfflineQueueStore } from '../../store/offlineQueueStore';
+
+export interface PendingSyncIndicatorProps {
+  className?: string;
+}
+
+/**
+ * Shows when the device is offline and how many staff orders are waiting
+ * to be sent. Hidden when online with nothing queued.
+ */
+export const PendingSyncIndicator: React.FC<PendingSyncIndicatorProps> = ({ className = '' }) => {
+  const { isOnline, pending, syncing, lastSyncResult, syncNow, discard, startListening } = useOfflineQueueStore();
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => startListening(), [startListening]);
+
+  // Let staff know how the replay of queued orders went
+  useEffect(() => {
+    if (!lastSyncResult) return;
+    const { synced, failed } = lastSyncResult;
+    if (synced > 0) {
+      toastUtils.success(`${synced} queued order${synced === 1 ? '' : 's'} sent`);
+    }
+    if (failed > 0) {
+      toastUtils.error(`${failed} queued order${failed === 1 ? ' was' : 's were'} rejected. Check the pending list.`);
+    }
+  }, [lastSyncResult]);
+
+  if (isOnline && pending.length === 0) return null;
+
+  const waitingCount = pending.filter((entry) => !entry.failed).length;
+  const failedCount = pending.length - waitingCount;
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`flex items-center px-3 py-1.5 rounded-full text-sm font-medium border ${
+          failedCount > 0
+            ? 'bg-red-50 border-red-200 text-red-700'
+            : 'bg-amber-50 border-amber-200 text-amber-700'
+        }`}
+      >
+        {syncing ? (
+          <RefreshCw className="h-4 w-4 mr-1.5 animate-spin" />
+        ) : (
+          <CloudOff className="h-4 w-4 mr-1.5" />
+        )}
+        {!isOnline && 'Offline'}
+        {!isOnline && pending.length > 0 && ' · '}
+        {pending.length > 0 && `${pending.length} pending sync`}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="p-3 border-b border-gray-100">
+            <p className="text-sm font-medium text-gray-900">
+              {isOnline ? 'Orders waiting to sync' : "You're offline"}
+            </p>
+            <p className="text-xs text-gray-500">
+              Orders created offline are sent automatically when the connection returns.
+            </p>
+          </div>
+          {pending.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">No orders waiting.</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+              {pending.map((entry) => (
+                <li key={entry.id} className="p-3 flex items-start justify-between text-sm">
+                  <div>
+                    <p className="font-medium text-gray-800">{entry.label}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(entry.createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    </p>
+                    {entry.failed && (
+                      <p className="text-xs text-red-600">Rejected by server ({entry.lastError})</p>
+                    )}
+                  </div>
+                  {entry.failed && entry.id !== undefined && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (window.confirm('Discard this order? It will not be sent.')) {
+                          discard(entry.id!);
+                        }
+                      }}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label="Discard order"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {isOnline && waitingCount > 0 && (
+            <div className="p-3 border-t border-gray-100">
+              <button
+                type="button"
+                onClick={() => syncNow()}
+                disabled={syncing}
+                className="w-full px-3 py-1.5 text-sm bg-[#0078d4] text-white rounded-md hover:bg-[#50a3d9] disabled:opacity-60"
+              >
+                {syncing ? 'Syncing...' : 'Sync now'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
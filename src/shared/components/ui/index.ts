@@ -8,3 +8,4 @@ export * from './Tooltip';
 export * from './CachedImage';
 export * from './MobileSelect';
 export * from './SettingsHeader';
+export * from './PendingSyncIndicator';
@@ -0,0 +1,46 @@
+// src/shared/hooks/useUndoHistory.ts
+import { useCallback, useState } from 'react';
+
+/**
+ * Undo/redo stacks for a piece of state the caller already owns.
+ * Call `record()` right before making an undoable change.
+ */
+export function useUndoHistory<T>(present: T, setPresent: (value: T) => void, limit = 50) {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const record = useCallback(() => {
+    setPast((prev) => [...prev, present].slice(-limit));
+    setFuture([]);
+  }, [present, limit]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture([present, ...future]);
+    setPresent(previous);
+  }, [past, future, present, setPresent]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    const [next, ...rest] = future;
+    setFuture(rest);
+    setPast([...past, present].slice(-limit));
+    setPresent(next);
+  }, [past, future, present, setPresent, limit]);
+
+  const reset = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  return {
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    record,
+    undo,
+    redo,
+    reset,
+  };
+}
@@ -1,6 +1,7 @@
 // src/shared/services/PollingManager.ts
 
 import { api } from '../../ordering/lib/api';
+import type { OrderTracking } from '../../ordering/types/order';
 import webSocketManager from './WebSocketManager';
 
 /**
@@ -10,7 +11,8 @@ export enum PollingResourceType {
   ORDERS = 'orders',
   INVENTORY = 'inventory',
   RESTAURANT = 'restaurant',
-  MENU_ITEMS = 'menu_items'
+  MENU_ITEMS = 'menu_items',
+  ORDER_TRACKING = 'order_tracking'
 }
 
 /**
@@ -58,6 +60,7 @@ class PollingManager {
     this.defaultIntervals.set(PollingResourceType.ORDERS, 30000); // 30 seconds
     this.defaultIntervals.set(PollingResourceType.INVENTORY, 60000); // 1 minute
     this.defaultIntervals.set(PollingResourceType.RESTAURANT, 60000); // 1 minute
+    this.defaultIntervals.set(PollingResourceType.ORDER_TRACKING, 15000); // 15 seconds
     
     // Set up periodic check to ensure we're not polling when WebSocket is connected
     setInterval(() => this.checkWebSocketStatus(), 10000); // Check every 10 seconds
@@ -328,6 +331,9 @@ class PollingManager {
         case PollingResourceType.RESTAURANT:
           data = await this.pollRestaurant(pollOptions);
           break;
+        case PollingResourceType.ORDER_TRACKING:
+          data = await this.pollOrderTracking(pollOptions);
+          break;
         default:
           console.error(`[PollingManager] Unknown polling type: ${entry.type}`);
           return;
@@ -426,6 +432,32 @@ class PollingManager {
     }
   }
   
+  /**
+   * Poll the public tracking view of a single order
+   * @param options The polling options (params.token carries the signed tracking token)
+   * @returns The poll results
+   */
+  private async pollOrderTracking(options: PollingOptions): Promise<OrderTracking | null> {
+    const { resourceId, params = {} } = options;
+    
+    if (!resourceId) {
+      console.error('[PollingManager] No order ID provided for order tracking polling');
+      return null;
+    }
+    
+    try {
+      const response = await api.get<OrderTracking>(
+        `/orders/${resourceId}/track`,
+        { ...params, _sourceId: options.sourceId || 'polling' },
+        { silent: true } // Always use silent mode for polling
+      );
+      return response;
+    } catch (error) {
+      console.error(`[PollingManager] Error polling order tracking ${resourceId}:`, error);
+      return null;
+    }
+  }
+  
   /**
    * Get the status of a polling operation
    * @param pollingId The polling ID
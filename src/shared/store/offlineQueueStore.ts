@@ -0,0 +1,207 @@
+// src/shared/store/offlineQueueStore.ts
+
+import { create } from 'zustand';
+import { config } from '../config';
+import {
+  addQueuedRequest,
+  claimQueuedRequest,
+  getQueuedRequests,
+  removeQueuedRequest,
+  updateQueuedRequest,
+  ORDER_QUEUE_SYNC_TAG,
+  QueuedRequest
+} from '../utils/offlineDb';
+
+// SyncManager isn't in the default TypeScript DOM lib yet
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+interface OfflineQueueState {
+  isOnline: boolean;
+  /** Queued orders, including ones the server rejected */
+  pending: QueuedRequest[];
+  syncing: boolean;
+  /** Outcome of the most recent replay, from the page or the service worker */
+  lastSyncResult: { synced: number; failed: number; at: number } | null;
+
+  refreshPending: () => Promise<void>;
+  /** `idempotencyKey` should be the one the failed online attempt was sent with */
+  queueOrder: (payload: unknown, label: string, idempotencyKey: string) => Promise<QueuedRequest>;
+  syncNow: () => Promise<void>;
+  discard: (id: number) => Promise<void>;
+  /** Starts listening for connectivity changes and service worker sync results */
+  startListening: () => () => void;
+}
+
+// Stored with the queued request. The auth token is deliberately left out
+// so it never sits in IndexedDB; see buildReplayHeaders.
+function buildHeaders(): Record<string, string> {
+  const restaurantId = config.restaurantId;
+  return {
+    'Content-Type': 'application/json',
+    'X-Frontend-ID': 'shimizu_technology',
+    'X-Frontend-Restaurant-ID': restaurantId,
+    'X-Restaurant-ID': restaurantId
+  };
+}
+
+function buildReplayHeaders(entry: QueuedRequest): Record<string, string> {
+  const replayHeaders: Record<string, string> = { ...entry.headers };
+  // Entries queued by older builds may still carry a stored token
+  delete replayHeaders.Authorization;
+  if (entry.idempotencyKey) {
+    replayHeaders['Idempotency-Key'] = entry.idempotencyKey;
+  }
+  const token = localStorage.getItem('token');
+  if (token) {
+    replayHeaders.Authorization = `Bearer ${token}`;
+  }
+  return replayHeaders;
+}
+
+async function getSyncRegistration(): Promise<SyncCapableRegistration | undefined> {
+  if (!('serviceWorker' in navigator)) return undefined;
+  const registration = (await navigator.serviceWorker.getRegistration()) as SyncCapableRegistration | undefined;
+  return registration?.sync ? registration : undefined;
+}
+
+export const useOfflineQueueStore = create<OfflineQueueState>((set, get) => ({
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pending: [],
+  syncing: false,
+  lastSyncResult: null,
+
+  refreshPending: async () => {
+    try {
+      set({ pending: await getQueuedRequests() });
+    } catch (err) {
+      console.warn('[OfflineQueue] Could not read queued orders:', err);
+    }
+  },
+
+  // Save the order request so it can be replayed once we're back online
+  queueOrder: async (payload, label, idempotencyKey) => {
+    const entry: QueuedRequest = {
+      url: `${config.apiBaseUrl}/orders?restaurant_id=${config.restaurantId}`,
+      method: 'POST',
+      headers: buildHeaders(),
+      body: JSON.stringify(payload),
+      idempotencyKey,
+      label,
+      createdAt: new Date().toISOString(),
+      attempts: 0
+    };
+    entry.id = await addQueuedRequest(entry);
+    await get().refreshPending();
+
+    // Let the service worker replay the queue even if this tab is closed.
+    // Browsers without Background Sync fall back to the 'online' listener.
+    try {
+      const registration = await getSyncRegistration();
+      await registration?.sync?.register(ORDER_QUEUE_SYNC_TAG);
+    } catch (err) {
+      console.warn('[OfflineQueue] Background sync registration failed:', err);
+    }
+
+    return entry;
+  },
+
+  // Replay queued orders from the page. Used when Background Sync isn't
+  // supported, or when staff retry manually.
+  syncNow: async () => {
+    if (get().syncing) return;
+    set({ syncing: true });
+    let synced = 0;
+    let failed = 0;
+    try {
+      const queued = await getQueuedRequests();
+      for (const queuedEntry of queued) {
+        if (queuedEntry.failed || queuedEntry.id === undefined) continue;
+
+        // Skip entries the service worker is already sending
+        const entry = await claimQueuedRequest(queuedEntry.id);
+        if (!entry || entry.id === undefined) continue;
+
+        let response: Response;
+        try {
+          response = await fetch(entry.url, {
+            method: entry.method,
+            headers: buildReplayHeaders(entry),
+            body: entry.body
+          });
+        } catch {
+          // Still offline; release the claim and try again later
+          await updateQueuedRequest({ ...entry, claimedAt: undefined });
+          break;
+        }
+
+        if (response.ok) {
+          await removeQueuedRequest(entry.id);
+          synced++;
+        } else {
+          if (response.status < 500) failed++;
+          await updateQueuedRequest({
+            ...entry,
+            claimedAt: undefined,
+            attempts: entry.attempts + 1,
+            failed: response.status < 500,
+            lastError: `${response.status} ${response.statusText}`
+          });
+        }
+      }
+    } catch (err) {
+      console.error('[OfflineQueue] Sync failed:', err);
+    } finally {
+      set({ syncing: false, lastSyncResult: { synced, failed, at: Date.now() } });
+      await get().refreshPending();
+    }
+  },
+
+  discard: async (id) => {
+    await removeQueuedRequest(id);
+    await get().refreshPending();
+  },
+
+  startListening: () => {
+    const handleOnline = async () => {
+      set({ isOnline: true });
+      // The service worker handles replay when Background Sync is available
+      if (!(await getSyncRegistration())) {
+        get().syncNow();
+      }
+    };
+    const handleOffline = () => set({ isOnline: false });
+    const handleMessage = (event: MessageEvent) => {
+      // The service worker can't read localStorage, so it asks for the
+      // session token when it replays the queue
+      if (event.data?.type === 'GET_AUTH_TOKEN') {
+        event.ports[0]?.postMessage({ token: localStorage.getItem('token') });
+        return;
+      }
+      if (event.data?.type === 'ORDER_QUEUE_SYNCED') {
+        const { synced = 0, failed = 0 } = event.data;
+        set({ lastSyncResult: { synced, failed, at: Date.now() } });
+        get().refreshPending();
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+
+    // Catch up on orders the service worker couldn't send without a signed-in window.
+    // Claims keep this from double-sending anything the service worker is replaying.
+    if (navigator.onLine) {
+      get().syncNow();
+    } else {
+      get().refreshPending();
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }
+}));
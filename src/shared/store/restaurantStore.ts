@@ -8,6 +8,10 @@ import {
   setCurrentEvent as apiSetCurrentEvent 
 } from '../api/endpoints/restaurants';
 import { config } from '../config';
+import { saveCatalog, loadCatalog } from '../utils/offlineDb';
+import { isNetworkError } from '../utils/errorHandler';
+
+const RESTAURANT_CATALOG_KEY = 'restaurant';
 
 // Menu layout preferences interface
 export interface MenuLayoutPreferences {
@@ -68,7 +72,16 @@ export const useRestaurantStore = create<RestaurantStore>((set, get) => ({
       const restaurantId = parseInt(config.restaurantId);
       const data = await fetchRestaurant(restaurantId);
       set({ restaurant: data as Restaurant, loading: false });
+      // The menu needs restaurant context, so keep a copy for offline browsing
+      saveCatalog(RESTAURANT_CATALOG_KEY, data).catch(() => undefined);
     } catch (err: any) {
+      if (isNetworkError(err)) {
+        const cached = await loadCatalog<Restaurant>(RESTAURANT_CATALOG_KEY).catch(() => null);
+        if (cached) {
+          set({ restaurant: cached, loading: false });
+          return;
+        }
+      }
       console.error('Failed to fetch restaurant:', err);
       set({ 
         error: err.message || 'Failed to fetch restaurant', 
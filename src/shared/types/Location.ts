@@ -28,3 +28,37 @@ export interface LocationPayload {
   is_active?: boolean;
   is_default?: boolean;
 }
+
+/**
+ * Per-location override for a menu item. Null price/stock fall back to the
+ * item's restaurant-wide values.
+ */
+export interface LocationMenuItemOverride {
+  id?: number;
+  location_id: number;
+  menu_item_id: string;
+  available: boolean;
+  price?: number | null;
+  stock_quantity?: number | null;
+}
+
+/**
+ * Interface for menu item override create/update payload
+ */
+export type LocationMenuItemOverridePayload = Pick<
+  LocationMenuItemOverride,
+  'available' | 'price' | 'stock_quantity'
+>;
+
+/**
+ * Operating hours for one location and weekday; replaces the restaurant's
+ * hours for that day
+ */
+export interface LocationOperatingHour {
+  id?: number;
+  location_id: number;
+  day_of_week: number; // 0-6, where 0 is Sunday
+  open_time: string | null;
+  close_time: string | null;
+  closed: boolean;
+}
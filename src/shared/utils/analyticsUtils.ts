@@ -58,6 +58,10 @@ export const EventNames = {
   CHECKOUT_STARTED: 'checkout_started',
   CHECKOUT_COMPLETED: 'checkout_completed',
   RESERVATION_MADE: 'reservation_made',
+  UPSELL_IMPRESSION: 'upsell_impression',
+  UPSELL_ACCEPTED: 'upsell_accepted',
+  UPSELL_DISMISSED: 'upsell_dismissed',
+  UPSELL_CONVERTED: 'upsell_converted',
   
   // Admin events
   ADMIN_MENU_ITEM_CREATED: 'admin.menu_item_created',
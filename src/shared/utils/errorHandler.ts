@@ -1,5 +1,15 @@
 // src/shared/utils/errorHandler.ts
 
+/**
+ * Returns true for errors where the request never reached the server,
+ * as opposed to the server rejecting it.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const err = error as { response?: unknown; code?: string; message?: string } | null;
+  return !!err && !err.response && (err.code === 'ERR_NETWORK' || err.message === 'Network Error');
+}
+
 /**
  * Handles API errors and returns a user-friendly error message
  * @param error The error object from the API call
@@ -0,0 +1,152 @@
+// src/shared/utils/offlineDb.ts
+
+/**
+ * Minimal IndexedDB wrapper for offline support.
+ *
+ * public/service-worker.js opens the same database to replay queued
+ * orders, so keep the names and version below in sync with it.
+ */
+
+export const OFFLINE_DB_NAME = 'shimizu-offline';
+export const OFFLINE_DB_VERSION = 1;
+const CATALOG_STORE = 'catalog';
+const ORDER_QUEUE_STORE = 'orderQueue';
+
+/** Background sync tag the service worker listens for */
+export const ORDER_QUEUE_SYNC_TAG = 'order-queue';
+
+/**
+ * How long a replay claim holds an entry. A claim older than this is
+ * assumed to belong to a replay that died (e.g. a closed tab).
+ */
+export const QUEUE_CLAIM_TTL_MS = 60 * 1000;
+
+export interface QueuedRequest {
+  id?: number;
+  url: string;
+  method: 'POST';
+  /** Never includes Authorization; the current session token is added at replay */
+  headers: Record<string, string>;
+  body: string;
+  /** Sent as Idempotency-Key so the server creates the order once however often it's replayed */
+  idempotencyKey?: string;
+  /** When the page or the service worker started replaying this entry */
+  claimedAt?: number;
+  /** Short description shown in the pending list, e.g. contact name and total */
+  label: string;
+  createdAt: string;
+  attempts: number;
+  /** Set when the server rejected the request; these are not retried automatically */
+  failed?: boolean;
+  lastError?: string;
+}
+
+interface CatalogEntry<T> {
+  key: string;
+  data: T;
+  savedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+          db.createObjectStore(CATALOG_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(ORDER_QUEUE_STORE)) {
+          db.createObjectStore(ORDER_QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Saves a copy of catalog data (menu items, categories) for offline browsing
+ */
+export function saveCatalog<T>(key: string, data: T): Promise<void> {
+  const entry: CatalogEntry<T> = { key, data, savedAt: new Date().toISOString() };
+  return runRequest<IDBValidKey>(CATALOG_STORE, 'readwrite', (store) => store.put(entry)).then(() => undefined);
+}
+
+/**
+ * Loads previously saved catalog data, or null if nothing was saved
+ */
+export async function loadCatalog<T>(key: string): Promise<T | null> {
+  const entry = await runRequest<CatalogEntry<T> | undefined>(CATALOG_STORE, 'readonly', (store) => store.get(key));
+  return entry ? entry.data : null;
+}
+
+export function addQueuedRequest(entry: QueuedRequest): Promise<number> {
+  return runRequest<number>(ORDER_QUEUE_STORE, 'readwrite', (store) => store.add(entry));
+}
+
+export function getQueuedRequests(): Promise<QueuedRequest[]> {
+  return runRequest<QueuedRequest[]>(ORDER_QUEUE_STORE, 'readonly', (store) => store.getAll());
+}
+
+export function updateQueuedRequest(entry: QueuedRequest): Promise<void> {
+  return runRequest<IDBValidKey>(ORDER_QUEUE_STORE, 'readwrite', (store) => store.put(entry)).then(() => undefined);
+}
+
+/**
+ * Marks an entry as being replayed so the page and the service worker don't
+ * send it at the same time. The read and write share one transaction, so
+ * only one of them can win the claim.
+ *
+ * @returns The claimed entry, or null if it's gone, rejected or already claimed
+ */
+export async function claimQueuedRequest(id: number, now = Date.now()): Promise<QueuedRequest | null> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(ORDER_QUEUE_STORE, 'readwrite').objectStore(ORDER_QUEUE_STORE);
+    const getRequest = store.get(id);
+    getRequest.onsuccess = () => {
+      const entry = getRequest.result as QueuedRequest | undefined;
+      if (!entry || entry.failed || (entry.claimedAt && now - entry.claimedAt < QUEUE_CLAIM_TTL_MS)) {
+        resolve(null);
+        return;
+      }
+      const claimed: QueuedRequest = {
+        ...entry,
+        claimedAt: now,
+        idempotencyKey: entry.idempotencyKey || crypto.randomUUID()
+      };
+      const putRequest = store.put(claimed);
+      putRequest.onsuccess = () => resolve(claimed);
+      putRequest.onerror = () => reject(putRequest.error);
+    };
+    getRequest.onerror = () => reject(getRequest.error);
+  });
+}
+
+export function removeQueuedRequest(id: number): Promise<void> {
+  return runRequest<undefined>(ORDER_QUEUE_STORE, 'readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,103 @@
+// src/shared/utils/timeZoneUtils.ts
+
+// Used when the restaurant record has no time_zone set
+export const DEFAULT_TIME_ZONE = 'Pacific/Guam';
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0-6, where 0 is Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * The wall-clock date and time of an instant in the given time zone
+ */
+export function getZonedParts(date: Date, timeZone: string = DEFAULT_TIME_ZONE): ZonedParts {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      parts[part.type] = part.value;
+    });
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * "YYYY-MM-DD" for an instant, as a calendar date in the given time zone
+ */
+export function getZonedDateKey(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes since midnight for an instant, on the given time zone's clock
+ */
+export function getZonedMinutes(date: Date, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * Adds whole days to a "YYYY-MM-DD" key without going through local time
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/** 0-6 (Sunday first) for a "YYYY-MM-DD" key */
+export function getDateKeyWeekday(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * The instant when the given time zone's clock reads `minutes` past midnight
+ * on `dateKey`. Minutes past 24h roll into the next day.
+ */
+export function zonedTimeToDate(dateKey: string, minutes: number, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // Offset between the wall clock and UTC; checked twice to settle across DST changes
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    const seen = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    instant += wallClock - seen;
+  }
+  return new Date(instant);
+}